@@ -1,32 +1,79 @@
 import express from "express";
 import cors from "cors";
-import { exec } from "child_process";
-import { promisify } from "util";
 import SpotifyWebApi from "spotify-web-api-node";
 import dotenv from "dotenv";
 import axios from "axios";
+import os from "os";
+import { loadPiConfig } from "./server/piConfig.js";
+import { createEventStream } from "./server/eventStream.js";
+import { createPairingStore, isLoopbackRequest } from "./server/pairing.js";
+import { createSimulatedPi } from "./server/simulator.js";
+import { CommandValidationError, createCommandExecutor, validate } from "./server/commandExecutor.js";
+import { createDiscoveryService, lanAddress } from "./server/discovery.js";
+import { createBluetoothControl, createBluetoothRouter } from "./server/bluetoothControl.js";
+import { BluetoothStepError } from "./server/bluetoothAgent.js";
+import { createAutoReconnect, createKnownDeviceStore } from "./server/knownDevices.js";
+import { BLUETOOTH_SINK_WAIT, createAudioSinks } from "./server/audioSinks.js";
+import { createBatteryMonitor } from "./server/bluetoothBattery.js";
+import { createTelemetryHistory, TELEMETRY_METRICS, TELEMETRY_RANGES } from "./server/telemetryHistory.js";
+import { createThermalMonitor } from "./server/thermalMonitor.js";
+import { createProcessManager, ProcessActionError, PROTECTED_COMMANDS } from "./server/processManager.js";
 
 // Load environment variables
 dotenv.config();
 
 const app = express();
 const PORT = 5000;
-const execAsync = promisify(exec);
-
-// Pi Configuration
-const PI_CONFIG = {
-  host: "192.168.234.180",
-  port: 5000,
-  endpoints: {
-    spotifyMirror: "/api/pi/spotify-mirror",
-    spotifyCredentials: "/api/pi/spotify-credentials",
+
+// Simulator mode (`npm run server:sim` or PI_SIMULATOR=1) answers every route
+// from an in-memory fake Pi, for development without hardware
+const simulator =
+  process.argv.includes("--simulate") || process.env.PI_SIMULATOR === "1"
+    ? createSimulatedPi({ port: PORT })
+    : null;
+
+// Every system command goes through one executor: argv arrays (no shell),
+// validated arguments and an audit log. Dry-run mode (--dry-run or
+// PI_DRY_RUN=1) records mutating commands without running them.
+const executor = createCommandExecutor({
+  dryRun: process.argv.includes("--dry-run") || process.env.PI_DRY_RUN === "1",
+  runner: simulator?.run,
+});
+
+// Run a command that only reads state; it also runs in dry-run mode
+const readCommand = async (program, args) =>
+  (await executor.run(program, args, { readOnly: true })).stdout;
+
+// Output routing; Bluetooth sinks are labelled with the remembered speaker names
+const audioSinks = createAudioSinks({
+  executor,
+  deviceName: (mac) => {
+    const known = knownDevices.find(mac);
+    return known?.nickname || known?.name;
   },
-  timeout: 5000,
+});
+
+const DEFAULT_AUDIO_SINK = "alsa_output.platform-bcm2835_audio.analog-mono";
+// Battery percentage below which a connected device raises bluetooth.battery.low
+const LOW_BATTERY_THRESHOLD = Number(process.env.BLUETOOTH_LOW_BATTERY) || 20;
+const BACKLIGHT_PATH = "/sys/class/backlight/rpi_backlight/brightness";
+// SoC temperatures (°C) at which system.thermal reports warning and critical
+const THERMAL_THRESHOLDS = {
+  warning: Number(process.env.THERMAL_WARNING_C) || 70,
+  critical: Number(process.env.THERMAL_CRITICAL_C) || 80,
 };
-const PI_AUTH_TOKEN = process.env.PI_AUTH_TOKEN || "my-super-secret-pi-token";
+
+// Bad request values are the client's fault; everything else is ours
+const commandErrorStatus = (error) => (error instanceof CommandValidationError ? 400 : 500);
+
+// Pi Configuration (pi.config.json, see server/piConfig.js)
+const PI_CONFIG = loadPiConfig();
+const PI_AUTH_TOKEN = PI_CONFIG.authToken;
 
 // Helper function to send data to Pi
 async function sendToPi(endpoint, data) {
+  if (simulator) return simulator.sendToPi(endpoint, data);
+
   const url = `http://${PI_CONFIG.host}:${PI_CONFIG.port}${endpoint}`;
   try {
     console.log(`📡 Sending to Pi: ${url}`, data);
@@ -34,7 +81,7 @@ async function sendToPi(endpoint, data) {
     const response = await axios.post(url, data, {
       headers: {
         "Content-Type": "application/json",
-        Authorization: `Bearer ${PI_AUTH_TOKEN}`,
+        ...(PI_AUTH_TOKEN ? { Authorization: `Bearer ${PI_AUTH_TOKEN}` } : {}),
       },
       timeout: PI_CONFIG.timeout,
     });
@@ -56,13 +103,15 @@ async function sendToPi(endpoint, data) {
 }
 
 // Spotify API setup
-const spotifyApi = new SpotifyWebApi({
-  clientId: process.env.SPOTIFY_CLIENT_ID,
-  clientSecret: process.env.SPOTIFY_CLIENT_SECRET,
-  redirectUri:
-    process.env.SPOTIFY_REDIRECT_URI ||
-    "https://myspotifytest.loca.lt/api/spotify/callback",
-});
+const spotifyApi = simulator
+  ? simulator.spotifyApi
+  : new SpotifyWebApi({
+      clientId: process.env.SPOTIFY_CLIENT_ID,
+      clientSecret: process.env.SPOTIFY_CLIENT_SECRET,
+      redirectUri:
+        process.env.SPOTIFY_REDIRECT_URI ||
+        "https://myspotifytest.loca.lt/api/spotify/callback",
+    });
 
 // Spotify access token storage (in production, use a proper database)
 let spotifyTokens = {
@@ -74,32 +123,152 @@ let spotifyTokens = {
 app.use(cors());
 app.use(express.json());
 
+// ========================================
+// CLIENT PAIRING
+// ========================================
+const pairing = createPairingStore({
+  filePath: process.env.PAIRED_CLIENTS_PATH || "paired-clients.json",
+  // Phones scan the QR code to reach this backend, not the Pi it proxies to
+  getHost: () => process.env.PAIRING_HOST || lanAddress() || os.hostname(),
+  port: PORT,
+});
+
+// Current one-time code and QR payload - only shown on the monitor itself
+app.get("/api/pair/code", (req, res) => {
+  if (!isLoopbackRequest(req)) {
+    return res.status(403).json({
+      success: false,
+      error: "The pairing code can only be read on the monitor",
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  res.json({
+    success: true,
+    ...pairing.getPairingCode(),
+    timestamp: new Date().toISOString(),
+  });
+});
+
+// Trade the one-time code for a per-client bearer token
+app.post("/api/pair", (req, res) => {
+  const { code, clientName } = req.body || {};
+  const result = pairing.pair(code, clientName);
+
+  if (!result) {
+    return res.status(403).json({
+      success: false,
+      error: "Invalid or expired pairing code",
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  res.json({
+    success: true,
+    token: result.token,
+    client: result.client,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+// ✅ Every mutating route below requires a paired client
+app.use(pairing.guardMutations);
+
+app.get("/api/pair/clients", pairing.requirePairedClient, (req, res) => {
+  res.json({
+    success: true,
+    clients: pairing.listClients(),
+    currentClientId: req.pairedClient.id,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+app.delete("/api/pair/clients/:id", (req, res) => {
+  if (!pairing.revoke(req.params.id)) {
+    return res.status(404).json({
+      success: false,
+      error: "Paired client not found",
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  res.json({
+    success: true,
+    message: "Client revoked",
+    timestamp: new Date().toISOString(),
+  });
+});
+
 // Global variables for system info caching
 let cachedSystemInfo = null;
 let piConnected = false; // Will be determined by actual system checks
 let lastSystemInfoUpdate = 0;
 
+// Live event stream (system telemetry, Bluetooth, controls, Spotify, wallpapers)
+const events = createEventStream();
+
+// bluetoothctl behind a validated API (scan, pair, trust, connect, ...),
+// shared with pi-backend-bluetooth.js
+const bluetooth = createBluetoothControl({ executor, publish: events.publish });
+const TELEMETRY_INTERVAL = 10000;
+const SPOTIFY_POLL_INTERVAL = 5000;
+
 // ✅ Health check
 app.get("/", (req, res) => {
   res.send("SmartMonitor backend is running 🎯");
 });
 
-// ✅ API Root endpoint (for endpoint discovery)
-app.get("/api", (req, res) => {
-  res.json({
-    success: true,
-    message: "SmartMonitor API",
-    version: "1.0.0",
-    endpoints: [
-      "/api/status",
-      "/api/pi/status",
+// Features this backend implements, with the routes behind each one. The
+// frontend hides or badges UI for features that are missing here.
+const API_VERSION = "1.0.0";
+const CAPABILITIES = [
+  { name: "status", version: "1.0.0", routes: ["/api/status", "/api/pi/status"] },
+  { name: "pairing", version: "1.0.0", routes: ["/api/pair", "/api/pair/code", "/api/pair/clients"] },
+  { name: "events", version: "1.0.0", routes: ["/api/events"] },
+  { name: "discovery", version: "1.0.0", routes: ["/api/discovery/peers"] },
+  {
+    name: "system",
+    version: "1.3.0",
+    routes: [
       "/api/system/info",
+      "/api/system/history",
+      "/api/system/status",
+      "/api/system/processes",
+      "/api/system/volume",
+      "/api/system/brightness",
+      "/api/system/screen",
+      "/api/system/shutdown",
+      "/api/system/reboot",
+      "/api/system/commands",
+    ],
+  },
+  {
+    name: "audio",
+    version: "1.0.0",
+    routes: ["/api/audio/sinks", "/api/audio/sinks/default", "/api/audio/sinks/volume", "/api/audio/combined"],
+  },
+  {
+    name: "bluetooth",
+    version: "1.5.0",
+    routes: [
       "/api/bluetooth",
       "/api/bluetooth/status",
       "/bluetooth/connected",
       "/bluetooth/scan",
+      "/bluetooth/scan/start",
+      "/bluetooth/scan/stop",
+      "/bluetooth/pairing/prompts",
+      "/bluetooth/pairing/respond",
+      "/bluetooth/known",
+      "/bluetooth/audio",
       "/bluetooth/connect",
       "/bluetooth/disconnect",
+    ],
+  },
+  {
+    name: "spotify",
+    version: "1.0.0",
+    routes: [
       "/api/spotify/auth",
       "/api/spotify/callback",
       "/api/spotify/status",
@@ -114,10 +283,46 @@ app.get("/api", (req, res) => {
       "/api/pi/spotify-credentials/status",
       "/api/pi/spotify-mirror",
       "/api/pi/spotify-mirror-control",
-      "/api/wallpapers",
-      "/api/wallpapers/set",
-      "/api/wallpapers/status",
     ],
+  },
+  {
+    name: "wallpapers",
+    version: "1.0.0",
+    routes: ["/api/wallpapers", "/api/wallpapers/set", "/api/wallpapers/status"],
+  },
+];
+
+// ✅ API Root endpoint (for endpoint discovery)
+app.get("/api", (req, res) => {
+  res.json({
+    success: true,
+    message: "SmartMonitor API",
+    version: API_VERSION,
+    endpoints: CAPABILITIES.flatMap((feature) => feature.routes),
+    features: CAPABILITIES,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+// ========================================
+// LAN DISCOVERY
+// ========================================
+// Set PI_DISCOVERY=0 to stop announcing this monitor on the network
+const discovery = createDiscoveryService({
+  name: process.env.MONITOR_NAME || os.hostname(),
+  port: PORT,
+  version: API_VERSION,
+  capabilities: () => CAPABILITIES.map((feature) => feature.name),
+});
+const discoveryEnabled = process.env.PI_DISCOVERY !== "0";
+
+// Other monitors heard on the LAN, plus how this one announces itself
+app.get("/api/discovery/peers", (req, res) => {
+  res.json({
+    success: true,
+    enabled: discoveryEnabled,
+    self: discovery.self(),
+    peers: discovery.getPeers(),
     timestamp: new Date().toISOString(),
   });
 });
@@ -193,11 +398,6 @@ app.get("/bluetooth", (req, res) => {
   res.redirect(308, "/api/bluetooth/status");
 });
 
-app.get("/bluetooth/status", (req, res) => {
-  // Redirect to the actual bluetooth status endpoint
-  res.redirect(308, "/api/bluetooth/status");
-});
-
 app.get("/temperature", (req, res) => {
   // Redirect to the temperature info endpoint
   res.redirect(308, "/api/temperature");
@@ -268,6 +468,10 @@ app.get("/api/pi/status", async (req, res) => {
   }
 });
 
+// ✅ NEW: Live event stream (SSE) - replaces frontend polling. Paired clients
+// only; EventSource cannot set headers, so the token may come as ?token=
+app.get("/api/events", pairing.requirePairedStream, events.handler);
+
 // ✅ NEW: System info endpoint (fetches fresh data on each request - no Pi connection check)
 app.get("/api/system/info", async (req, res) => {
   try {
@@ -297,143 +501,114 @@ app.get("/api/system/info", async (req, res) => {
   }
 });
 
-// ✅ NEW: Main Bluetooth API endpoint (matches frontend expectations)
-app.post("/api/bluetooth", async (req, res) => {
-  try {
-    const { command, params } = req.body;
-    console.log("🎵 Bluetooth command received:", command, params);
-
-    switch (command) {
-      case "bluetooth_scan":
-        const scanResult = await scanBluetoothDevices();
-        res.json({
-          success: true,
-          message: "Bluetooth scan completed",
-          data: scanResult,
-        });
-        break;
-
-      case "bluetooth_audio_connect":
-        // Handle both MAC address and encoded device ID
-        let deviceId = params.deviceId;
-
-        // If deviceId looks like base64, try to decode it
-        if (deviceId && deviceId.includes("=") && !deviceId.includes(":")) {
-          console.log(
-            `⚠️ Received encoded device ID: ${deviceId}, this might not be a MAC address`
-          );
-          // For now, we'll return an error and ask the frontend to use Pi scanning
-          res.status(400).json({
-            success: false,
-            error:
-              "Invalid device ID format. Please use the Pi Bluetooth scanner to get proper MAC addresses.",
-            needsPiScan: true,
-          });
-          return;
-        }
+// Telemetry sampled in the background (TELEMETRY_SAMPLE_SECONDS, default 60)
+// for the history graphs, whether or not anyone is listening
+const telemetryHistory = createTelemetryHistory({
+  filePath: process.env.TELEMETRY_HISTORY_PATH || "telemetry-history.json",
+  sample: () => getSystemInfo(),
+  intervalMs: (Number(process.env.TELEMETRY_SAMPLE_SECONDS) || 60) * 1000,
+});
 
-        const connectResult = await connectBluetoothAudio(
-          deviceId,
-          params.deviceName
-        );
-        res.json({
-          success: true,
-          message: `Connected to ${params.deviceName}`,
-          data: connectResult,
-        });
-        break;
-
-      case "bluetooth_audio_disconnect":
-        const disconnectResult = await disconnectBluetoothAudio();
-        res.json({
-          success: true,
-          message: "Bluetooth audio disconnected",
-          data: disconnectResult,
-        });
-        break;
-
-      default:
-        res.status(400).json({
-          success: false,
-          error: "Unknown Bluetooth command",
-        });
-    }
-  } catch (error) {
-    console.error("Bluetooth command error:", error);
-    res.status(500).json({
+// Temperature level and decoded throttling flags, checked in the background
+// and reported with /api/system/status
+const thermalMonitor = createThermalMonitor({
+  readTemperature: async () =>
+    Math.round(parseInt(await readCommand("cat", ["/sys/class/thermal/thermal_zone0/temp"])) / 100) / 10,
+  readThrottled: () => readCommand("vcgencmd", ["get_throttled"]),
+  publish: events.publish,
+  thresholds: THERMAL_THRESHOLDS,
+});
+
+// ?metric=cpu|temperature|memory|storage&range=1h|24h|7d|30d
+app.get("/api/system/history", (req, res) => {
+  const { metric = "cpu", range = "1h" } = req.query;
+  if (!Object.hasOwn(TELEMETRY_METRICS, metric) || !TELEMETRY_RANGES.includes(range)) {
+    return res.status(400).json({
       success: false,
-      error: error.message || "Bluetooth operation failed",
+      error: `metric must be one of ${Object.keys(TELEMETRY_METRICS).join(", ")}; range one of ${TELEMETRY_RANGES.join(", ")}`,
+      timestamp: new Date().toISOString(),
     });
   }
+
+  res.json({ success: true, ...telemetryHistory.query(metric, range), timestamp: new Date().toISOString() });
 });
 
-// ✅ NEW: Get Bluetooth status
-app.get("/api/bluetooth/status", async (req, res) => {
+// Top processes, with kill and renice behind a confirmation token. PROCESS_DENYLIST
+// (comma-separated command names) adds to the protected services.
+const processes = createProcessManager({
+  executor,
+  protectedCommands: [
+    ...PROTECTED_COMMANDS,
+    ...(process.env.PROCESS_DENYLIST || "").split(",").map((name) => name.trim()).filter(Boolean),
+  ],
+});
+
+const processErrorStatus = (error) =>
+  error instanceof ProcessActionError ? error.status : commandErrorStatus(error);
+
+// ?limit=15: the top N by CPU together with the top N by memory
+app.get("/api/system/processes", async (req, res) => {
+  try {
+    res.json({ success: true, ...(await processes.list({ limit: req.query.limit })), timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("❌ Process list error:", error.message);
+    res.status(500).json({ success: false, error: error.message, timestamp: new Date().toISOString() });
+  }
+});
+
+// Both actions take two requests: the first ({ signal } or { priority }) answers
+// with a confirmToken, the second repeats it with the token and runs it
+const processAction = (action) => async (req, res) => {
   try {
-    const status = await getBluetoothStatus();
+    const result = await processes[action](req.params.pid, req.body ?? {});
+    if (result.confirmToken) {
+      return res.json({ success: true, confirmationRequired: true, ...result, timestamp: new Date().toISOString() });
+    }
+
     res.json({
       success: true,
-      data: status,
+      message: action === "kill" ? `Signal sent to ${result.command}` : `${result.command} reniced`,
+      process: result,
+      timestamp: new Date().toISOString(),
     });
   } catch (error) {
-    console.error("Bluetooth status error:", error);
-    res.status(500).json({
-      success: false,
-      error: error.message || "Failed to get Bluetooth status",
-    });
+    console.error(`❌ Process ${action} error:`, error.message);
+    res.status(processErrorStatus(error)).json({ success: false, error: error.message, timestamp: new Date().toISOString() });
   }
-});
+};
+
+app.post("/api/system/processes/:pid/kill", processAction("kill"));
+app.post("/api/system/processes/:pid/renice", processAction("renice"));
+
+// Pending pairing prompts carry passkeys, so only paired clients may read them
+app.get("/bluetooth/pairing/prompts", pairing.requirePairedClient);
+
+// Bluetooth audio routes shared with pi-backend-bluetooth.js: /api/bluetooth
+// commands, status, connect, disconnect, pairing prompts and /connect-speaker
+app.use(
+  createBluetoothRouter({
+    bluetooth,
+    audio: {
+      connect: connectBluetoothAudio,
+      disconnect: disconnectSpecificBluetoothDevice,
+      disconnectAll: disconnectBluetoothAudio,
+      status: getBluetoothStatus,
+    },
+  })
+);
 
 // ✅ NEW: Get currently connected devices for frontend
 app.get("/bluetooth/connected", async (req, res) => {
   try {
     console.log("📱 Checking for connected Bluetooth devices...");
 
-    const { stdout: allDevices } = await execAsync("bluetoothctl devices");
-    const deviceLines = allDevices.trim().split("\n").filter(Boolean);
-
-    const connectedDevices = [];
-
-    for (const line of deviceLines) {
-      const parts = line.split(" ");
-      const deviceId = parts[1];
-      const deviceName = parts.slice(2).join(" ");
-
-      if (deviceId) {
-        try {
-          const { stdout: deviceInfo } = await execAsync(
-            `bluetoothctl info ${deviceId}`
-          );
-          if (deviceInfo.includes("Connected: yes")) {
-            // Check if it's an audio device
-            const isAudioDevice =
-              deviceInfo.includes("Audio Sink") ||
-              deviceInfo.includes("A2DP") ||
-              deviceInfo.includes("audio");
-
-            connectedDevices.push({
-              id: deviceId,
-              name: deviceName || "Unknown Device",
-              mac: deviceId,
-              connected: true,
-              paired: true,
-              isAudioDevice: isAudioDevice,
-            });
-          }
-        } catch (infoErr) {
-          // Skip if can't get device info
-        }
-      }
-    }
+    const connectedDevices = await listConnectedBluetoothDevices();
 
     // Get current audio sink info
     let currentAudioSink = "unknown";
     let isBluetoothAudio = false;
     try {
-      const { stdout: sinkInfo } = await execAsync(
-        'pactl info | grep "Default Sink"'
-      );
-      currentAudioSink = sinkInfo.split(":")[1].trim();
+      currentAudioSink = await getDefaultSink();
       isBluetoothAudio = currentAudioSink.includes("bluez_sink");
     } catch {
       // Sink info unavailable
@@ -447,6 +622,7 @@ app.get("/bluetooth/connected", async (req, res) => {
       hasConnectedAudioDevice: connectedDevices.some(
         (device) => device.isAudioDevice
       ),
+      lowBatteryThreshold: LOW_BATTERY_THRESHOLD,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
@@ -462,112 +638,180 @@ app.get("/bluetooth/connected", async (req, res) => {
   }
 });
 
-// ✅ Enhanced connect speaker (improved version of your existing endpoint)
-app.post("/connect-speaker", async (req, res) => {
-  const { mac, name } = req.body;
+// Streaming scan: devices are pushed as bluetooth.scan.* events while it runs
+app.post("/bluetooth/scan/start", async (req, res) => {
+  try {
+    const scan = await bluetooth.scanner.start({ seconds: req.body?.seconds });
+    res.json({ success: true, ...scan, timestamp: new Date().toISOString() });
+  } catch (err) {
+    console.error("❌ Scan error:", err.message);
+    res.status(500).json({ success: false, error: "Bluetooth scan failed", timestamp: new Date().toISOString() });
+  }
+});
+
+app.post("/bluetooth/scan/stop", async (req, res) => {
+  const scan = await bluetooth.scanner.stop();
+  res.json({ success: true, ...scan, timestamp: new Date().toISOString() });
+});
 
-  if (!mac) {
-    return res.status(400).json({ error: "MAC address is required" });
+// Blocking scan for older clients: waits for the scan to end, then lists what it saw
+app.get("/bluetooth/scan", async (req, res) => {
+  try {
+    const devices = await bluetooth.scan();
+    res.json({ success: true, devices });
+  } catch (err) {
+    console.error("❌ Scan error:", err.message);
+    res.status(500).json({ success: false, message: "Bluetooth scan failed" });
   }
+});
+
+const batteryMonitor = createBatteryMonitor({
+  readDevices: () => listConnectedBluetoothDevices(),
+  publish: events.publish,
+  threshold: LOW_BATTERY_THRESHOLD,
+});
+
+// Known devices: everything connected through this monitor, in auto-reconnect
+// priority order. The watchdog brings the audio device back after a reboot or
+// a dropped connection.
+const knownDevices = createKnownDeviceStore({
+  filePath: process.env.KNOWN_DEVICES_PATH || "known-bluetooth-devices.json",
+});
+
+const publishKnownDevices = () => events.publish("bluetooth.known.changed", { devices: knownDevices.list() });
+
+const autoReconnect = createAutoReconnect({
+  store: knownDevices,
+  isConnected: async (mac) => (await bluetooth.info(mac)).connected,
+  connect: (device) => connectBluetoothAudio(device.mac, device.nickname || device.name),
+  onDrop: (mac) => events.publish("bluetooth.disconnected", { deviceIds: [mac] }),
+});
+
+app.get("/bluetooth/known", (req, res) => {
+  res.json({ success: true, devices: knownDevices.list(), timestamp: new Date().toISOString() });
+});
 
+// Body { order: [mac, ...] }, highest priority first
+app.put("/bluetooth/known", (req, res) => {
   try {
-    const result = await connectBluetoothAudio(mac, name || "Unknown Device");
-    res.json({
-      status: "success",
-      message: `Connected to ${name || mac}`,
-      data: result,
-    });
+    const order = req.body?.order;
+    if (!Array.isArray(order)) {
+      throw new CommandValidationError("order must be a list of MAC addresses");
+    }
+
+    const devices = knownDevices.reorder(order.map(validate.mac));
+    publishKnownDevices();
+    res.json({ success: true, devices, timestamp: new Date().toISOString() });
   } catch (error) {
-    console.error("❌ Connection error:", error);
-    res.status(500).json({
-      error: "Bluetooth connection failed",
-      details: error.message,
+    res.status(commandErrorStatus(error)).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString(),
     });
   }
 });
 
-// ✅ NEW: Disconnect specific Bluetooth device
-app.post("/bluetooth/disconnect", async (req, res) => {
-  const { deviceId } = req.body;
-
+// Body { nickname?, autoReconnect? }; an empty nickname clears it
+app.put("/bluetooth/known/:mac", (req, res) => {
   try {
-    console.log(`🔌 Disconnecting Bluetooth device ${deviceId || "all"}...`);
-
-    if (deviceId) {
-      // Disconnect specific device
-      const result = await disconnectSpecificBluetoothDevice(deviceId);
-      res.json({
-        success: true,
-        message: "Device disconnected",
-        data: result,
-      });
-    } else {
-      // Disconnect all devices (existing functionality)
-      const result = await disconnectBluetoothAudio();
-      res.json({
-        success: true,
-        message: "All Bluetooth devices disconnected",
-        data: result,
+    const { nickname, autoReconnect: reconnect } = req.body ?? {};
+    const device = knownDevices.update(validate.mac(req.params.mac), { nickname, autoReconnect: reconnect });
+    if (!device) {
+      return res.status(404).json({
+        success: false,
+        error: "Unknown Bluetooth device",
+        timestamp: new Date().toISOString(),
       });
     }
-  } catch (err) {
-    console.error("❌ Disconnection error:", err.message);
-    res.status(500).json({
+
+    publishKnownDevices();
+    res.json({ success: true, device, timestamp: new Date().toISOString() });
+  } catch (error) {
+    res.status(commandErrorStatus(error)).json({
       success: false,
-      message: "Failed to disconnect device",
-      error: err.message,
+      error: error.message,
+      timestamp: new Date().toISOString(),
     });
   }
 });
 
-// ✅ Enhanced scan devices (replacing existing scan logic)
-app.get("/bluetooth/scan", async (req, res) => {
+// Forget a device: drop it from the list and remove its pairing
+app.delete("/bluetooth/known/:mac", async (req, res) => {
   try {
-    console.log("🔍 Scanning for Bluetooth devices...");
-    await execAsync("bluetoothctl --timeout 10 scan on");
-
-    const { stdout } = await execAsync("bluetoothctl devices");
-    const devices = stdout
-      .trim()
-      .split("\n")
-      .map((line) => {
-        const parts = line.split(" ");
-        return {
-          id: parts[1],
-          name: parts.slice(2).join(" "),
-        };
+    const mac = validate.mac(req.params.mac);
+    if (!knownDevices.find(mac)) {
+      return res.status(404).json({
+        success: false,
+        error: "Unknown Bluetooth device",
+        timestamp: new Date().toISOString(),
       });
+    }
 
-    res.json({ success: true, devices });
-  } catch (err) {
-    console.error("❌ Scan error:", err.message);
-    res.status(500).json({ success: false, message: "Bluetooth scan failed" });
+    autoReconnect.unwatch(mac);
+    try {
+      await bluetooth.remove(mac);
+    } catch (removeError) {
+      // BlueZ may have dropped it already; forgetting it here is what matters
+      console.log(`⚠️ Could not remove pairing for ${mac}:`, removeError.message);
+    }
+    knownDevices.forget(mac);
+    publishKnownDevices();
+
+    res.json({ success: true, message: "Device forgotten", timestamp: new Date().toISOString() });
+  } catch (error) {
+    res.status(commandErrorStatus(error)).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString(),
+    });
   }
 });
 
-// ✅ Enhanced connect devices (replacing existing connect logic)
-app.post("/bluetooth/connect", async (req, res) => {
-  const { deviceId } = req.body;
-  if (!deviceId) {
-    return res
-      .status(400)
-      .json({ success: false, message: "No device ID provided" });
+// Card profiles (A2DP, HSP/HFP headset with microphone, off) and A2DP codecs
+// of a connected audio device
+app.get("/bluetooth/audio/:mac", async (req, res) => {
+  try {
+    const audio = await audioSinks.bluetoothAudio(req.params.mac);
+    if (!audio) {
+      return res.status(404).json({
+        success: false,
+        error: "No audio card for this device; is it connected?",
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    res.json({ success: true, audio, timestamp: new Date().toISOString() });
+  } catch (error) {
+    res.status(commandErrorStatus(error)).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString(),
+    });
   }
+});
 
+// Body { profile?, codec? }
+app.put("/bluetooth/audio/:mac", async (req, res) => {
   try {
-    console.log(`🔗 Connecting to Bluetooth device ${deviceId}...`);
-
-    // Use the enhanced connectBluetoothAudio function
-    const result = await connectBluetoothAudio(deviceId, "Device");
+    const { profile, codec } = req.body ?? {};
+    const audio = await audioSinks.setBluetoothAudio(req.params.mac, { profile, codec });
+    if (!audio) {
+      return res.status(404).json({
+        success: false,
+        error: "No audio card for this device; is it connected?",
+        timestamp: new Date().toISOString(),
+      });
+    }
 
-    res.json({
-      success: true,
-      message: "Connected and audio routed",
-      data: result,
+    publishAudioSinks();
+    res.json({ success: true, audio, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("❌ Profile switch error:", error.message);
+    res.status(commandErrorStatus(error)).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString(),
     });
-  } catch (err) {
-    console.error("❌ Connection error:", err.message);
-    res.status(500).json({ success: false, message: "Failed to connect" });
   }
 });
 
@@ -575,76 +819,113 @@ app.post("/bluetooth/connect", async (req, res) => {
 // Use /api/system/info instead - it properly checks Pi connection and only fetches on frontend request
 
 // ✅ NEW: Enhanced Bluetooth Audio Functions
-async function scanBluetoothDevices() {
+
+// Connection RSSI from hcitool: dB relative to the adapter's golden receive
+// range, so 0 is ideal and lower is weaker. Null when hcitool is missing.
+async function readConnectionRssi(deviceId) {
   try {
-    console.log("📡 Starting Bluetooth scan...");
-
-    // Start scanning
-    await execAsync(`echo -e 'scan on\n' | bluetoothctl`);
-
-    // Wait for a few seconds to let devices appear
-    await new Promise((resolve) => setTimeout(resolve, 8000)); // You can adjust this
-
-    // Stop scanning (this is the correct way)
-    await execAsync(`echo -e 'scan off\n' | bluetoothctl`);
-
-    // Fetch discovered devices
-    const { stdout } = await execAsync("bluetoothctl devices");
-    const devices = stdout
-      .trim()
-      .split("\n")
-      .map((line) => {
-        const parts = line.split(" ");
-        const mac = parts[1];
-        const name = parts.slice(2).join(" ");
-        return {
-          id: mac,
-          mac,
-          name: name || "Unknown",
-        };
-      });
+    const match = /RSSI return value: (-?\d+)/.exec(await readCommand("hcitool", ["rssi", deviceId]));
+    return match ? Number(match[1]) : null;
+  } catch {
+    return null;
+  }
+}
 
-    console.log(`✅ Found ${devices.length} devices`);
-    return {
-      devices,
-      count: devices.length,
-      timestamp: new Date().toISOString(),
-    };
-  } catch (error) {
-    console.error("❌ Bluetooth scan error:", error);
-    throw new Error("Bluetooth scan failed: " + error.message);
+// Connected devices with battery, signal and, for audio devices, the active
+// card profile and codec. Whatever the device does not report is null.
+async function listConnectedBluetoothDevices() {
+  const connectedDevices = [];
+  for (const { mac: deviceId, name: deviceName } of await bluetooth.list()) {
+    let info;
+    try {
+      info = await bluetooth.info(deviceId);
+    } catch {
+      // Skip if can't get device info
+      continue;
+    }
+    if (!info.connected) continue;
+
+    const card = info.isAudioDevice ? await audioSinks.bluetoothCard(deviceId).catch(() => null) : null;
+    connectedDevices.push({
+      id: deviceId,
+      name: deviceName || info.name || "Unknown Device",
+      mac: deviceId,
+      connected: true,
+      paired: info.paired,
+      isAudioDevice: info.isAudioDevice,
+      battery: info.battery,
+      rssi: await readConnectionRssi(deviceId),
+      profile: card?.activeProfile ?? null,
+      codec: card?.codec ?? null,
+    });
+  }
+  return connectedDevices;
+}
+
+async function getDefaultSink() {
+  return audioSinks.getDefault();
+}
+
+// Make a sink the default output and move playing streams over to it
+async function setDefaultSink(sinkName) {
+  const { tool } = await audioSinks.setDefault(sinkName);
+  publishAudioSinks();
+  return tool;
+}
+
+// Push the sink list to clients after routing changed
+function publishAudioSinks() {
+  audioSinks.list().then(
+    (state) => events.publish("audio.sinks.changed", state),
+    (error) => console.log("⚠️ Could not list audio sinks:", error.message)
+  );
+}
+
+async function resetDefaultSink() {
+  try {
+    const tool = await setDefaultSink(DEFAULT_AUDIO_SINK);
+    console.log(`✅ Audio reset to default via ${tool}`);
+  } catch {
+    console.log("⚠️ Could not reset to default audio sink");
   }
 }
 
-async function connectBluetoothAudio(deviceId, deviceName) {
+// With keepOthers, speakers that are already connected stay connected (for a
+// combined output) instead of being disconnected first
+async function connectBluetoothAudio(requestedDeviceId, deviceName, { keepOthers = false } = {}) {
+  // Validated before anything runs, so a bad ID is reported as such
+  const deviceId = validate.mac(requestedDeviceId);
+
+  // Each step is published as it finishes, so the UI can follow along
+  const steps = [];
+  const step = (name, status, detail) => {
+    steps.push({ step: name, status, detail });
+    events.publish("bluetooth.pairing.step", { deviceId, step: name, status, detail });
+  };
+  const fail = (name, detail) => {
+    step(name, "failed", detail);
+    throw new BluetoothStepError(`Failed to connect to ${deviceName}: ${detail}`, steps);
+  };
+
   try {
     console.log(
       `🎵 Connecting to Bluetooth audio device: ${deviceName} (${deviceId})`
     );
 
     // Ensure Bluetooth service is running
-    await execAsync("sudo systemctl start bluetooth");
+    await executor.run("sudo", ["systemctl", "start", "bluetooth"]);
 
     // First, disconnect any currently connected devices
     console.log("🔄 Checking for existing connections...");
     try {
-      const { stdout: allDevices } = await execAsync("bluetoothctl devices");
-      const deviceLines = allDevices.trim().split("\n").filter(Boolean);
-
-      for (const line of deviceLines) {
-        const parts = line.split(" ");
-        const existingDeviceId = parts[1];
-
+      for (const { mac: existingDeviceId } of keepOthers ? [] : await bluetooth.list()) {
         if (existingDeviceId) {
           try {
-            const { stdout: deviceInfo } = await execAsync(
-              `bluetoothctl info ${existingDeviceId}`
-            );
-            if (deviceInfo.includes("Connected: yes")) {
+            if ((await bluetooth.info(existingDeviceId)).connected) {
               console.log(
                 `🔌 Disconnecting existing device: ${existingDeviceId}`
               );
-              await execAsync(`bluetoothctl disconnect ${existingDeviceId}`);
+              await bluetooth.disconnect(existingDeviceId);
               await new Promise((resolve) => setTimeout(resolve, 1000));
             }
           } catch (infoErr) {
@@ -656,13 +937,28 @@ async function connectBluetoothAudio(deviceId, deviceName) {
       console.log("⚠️ Error checking existing connections, continuing...");
     }
 
-    // Trust, pair and connect the device
-    console.log(`🤝 Pairing with device ${deviceId}...`);
+    // Trust first so the device may reconnect on its own later
     try {
-      await execAsync(`bluetoothctl trust ${deviceId}`);
-      await execAsync(`bluetoothctl pair ${deviceId}`);
-    } catch (pairError) {
-      console.log("Device might already be paired, continuing...");
+      await bluetooth.trust(deviceId);
+      step("trust", "ok");
+    } catch (trustError) {
+      fail("trust", trustError.result?.stderr?.trim() || trustError.message);
+    }
+
+    // Pair through the agent, which forwards passkey and PIN requests to the UI
+    let isPaired = false;
+    try {
+      isPaired = (await bluetooth.info(deviceId)).paired;
+    } catch {
+      // Unknown device; pairing will report it
+    }
+    if (isPaired) {
+      step("pair", "skipped", "Already paired");
+    } else {
+      console.log(`🤝 Pairing with device ${deviceId}...`);
+      const { paired, detail } = await bluetooth.pair(deviceId);
+      if (!paired) fail("pair", detail);
+      step("pair", "ok", detail);
     }
 
     // Connect the device
@@ -671,14 +967,11 @@ async function connectBluetoothAudio(deviceId, deviceName) {
     // Check if target device is already connected
     let isAlreadyConnected = false;
     try {
-      const { stdout: targetDeviceInfo } = await execAsync(
-        `bluetoothctl info ${deviceId}`
-      );
-      if (targetDeviceInfo.includes("Connected: yes")) {
+      if ((await bluetooth.info(deviceId)).connected) {
         console.log(
           `🔄 Device ${deviceId} is already connected, reconnecting...`
         );
-        await execAsync(`bluetoothctl disconnect ${deviceId}`);
+        await bluetooth.disconnect(deviceId);
         await new Promise((resolve) => setTimeout(resolve, 2000));
         isAlreadyConnected = true;
       }
@@ -687,35 +980,42 @@ async function connectBluetoothAudio(deviceId, deviceName) {
     }
 
     // Connect (or reconnect) the device
-    await execAsync(`bluetoothctl connect ${deviceId}`);
+    try {
+      await bluetooth.connect(deviceId);
+      step("connect", "ok", isAlreadyConnected ? "Reconnected" : undefined);
+    } catch (connectError) {
+      fail("connect", connectError.result?.stderr?.trim() || connectError.message);
+    }
 
     // Wait a moment for connection to establish
     await new Promise((resolve) => setTimeout(resolve, 3000));
 
     // Try to set as audio output (multiple methods for compatibility)
     console.log(`🔊 Setting as audio output...`);
-    const sinkName = `bluez_sink.${deviceId.replace(/:/g, "_")}.a2dp_sink`;
-
-    // Wait a bit more for audio services to be ready
-    await new Promise((resolve) => setTimeout(resolve, 2000));
 
+    let sinkName = null;
     let audioSetSuccess = false;
-    try {
-      // Method 1: PulseAudio (pacmd)
-      await execAsync(`pacmd set-default-sink ${sinkName}`);
-      console.log("✅ Audio sink set via pacmd");
-      audioSetSuccess = true;
-    } catch (audioError) {
+    const combined = keepOthers ? (await audioSinks.list().catch(() => null))?.combined : null;
+    if (combined) {
+      // Leave the combined output as it is; the new speaker can be added to it
+      step("sink", "skipped", `Output stays on ${combined.name}`);
+    } else {
+      // Whatever PulseAudio or PipeWire named it, in whichever profile the card was left
+      sinkName = (await audioSinks.bluetoothSink(deviceId, { waitMs: BLUETOOTH_SINK_WAIT }).catch(() => null))?.name ?? null;
+
       try {
-        // Method 2: pactl (newer PulseAudio)
-        await execAsync(`pactl set-default-sink ${sinkName}`);
-        console.log("✅ Audio sink set via pactl");
+        if (!sinkName) throw new Error(`No audio sink appeared for ${deviceId}`);
+        const tool = await setDefaultSink(sinkName);
+        console.log(`✅ Audio sink set via ${tool}`);
         audioSetSuccess = true;
-      } catch (audioError2) {
+        step("sink", "ok", sinkName);
+      } catch (audioError) {
+        // Not fatal: the device is connected, it just does not play our audio yet
         console.log("⚠️ Audio sink setting failed, but device connected");
+        step("sink", "failed", sinkName ? `${sinkName} is not available` : audioError.message);
         // Try to list available sinks for debugging
         try {
-          const { stdout: sinks } = await execAsync("pactl list short sinks");
+          const sinks = await readCommand("pactl", ["list", "short", "sinks"]);
           console.log("Available sinks:", sinks);
         } catch (listError) {
           console.log("Could not list available sinks");
@@ -726,23 +1026,37 @@ async function connectBluetoothAudio(deviceId, deviceName) {
     // Play connection sound if available
     try {
       console.log("🔊 Playing connection sound...");
-      await execAsync("mpg123 /home/username/connected.mp3");
+      await executor.run("mpg123", ["/home/username/connected.mp3"]);
     } catch (soundErr) {
       console.warn("⚠️ Failed to play sound:", soundErr.message);
     }
 
-    return {
+    // Remember the device for auto-reconnect and watch it for drops
+    try {
+      const info = await bluetooth.info(deviceId);
+      knownDevices.remember({ ...info, mac: deviceId, name: info.name || deviceName });
+      publishKnownDevices();
+    } catch (infoError) {
+      console.log("⚠️ Could not remember device:", infoError.message);
+    }
+    autoReconnect.watch(deviceId);
+
+    const result = {
       connected: true,
       deviceId,
       deviceName,
       audioSink: sinkName,
       audioSetSuccess,
       wasReconnected: isAlreadyConnected,
+      steps,
       timestamp: new Date().toISOString(),
     };
+    events.publish("bluetooth.connected", result);
+    return result;
   } catch (error) {
     console.error("Bluetooth connection error:", error);
-    throw new Error(`Failed to connect to ${deviceName}: ${error.message}`);
+    if (error instanceof BluetoothStepError) throw error;
+    throw new BluetoothStepError(`Failed to connect to ${deviceName}: ${error.message}`, steps);
   }
 }
 
@@ -751,22 +1065,13 @@ async function disconnectBluetoothAudio() {
     console.log("🔇 Disconnecting Bluetooth audio...");
 
     // Get all devices and check which ones are connected
-    const { stdout: allDevices } = await execAsync("bluetoothctl devices");
-    const deviceLines = allDevices.trim().split("\n").filter(Boolean);
-
     const connectedDevices = [];
 
     // Check each device to see if it's connected
-    for (const line of deviceLines) {
-      const parts = line.split(" ");
-      const deviceId = parts[1];
-
+    for (const { mac: deviceId } of await bluetooth.list()) {
       if (deviceId) {
         try {
-          const { stdout: deviceInfo } = await execAsync(
-            `bluetoothctl info ${deviceId}`
-          );
-          if (deviceInfo.includes("Connected: yes")) {
+          if ((await bluetooth.info(deviceId)).connected) {
             connectedDevices.push(deviceId);
           }
         } catch (infoErr) {
@@ -776,55 +1081,45 @@ async function disconnectBluetoothAudio() {
     }
 
     // Disconnect all connected devices
+    autoReconnect.unwatch();
     for (const deviceId of connectedDevices) {
       console.log(`Disconnecting device: ${deviceId}`);
       try {
-        await execAsync(`bluetoothctl disconnect ${deviceId}`);
+        await bluetooth.disconnect(deviceId);
         await new Promise((resolve) => setTimeout(resolve, 1000)); // Wait between disconnections
       } catch (disconnectErr) {
         console.log(`Failed to disconnect ${deviceId}:`, disconnectErr.message);
       }
     }
 
-    // Reset to default audio output (try multiple options)
-    try {
-      await execAsync(
-        "pacmd set-default-sink alsa_output.platform-bcm2835_audio.analog-mono"
-      );
-      console.log("✅ Audio reset to default via pacmd");
-    } catch {
-      try {
-        await execAsync(
-          "pactl set-default-sink alsa_output.platform-bcm2835_audio.analog-mono"
-        );
-        console.log("✅ Audio reset to default via pactl");
-      } catch {
-        console.log("⚠️ Could not reset to default audio sink");
-      }
-    }
+    // Reset to default audio output
+    await resetDefaultSink();
 
-    return {
+    const result = {
       disconnected: true,
       devicesDisconnected: connectedDevices.length,
       disconnectedDevices: connectedDevices,
       timestamp: new Date().toISOString(),
     };
+    events.publish("bluetooth.disconnected", {
+      deviceIds: connectedDevices,
+    });
+    return result;
   } catch (error) {
     console.error("Bluetooth disconnection error:", error);
     throw new Error(`Failed to disconnect Bluetooth audio: ${error.message}`);
   }
 }
 
-async function disconnectSpecificBluetoothDevice(deviceId) {
+async function disconnectSpecificBluetoothDevice(requestedDeviceId) {
+  const deviceId = validate.mac(requestedDeviceId);
+
   try {
     console.log(`🔇 Disconnecting specific Bluetooth device: ${deviceId}...`);
 
     // Check if the device is actually connected
     try {
-      const { stdout: deviceInfo } = await execAsync(
-        `bluetoothctl info ${deviceId}`
-      );
-      if (!deviceInfo.includes("Connected: yes")) {
+      if (!(await bluetooth.info(deviceId)).connected) {
         return {
           disconnected: false,
           message: "Device was not connected",
@@ -837,27 +1132,16 @@ async function disconnectSpecificBluetoothDevice(deviceId) {
     }
 
     // Disconnect the specific device
-    await execAsync(`bluetoothctl disconnect ${deviceId}`);
+    autoReconnect.unwatch(deviceId);
+    await bluetooth.disconnect(deviceId);
 
     // Wait a moment for disconnection to complete
     await new Promise((resolve) => setTimeout(resolve, 2000));
 
     // Reset to default audio output if this was an audio device
-    try {
-      await execAsync(
-        "pacmd set-default-sink alsa_output.platform-bcm2835_audio.analog-mono"
-      );
-      console.log("✅ Audio reset to default via pacmd");
-    } catch {
-      try {
-        await execAsync(
-          "pactl set-default-sink alsa_output.platform-bcm2835_audio.analog-mono"
-        );
-        console.log("✅ Audio reset to default via pactl");
-      } catch {
-        console.log("⚠️ Could not reset to default audio sink");
-      }
-    }
+    await resetDefaultSink();
+
+    events.publish("bluetooth.disconnected", { deviceIds: [deviceId] });
 
     return {
       disconnected: true,
@@ -876,63 +1160,17 @@ async function disconnectSpecificBluetoothDevice(deviceId) {
 async function getBluetoothStatus() {
   try {
     // Get Bluetooth service status
-    const { stdout: serviceStatus } = await execAsync(
-      "systemctl is-active bluetooth"
-    );
+    const serviceStatus = await readCommand("systemctl", ["is-active", "bluetooth"]);
 
     // Use 'bluetoothctl info' on known devices instead of invalid 'devices Connected'
-    const { stdout: allDevices } = await execAsync("bluetoothctl devices");
-    const deviceLines = allDevices.trim().split("\n").filter(Boolean);
-
-    const connectedDevices = [];
-    const audioDevices = [];
-
-    for (const line of deviceLines) {
-      const parts = line.split(" ");
-      const deviceId = parts[1];
-      const deviceName = parts.slice(2).join(" ");
-
-      // Check if device is connected
-      try {
-        const { stdout: deviceInfo } = await execAsync(
-          `bluetoothctl info ${deviceId}`
-        );
-        if (deviceInfo.includes("Connected: yes")) {
-          const deviceObj = {
-            id: deviceId,
-            name: deviceName,
-            mac: deviceId,
-            connected: true,
-            paired: true,
-          };
-
-          connectedDevices.push(deviceObj);
-
-          // Check if it's an audio device
-          if (
-            deviceInfo.includes("Audio Sink") ||
-            deviceInfo.includes("A2DP") ||
-            deviceInfo.includes("audio")
-          ) {
-            audioDevices.push({
-              ...deviceObj,
-              isAudioDevice: true,
-            });
-          }
-        }
-      } catch (infoErr) {
-        // Could not get device info; skip
-      }
-    }
+    const connectedDevices = await listConnectedBluetoothDevices();
+    const audioDevices = connectedDevices.filter((device) => device.isAudioDevice);
 
     // Get current audio sink
     let currentSink = "unknown";
     let isBluetoothAudio = false;
     try {
-      const { stdout: sinkInfo } = await execAsync(
-        'pactl info | grep "Default Sink"'
-      );
-      currentSink = sinkInfo.split(":")[1].trim();
+      currentSink = await getDefaultSink();
       isBluetoothAudio = currentSink.includes("bluez_sink");
     } catch {
       // Sink info unavailable
@@ -970,7 +1208,7 @@ async function getSystemInfo() {
     // Get system uptime
     let uptime = "unknown";
     try {
-      const { stdout: uptimeOutput } = await execAsync("uptime -p");
+      const uptimeOutput = await readCommand("uptime", ["-p"]);
       uptime = uptimeOutput.trim().replace("up ", "");
     } catch (uptimeError) {
       console.warn("Could not get uptime:", uptimeError.message);
@@ -979,18 +1217,17 @@ async function getSystemInfo() {
     // Get CPU temperature (for Raspberry Pi)
     let temperature = 0;
     try {
-      const { stdout: tempOutput } = await execAsync(
-        "cat /sys/class/thermal/thermal_zone0/temp"
-      );
+      const tempOutput = await readCommand("cat", [
+        "/sys/class/thermal/thermal_zone0/temp",
+      ]);
       temperature = Math.round(parseInt(tempOutput.trim()) / 1000);
     } catch (tempError) {
       console.warn("Could not get temperature:", tempError.message);
       // Fallback for non-RPi systems
       try {
-        const { stdout: sensorsOutput } = await execAsync(
-          "sensors | grep 'Core 0' | awk '{print $3}' | head -1"
-        );
-        const tempMatch = sensorsOutput.match(/(\d+\.\d+)/);
+        const sensorsOutput = await readCommand("sensors", []);
+        const coreLine = sensorsOutput.split("\n").find((line) => line.includes("Core 0")) || "";
+        const tempMatch = coreLine.match(/(\d+\.\d+)/);
         if (tempMatch) {
           temperature = Math.round(parseFloat(tempMatch[1]));
         }
@@ -1005,9 +1242,7 @@ async function getSystemInfo() {
     // Get OS version
     let version = "unknown";
     try {
-      const { stdout: versionOutput } = await execAsync(
-        "cat /etc/os-release | grep PRETTY_NAME"
-      );
+      const versionOutput = await readCommand("cat", ["/etc/os-release"]);
       const versionMatch = versionOutput.match(/PRETTY_NAME="(.+)"/);
       if (versionMatch) {
         version = versionMatch[1];
@@ -1016,7 +1251,7 @@ async function getSystemInfo() {
       console.warn("Could not get OS version:", versionError.message);
       // Try alternative method
       try {
-        const { stdout: unameOutput } = await execAsync("uname -sr");
+        const unameOutput = await readCommand("uname", ["-sr"]);
         version = unameOutput.trim();
       } catch (unameError) {
         console.warn("Could not get uname:", unameError.message);
@@ -1027,7 +1262,7 @@ async function getSystemInfo() {
     let memoryUsage = 0;
     let memory = { used: 0, total: 0 };
     try {
-      const { stdout: memInfo } = await execAsync("free -m");
+      const memInfo = await readCommand("free", ["-m"]);
       const lines = memInfo.trim().split("\n");
       const memLine = lines[1].split(/\s+/);
 
@@ -1044,8 +1279,8 @@ async function getSystemInfo() {
     // Get storage information
     let storage = { used: 0, total: 0 };
     try {
-      const { stdout: dfOutput } = await execAsync("df -h / | tail -1");
-      const dfParts = dfOutput.trim().split(/\s+/);
+      const dfOutput = await readCommand("df", ["-h", "/"]);
+      const dfParts = dfOutput.trim().split("\n").pop().split(/\s+/);
 
       const totalStorage = dfParts[1];
       const usedStorage = dfParts[2];
@@ -1068,9 +1303,7 @@ async function getSystemInfo() {
     let cpu = { usage: 0, model: "unknown" };
     try {
       // Get CPU model
-      const { stdout: cpuModelOutput } = await execAsync(
-        "cat /proc/cpuinfo | grep 'model name' | head -1"
-      );
+      const cpuModelOutput = await readCommand("cat", ["/proc/cpuinfo"]);
       const modelMatch = cpuModelOutput.match(/model name\s*:\s*(.+)/);
       if (modelMatch) {
         cpu.model = modelMatch[1].trim();
@@ -1081,10 +1314,9 @@ async function getSystemInfo() {
 
     try {
       // Get CPU usage (1 second average)
-      const { stdout: cpuUsageOutput } = await execAsync(
-        "top -bn1 | grep 'Cpu(s)' | awk '{print $2}' | cut -d'%' -f1"
-      );
-      cpu.usage = Math.round(parseFloat(cpuUsageOutput.trim()) || 0);
+      const topOutput = await readCommand("top", ["-bn1"]);
+      const cpuUsageMatch = topOutput.match(/Cpu\(s\):\s*([\d.]+)/);
+      cpu.usage = Math.round(parseFloat(cpuUsageMatch?.[1]) || 0);
     } catch (cpuUsageError) {
       console.warn("Could not get CPU usage:", cpuUsageError.message);
     }
@@ -1123,21 +1355,19 @@ async function checkPiConnection() {
     const checks = [
       // Check for RPi-specific temperature sensor (most reliable)
       async () => {
-        const { stdout } = await execAsync(
-          "cat /sys/class/thermal/thermal_zone0/temp"
-        );
+        const stdout = await readCommand("cat", [
+          "/sys/class/thermal/thermal_zone0/temp",
+        ]);
         return parseInt(stdout.trim()) > 0; // Temperature should be a positive number
       },
       // Check for RPi-specific CPU info
       async () => {
-        const { stdout } = await execAsync(
-          "cat /proc/cpuinfo | grep -i 'raspberry\\|broadcom\\|bcm'"
-        );
-        return stdout.trim().length > 0;
+        const stdout = await readCommand("cat", ["/proc/cpuinfo"]);
+        return /raspberry|broadcom|bcm/i.test(stdout);
       },
       // Check if we can run basic system commands and get meaningful output
       async () => {
-        const { stdout } = await execAsync("uname -m");
+        const stdout = await readCommand("uname", ["-m"]);
         return stdout.includes("arm") || stdout.includes("aarch64");
       },
     ];
@@ -1180,16 +1410,42 @@ async function checkPiConnection() {
 async function updateSystemInfoPeriodically() {
   try {
     // ONLY update Pi connection status - never fetch system info automatically
+    const wasConnected = piConnected;
     piConnected = await checkPiConnection();
+    if (piConnected !== wasConnected) {
+      events.publish("pi.status", { connected: piConnected });
+    }
     console.log(
       `🔌 Pi status check: ${piConnected ? "Connected" : "Disconnected"}`
     );
   } catch (error) {
+    if (piConnected) {
+      events.publish("pi.status", { connected: false });
+    }
     piConnected = false;
     console.log("❌ Pi connection check failed");
   }
 }
 
+// ✅ Telemetry ticks for the event stream - only gathered while someone is listening
+async function publishTelemetry() {
+  if (events.clientCount() === 0) return;
+
+  try {
+    const systemInfo = await getSystemInfo();
+    cachedSystemInfo = systemInfo;
+    lastSystemInfoUpdate = Date.now();
+    events.publish("system.telemetry", {
+      ...systemInfo,
+      lastUpdated: new Date(lastSystemInfoUpdate).toISOString(),
+    });
+  } catch (error) {
+    console.warn("⚠️ Telemetry tick failed:", error.message);
+  }
+}
+
+setInterval(publishTelemetry, TELEMETRY_INTERVAL);
+
 // ✅ Start periodic Pi connection checks ONLY (every 1 minute) - NO automatic system info fetching
 setInterval(updateSystemInfoPeriodically, 60000); // 60 seconds
 
@@ -1206,6 +1462,80 @@ checkPiConnection().then((connected) => {
   );
 });
 
+// ✅ Audio output routing: sinks, default output and a combined multi-speaker sink
+app.get("/api/audio/sinks", async (req, res) => {
+  try {
+    res.json({ success: true, ...(await audioSinks.list()), timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("❌ Audio sink list error:", error.message);
+    res.status(500).json({ success: false, error: error.message, timestamp: new Date().toISOString() });
+  }
+});
+
+// Body { sink, moveStreams? }; playing streams move to the new default unless moveStreams is false
+app.post("/api/audio/sinks/default", async (req, res) => {
+  try {
+    const { sink, moveStreams } = req.body ?? {};
+    const result = await audioSinks.setDefault(sink, { moveStreams: moveStreams !== false });
+    console.log(`🔊 Default sink set to ${result.sink} via ${result.tool}, ${result.moved} stream(s) moved`);
+    publishAudioSinks();
+
+    res.json({ success: true, ...result, timestamp: new Date().toISOString() });
+  } catch (error) {
+    res.status(commandErrorStatus(error)).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+// Body { sink, volume?, muted? } for one sink, whether or not it is the default
+app.post("/api/audio/sinks/volume", async (req, res) => {
+  try {
+    const { sink, volume, muted } = req.body ?? {};
+    await audioSinks.setVolume(sink, { volume, muted });
+    publishAudioSinks();
+
+    res.json({ success: true, timestamp: new Date().toISOString() });
+  } catch (error) {
+    res.status(commandErrorStatus(error)).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+// Body { sinks: [name, ...] }: play on all of them at once
+app.post("/api/audio/combined", async (req, res) => {
+  try {
+    const combined = await audioSinks.combine(req.body?.sinks);
+    publishAudioSinks();
+
+    res.json({ success: true, combined, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("❌ Combined output error:", error.message);
+    res.status(commandErrorStatus(error)).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+app.delete("/api/audio/combined", async (req, res) => {
+  try {
+    const removed = await audioSinks.uncombine();
+    publishAudioSinks();
+
+    res.json({ success: true, removed, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error("❌ Combined output error:", error.message);
+    res.status(500).json({ success: false, error: error.message, timestamp: new Date().toISOString() });
+  }
+});
+
 // ✅ System Control Endpoints
 // Volume Control
 app.post("/api/system/volume", async (req, res) => {
@@ -1218,10 +1548,7 @@ app.post("/api/system/volume", async (req, res) => {
     let isBluetoothAudio = false;
 
     try {
-      const { stdout: sinkInfo } = await execAsync(
-        'pactl info | grep "Default Sink"'
-      );
-      currentSink = sinkInfo.split(":")[1].trim();
+      currentSink = await getDefaultSink();
       isBluetoothAudio = currentSink.includes("bluez_sink");
       console.log(
         `🎵 Current audio sink: ${currentSink}, isBluetooth: ${isBluetoothAudio}`
@@ -1234,24 +1561,24 @@ app.post("/api/system/volume", async (req, res) => {
       // Handle mute/unmute
       if (isBluetoothAudio && currentSink) {
         // For Bluetooth devices, use pactl with specific sink
-        const muteCommand = muted
-          ? `pactl set-sink-mute ${currentSink} 1`
-          : `pactl set-sink-mute ${currentSink} 0`;
-        await execAsync(muteCommand);
+        await executor.run("pactl", [
+          "set-sink-mute",
+          validate.sinkName(currentSink),
+          muted ? "1" : "0",
+        ]);
         console.log(
           `🎵 Bluetooth audio ${muted ? "muted" : "unmuted"} via pactl`
         );
       } else {
         // For regular audio, use amixer
-        const muteCommand = muted
-          ? "amixer sset Master mute"
-          : "amixer sset Master unmute";
-        await execAsync(muteCommand);
+        await executor.run("amixer", ["sset", "Master", muted ? "mute" : "unmute"]);
         console.log(
           `🔊 System audio ${muted ? "muted" : "unmuted"} via amixer`
         );
       }
 
+      events.publish("system.volume", { volume: level || 50, muted });
+
       res.json({
         success: true,
         message: muted ? "Audio muted" : "Audio unmuted",
@@ -1261,21 +1588,25 @@ app.post("/api/system/volume", async (req, res) => {
         isBluetoothAudio: isBluetoothAudio,
       });
     } else if (level !== undefined) {
+      const percent = validate.percent(level);
+
       // Set volume level
       if (isBluetoothAudio && currentSink) {
         // For Bluetooth devices, use pactl with specific sink and percentage
-        const volumeCommand = `pactl set-sink-volume ${currentSink} ${level}%`;
-        await execAsync(volumeCommand);
+        const sink = validate.sinkName(currentSink);
+        await executor.run("pactl", ["set-sink-volume", sink, `${percent}%`]);
         console.log(`🎵 Bluetooth volume set to ${level}% via pactl`);
 
         // Also try to unmute if it was muted
-        await execAsync(`pactl set-sink-mute ${currentSink} 0`);
+        await executor.run("pactl", ["set-sink-mute", sink, "0"]);
       } else {
         // For regular audio, use amixer
-        await execAsync(`amixer sset Master ${level}%`);
+        await executor.run("amixer", ["sset", "Master", `${percent}%`]);
         console.log(`🔊 System volume set to ${level}% via amixer`);
       }
 
+      events.publish("system.volume", { volume: level, muted: false });
+
       res.json({
         success: true,
         message: `Volume set to ${level}%`,
@@ -1292,7 +1623,7 @@ app.post("/api/system/volume", async (req, res) => {
     }
   } catch (error) {
     console.error("Error controlling volume:", error);
-    res.status(500).json({
+    res.status(commandErrorStatus(error)).json({
       success: false,
       error: "Failed to control volume",
       details: error.message,
@@ -1313,10 +1644,12 @@ app.post("/api/system/brightness", async (req, res) => {
     }
 
     // For Raspberry Pi, we'll use the backlight control
-    const brightnessValue = Math.round((level / 100) * 255);
-    await execAsync(
-      `echo ${brightnessValue} | sudo tee /sys/class/backlight/rpi_backlight/brightness`
-    );
+    const brightnessValue = Math.round((validate.percent(level) / 100) * 255);
+    await executor.run("sudo", ["tee", BACKLIGHT_PATH], {
+      input: `${brightnessValue}\n`,
+    });
+
+    events.publish("system.brightness", { brightness: level });
 
     res.json({
       success: true,
@@ -1325,7 +1658,7 @@ app.post("/api/system/brightness", async (req, res) => {
     });
   } catch (error) {
     console.error("Error controlling brightness:", error);
-    res.status(500).json({
+    res.status(commandErrorStatus(error)).json({
       success: false,
       error: "Failed to control brightness",
       details: error.message,
@@ -1346,10 +1679,9 @@ app.post("/api/system/screen", async (req, res) => {
     }
 
     // Use vcgencmd to control HDMI output
-    const command = on
-      ? "vcgencmd display_power 1"
-      : "vcgencmd display_power 0";
-    await execAsync(command);
+    await executor.run("vcgencmd", ["display_power", on ? "1" : "0"]);
+
+    events.publish("system.screen", { screenOn: on });
 
     res.json({
       success: true,
@@ -1374,10 +1706,7 @@ app.get("/api/system/status", async (req, res) => {
     let isBluetoothAudio = false;
 
     try {
-      const { stdout: sinkInfo } = await execAsync(
-        'pactl info | grep "Default Sink"'
-      );
-      currentSink = sinkInfo.split(":")[1].trim();
+      currentSink = await getDefaultSink();
       isBluetoothAudio = currentSink.includes("bluez_sink");
       console.log(
         `🎵 Getting status for sink: ${currentSink}, isBluetooth: ${isBluetoothAudio}`
@@ -1393,17 +1722,14 @@ app.get("/api/system/status", async (req, res) => {
     if (isBluetoothAudio && currentSink) {
       // For Bluetooth devices, use pactl
       try {
-        const { stdout: volumeResult } = await execAsync(
-          `pactl get-sink-volume ${currentSink}`
-        );
+        const sink = validate.sinkName(currentSink);
+        const volumeResult = await readCommand("pactl", ["get-sink-volume", sink]);
         const volumeMatch = volumeResult.match(/(\d+)%/);
         if (volumeMatch) {
           volume = parseInt(volumeMatch[1]);
         }
 
-        const { stdout: muteResult } = await execAsync(
-          `pactl get-sink-mute ${currentSink}`
-        );
+        const muteResult = await readCommand("pactl", ["get-sink-mute", sink]);
         muted = muteResult.includes("yes");
 
         console.log(
@@ -1415,15 +1741,9 @@ app.get("/api/system/status", async (req, res) => {
     } else {
       // For regular audio, use amixer
       try {
-        const volumeResult = await execAsync(
-          "amixer get Master | grep -o '[0-9]*%' | head -1"
-        );
-        volume = parseInt(volumeResult.stdout.replace("%", ""));
-
-        const muteResult = await execAsync(
-          "amixer get Master | grep -o '\\[on\\]\\|\\[off\\]'"
-        );
-        muted = muteResult.stdout.trim() === "[off]";
+        const mixerOutput = await readCommand("amixer", ["get", "Master"]);
+        volume = parseInt(mixerOutput.match(/\[(\d+)%\]/)?.[1] ?? "50");
+        muted = mixerOutput.includes("[off]");
 
         console.log(
           `🔊 System audio status: volume=${volume}%, muted=${muted}`
@@ -1436,8 +1756,8 @@ app.get("/api/system/status", async (req, res) => {
     // Get screen power status
     let screenOn = true;
     try {
-      const screenResult = await execAsync("vcgencmd display_power");
-      screenOn = screenResult.stdout.includes("display_power=1");
+      const screenResult = await readCommand("vcgencmd", ["display_power"]);
+      screenOn = screenResult.includes("display_power=1");
     } catch (e) {
       console.log("Could not get screen power status:", e.message);
     }
@@ -1445,15 +1765,16 @@ app.get("/api/system/status", async (req, res) => {
     // Get brightness (approximate)
     let brightness = 75;
     try {
-      const brightnessResult = await execAsync(
-        "cat /sys/class/backlight/rpi_backlight/brightness"
-      );
-      const currentBrightness = parseInt(brightnessResult.stdout.trim());
+      const brightnessResult = await readCommand("cat", [BACKLIGHT_PATH]);
+      const currentBrightness = parseInt(brightnessResult.trim());
       brightness = Math.round((currentBrightness / 255) * 100);
     } catch (e) {
       console.log("Could not get brightness info:", e.message);
     }
 
+    // Fresh temperature level and throttling flags
+    const thermal = await thermalMonitor.check();
+
     res.json({
       success: true,
       volume: volume,
@@ -1462,6 +1783,7 @@ app.get("/api/system/status", async (req, res) => {
       screenOn: screenOn,
       audioSink: currentSink,
       isBluetoothAudio: isBluetoothAudio,
+      thermal,
     });
   } catch (error) {
     console.error("Error getting system status:", error);
@@ -1483,7 +1805,9 @@ app.post("/api/system/shutdown", async (req, res) => {
 
     // Delay the shutdown to allow response to be sent
     setTimeout(() => {
-      execAsync("sudo shutdown -h now");
+      executor
+        .run("sudo", ["shutdown", "-h", "now"])
+        .catch((error) => console.error("❌ Shutdown failed:", error.message));
     }, 1000);
   } catch (error) {
     console.error("Error initiating shutdown:", error);
@@ -1505,7 +1829,9 @@ app.post("/api/system/reboot", async (req, res) => {
 
     // Delay the reboot to allow response to be sent
     setTimeout(() => {
-      execAsync("sudo reboot");
+      executor
+        .run("sudo", ["reboot"])
+        .catch((error) => console.error("❌ Reboot failed:", error.message));
     }, 1000);
   } catch (error) {
     console.error("Error initiating reboot:", error);
@@ -1517,6 +1843,18 @@ app.post("/api/system/reboot", async (req, res) => {
   }
 });
 
+// Recent system commands (argv, exit code, duration), newest first
+app.get("/api/system/commands", pairing.requirePairedClient, (req, res) => {
+  const limit = Math.min(parseInt(req.query.limit) || 50, 200);
+
+  res.json({
+    success: true,
+    dryRun: executor.dryRun,
+    commands: executor.getAuditLog(limit),
+    timestamp: new Date().toISOString(),
+  });
+});
+
 // ========================================
 // SPOTIFY WEB API INTEGRATION
 // ========================================
@@ -1579,6 +1917,62 @@ const ensureValidToken = async (req, res, next) => {
   next();
 };
 
+// Helper to shape Spotify's playback state for the frontend
+const toPlaybackState = (body) => {
+  if (!body || !body.item) {
+    return { isPlaying: false, track: null };
+  }
+
+  const track = body.item;
+  return {
+    isPlaying: body.is_playing,
+    progress: body.progress_ms,
+    volume: body.device ? body.device.volume_percent : null,
+    shuffleState: body.shuffle_state,
+    repeatState: body.repeat_state,
+    track: {
+      id: track.id,
+      name: track.name,
+      artists: track.artists.map((artist) => artist.name),
+      album: track.album.name,
+      duration: track.duration_ms,
+      image: track.album.images[0]?.url || null,
+      external_urls: track.external_urls,
+    },
+    device: body.device
+      ? {
+          id: body.device.id,
+          name: body.device.name,
+          type: body.device.type,
+          volume: body.device.volume_percent,
+        }
+      : null,
+  };
+};
+
+// Push now-playing changes to event stream clients (track or play/pause state)
+let lastNowPlayingKey = null;
+const publishNowPlaying = async () => {
+  if (events.clientCount() === 0 || !spotifyTokens.accessToken) return;
+
+  try {
+    if (isTokenExpired() && !(await refreshAccessToken())) return;
+
+    const data = await spotifyApi.getMyCurrentPlaybackState();
+    const playbackState = toPlaybackState(data.body);
+    const key = `${playbackState.track?.id ?? "none"}:${playbackState.isPlaying}`;
+
+    if (key !== lastNowPlayingKey) {
+      lastNowPlayingKey = key;
+      events.publish("spotify.nowPlaying", { success: true, ...playbackState });
+    }
+  } catch (error) {
+    console.warn("⚠️ Spotify now-playing poll failed:", error.message);
+  }
+};
+
+setInterval(publishNowPlaying, SPOTIFY_POLL_INTERVAL);
+
 app.get("/api/spotify/auth", (req, res) => {
   const scopes = [
     "user-read-playback-state",
@@ -1659,31 +2053,7 @@ app.get("/api/spotify/current", ensureValidToken, async (req, res) => {
       });
     }
 
-    const track = data.body.item;
-    const playbackState = {
-      isPlaying: data.body.is_playing,
-      progress: data.body.progress_ms,
-      volume: data.body.device ? data.body.device.volume_percent : null,
-      shuffleState: data.body.shuffle_state,
-      repeatState: data.body.repeat_state,
-      track: {
-        id: track.id,
-        name: track.name,
-        artists: track.artists.map((artist) => artist.name),
-        album: track.album.name,
-        duration: track.duration_ms,
-        image: track.album.images[0]?.url || null,
-        external_urls: track.external_urls,
-      },
-      device: data.body.device
-        ? {
-            id: data.body.device.id,
-            name: data.body.device.name,
-            type: data.body.device.type,
-            volume: data.body.device.volume_percent,
-          }
-        : null,
-    };
+    const playbackState = toPlaybackState(data.body);
 
     res.json({
       success: true,
@@ -2046,9 +2416,8 @@ app.post("/api/pi/spotify-mirror-control", async (req, res) => {
     if (piResponse.success) {
       // Update local state based on action
       spotifyMirrorEnabled = enabled;
-      if (!enabled) {
-        spotifyMirrorSuccess = false;
-      }
+      // The Pi acknowledged the mirror, which is what unlocks wallpapers
+      spotifyMirrorSuccess = enabled;
 
       if (action === "start" && enabled) {
         console.log("✅ Spotify mirror ON status sent to Pi");
@@ -2112,7 +2481,7 @@ app.get("/api/wallpapers", async (req, res) => {
     console.log("🖼️ Wallpaper API called - Spotify mirror verified");
 
     // Mock wallpaper data (in production, this would fetch from actual wallpaper directory)
-    const mockWallpapers = [
+    const mockWallpapers = simulator ? simulator.listWallpapers() : [
       {
         id: "wp1",
         name: "Abstract Waves",
@@ -2197,13 +2566,26 @@ app.post("/api/wallpapers/set", async (req, res) => {
     console.log(`🖼️ Setting wallpaper: ${wallpaperId}`);
 
     // Mock wallpaper setting (in production, this would actually change the wallpaper)
+    const previousWallpaper = simulator ? simulator.setWallpaper(wallpaperId) : "wp1";
+    if (previousWallpaper === null) {
+      return res.status(404).json({
+        success: false,
+        error: `Unknown wallpaper: ${wallpaperId}`,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
     const wallpaperSet = {
       id: wallpaperId,
-      name: `Wallpaper ${wallpaperId}`,
+      name:
+        simulator?.listWallpapers().find((wallpaper) => wallpaper.id === wallpaperId)?.name ??
+        `Wallpaper ${wallpaperId}`,
       setAt: new Date().toISOString(),
-      previousWallpaper: "wp1", // Mock previous
+      previousWallpaper,
     };
 
+    events.publish("wallpaper.changed", wallpaperSet);
+
     res.json({
       success: true,
       message: `Wallpaper changed to ${wallpaperId}`,
@@ -2248,9 +2630,31 @@ app.get("/api/wallpapers/status", async (req, res) => {
   }
 });
 
+// Keep the history gathered since the last periodic save on a clean shutdown
+for (const signal of ["SIGINT", "SIGTERM"]) {
+  process.on(signal, () => {
+    telemetryHistory.stop();
+    process.exit(0);
+  });
+}
+
 app.listen(PORT, () => {
   console.log(`🚀 Server running at http://smartmonitor.local:${PORT}`);
-  console.log(`📱 Frontend can connect via: http://192.168.234.180:${PORT}`);
+  console.log(
+    simulator
+      ? "🧪 Pi target: in-memory simulator"
+      : `📱 Pi target: http://${PI_CONFIG.host}:${PI_CONFIG.port}`
+  );
+  if (executor.dryRun) {
+    console.log("🧾 Dry-run mode: mutating system commands are recorded, not run");
+  }
+  if (discoveryEnabled) {
+    discovery.start();
+  }
+  autoReconnect.start();
+  batteryMonitor.start();
+  thermalMonitor.start();
+  telemetryHistory.start();
   console.log(`🎵 Bluetooth audio endpoints available`);
   console.log(`🎧 Spotify Web API integration enabled`);
   console.log(`🔗 Spotify auth URL: http://localhost:${PORT}/api/spotify/auth`);
@@ -1,213 +1,171 @@
-// Add these endpoints to your Pi's index.js file
+// Bluetooth-only backend for Pis that do not run the full enhanced-index.js
+// server. It mounts the same Bluetooth routes, backed by the same validated
+// bluetoothctl control, without Spotify, client pairing or the event stream.
+//
+// With no client pairing to check who is asking, it only listens on loopback:
+// run it for a kiosk browser on the Pi itself, or put the full server in front.
+//
+//   node pi-backend-bluetooth.js [--simulate] [--dry-run]
+
+import express from "express";
+import cors from "cors";
+import { createCommandExecutor, validate } from "./server/commandExecutor.js";
+import { createSimulatedPi } from "./server/simulator.js";
+import { createBluetoothControl, createBluetoothRouter } from "./server/bluetoothControl.js";
+import { BLUETOOTH_SINK_WAIT, createAudioSinks } from "./server/audioSinks.js";
+
+const PORT = Number(process.env.BLUETOOTH_BACKEND_PORT) || 5000;
+const HOST = "127.0.0.1";
+const DEFAULT_AUDIO_SINK = "alsa_output.platform-bcm2835_audio.analog-mono";
+
+const simulator =
+  process.argv.includes("--simulate") || process.env.PI_SIMULATOR === "1"
+    ? createSimulatedPi({ port: PORT })
+    : null;
+
+const executor = createCommandExecutor({
+  dryRun: process.argv.includes("--dry-run") || process.env.PI_DRY_RUN === "1",
+  runner: simulator?.run,
+});
 
-// Bluetooth Audio Management Endpoints
-app.post("/api/bluetooth", async (req, res) => {
-  try {
-    const { command, params } = req.body;
-    console.log("🎵 Bluetooth command received:", command, params);
-
-    switch (command) {
-      case "bluetooth_audio_connect":
-        const connectResult = await connectBluetoothAudio(
-          params.deviceId,
-          params.deviceName
-        );
-        res.json({
-          success: true,
-          message: `Connected to ${params.deviceName}`,
-          data: connectResult,
-        });
-        break;
-
-      case "bluetooth_audio_disconnect":
-        const disconnectResult = await disconnectBluetoothAudio();
-        res.json({
-          success: true,
-          message: "Bluetooth audio disconnected",
-          data: disconnectResult,
-        });
-        break;
-
-      default:
-        res.status(400).json({
-          success: false,
-          error: "Unknown Bluetooth command",
-        });
+// No event stream here, so pairing prompts are logged and clients poll
+// /bluetooth/pairing/prompts to answer them
+const bluetooth = createBluetoothControl({
+  executor,
+  publish: (type, payload) => {
+    if (type === "bluetooth.pairing.prompt") {
+      console.log(`🔑 Pairing ${payload.deviceId} needs ${payload.type}${payload.passkey ? ` (${payload.passkey})` : ""}`);
     }
-  } catch (error) {
-    console.error("Bluetooth command error:", error);
-    res.status(500).json({
-      success: false,
-      error: error.message || "Bluetooth operation failed",
-    });
-  }
+  },
 });
+const audioSinks = createAudioSinks({ executor, deviceName: () => undefined });
 
-// Get Bluetooth status
-app.get("/api/bluetooth/status", async (req, res) => {
-  try {
-    const status = await getBluetoothStatus();
-    res.json({
-      success: true,
-      data: status,
-    });
-  } catch (error) {
-    console.error("Bluetooth status error:", error);
-    res.status(500).json({
-      success: false,
-      error: error.message || "Failed to get Bluetooth status",
-    });
+const app = express();
+app.use(cors());
+app.use(express.json());
+
+async function connectBluetoothAudio(deviceId, deviceName) {
+  const mac = validate.mac(deviceId);
+  console.log(`🎵 Connecting to Bluetooth audio device: ${deviceName} (${mac})`);
+
+  await executor.run("sudo", ["systemctl", "start", "bluetooth"]);
+  await bluetooth.trust(mac);
+
+  const { paired, detail } = await bluetooth.pair(mac);
+  if (!paired) throw new Error(`Failed to pair with ${deviceName}: ${detail}`);
+
+  console.log(`🔗 Connecting to device ${mac}...`);
+  await bluetooth.connect(mac);
+
+  // The sink shows up a moment after the connection, named by the sound
+  // server and the card's active profile
+  const audioSink = (await audioSinks.bluetoothSink(mac, { waitMs: BLUETOOTH_SINK_WAIT }).catch(() => null))?.name ?? null;
+  let audioSetSuccess = false;
+  if (!audioSink) {
+    console.log(`⚠️ No audio sink appeared for ${mac}, but device connected`);
+  } else {
+    try {
+      await audioSinks.setDefault(audioSink);
+      audioSetSuccess = true;
+    } catch {
+      console.log("⚠️ Audio sink setting failed, but device connected");
+    }
   }
-});
 
-// Alternative endpoint for backward compatibility
-app.post("/bluetooth", async (req, res) => {
-  // Redirect to main bluetooth endpoint
-  req.url = "/api/bluetooth";
-  app._router.handle(req, res);
-});
+  return {
+    connected: true,
+    deviceId: mac,
+    deviceName,
+    audioSink,
+    audioSetSuccess,
+    timestamp: new Date().toISOString(),
+  };
+}
 
-app.get("/bluetooth/status", async (req, res) => {
-  // Redirect to main bluetooth status endpoint
-  req.url = "/api/bluetooth/status";
-  app._router.handle(req, res);
-});
+async function listConnectedDevices() {
+  const connected = [];
+  for (const { mac } of await bluetooth.list()) {
+    try {
+      const info = await bluetooth.info(mac);
+      if (info.connected) connected.push(info);
+    } catch {
+      // Gone since it was listed
+    }
+  }
+  return connected;
+}
 
-// Bluetooth Audio Functions
-const { exec } = require("child_process");
-const util = require("util");
-const execAsync = util.promisify(exec);
+async function disconnectDevice(deviceId) {
+  const { mac, connected } = await bluetooth.info(deviceId);
+  if (!connected) {
+    return { disconnected: false, message: "Device was not connected", deviceId: mac, timestamp: new Date().toISOString() };
+  }
 
-async function connectBluetoothAudio(deviceId, deviceName) {
-  try {
-    console.log(
-      `🎵 Connecting to Bluetooth audio device: ${deviceName} (${deviceId})`
-    );
-
-    // First, make sure Bluetooth is enabled
-    await execAsync("sudo systemctl start bluetooth");
-    await execAsync("sudo systemctl enable bluetooth");
-
-    // Scan for devices (if needed)
-    console.log("📡 Scanning for Bluetooth devices...");
-    await execAsync("bluetoothctl scan on &");
-    await new Promise((resolve) => setTimeout(resolve, 5000)); // Wait 5 seconds
-    await execAsync('pkill -f "bluetoothctl scan"');
-
-    // Trust and pair the device
-    console.log(`🤝 Pairing with device ${deviceId}...`);
-    await execAsync(`bluetoothctl trust ${deviceId}`);
-    await execAsync(`bluetoothctl pair ${deviceId}`);
-
-    // Connect the device
-    console.log(`🔗 Connecting to device ${deviceId}...`);
-    await execAsync(`bluetoothctl connect ${deviceId}`);
-
-    // Set as audio output (for PulseAudio)
-    console.log(`🔊 Setting as audio output...`);
-    await execAsync(
-      `pacmd set-default-sink bluez_sink.${deviceId.replace(
-        /:/g,
-        "_"
-      )}.a2dp_sink`
-    );
-
-    return {
-      connected: true,
-      deviceId,
-      deviceName,
-      timestamp: new Date().toISOString(),
-    };
-  } catch (error) {
-    console.error("Bluetooth connection error:", error);
-    throw new Error(`Failed to connect to ${deviceName}: ${error.message}`);
+  await bluetooth.disconnect(mac);
+  await resetDefaultSink();
+  return { disconnected: true, deviceId: mac, timestamp: new Date().toISOString() };
+}
+
+async function disconnectAll() {
+  console.log("🔇 Disconnecting Bluetooth audio...");
+  const devices = await listConnectedDevices();
+  for (const { mac } of devices) {
+    await bluetooth.disconnect(mac);
   }
+  await resetDefaultSink();
+
+  return {
+    disconnected: true,
+    devicesDisconnected: devices.length,
+    disconnectedDevices: devices.map(({ mac }) => mac),
+    timestamp: new Date().toISOString(),
+  };
 }
 
-async function disconnectBluetoothAudio() {
+async function resetDefaultSink() {
   try {
-    console.log("🔇 Disconnecting Bluetooth audio...");
-
-    // Get connected devices
-    const { stdout } = await execAsync("bluetoothctl devices Connected");
-    const connectedDevices = stdout
-      .trim()
-      .split("\n")
-      .filter((line) => line.length > 0);
-
-    // Disconnect all connected devices
-    for (const deviceLine of connectedDevices) {
-      const deviceId = deviceLine.split(" ")[1];
-      if (deviceId) {
-        console.log(`Disconnecting device: ${deviceId}`);
-        await execAsync(`bluetoothctl disconnect ${deviceId}`);
-      }
-    }
-
-    // Reset to default audio output
-    await execAsync(
-      "pacmd set-default-sink alsa_output.platform-bcm2835_audio.analog-mono"
-    );
-
-    return {
-      disconnected: true,
-      timestamp: new Date().toISOString(),
-    };
-  } catch (error) {
-    console.error("Bluetooth disconnection error:", error);
-    throw new Error(`Failed to disconnect Bluetooth audio: ${error.message}`);
+    await audioSinks.setDefault(DEFAULT_AUDIO_SINK);
+  } catch {
+    console.log("⚠️ Could not reset to default audio sink");
   }
 }
 
 async function getBluetoothStatus() {
-  try {
-    // Get Bluetooth service status
-    const { stdout: serviceStatus } = await execAsync(
-      "systemctl is-active bluetooth"
-    );
-
-    // Get connected devices
-    const { stdout: connectedDevices } = await execAsync(
-      "bluetoothctl devices Connected"
-    );
-    const devices = connectedDevices
-      .trim()
-      .split("\n")
-      .filter((line) => line.length > 0)
-      .map((line) => {
-        const parts = line.split(" ");
-        return {
-          id: parts[1],
-          name: parts.slice(2).join(" "),
-        };
-      });
-
-    // Get current audio sink
-    const { stdout: currentSink } = await execAsync(
-      'pacmd list-sinks | grep "* index"'
-    );
-
-    return {
-      serviceActive: serviceStatus.trim() === "active",
-      connectedDevices: devices,
-      currentAudioSink: currentSink.trim(),
-      timestamp: new Date().toISOString(),
-    };
-  } catch (error) {
-    console.error("Bluetooth status error:", error);
-    return {
-      serviceActive: false,
-      connectedDevices: [],
-      currentAudioSink: "unknown",
-      error: error.message,
-      timestamp: new Date().toISOString(),
-    };
-  }
+  const serviceStatus = await executor
+    .run("systemctl", ["is-active", "bluetooth"], { readOnly: true })
+    .then(({ stdout }) => stdout.trim(), () => "inactive");
+  const connectedDevices = (await listConnectedDevices()).map(({ mac, name, isAudioDevice, battery }) => ({
+    id: mac,
+    name,
+    mac,
+    connected: true,
+    isAudioDevice,
+    battery,
+  }));
+  const currentAudioSink = await audioSinks.getDefault().catch(() => "unknown");
+
+  return {
+    serviceActive: serviceStatus === "active",
+    connectedDevices,
+    currentAudioSink,
+    isBluetoothAudio: currentAudioSink.includes("bluez_sink"),
+    hasConnectedAudioDevice: connectedDevices.some((device) => device.isAudioDevice),
+    timestamp: new Date().toISOString(),
+  };
 }
 
-// Export functions if using modules
-module.exports = {
-  connectBluetoothAudio,
-  disconnectBluetoothAudio,
-  getBluetoothStatus,
-};
+app.use(
+  createBluetoothRouter({
+    bluetooth,
+    audio: {
+      connect: connectBluetoothAudio,
+      disconnect: disconnectDevice,
+      disconnectAll,
+      status: getBluetoothStatus,
+    },
+  })
+);
+
+app.listen(PORT, HOST, () => {
+  console.log(`🎵 Bluetooth backend listening on ${HOST}:${PORT}${simulator ? " (simulated Pi)" : ""}`);
+});
@@ -0,0 +1,320 @@
+import { CommandValidationError, validate } from "./commandExecutor.js";
+
+// PulseAudio / PipeWire output routing through pactl: every sink with its
+// volume, the default sink, moving playing streams, and one combined sink
+// that plays on several speakers at once (module-combine-sink).
+
+const COMBINED_SINK = "smartmonitor_combined";
+const SINK_POLL_INTERVAL = 500;
+// How long a freshly connected device usually takes to show up as a sink
+export const BLUETOOTH_SINK_WAIT = 5000;
+
+// bluez_sink.AA_BB_CC_DD_EE_FF.a2dp_sink (PulseAudio), bluez_output.AA_BB_CC_DD_EE_FF.1 (PipeWire)
+const BLUEZ_SINK = /^bluez_(?:sink|output)\.([0-9A-F]{2}(?:_[0-9A-F]{2}){5})\./i;
+
+const kindOf = (name) => {
+  if (name === COMBINED_SINK) return "combined";
+  if (BLUEZ_SINK.test(name)) return "bluetooth";
+  if (/hdmi/i.test(name)) return "hdmi";
+  if (/analog|headphones|bcm2835/i.test(name)) return "analog";
+  return "other";
+};
+
+const KIND_LABELS = {
+  combined: "All selected speakers",
+  hdmi: "HDMI",
+  analog: "Headphone jack",
+};
+
+const macOf = (name) => BLUEZ_SINK.exec(name)?.[1].replace(/_/g, ":").toUpperCase() ?? null;
+
+// Tab-separated rows of `pactl list short ...`
+const shortList = (stdout) =>
+  stdout
+    .trim()
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => line.split("\t"));
+
+// a2dp_sink / a2dp-sink-aac (PipeWire names one profile per codec),
+// headset_head_unit / handsfree_head_unit, off
+const profileKind = (name) => {
+  if (/a2dp/i.test(name)) return "a2dp";
+  if (/head_unit|headset|handsfree|hsp|hfp/i.test(name)) return "headset";
+  if (name === "off") return "off";
+  return "other";
+};
+
+// "a2dp_sink: High Fidelity Playback (A2DP Sink) (sinks: 1, sources: 0, priority: 40, available: yes)"
+const PROFILE_LINE = /^\t\t([\w.-]+): (.*?) \((?:sinks|priority)[^()]*\)$/;
+
+// Cards from `pactl list cards`: { name, mac, codec, activeProfile, profiles }.
+// The codec property is bluetooth.codec on PulseAudio, api.bluez5.codec on PipeWire.
+export function parseCards(stdout) {
+  const cards = [];
+  let card = null;
+  let section = null;
+  for (const line of stdout.split("\n")) {
+    if (/^Card #\d+/.test(line)) {
+      card = { name: null, mac: null, codec: null, activeProfile: null, profiles: [] };
+      cards.push(card);
+      continue;
+    }
+    if (!card) continue;
+
+    const field = /^\t([A-Za-z][A-Za-z ]*):(?: (.*))?$/.exec(line);
+    if (field) {
+      section = field[1];
+      if (field[1] === "Name") card.name = field[2].trim();
+      if (field[1] === "Active Profile") card.activeProfile = field[2].trim();
+      continue;
+    }
+
+    const profile = section === "Profiles" && PROFILE_LINE.exec(line);
+    if (profile) {
+      card.profiles.push({
+        name: profile[1],
+        description: profile[2],
+        kind: profileKind(profile[1]),
+        available: !/available: no/.test(line),
+      });
+      continue;
+    }
+
+    const property = /^\t\t([\w.]+) = "(.*)"$/.exec(line);
+    if (property?.[1] === "bluetooth.codec" || property?.[1] === "api.bluez5.codec") card.codec = property[2];
+    if (property?.[1] === "device.string" && /^[0-9A-F:]{17}$/i.test(property[2])) card.mac = property[2].toUpperCase();
+  }
+  return cards;
+}
+
+// `deviceName(mac)` labels Bluetooth sinks with the speaker's name
+export function createAudioSinks({ executor, deviceName = () => null }) {
+  const read = async (args) => (await executor.run("pactl", args, { readOnly: true })).stdout;
+
+  async function getDefault() {
+    const line = (await read(["info"])).split("\n").find((entry) => entry.startsWith("Default Sink:"));
+    if (!line) throw new Error("pactl did not report a default sink");
+    return line.slice("Default Sink:".length).trim();
+  }
+
+  // The loaded combine module, if any: { moduleId, members }
+  async function findCombined() {
+    for (const [moduleId, module, args = ""] of shortList(await read(["list", "short", "modules"]))) {
+      if (module === "module-combine-sink" && args.includes(`sink_name=${COMBINED_SINK}`)) {
+        return { moduleId, members: /slaves=(\S+)/.exec(args)?.[1].split(",") ?? [] };
+      }
+    }
+    return null;
+  }
+
+  async function volumeOf(name) {
+    try {
+      const volume = Number(/(\d+)%/.exec(await read(["get-sink-volume", name]))?.[1] ?? NaN);
+      const muted = (await read(["get-sink-mute", name])).includes("yes");
+      return { volume: Number.isFinite(volume) ? volume : null, muted };
+    } catch {
+      // Sinks can vanish between listing and asking
+      return { volume: null, muted: false };
+    }
+  }
+
+  // The card of a connected Bluetooth device, or null if it has none
+  async function bluetoothCard(mac) {
+    const cards = parseCards(await read(["list", "cards"]));
+    return cards.find((card) => card.mac === mac.toUpperCase()) ?? null;
+  }
+
+  // Codecs the card can switch between, from PulseAudio's bluez message
+  // handler (PulseAudio 15+). PipeWire has none; there each A2DP codec is a
+  // profile of its own instead.
+  async function codecsOf(card) {
+    try {
+      const stdout = await read(["send-message", `/card/${card.name}/bluez`, "list-codecs"]);
+      return JSON.parse(stdout).map(({ name, description }) => ({ name, description: description || name }));
+    } catch {
+      return [];
+    }
+  }
+
+  // A Bluetooth device's profiles and codecs, or null if it has no card
+  async function bluetoothAudio(deviceId) {
+    const mac = validate.mac(deviceId);
+    const card = await bluetoothCard(mac);
+    if (!card) return null;
+
+    return {
+      mac,
+      card: card.name,
+      activeProfile: card.activeProfile,
+      profiles: card.profiles,
+      codec: card.codec,
+      codecs: card.activeProfile && profileKind(card.activeProfile) === "a2dp" ? await codecsOf(card) : [],
+    };
+  }
+
+  // Switch a device's card profile and/or A2DP codec. The profile goes first,
+  // since codecs only apply to A2DP. When the device was playing, its sink is
+  // recreated under a new name, so that one becomes the default again.
+  async function setBluetoothAudio(deviceId, { profile, codec }) {
+    const mac = validate.mac(deviceId);
+    const card = await bluetoothCard(mac);
+    if (!card) return null;
+
+    const wasDefault = macOf((await getDefault().catch(() => null)) ?? "") === mac;
+
+    if (profile !== undefined && profile !== card.activeProfile) {
+      if (!card.profiles.some((entry) => entry.name === profile && entry.available)) {
+        throw new CommandValidationError(`Unavailable profile for ${mac}: ${JSON.stringify(profile)}`);
+      }
+      await executor.run("pactl", ["set-card-profile", card.name, profile]);
+      console.log(`🎚️ ${mac} switched to ${profile}`);
+    }
+
+    if (codec !== undefined && codec !== card.codec) {
+      const { codecs } = await bluetoothAudio(mac);
+      if (!codecs.some((entry) => entry.name === codec)) {
+        throw new CommandValidationError(`Unsupported codec for ${mac}: ${JSON.stringify(codec)}`);
+      }
+      await executor.run("pactl", ["send-message", `/card/${card.name}/bluez`, "switch-codec", JSON.stringify(codec)]);
+      console.log(`🎚️ ${mac} switched to the ${codec} codec`);
+    }
+
+    const sink = wasDefault ? await bluetoothSink(mac) : null;
+    if (sink) await setDefault(sink.name);
+
+    return bluetoothAudio(mac);
+  }
+
+  // Every sink with its volume; the default one is flagged
+  async function list() {
+    const [rows, defaultSink, combined] = await Promise.all([
+      read(["list", "short", "sinks"]).then(shortList),
+      getDefault().catch(() => null),
+      findCombined().catch(() => null),
+    ]);
+
+    const sinks = [];
+    for (const [, name, , , state] of rows) {
+      const kind = kindOf(name);
+      const mac = macOf(name);
+      sinks.push({
+        name,
+        label: (kind === "bluetooth" ? deviceName(mac) || mac : KIND_LABELS[kind]) ?? name,
+        kind,
+        mac,
+        state: state?.toLowerCase() ?? "unknown",
+        isDefault: name === defaultSink,
+        ...(await volumeOf(name)),
+      });
+    }
+
+    return { sinks, defaultSink, combined: combined ? { name: COMBINED_SINK, members: combined.members } : null };
+  }
+
+  // The sink of a connected Bluetooth device, matched by MAC whatever the sound
+  // server and active profile call it (a2dp_sink, headset_head_unit, PipeWire's
+  // numbered outputs). A sink shows up a moment after the connection, so this
+  // keeps looking for up to `waitMs`; null if none appeared (e.g. profile off).
+  async function bluetoothSink(deviceId, { waitMs = 0 } = {}) {
+    const mac = validate.mac(deviceId);
+    const deadline = Date.now() + waitMs;
+    for (;;) {
+      const sink = (await list()).sinks.find((entry) => entry.mac === mac);
+      if (sink || Date.now() >= deadline) return sink ?? null;
+      await new Promise((resolve) => setTimeout(resolve, SINK_POLL_INTERVAL));
+    }
+  }
+
+  // Move every playing stream to `sink`; returns how many moved
+  async function moveStreams(sink) {
+    let moved = 0;
+    for (const [id] of shortList(await read(["list", "short", "sink-inputs"]))) {
+      try {
+        await executor.run("pactl", ["move-sink-input", id, sink]);
+        moved++;
+      } catch (error) {
+        console.log(`⚠️ Could not move stream ${id} to ${sink}:`, error.message);
+      }
+    }
+    return moved;
+  }
+
+  // Make a sink the default output, via pacmd or (newer PulseAudio and
+  // PipeWire) pactl. Streams already playing follow unless moveStreams is off.
+  async function setDefault(sinkName, { moveStreams: move = true } = {}) {
+    const sink = validate.sinkName(sinkName);
+    let tool = "pacmd";
+    try {
+      await executor.run("pacmd", ["set-default-sink", sink]);
+    } catch {
+      await executor.run("pactl", ["set-default-sink", sink]);
+      tool = "pactl";
+    }
+
+    const moved = move ? await moveStreams(sink) : 0;
+    return { tool, sink, moved };
+  }
+
+  async function setVolume(sinkName, { volume, muted }) {
+    const sink = validate.sinkName(sinkName);
+    if (volume !== undefined) {
+      await executor.run("pactl", ["set-sink-volume", sink, `${validate.percent(volume)}%`]);
+    }
+    if (muted !== undefined) {
+      await executor.run("pactl", ["set-sink-mute", sink, muted ? "1" : "0"]);
+    }
+  }
+
+  // Group speakers into one combined sink and make it the default. Replaces
+  // an existing group, since only one can be the default anyway.
+  async function combine(sinkNames) {
+    const members = [...new Set((sinkNames ?? []).map(validate.sinkName))].filter((name) => name !== COMBINED_SINK);
+    if (members.length < 2) {
+      throw new CommandValidationError("A combined output needs at least two sinks");
+    }
+
+    await uncombine({ restoreDefault: false });
+    await executor.run("pactl", [
+      "load-module",
+      "module-combine-sink",
+      `sink_name=${COMBINED_SINK}`,
+      `slaves=${members.join(",")}`,
+    ]);
+    console.log(`🔀 Combined output playing on ${members.join(", ")}`);
+
+    await setDefault(COMBINED_SINK);
+    return { name: COMBINED_SINK, members };
+  }
+
+  // Remove the combined sink; its streams move back to the first member
+  async function uncombine({ restoreDefault = true } = {}) {
+    const combined = await findCombined();
+    if (!combined) return false;
+
+    const wasDefault = (await getDefault().catch(() => null)) === COMBINED_SINK;
+    await executor.run("pactl", ["unload-module", combined.moduleId]);
+    console.log("🔀 Combined output removed");
+
+    if (restoreDefault && wasDefault && combined.members[0]) {
+      await setDefault(combined.members[0]).catch((error) =>
+        console.log("⚠️ Could not restore the default sink:", error.message)
+      );
+    }
+    return true;
+  }
+
+  return {
+    list,
+    bluetoothSink,
+    bluetoothCard,
+    bluetoothAudio,
+    setBluetoothAudio,
+    getDefault,
+    setDefault,
+    setVolume,
+    moveStreams,
+    combine,
+    uncombine,
+  };
+}
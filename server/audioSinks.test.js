@@ -0,0 +1,92 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { CommandValidationError } from "./commandExecutor.js";
+import { createAudioSinks } from "./audioSinks.js";
+
+const SPEAKER = "40:EF:4C:8A:12:9B";
+
+const ANALOG = "0\talsa_output.platform-bcm2835_audio.analog-mono\tmodule-alsa-card.c\ts16le 1ch 44100Hz\tSUSPENDED";
+
+// `pactl list short sinks` with the speaker connected, as each sound server names it
+const PULSEAUDIO_SINKS = `${ANALOG}
+1\tbluez_sink.40_EF_4C_8A_12_9B.a2dp_sink\tmodule-bluez5-device.c\ts16le 2ch 44100Hz\tRUNNING
+`;
+const PIPEWIRE_SINKS = `${ANALOG}
+47\tbluez_output.40_EF_4C_8A_12_9B.1\tPipeWire\ts16le 2ch 48000Hz\tIDLE
+`;
+
+// The speaker's card left on the headset profile (PUT /bluetooth/audio/:mac)
+const HEADSET_SINKS = `${ANALOG}
+2\tbluez_sink.40_EF_4C_8A_12_9B.headset_head_unit\tmodule-bluez5-device.c\ts16le 1ch 16000Hz\tIDLE
+`;
+const HEADSET_CARDS = `Card #1
+\tName: bluez_card.40_EF_4C_8A_12_9B
+\tDriver: module-bluez5-device.c
+\tProperties:
+\t\tdevice.description = "Kitchen Speaker"
+\t\tdevice.string = "40:EF:4C:8A:12:9B"
+\tProfiles:
+\t\ta2dp_sink: High Fidelity Playback (A2DP Sink) (sinks: 1, sources: 0, priority: 40, available: yes)
+\t\theadset_head_unit: Headset Head Unit (HSP/HFP) (sinks: 1, sources: 1, priority: 30, available: yes)
+\t\toff: Off (sinks: 0, sources: 0, priority: 0, available: yes)
+\tActive Profile: headset_head_unit
+`;
+
+// An executor answering `pactl` from a recorded sink (and card) list
+function createPactlExecutor(sinks, cards = "") {
+  const calls = [];
+  return {
+    calls,
+    dryRun: false,
+    async run(program, args = []) {
+      calls.push([program, ...args]);
+      const key = args.join(" ");
+      if (key === "list short sinks") return { stdout: sinks, stderr: "", exitCode: 0 };
+      if (key === "list cards") return { stdout: cards, stderr: "", exitCode: 0 };
+      if (key === "info") {
+        return { stdout: "Server Name: pulseaudio\nDefault Sink: alsa_output.platform-bcm2835_audio.analog-mono\n", stderr: "", exitCode: 0 };
+      }
+      if (args[0] === "get-sink-volume") return { stdout: "Volume: front-left: 45875 /  70% / -9.29 dB\n", stderr: "", exitCode: 0 };
+      if (args[0] === "get-sink-mute") return { stdout: "Mute: no\n", stderr: "", exitCode: 0 };
+      return { stdout: "", stderr: "", exitCode: 0 };
+    },
+  };
+}
+
+test("bluetoothSink finds a PulseAudio A2DP sink by MAC", async () => {
+  const audioSinks = createAudioSinks({ executor: createPactlExecutor(PULSEAUDIO_SINKS) });
+
+  const sink = await audioSinks.bluetoothSink(SPEAKER.toLowerCase());
+  assert.equal(sink.name, "bluez_sink.40_EF_4C_8A_12_9B.a2dp_sink");
+  assert.equal(sink.kind, "bluetooth");
+  assert.equal(sink.mac, SPEAKER);
+});
+
+test("bluetoothSink finds a PipeWire output by MAC", async () => {
+  const audioSinks = createAudioSinks({ executor: createPactlExecutor(PIPEWIRE_SINKS) });
+
+  assert.equal((await audioSinks.bluetoothSink(SPEAKER)).name, "bluez_output.40_EF_4C_8A_12_9B.1");
+});
+
+test("bluetoothSink finds the sink of a card left on a headset profile", async () => {
+  const audioSinks = createAudioSinks({ executor: createPactlExecutor(HEADSET_SINKS, HEADSET_CARDS) });
+
+  const audio = await audioSinks.bluetoothAudio(SPEAKER);
+  assert.equal(audio.activeProfile, "headset_head_unit");
+  assert.equal(audio.profiles.find((profile) => profile.name === audio.activeProfile).kind, "headset");
+  assert.equal((await audioSinks.bluetoothSink(SPEAKER)).name, "bluez_sink.40_EF_4C_8A_12_9B.headset_head_unit");
+});
+
+test("bluetoothSink is null when the device has no sink", async () => {
+  const audioSinks = createAudioSinks({ executor: createPactlExecutor(`${ANALOG}\n`) });
+
+  assert.equal(await audioSinks.bluetoothSink(SPEAKER), null);
+});
+
+test("bluetoothSink rejects a bad MAC before pactl runs", async () => {
+  const executor = createPactlExecutor(PULSEAUDIO_SINKS);
+  const audioSinks = createAudioSinks({ executor });
+
+  await assert.rejects(() => audioSinks.bluetoothSink("AA:BB; reboot"), CommandValidationError);
+  assert.deepEqual(executor.calls, []);
+});
@@ -0,0 +1,171 @@
+import { randomUUID } from "crypto";
+import { ANSI_ESCAPE } from "./bluetoothInfo.js";
+
+// Pairing through an interactive bluetoothctl session that registers itself
+// as the pairing agent. Whatever the device asks for (confirm a passkey,
+// enter a PIN, authorize a service) is published as a prompt event, and the
+// session waits until a client answers it or the prompt expires.
+
+const PAIRING_TIMEOUT = 90000;
+const PROMPT_TIMEOUT = 30000;
+
+// Agent requests that need an answer; prompts end without a newline
+const PROMPTS = [
+  { type: "confirm-passkey", pattern: /Confirm passkey (\d+) \(yes\/no\):/, field: "passkey" },
+  { type: "enter-pin", pattern: /Enter PIN code:/ },
+  { type: "enter-passkey", pattern: /Enter passkey \(number in 0-999999\):/ },
+  { type: "authorize-service", pattern: /Authorize service ([0-9a-f-]+) \(yes\/no\):/i, field: "service" },
+  { type: "authorize", pattern: /Accept pairing \(yes\/no\):/ },
+];
+
+// Codes the device shows that the user only has to type on it
+const DISPLAYS = [
+  { type: "display-passkey", pattern: /\[agent\] Passkey: (\d+)/ },
+  { type: "display-pin", pattern: /\[agent\] PIN code: (\S+)/ },
+];
+
+const PAIRED = /Pairing successful|org\.bluez\.Error\.AlreadyExists/;
+const FAILED = /Failed to pair: (\S+)|Device [0-9A-F:]{17} not available/i;
+
+// Thrown by a connect flow that stopped at one of its steps; `steps` says
+// which ones ran and how each went
+export class BluetoothStepError extends Error {
+  constructor(message, steps) {
+    super(message);
+    this.name = "BluetoothStepError";
+    this.steps = steps;
+  }
+}
+
+export function createPairingAgent({ executor, publish }) {
+  const prompts = new Map();
+
+  function resolvePrompt(id, { accepted, answer, reason }) {
+    const prompt = prompts.get(id);
+    if (!prompt) return false;
+
+    clearTimeout(prompt.timer);
+    prompts.delete(id);
+    prompt.write(`${answer}\n`);
+    publish("bluetooth.pairing.resolved", { id, deviceId: prompt.deviceId, accepted, reason });
+    return true;
+  }
+
+  function openPrompt(deviceId, type, write, detail = {}) {
+    const id = randomUUID();
+    const prompt = {
+      id,
+      deviceId,
+      type,
+      ...detail,
+      expiresAt: new Date(Date.now() + PROMPT_TIMEOUT).toISOString(),
+    };
+
+    console.log(`🔐 Pairing prompt for ${deviceId}: ${type}`);
+    prompts.set(id, {
+      ...prompt,
+      write,
+      // Unanswered prompts are declined so bluetoothctl does not wait forever
+      timer: setTimeout(() => resolvePrompt(id, { accepted: false, answer: "no", reason: "timeout" }), PROMPT_TIMEOUT),
+    });
+    publish("bluetooth.pairing.prompt", prompt);
+  }
+
+  // Pair with a device, answering its agent requests through prompts.
+  // Resolves { paired, detail } and never throws for a refused pairing.
+  async function pair(deviceId) {
+    if (executor.dryRun) return { paired: true, detail: "Dry run: pairing skipped" };
+
+    let write = () => {};
+    let output = "";
+    let outcome = null;
+
+    const finish = (result) => {
+      if (outcome) return;
+      outcome = result;
+      write("quit\n");
+      // Drop anything this session still waits on
+      for (const [id, prompt] of prompts) {
+        if (prompt.deviceId === deviceId) {
+          clearTimeout(prompt.timer);
+          prompts.delete(id);
+          publish("bluetooth.pairing.resolved", { id, deviceId, accepted: false, reason: "cancelled" });
+        }
+      }
+    };
+
+    // Look for prompts and results in what bluetoothctl printed so far
+    const inspect = () => {
+      for (const { type, pattern, field } of PROMPTS) {
+        const match = pattern.exec(output);
+        if (match) {
+          output = output.slice(match.index + match[0].length);
+          openPrompt(deviceId, type, write, field ? { [field]: match[1] } : {});
+          return inspect();
+        }
+      }
+
+      for (const { type, pattern } of DISPLAYS) {
+        const match = pattern.exec(output);
+        if (match) {
+          output = output.slice(match.index + match[0].length);
+          publish("bluetooth.pairing.prompt", {
+            id: randomUUID(),
+            deviceId,
+            type,
+            passkey: match[1],
+            expiresAt: new Date(Date.now() + PROMPT_TIMEOUT).toISOString(),
+          });
+          return inspect();
+        }
+      }
+
+      if (PAIRED.test(output)) {
+        finish({ paired: true, detail: /AlreadyExists/.test(output) ? "Already paired" : "Pairing successful" });
+      } else {
+        const failure = FAILED.exec(output);
+        if (failure) finish({ paired: false, detail: failure[1] ?? "Device not available" });
+      }
+    };
+
+    console.log(`🤝 Pairing with ${deviceId} through the agent...`);
+    try {
+      await executor.run("bluetoothctl", [], {
+        timeoutMs: PAIRING_TIMEOUT,
+        onStdout: (chunk) => {
+          output += chunk.replace(ANSI_ESCAPE, "");
+          inspect();
+        },
+        interactive: (writer) => {
+          write = writer;
+          write(`agent KeyboardDisplay\ndefault-agent\npair ${deviceId}\n`);
+        },
+      });
+    } catch (error) {
+      finish({ paired: false, detail: error.message });
+    }
+
+    return outcome ?? { paired: false, detail: "bluetoothctl exited before pairing finished" };
+  }
+
+  // Answer a prompt: confirmations take accept, PIN and passkey prompts a value
+  function respond(id, { accept, value }) {
+    const prompt = prompts.get(id);
+    if (!prompt) return false;
+
+    const needsValue = prompt.type === "enter-pin" || prompt.type === "enter-passkey";
+    // An empty PIN or passkey is how bluetoothctl refuses those requests
+    const answer = !accept ? (needsValue ? "" : "no") : needsValue ? String(value ?? "").replace(/\s/g, "") : "yes";
+    return resolvePrompt(id, { accepted: !!accept, answer, reason: "answered" });
+  }
+
+  // Prompts still waiting for an answer, for clients that open mid-pairing
+  const pendingPrompts = () =>
+    [...prompts.values()].map(({ write, timer, ...prompt }) => prompt);
+
+  return {
+    pair,
+    respond,
+    pendingPrompts,
+  };
+}
@@ -0,0 +1,51 @@
+// Low-battery alerts for connected Bluetooth devices. Batteries are polled
+// (BlueZ has no push for them through bluetoothctl) and a device that drops
+// below the threshold is published once as bluetooth.battery.low.
+
+const CHECK_INTERVAL = 60000;
+// A battery hovering around the threshold alerts once, not on every wobble
+const REARM_MARGIN = 5;
+
+// `readDevices` resolves the connected devices as { mac, name, battery }
+export function createBatteryMonitor({ readDevices, publish, threshold }) {
+  const alerted = new Set();
+  let timer = null;
+
+  async function check() {
+    let devices;
+    try {
+      devices = await readDevices();
+    } catch {
+      // Bluetooth unavailable right now; try again next round
+      return;
+    }
+
+    for (const { mac, name, battery } of devices) {
+      if (battery === null || battery === undefined) continue;
+
+      if (battery < threshold && !alerted.has(mac)) {
+        alerted.add(mac);
+        console.log(`🪫 ${name} battery low: ${battery}%`);
+        publish("bluetooth.battery.low", { deviceId: mac, name, battery, threshold });
+      } else if (battery >= threshold + REARM_MARGIN) {
+        alerted.delete(mac);
+      }
+    }
+  }
+
+  function start() {
+    if (timer) return;
+    timer = setInterval(check, CHECK_INTERVAL);
+  }
+
+  function stop() {
+    clearInterval(timer);
+    timer = null;
+  }
+
+  return {
+    start,
+    stop,
+    check,
+  };
+}
@@ -0,0 +1,219 @@
+import { Router } from "express";
+import { CommandValidationError, validate } from "./commandExecutor.js";
+import { createBluetoothScanner } from "./bluetoothScan.js";
+import { createPairingAgent } from "./bluetoothAgent.js";
+import { parseDeviceInfo, parseDeviceList } from "./bluetoothInfo.js";
+
+// Bluetooth control shared by both backends (enhanced-index.js and
+// pi-backend-bluetooth.js). Every method validates the MAC address before
+// bluetoothctl runs and returns parsed output rather than raw text.
+
+const CONNECT_TIMEOUT = 30000;
+
+// `publish` receives scan and pairing events; servers without an event stream can leave it out
+export function createBluetoothControl({ executor, publish = () => {} }) {
+  const bluetoothctl = (args, options) => executor.run("bluetoothctl", args, options);
+
+  // Devices bluetoothctl knows about (paired or seen in a scan), as { mac, name }
+  async function list() {
+    return parseDeviceList((await bluetoothctl(["devices"], { readOnly: true })).stdout);
+  }
+
+  async function info(deviceId) {
+    const mac = validate.mac(deviceId);
+    return { ...parseDeviceInfo((await bluetoothctl(["info", mac], { readOnly: true })).stdout), mac };
+  }
+
+  const scanner = createBluetoothScanner({ executor, publish, listDevices: list });
+  const pairingAgent = createPairingAgent({ executor, publish });
+
+  // Scan to the end and resolve with everything heard; `scanner` streams instead
+  async function scan({ seconds } = {}) {
+    await scanner.start({ seconds });
+    const { devices, reason, error } = await scanner.finished();
+    if (reason === "failed") throw new Error(`Bluetooth scan failed: ${error}`);
+    return devices;
+  }
+
+  // Resolves { paired, detail }; passkey and PIN requests go out as prompts
+  const pair = async (deviceId) => pairingAgent.pair(validate.mac(deviceId));
+
+  async function trust(deviceId) {
+    await bluetoothctl(["trust", validate.mac(deviceId)]);
+  }
+
+  async function connect(deviceId) {
+    await bluetoothctl(["connect", validate.mac(deviceId)], { timeoutMs: CONNECT_TIMEOUT });
+  }
+
+  async function disconnect(deviceId) {
+    await bluetoothctl(["disconnect", validate.mac(deviceId)]);
+  }
+
+  // Drop the pairing; the device has to be scanned and paired again
+  async function remove(deviceId) {
+    await bluetoothctl(["remove", validate.mac(deviceId)]);
+  }
+
+  return {
+    list,
+    info,
+    scan,
+    pair,
+    trust,
+    connect,
+    disconnect,
+    remove,
+    scanner,
+    pairingAgent,
+  };
+}
+
+const errorStatus = (error) => (error instanceof CommandValidationError ? 400 : 500);
+
+// The Bluetooth audio routes both backends serve. `audio` is the server's own
+// flow: connect(mac, name, { keepOthers }), disconnect(mac), disconnectAll()
+// and status(); what happens around the bluetoothctl calls is up to it.
+export function createBluetoothRouter({ bluetooth, audio }) {
+  const router = Router();
+
+  router.post(["/api/bluetooth", "/bluetooth"], async (req, res) => {
+    try {
+      const { command, params = {} } = req.body ?? {};
+      console.log("🎵 Bluetooth command received:", command, params);
+
+      switch (command) {
+        case "bluetooth_scan": {
+          const devices = await bluetooth.scan();
+          console.log(`✅ Found ${devices.length} devices`);
+          return res.json({
+            success: true,
+            message: "Bluetooth scan completed",
+            data: { devices, count: devices.length, timestamp: new Date().toISOString() },
+          });
+        }
+
+        case "bluetooth_audio_connect": {
+          // IDs from the browser's Web Bluetooth API are opaque, not MAC addresses
+          const { deviceId } = params;
+          if (deviceId && deviceId.includes("=") && !deviceId.includes(":")) {
+            console.log(`⚠️ Received encoded device ID: ${deviceId}, this might not be a MAC address`);
+            return res.status(400).json({
+              success: false,
+              error: "Invalid device ID format. Please use the Pi Bluetooth scanner to get proper MAC addresses.",
+              needsPiScan: true,
+            });
+          }
+
+          const data = await audio.connect(deviceId, params.deviceName, { keepOthers: params.keepOthers === true });
+          return res.json({ success: true, message: `Connected to ${params.deviceName}`, data });
+        }
+
+        case "bluetooth_audio_disconnect": {
+          const data = await audio.disconnectAll();
+          return res.json({ success: true, message: "Bluetooth audio disconnected", data });
+        }
+
+        default:
+          return res.status(400).json({ success: false, error: "Unknown Bluetooth command" });
+      }
+    } catch (error) {
+      console.error("Bluetooth command error:", error);
+      res.status(errorStatus(error)).json({
+        success: false,
+        error: error.message || "Bluetooth operation failed",
+        steps: error.steps,
+      });
+    }
+  });
+
+  router.get(["/api/bluetooth/status", "/bluetooth/status"], async (req, res) => {
+    try {
+      res.json({ success: true, data: await audio.status() });
+    } catch (error) {
+      console.error("Bluetooth status error:", error);
+      res.status(500).json({ success: false, error: error.message || "Failed to get Bluetooth status" });
+    }
+  });
+
+  router.post("/bluetooth/connect", async (req, res) => {
+    const { deviceId, keepOthers } = req.body ?? {};
+    if (!deviceId) {
+      return res.status(400).json({ success: false, message: "No device ID provided" });
+    }
+
+    try {
+      console.log(`🔗 Connecting to Bluetooth device ${deviceId}...`);
+      const data = await audio.connect(deviceId, "Device", { keepOthers: keepOthers === true });
+      res.json({ success: true, message: "Connected and audio routed", data });
+    } catch (error) {
+      console.error("❌ Connection error:", error.message);
+      res
+        .status(errorStatus(error))
+        .json({ success: false, message: "Failed to connect", error: error.message, steps: error.steps });
+    }
+  });
+
+  // Without a deviceId every connected device is disconnected
+  router.post("/bluetooth/disconnect", async (req, res) => {
+    const { deviceId } = req.body ?? {};
+
+    try {
+      console.log(`🔌 Disconnecting Bluetooth device ${deviceId || "all"}...`);
+      const data = deviceId ? await audio.disconnect(deviceId) : await audio.disconnectAll();
+      res.json({
+        success: true,
+        message: deviceId ? "Device disconnected" : "All Bluetooth devices disconnected",
+        data,
+      });
+    } catch (error) {
+      console.error("❌ Disconnection error:", error.message);
+      res.status(errorStatus(error)).json({
+        success: false,
+        message: "Failed to disconnect device",
+        error: error.message,
+      });
+    }
+  });
+
+  // Pairing agent: passkey, PIN and authorization requests from devices being
+  // paired are published as bluetooth.pairing.prompt events and answered here
+  router.get("/bluetooth/pairing/prompts", (req, res) => {
+    res.json({ success: true, prompts: bluetooth.pairingAgent.pendingPrompts(), timestamp: new Date().toISOString() });
+  });
+
+  router.post("/bluetooth/pairing/respond", (req, res) => {
+    const { promptId, accept, value } = req.body ?? {};
+    if (!bluetooth.pairingAgent.respond(promptId, { accept: accept === true, value })) {
+      return res.status(404).json({
+        success: false,
+        error: "No pairing prompt is waiting with that ID",
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    res.json({ success: true, timestamp: new Date().toISOString() });
+  });
+
+  // Older clients connect a speaker by MAC address and name
+  router.post("/connect-speaker", async (req, res) => {
+    const { mac, name } = req.body ?? {};
+    if (!mac) {
+      return res.status(400).json({ error: "MAC address is required" });
+    }
+
+    try {
+      const data = await audio.connect(mac, name || "Unknown Device");
+      res.json({ status: "success", message: `Connected to ${name || mac}`, data });
+    } catch (error) {
+      console.error("❌ Connection error:", error);
+      res.status(errorStatus(error)).json({
+        error: "Bluetooth connection failed",
+        details: error.message,
+        steps: error.steps,
+      });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,222 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import { CommandValidationError, validate } from "./commandExecutor.js";
+import { createBluetoothControl, createBluetoothRouter } from "./bluetoothControl.js";
+
+const SPEAKER = "40:EF:4C:8A:12:9B";
+const PHONE = "5C:E9:1E:03:77:A1";
+
+// Recorded `bluetoothctl` output, keyed by the arguments that produced it
+const RECORDED = {
+  devices: `Device ${SPEAKER} Living Room Speaker\n`,
+  [`info ${SPEAKER}`]: `Device ${SPEAKER} (public)
+	Name: JBL Flip 5
+	Alias: Living Room Speaker
+	Class: 0x00240414
+	Icon: audio-card
+	Paired: yes
+	Trusted: yes
+	Blocked: no
+	Connected: no
+	UUID: Audio Sink                (0000110b-0000-1000-8000-00805f9b34fb)
+`,
+  [`info ${PHONE}`]: `Device ${PHONE} (random)
+	Name: Pixel 7
+	Alias: Pixel 7
+	Class: 0x005a020c
+	Icon: phone
+	Paired: no
+	Trusted: no
+	Blocked: no
+	Connected: no
+	RSSI: -71
+`,
+};
+
+// `bluetoothctl --timeout 5 scan on`, colours and all, as it streamed on a Pi
+const SCAN_TRANSCRIPT = [
+  "Discovery started\r\n",
+  "\x1b[0;93m[CHG]\x1b[0m Controller DC:A6:32:00:11:22 Discovering: yes\r\n",
+  `\x1b[0;92m[NEW]\x1b[0m Device ${PHONE} Pixel 7\r\n`,
+  `\x1b[0;93m[CHG]\x1b[0m Device ${SPEAKER} RSSI: 0xffffffc6 (-58)\r\n`,
+  `\x1b[0;93m[CHG]\x1b[0m Device ${PHONE} RSSI: -71\r\n`,
+  "\x1b[0;93m[CHG]\x1b[0m Device 11:22:33:44:55:66 RSSI: -90\r\n",
+  "\x1b[0;91m[DEL]\x1b[0m Device 11:22:33:44:55:66 11-22-33-44-55-66\r\n",
+];
+
+// An executor that answers from recordings and remembers every command
+function createRecordedExecutor({ pairingTranscript } = {}) {
+  const calls = [];
+  return {
+    calls,
+    dryRun: false,
+    async run(program, args = [], { onStdout, interactive } = {}) {
+      calls.push([program, ...args]);
+      const key = args.join(" ");
+
+      if (args.includes("scan")) {
+        SCAN_TRANSCRIPT.forEach((chunk) => onStdout?.(chunk));
+        return { stdout: SCAN_TRANSCRIPT.join(""), stderr: "", exitCode: 0 };
+      }
+      if (args.length === 0 && interactive) {
+        return pairingTranscript({ onStdout, interactive });
+      }
+      return { stdout: RECORDED[key] ?? "", stderr: "", exitCode: 0 };
+    },
+  };
+}
+
+const INVALID_MACS = ["", "not-a-mac", "AA:BB:CC:DD:EE", "AA:BB:CC:DD:EE:FF; reboot", "--help", undefined];
+
+test("every device command rejects a bad MAC before bluetoothctl runs", async () => {
+  const executor = createRecordedExecutor();
+  const bluetooth = createBluetoothControl({ executor });
+
+  for (const method of ["info", "pair", "trust", "connect", "disconnect", "remove"]) {
+    for (const mac of INVALID_MACS) {
+      await assert.rejects(() => bluetooth[method](mac), CommandValidationError, `${method}(${JSON.stringify(mac)})`);
+    }
+  }
+  assert.deepEqual(executor.calls, []);
+});
+
+test("device commands normalize the MAC and call bluetoothctl with argv", async () => {
+  const executor = createRecordedExecutor();
+  const bluetooth = createBluetoothControl({ executor });
+  const lowerCase = SPEAKER.toLowerCase();
+
+  await bluetooth.trust(lowerCase);
+  await bluetooth.connect(lowerCase);
+  await bluetooth.disconnect(lowerCase);
+  await bluetooth.remove(lowerCase);
+
+  assert.deepEqual(executor.calls, [
+    ["bluetoothctl", "trust", SPEAKER],
+    ["bluetoothctl", "connect", SPEAKER],
+    ["bluetoothctl", "disconnect", SPEAKER],
+    ["bluetoothctl", "remove", SPEAKER],
+  ]);
+});
+
+test("list and info parse the recorded output", async () => {
+  const bluetooth = createBluetoothControl({ executor: createRecordedExecutor() });
+
+  assert.deepEqual(await bluetooth.list(), [{ mac: SPEAKER, name: "Living Room Speaker" }]);
+
+  const info = await bluetooth.info(SPEAKER.toLowerCase());
+  assert.equal(info.mac, SPEAKER);
+  assert.equal(info.name, "Living Room Speaker");
+  assert.equal(info.paired, true);
+  assert.equal(info.connected, false);
+  assert.equal(info.isAudioDevice, true);
+});
+
+test("scan follows the streamed transcript and publishes what it hears", async () => {
+  const published = [];
+  const bluetooth = createBluetoothControl({
+    executor: createRecordedExecutor(),
+    publish: (type, payload) => published.push({ type, payload }),
+  });
+
+  const devices = await bluetooth.scan({ seconds: 5 });
+
+  assert.deepEqual(
+    devices.map(({ mac, name, rssi, seenInScan, isAudioDevice }) => ({ mac, name, rssi, seenInScan, isAudioDevice })),
+    [
+      { mac: SPEAKER, name: "Living Room Speaker", rssi: -58, seenInScan: true, isAudioDevice: true },
+      { mac: PHONE, name: "Pixel 7", rssi: -71, seenInScan: true, isAudioDevice: false },
+    ]
+  );
+
+  const types = published.map(({ type }) => type);
+  assert.equal(types[0], "bluetooth.scan.started");
+  assert.equal(types.at(-1), "bluetooth.scan.finished");
+  assert.ok(published.some(({ type, payload }) => type === "bluetooth.scan.lost" && payload.id === "11:22:33:44:55:66"));
+});
+
+test("pair surfaces a passkey confirmation and pairs once it is accepted", async () => {
+  const published = [];
+  const executor = createRecordedExecutor({
+    pairingTranscript: ({ onStdout, interactive }) =>
+      new Promise((resolve) => {
+        const written = [];
+        interactive((text) => {
+          written.push(text);
+          if (text === "yes\n") onStdout("\x1b[0;94m[agent]\x1b[0m \r\nPairing successful\r\n");
+          if (text === "quit\n") resolve({ stdout: "", stderr: "", exitCode: 0, written });
+        });
+        onStdout("Agent registered\r\n[agent] Confirm passkey 482913 (yes/no): ");
+      }),
+  });
+  const bluetooth = createBluetoothControl({ executor, publish: (type, payload) => published.push({ type, payload }) });
+
+  const pairing = bluetooth.pair(PHONE.toLowerCase());
+  await new Promise((resolve) => setImmediate(resolve));
+
+  const prompt = published.find(({ type }) => type === "bluetooth.pairing.prompt")?.payload;
+  assert.equal(prompt.type, "confirm-passkey");
+  assert.equal(prompt.passkey, "482913");
+  assert.equal(prompt.deviceId, PHONE);
+  assert.deepEqual(bluetooth.pairingAgent.pendingPrompts().map(({ id }) => id), [prompt.id]);
+
+  assert.equal(bluetooth.pairingAgent.respond(prompt.id, { accept: true }), true);
+  assert.deepEqual(await pairing, { paired: true, detail: "Pairing successful" });
+  assert.deepEqual(bluetooth.pairingAgent.pendingPrompts(), []);
+});
+
+// A router on an ephemeral port, with audio flows that validate like the real ones
+async function startRouter(t) {
+  const bluetooth = createBluetoothControl({ executor: createRecordedExecutor() });
+  const connected = [];
+  const app = express();
+  app.use(express.json());
+  app.use(
+    createBluetoothRouter({
+      bluetooth,
+      audio: {
+        connect: async (deviceId) => connected.push(validate.mac(deviceId)) && { connected: true },
+        disconnect: async (deviceId) => ({ disconnected: true, deviceId: validate.mac(deviceId) }),
+        disconnectAll: async () => ({ disconnected: true, devicesDisconnected: 0 }),
+        status: async () => ({ connectedDevices: [] }),
+      },
+    })
+  );
+
+  const server = app.listen(0, "127.0.0.1");
+  await new Promise((resolve) => server.once("listening", resolve));
+  t.after(() => server.close());
+
+  const post = (path, body) =>
+    fetch(`http://127.0.0.1:${server.address().port}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  const get = (path) => fetch(`http://127.0.0.1:${server.address().port}${path}`);
+  return { get, post, connected };
+}
+
+test("the router answers 400 for bad MACs and unknown commands", async (t) => {
+  const { post, connected } = await startRouter(t);
+
+  assert.equal((await post("/bluetooth/connect", {})).status, 400);
+  assert.equal((await post("/bluetooth/connect", { deviceId: "AA:BB; reboot" })).status, 400);
+  assert.equal((await post("/bluetooth/disconnect", { deviceId: "nope" })).status, 400);
+  assert.equal((await post("/api/bluetooth", { command: "bluetooth_format_disk" })).status, 400);
+  assert.deepEqual(connected, []);
+
+  const response = await post("/bluetooth/connect", { deviceId: SPEAKER });
+  assert.equal(response.status, 200);
+  assert.deepEqual(connected, [SPEAKER]);
+});
+
+test("the router lists pairing prompts and answers 404 for unknown ones", async (t) => {
+  const { get, post } = await startRouter(t);
+
+  const prompts = await get("/bluetooth/pairing/prompts");
+  assert.equal(prompts.status, 200);
+  assert.deepEqual((await prompts.json()).prompts, []);
+
+  assert.equal((await post("/bluetooth/pairing/respond", { promptId: "missing", accept: true })).status, 404);
+});
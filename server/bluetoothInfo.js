@@ -0,0 +1,80 @@
+// Parsers for bluetoothctl output. They take the raw stdout and return plain
+// objects, so the rest of the backend never greps for "Connected: yes".
+
+// bluetoothctl colours its output even when stdout is not a terminal
+export const ANSI_ESCAPE = /\x1b\[[0-9;]*m|\r/g;
+
+const MAC_IN_LINE = /^Device ([0-9A-F]{2}(?::[0-9A-F]{2}){5})(?: (.*))?$/i;
+
+// Major device class 0x04 is Audio/Video (headsets, speakers, car kits, ...)
+export const isAudioClass = (deviceClass) => deviceClass !== null && ((deviceClass >> 8) & 0x1f) === 0x04;
+
+const AUDIO_UUIDS = ["Audio Sink", "Advanced Audio", "Headset", "Handsfree"];
+
+// "-60", or "0xffffffc4 (-60)" from newer BlueZ
+export const parseRssi = (value) => {
+  const match = /(-?\d+)\)?\s*$/.exec(value);
+  return match ? Number(match[1]) : null;
+};
+
+// "0x4b (75)", or a bare percentage
+const parseBattery = (value) => {
+  const match = /\((\d+)\)\s*$/.exec(value) ?? /^(\d+)$/.exec(value);
+  return match ? Number(match[1]) : null;
+};
+
+// "Audio Sink                (0000110b-0000-1000-8000-00805f9b34fb)"
+const parseUuid = (value) => {
+  const match = /^(.*?)\s*\(([0-9a-f-]+)\)$/i.exec(value);
+  return match ? { name: match[1], uuid: match[2].toLowerCase() } : { name: value, uuid: null };
+};
+
+// `bluetoothctl devices`: one "Device <mac> <name>" line per known device
+export function parseDeviceList(stdout) {
+  return stdout
+    .split("\n")
+    .map((line) => MAC_IN_LINE.exec(line.trim()))
+    .filter(Boolean)
+    .map(([, mac, name]) => ({ mac: mac.toUpperCase(), name: name ?? "" }));
+}
+
+// `bluetoothctl info <mac>`: a "Device <mac> (public)" header, then
+// tab-indented "Key: value" lines, with one UUID line per service
+export function parseDeviceInfo(stdout) {
+  const fields = {};
+  const uuids = [];
+  let mac = null;
+  for (const line of stdout.split("\n")) {
+    const header = MAC_IN_LINE.exec(line.trim());
+    if (header && !/^\s/.test(line)) {
+      mac = header[1].toUpperCase();
+      continue;
+    }
+
+    const match = /^\s+([A-Za-z][A-Za-z ]*): (.*)$/.exec(line);
+    if (!match) continue;
+    if (match[1] === "UUID") uuids.push(parseUuid(match[2].trim()));
+    else fields[match[1]] = match[2].trim();
+  }
+
+  const deviceClass = fields.Class ? parseInt(fields.Class, 16) : null;
+  const icon = fields.Icon ?? null;
+  return {
+    mac,
+    name: fields.Alias || fields.Name,
+    deviceClass,
+    icon,
+    paired: fields.Paired === "yes",
+    trusted: fields.Trusted === "yes",
+    blocked: fields.Blocked === "yes",
+    connected: fields.Connected === "yes",
+    rssi: fields.RSSI ? parseRssi(fields.RSSI) : null,
+    // Only devices with a Battery service report it
+    battery: fields["Battery Percentage"] ? parseBattery(fields["Battery Percentage"]) : null,
+    uuids,
+    isAudioDevice:
+      isAudioClass(deviceClass) ||
+      !!icon?.startsWith("audio") ||
+      uuids.some(({ name }) => AUDIO_UUIDS.some((audioName) => name.includes(audioName))),
+  };
+}
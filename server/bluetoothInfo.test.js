@@ -0,0 +1,134 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ANSI_ESCAPE, isAudioClass, parseDeviceInfo, parseDeviceList, parseRssi } from "./bluetoothInfo.js";
+
+// Recorded on a Pi 4 (BlueZ 5.66) with a speaker connected
+const SPEAKER_INFO = `Device 40:EF:4C:8A:12:9B (public)
+	Name: JBL Flip 5
+	Alias: Living Room Speaker
+	Class: 0x00240414
+	Icon: audio-card
+	Paired: yes
+	Bonded: yes
+	Trusted: yes
+	Blocked: no
+	Connected: yes
+	LegacyPairing: no
+	UUID: Audio Sink                (0000110b-0000-1000-8000-00805f9b34fb)
+	UUID: A/V Remote Control Target (0000110c-0000-1000-8000-00805f9b34fb)
+	UUID: A/V Remote Control        (0000110e-0000-1000-8000-00805f9b34fb)
+	UUID: Handsfree                 (0000111e-0000-1000-8000-00805f9b34fb)
+	Modalias: bluetooth:v0057p0000d0000
+	RSSI: 0xffffffc4 (-60)
+	Battery Percentage: 0x4b (75)
+`;
+
+// A phone seen in a scan but never paired (BlueZ 5.55, plain RSSI)
+const PHONE_INFO = `Device 5C:E9:1E:03:77:A1 (random)
+	Name: Pixel 7
+	Alias: Pixel 7
+	Class: 0x005a020c
+	Icon: phone
+	Paired: no
+	Trusted: no
+	Blocked: no
+	Connected: no
+	LegacyPairing: no
+	UUID: Generic Access Profile    (00001800-0000-1000-8000-00805f9b34fb)
+	RSSI: -71
+`;
+
+// Headphones that only identify themselves by service UUIDs
+const HEADPHONES_INFO = `Device 00:1B:66:C0:FF:EE (public)
+	Alias: WH-1000XM4
+	Paired: yes
+	Trusted: yes
+	Blocked: no
+	Connected: no
+	UUID: Headset                   (00001108-0000-1000-8000-00805f9b34fb)
+	UUID: Advanced Audio Distribu.. (0000110d-0000-1000-8000-00805f9b34fb)
+`;
+
+const DEVICES = `Device 40:EF:4C:8A:12:9B Living Room Speaker
+Device 5C:E9:1E:03:77:A1 Pixel 7
+Device 00:1b:66:c0:ff:ee
+Agent registered
+`;
+
+test("parseDeviceList reads every known device with an upper-case MAC", () => {
+  assert.deepEqual(parseDeviceList(DEVICES), [
+    { mac: "40:EF:4C:8A:12:9B", name: "Living Room Speaker" },
+    { mac: "5C:E9:1E:03:77:A1", name: "Pixel 7" },
+    { mac: "00:1B:66:C0:FF:EE", name: "" },
+  ]);
+});
+
+test("parseDeviceList returns nothing for empty output", () => {
+  assert.deepEqual(parseDeviceList(""), []);
+});
+
+test("parseDeviceInfo reads a connected speaker", () => {
+  const info = parseDeviceInfo(SPEAKER_INFO);
+
+  assert.equal(info.mac, "40:EF:4C:8A:12:9B");
+  assert.equal(info.name, "Living Room Speaker");
+  assert.equal(info.deviceClass, 0x240414);
+  assert.equal(info.icon, "audio-card");
+  assert.equal(info.paired, true);
+  assert.equal(info.trusted, true);
+  assert.equal(info.blocked, false);
+  assert.equal(info.connected, true);
+  assert.equal(info.rssi, -60);
+  assert.equal(info.battery, 75);
+  assert.equal(info.isAudioDevice, true);
+  assert.equal(info.uuids.length, 4);
+  assert.deepEqual(info.uuids[0], { name: "Audio Sink", uuid: "0000110b-0000-1000-8000-00805f9b34fb" });
+});
+
+test("parseDeviceInfo reads an unpaired phone as a non-audio device", () => {
+  const info = parseDeviceInfo(PHONE_INFO);
+
+  assert.equal(info.mac, "5C:E9:1E:03:77:A1");
+  assert.equal(info.paired, false);
+  assert.equal(info.connected, false);
+  assert.equal(info.rssi, -71);
+  assert.equal(info.battery, null);
+  assert.equal(info.isAudioDevice, false);
+});
+
+test("parseDeviceInfo recognizes audio devices by their services alone", () => {
+  const info = parseDeviceInfo(HEADPHONES_INFO);
+
+  assert.equal(info.name, "WH-1000XM4");
+  assert.equal(info.deviceClass, null);
+  assert.equal(info.icon, null);
+  assert.equal(info.rssi, null);
+  assert.equal(info.isAudioDevice, true);
+});
+
+test("parseDeviceInfo of a device bluetoothctl no longer knows reads as disconnected", () => {
+  const info = parseDeviceInfo("Device 11:22:33:44:55:66 not available\n");
+
+  assert.equal(info.name, undefined);
+  assert.equal(info.paired, false);
+  assert.equal(info.connected, false);
+  assert.deepEqual(info.uuids, []);
+});
+
+test("isAudioClass checks the Audio/Video major class", () => {
+  assert.equal(isAudioClass(0x240414), true);
+  assert.equal(isAudioClass(0x240404), true);
+  assert.equal(isAudioClass(0x5a020c), false);
+  assert.equal(isAudioClass(null), false);
+});
+
+test("parseRssi reads old and new BlueZ formats", () => {
+  assert.equal(parseRssi("-52"), -52);
+  assert.equal(parseRssi("0xffffffb5 (-75)"), -75);
+  assert.equal(parseRssi("unknown"), null);
+});
+
+test("ANSI_ESCAPE strips bluetoothctl colours and carriage returns", () => {
+  const line = "\x1b[0;93m[CHG]\x1b[0m Device 40:EF:4C:8A:12:9B RSSI: -58\r";
+  assert.equal(line.replace(ANSI_ESCAPE, ""), "[CHG] Device 40:EF:4C:8A:12:9B RSSI: -58");
+});
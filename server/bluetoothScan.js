@@ -0,0 +1,222 @@
+import { ANSI_ESCAPE, isAudioClass, parseDeviceInfo, parseRssi } from "./bluetoothInfo.js";
+
+// Streaming Bluetooth discovery. `bluetoothctl scan on` runs in the background
+// while its output is parsed line by line, so devices reach the event stream
+// as soon as the adapter hears them, with RSSI and device class. Devices that
+// bluetoothctl only remembers from earlier scans are listed as well, but stay
+// `seenInScan: false` until they advertise again.
+
+const DEFAULT_SCAN_SECONDS = 15;
+const MAX_SCAN_SECONDS = 60;
+
+const DEVICE_EVENT = /^\[(NEW|CHG|DEL)\] Device ([0-9A-F]{2}(?::[0-9A-F]{2}){5})\s*(.*)$/i;
+
+// `listDevices` returns bluetoothctl's known devices as { mac, name }
+export function createBluetoothScanner({ executor, publish, listDevices }) {
+  const devices = new Map();
+  let scan = null;
+
+  const readInfo = async (mac) =>
+    parseDeviceInfo((await executor.run("bluetoothctl", ["info", mac], { readOnly: true })).stdout);
+
+  // Devices heard in this scan first, strongest signal first
+  const snapshot = () =>
+    [...devices.values()].sort(
+      (a, b) => Number(b.seenInScan) - Number(a.seenInScan) || (b.rssi ?? -999) - (a.rssi ?? -999)
+    );
+
+  const status = () => ({
+    scanning: scan !== null,
+    startedAt: scan?.startedAt ?? null,
+    endsAt: scan?.endsAt ?? null,
+    devices: snapshot(),
+  });
+
+  // Merge changes into a device and publish it if anything changed
+  function update(mac, changes) {
+    const previous = devices.get(mac);
+    const device = {
+      id: mac,
+      mac,
+      name: mac,
+      rssi: null,
+      deviceClass: null,
+      icon: null,
+      isAudioDevice: false,
+      paired: false,
+      connected: false,
+      seenInScan: false,
+      lastSeenAt: null,
+      ...previous,
+      ...changes,
+    };
+    device.isAudioDevice = device.isAudioDevice || isAudioClass(device.deviceClass) || !!device.icon?.startsWith("audio");
+
+    if (previous && JSON.stringify(previous) === JSON.stringify(device)) return;
+    devices.set(mac, device);
+    publish("bluetooth.scan.device", device);
+  }
+
+  // Class, icon and pairing come from `bluetoothctl info`, looked up once per
+  // device and one at a time so a busy scan does not fork a process per line
+  function describe(mac) {
+    if (!scan || scan.described.has(mac)) return;
+    scan.described.add(mac);
+    scan.details = scan.details.then(async () => {
+      try {
+        // The RSSI in `info` may be left over from an earlier scan; only scan events count
+        const { name, deviceClass, icon, paired, connected, isAudioDevice } = await readInfo(mac);
+        // Lost ([DEL]) while the lookup was queued
+        if (!devices.has(mac)) return;
+        update(mac, { deviceClass, icon, paired, connected, isAudioDevice, name: name || devices.get(mac)?.name });
+      } catch {
+        // The device went away before we asked; keep what the scan reported
+      }
+    });
+  }
+
+  function handleLine(rawLine) {
+    const match = DEVICE_EVENT.exec(rawLine.replace(ANSI_ESCAPE, "").trim());
+    if (!match) return;
+
+    const [, kind, rawMac, rest] = match;
+    const mac = rawMac.toUpperCase();
+    const now = new Date().toISOString();
+
+    if (kind === "DEL") {
+      if (devices.delete(mac)) publish("bluetooth.scan.lost", { id: mac });
+      return;
+    }
+
+    if (kind === "NEW") {
+      // bluetoothctl re-announces known devices when it starts; only unknown ones were just heard
+      if (devices.has(mac)) return;
+      update(mac, { name: rest || mac, seenInScan: true, lastSeenAt: now });
+      describe(mac);
+      return;
+    }
+
+    const separator = rest.indexOf(": ");
+    if (separator === -1) return;
+    const key = rest.slice(0, separator);
+    const value = rest.slice(separator + 2).trim();
+
+    switch (key) {
+      case "RSSI":
+        // Only live advertisements carry RSSI, so this is what marks a device as present
+        update(mac, { rssi: parseRssi(value), seenInScan: true, lastSeenAt: now });
+        describe(mac);
+        break;
+      case "Class":
+        update(mac, { deviceClass: parseInt(value, 16) });
+        break;
+      case "Icon":
+        update(mac, { icon: value });
+        break;
+      case "Name":
+      case "Alias":
+        update(mac, { name: value });
+        break;
+      case "Paired":
+      case "Connected":
+        update(mac, { [key.toLowerCase()]: value === "yes" });
+        break;
+    }
+  }
+
+  // Start a scan, or join the one already running. Resolves with the current
+  // list right away; devices keep arriving as bluetooth.scan.* events.
+  async function start({ seconds = DEFAULT_SCAN_SECONDS } = {}) {
+    if (scan) return status();
+
+    const duration = Math.min(MAX_SCAN_SECONDS, Math.max(1, Math.round(Number(seconds) || DEFAULT_SCAN_SECONDS)));
+    const startedAt = new Date();
+    scan = {
+      controller: new AbortController(),
+      startedAt: startedAt.toISOString(),
+      endsAt: new Date(startedAt.getTime() + duration * 1000).toISOString(),
+      described: new Set(),
+      details: Promise.resolve(),
+      streamed: false,
+      reason: "timeout",
+      error: undefined,
+    };
+    const current = scan;
+    devices.clear();
+
+    console.log(`🔍 Bluetooth scan started for ${duration}s`);
+    publish("bluetooth.scan.started", { startedAt: current.startedAt, endsAt: current.endsAt });
+
+    // Remembered devices first, so the list is not empty while the adapter warms up
+    const listed = listDevices().then(
+      (known) =>
+        known.forEach(({ mac, name }) => {
+          update(mac.toUpperCase(), { name: name || mac });
+          describe(mac.toUpperCase());
+        }),
+      (error) => console.warn("⚠️ Could not list known Bluetooth devices:", error.message)
+    );
+
+    let pending = "";
+    const onStdout = (chunk) => {
+      current.streamed = true;
+      const lines = (pending + chunk).split("\n");
+      pending = lines.pop();
+      lines.forEach(handleLine);
+    };
+
+    current.done = listed
+      .then(() => {
+        // Stopped while the known devices were still being listed
+        if (current.controller.signal.aborted) return { stdout: "" };
+        return executor.run("bluetoothctl", ["--timeout", String(duration), "scan", "on"], {
+          readOnly: true,
+          timeoutMs: (duration + 10) * 1000,
+          signal: current.controller.signal,
+          onStdout,
+        });
+      })
+      .then(
+        ({ stdout }) => {
+          // Runners that do not stream output hand over everything at the end
+          if (!current.streamed) stdout.split("\n").forEach(handleLine);
+          else handleLine(pending);
+        },
+        (error) => {
+          console.error("❌ Bluetooth scan error:", error.message);
+          current.reason = "failed";
+          current.error = error.message;
+        }
+      )
+      .then(() => current.details)
+      .then(() => {
+        const result = { ...status(), scanning: false, reason: current.reason, error: current.error };
+        scan = null;
+        console.log(`✅ Bluetooth scan ended (${current.reason}, ${devices.size} devices)`);
+        publish("bluetooth.scan.finished", result);
+        return result;
+      });
+
+    await listed;
+    return status();
+  }
+
+  async function stop() {
+    if (!scan) return status();
+    scan.reason = "stopped";
+    scan.controller.abort();
+    return scan.done;
+  }
+
+  // The outcome of the running scan, or the last known list when idle
+  async function finished() {
+    return scan ? scan.done : { ...status(), reason: "timeout" };
+  }
+
+  return {
+    start,
+    stop,
+    finished,
+    status,
+  };
+}
@@ -0,0 +1,144 @@
+import { spawn } from "child_process";
+
+// Single entry point for every system command the backend runs. Commands are
+// argv arrays handed straight to spawn (no shell), arguments coming from
+// requests are validated first, and every run is recorded in an audit log.
+
+const DEFAULT_TIMEOUT = 15000;
+const AUDIT_LOG_SIZE = 200;
+
+const MAC_ADDRESS = /^[0-9A-F]{2}(:[0-9A-F]{2}){5}$/i;
+const SINK_NAME = /^[A-Za-z0-9_.\-:]+$/;
+
+// Thrown for request values that cannot be turned into a safe argument
+export class CommandValidationError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = "CommandValidationError";
+    this.status = 400;
+  }
+}
+
+// Thrown when a command exits non-zero, fails to start or times out
+export class CommandError extends Error {
+  constructor(result) {
+    super(`Command failed: ${result.argv.join(" ")}${result.stderr ? `\n${result.stderr.trim()}` : ""}`);
+    this.name = "CommandError";
+    this.result = result;
+  }
+}
+
+// Argument validators: each returns the normalized value or throws
+export const validate = {
+  mac(value) {
+    const mac = String(value ?? "").trim();
+    if (!MAC_ADDRESS.test(mac)) {
+      throw new CommandValidationError(`Invalid MAC address: ${JSON.stringify(value)}`);
+    }
+    return mac.toUpperCase();
+  },
+
+  percent(value) {
+    const percent = Number(value);
+    if (!Number.isFinite(percent) || percent < 0 || percent > 100) {
+      throw new CommandValidationError(`Invalid percentage: ${JSON.stringify(value)}`);
+    }
+    return Math.round(percent);
+  },
+
+  sinkName(value) {
+    const sink = String(value ?? "");
+    if (!SINK_NAME.test(sink) || sink.startsWith("-")) {
+      throw new CommandValidationError(`Invalid audio sink name: ${JSON.stringify(value)}`);
+    }
+    return sink;
+  },
+};
+
+// Default runner: spawn without a shell, optionally feeding stdin. Output is
+// also handed to `onStdout` as it arrives; aborting `signal` interrupts the
+// command the way Ctrl+C would. `interactive` receives a writer instead, and
+// stdin then stays open until the command exits.
+function spawnRunner(program, args, { input, timeoutMs, onStdout, signal, interactive }) {
+  return new Promise((resolve) => {
+    const child = spawn(program, args, { timeout: timeoutMs, stdio: ["pipe", "pipe", "pipe"] });
+    let stdout = "";
+    let stderr = "";
+
+    const interrupt = () => child.kill("SIGINT");
+    signal?.addEventListener("abort", interrupt);
+
+    child.stdout.on("data", (chunk) => {
+      stdout += chunk;
+      onStdout?.(chunk.toString());
+    });
+    child.stderr.on("data", (chunk) => (stderr += chunk));
+    child.on("error", (error) => resolve({ stdout, stderr: stderr || error.message, exitCode: null }));
+    child.on("close", (code, killSignal) => {
+      signal?.removeEventListener("abort", interrupt);
+      resolve({ stdout, stderr: killSignal ? `${stderr}Killed by ${killSignal}` : stderr, exitCode: code });
+    });
+
+    // A command that exits early (or never starts) closes stdin under us
+    child.stdin.on("error", () => {});
+    if (interactive) {
+      interactive((text) => child.stdin.writable && child.stdin.write(text));
+      return;
+    }
+    if (input !== undefined) child.stdin.write(input);
+    child.stdin.end();
+  });
+}
+
+// `runner` swaps how commands execute (the Pi simulator provides one).
+// In dry-run mode only commands marked readOnly actually run; everything
+// else is recorded and reported as a successful no-op.
+export function createCommandExecutor({ dryRun = false, runner = spawnRunner } = {}) {
+  const auditLog = [];
+
+  function record(entry) {
+    auditLog.push(entry);
+    if (auditLog.length > AUDIT_LOG_SIZE) auditLog.shift();
+  }
+
+  // A run stopped through `signal` counts as finished, whatever its exit code
+  async function run(
+    program,
+    args = [],
+    { input, readOnly = false, timeoutMs = DEFAULT_TIMEOUT, onStdout, signal, interactive } = {}
+  ) {
+    const argv = [program, ...args.map(String)];
+    const startedAt = Date.now();
+    const skipped = dryRun && !readOnly;
+
+    const { stdout, stderr, exitCode } = skipped
+      ? { stdout: "", stderr: "", exitCode: 0 }
+      : await runner(program, argv.slice(1), { input, timeoutMs, onStdout, signal, interactive });
+
+    const result = {
+      argv,
+      stdout,
+      stderr,
+      exitCode,
+      dryRun: skipped,
+      durationMs: Date.now() - startedAt,
+      timestamp: new Date(startedAt).toISOString(),
+    };
+
+    record({ argv, exitCode, dryRun: skipped, readOnly, durationMs: result.durationMs, timestamp: result.timestamp });
+
+    if (skipped) {
+      console.log(`🧾 Dry run: ${argv.join(" ")}`);
+    } else if (exitCode !== 0 && !signal?.aborted) {
+      throw new CommandError(result);
+    }
+    return result;
+  }
+
+  return {
+    run,
+    dryRun,
+    // Most recent runs first
+    getAuditLog: (limit = AUDIT_LOG_SIZE) => auditLog.slice(-limit).reverse(),
+  };
+}
@@ -0,0 +1,106 @@
+import dgram from "dgram";
+import { randomUUID } from "crypto";
+import os from "os";
+
+// LAN discovery: every backend broadcasts a small UDP beacon and listens for
+// the beacons of other monitors, so clients can ask any backend for its peers
+// instead of sweeping the subnet from the browser.
+
+export const DISCOVERY_PORT = 41234;
+const BEACON_TYPE = "smart-monitor.beacon";
+const BEACON_INTERVAL = 5000;
+// A peer is dropped after missing this many beacons
+const MISSED_BEACONS = 3;
+
+// First non-internal IPv4 address, the one other monitors (and phones) will see us on
+export const lanAddress = () =>
+  Object.values(os.networkInterfaces())
+    .flat()
+    .find((address) => address && address.family === "IPv4" && !address.internal)?.address ?? null;
+
+export function createDiscoveryService({ name, port, version, capabilities, discoveryPort = DISCOVERY_PORT }) {
+  const id = randomUUID();
+  const peers = new Map();
+  let socket = null;
+  let beaconTimer = null;
+
+  const self = () => ({
+    id,
+    name,
+    host: lanAddress(),
+    port,
+    version,
+    capabilities: capabilities(),
+  });
+
+  function announce() {
+    const beacon = Buffer.from(JSON.stringify({ type: BEACON_TYPE, ...self(), sentAt: new Date().toISOString() }));
+    socket.send(beacon, discoveryPort, "255.255.255.255", (error) => {
+      if (error) console.warn("⚠️ Discovery beacon not sent:", error.message);
+    });
+  }
+
+  function handleMessage(message, remote) {
+    let beacon;
+    try {
+      beacon = JSON.parse(message.toString());
+    } catch {
+      return;
+    }
+    if (beacon?.type !== BEACON_TYPE || typeof beacon.id !== "string" || beacon.id === id) return;
+
+    if (!peers.has(beacon.id)) {
+      console.log(`🛰️ Discovered monitor "${beacon.name}" at ${remote.address}:${beacon.port}`);
+    }
+    peers.set(beacon.id, {
+      id: beacon.id,
+      name: String(beacon.name || remote.address).slice(0, 64),
+      // The sender's address as we received it beats whatever it thinks its address is
+      host: remote.address,
+      port: Number(beacon.port) || 5000,
+      version: String(beacon.version || "unknown"),
+      capabilities: Array.isArray(beacon.capabilities) ? beacon.capabilities.map(String) : [],
+      lastSeenAt: new Date().toISOString(),
+    });
+  }
+
+  function start() {
+    if (socket) return;
+
+    socket = dgram.createSocket({ type: "udp4", reuseAddr: true });
+    socket.on("message", handleMessage);
+    socket.on("error", (error) => {
+      console.warn(`⚠️ LAN discovery disabled: ${error.message}`);
+      stop();
+    });
+    socket.bind(discoveryPort, () => {
+      socket.setBroadcast(true);
+      announce();
+      beaconTimer = setInterval(announce, BEACON_INTERVAL);
+      console.log(`🛰️ LAN discovery listening on UDP ${discoveryPort}`);
+    });
+  }
+
+  function stop() {
+    clearInterval(beaconTimer);
+    beaconTimer = null;
+    socket?.close();
+    socket = null;
+  }
+
+  // Peers heard from recently, most recently seen first
+  function getPeers() {
+    const cutoff = Date.now() - BEACON_INTERVAL * MISSED_BEACONS;
+    for (const [peerId, peer] of peers) {
+      if (Date.parse(peer.lastSeenAt) < cutoff) peers.delete(peerId);
+    }
+    return [...peers.values()].sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt));
+  }
+
+  return {
+    start,
+    stop,
+    self,
+    getPeers,
+  };
+}
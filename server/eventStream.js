@@ -0,0 +1,59 @@
+// Server-sent event stream shared by every connected frontend.
+// Each message is a JSON envelope { id, type, data, timestamp } sent as an
+// unnamed SSE event, so clients only need a single onmessage handler.
+
+const HEARTBEAT_INTERVAL = 25000;
+
+export function createEventStream() {
+  const clients = new Set();
+  let nextId = 1;
+
+  function send(res, envelope) {
+    res.write(`id: ${envelope.id}\ndata: ${JSON.stringify(envelope)}\n\n`);
+  }
+
+  // Express handler for GET /api/events
+  function handler(req, res) {
+    res.set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+
+    // Ask EventSource to reconnect after 3s if the stream drops
+    res.write("retry: 3000\n\n");
+
+    // Comment lines keep proxies from closing an idle stream
+    const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), HEARTBEAT_INTERVAL);
+
+    clients.add(res);
+    console.log(`📡 Event stream client connected (${clients.size} total)`);
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      clients.delete(res);
+      console.log(`📡 Event stream client disconnected (${clients.size} total)`);
+    });
+  }
+
+  function publish(type, data) {
+    const envelope = {
+      id: nextId++,
+      type,
+      data,
+      timestamp: new Date().toISOString(),
+    };
+
+    for (const res of clients) {
+      send(res, envelope);
+    }
+  }
+
+  return {
+    handler,
+    publish,
+    clientCount: () => clients.size,
+  };
+}
@@ -0,0 +1,210 @@
+import { readFileSync, writeFileSync } from "fs";
+import path from "path";
+
+// Bluetooth devices this monitor has connected to, with a nickname and an
+// auto-reconnect priority. The list survives restarts, so the monitor can
+// bring its speaker back after a reboot or when the connection drops.
+
+const NICKNAME_LENGTH = 64;
+const WATCH_INTERVAL = 15000;
+// Give the adapter time to come up after boot before reconnecting
+const BOOT_RECONNECT_DELAY = 10000;
+
+// BlueZ icon names (audio-card, audio-headset, phone, input-keyboard, ...) to a coarse type
+const deviceTypeFor = ({ icon, isAudioDevice }) => {
+  if (isAudioDevice || icon?.startsWith("audio")) return "audio";
+  if (icon === "phone") return "phone";
+  if (icon === "computer") return "computer";
+  if (icon?.startsWith("input")) return "input";
+  return "other";
+};
+
+export function createKnownDeviceStore({ filePath }) {
+  const storePath = path.resolve(filePath);
+  let devices = load();
+
+  function load() {
+    try {
+      return JSON.parse(readFileSync(storePath, "utf8"));
+    } catch (error) {
+      if (error.code !== "ENOENT") {
+        console.warn(`⚠️ Could not read known Bluetooth devices from ${storePath}:`, error.message);
+      }
+      return [];
+    }
+  }
+
+  function save() {
+    // Priorities stay 1..n in list order
+    devices.sort((a, b) => a.priority - b.priority).forEach((device, index) => {
+      device.priority = index + 1;
+    });
+    try {
+      writeFileSync(storePath, JSON.stringify(devices, null, 2));
+    } catch (error) {
+      console.error(`❌ Could not save known Bluetooth devices to ${storePath}:`, error.message);
+    }
+  }
+
+  const find = (mac) => devices.find((device) => device.mac === mac);
+
+  // Highest priority first
+  const list = () => [...devices].sort((a, b) => a.priority - b.priority);
+
+  // Record a successful connection; new devices go to the end of the list
+  function remember({ mac, name, icon, isAudioDevice }) {
+    const now = new Date().toISOString();
+    const known = find(mac);
+    if (known) {
+      known.name = name || known.name;
+      known.lastConnectedAt = now;
+    } else {
+      devices.push({
+        mac,
+        name: name || mac,
+        nickname: null,
+        deviceType: deviceTypeFor({ icon, isAudioDevice }),
+        priority: devices.length + 1,
+        autoReconnect: true,
+        addedAt: now,
+        lastConnectedAt: now,
+      });
+      console.log(`💾 Remembering Bluetooth device ${name || mac}`);
+    }
+    save();
+    return find(mac);
+  }
+
+  // Rename or toggle auto-reconnect; returns null for an unknown device
+  function update(mac, { nickname, autoReconnect }) {
+    const known = find(mac);
+    if (!known) return null;
+
+    if (nickname !== undefined) {
+      known.nickname = String(nickname ?? "").trim().slice(0, NICKNAME_LENGTH) || null;
+    }
+    if (typeof autoReconnect === "boolean") {
+      known.autoReconnect = autoReconnect;
+    }
+    save();
+    return known;
+  }
+
+  // Apply a new priority order; devices missing from `macs` keep their
+  // relative order after the listed ones
+  function reorder(macs) {
+    const rank = new Map(macs.map((mac, index) => [mac, index]));
+    devices = list().sort((a, b) => (rank.get(a.mac) ?? Infinity) - (rank.get(b.mac) ?? Infinity));
+    devices.forEach((device, index) => {
+      device.priority = index + 1;
+    });
+    save();
+    return list();
+  }
+
+  function forget(mac) {
+    const before = devices.length;
+    devices = devices.filter((device) => device.mac !== mac);
+    if (devices.length === before) return false;
+
+    save();
+    console.log(`🗑️ Forgot Bluetooth device ${mac}`);
+    return true;
+  }
+
+  return {
+    list,
+    find,
+    remember,
+    update,
+    reorder,
+    forget,
+  };
+}
+
+// Keeps the audio device connected: on boot, and whenever the device that was
+// connected last drops without being disconnected through the API, it tries
+// known audio devices with auto-reconnect on, in priority order. `connect`
+// should call watch() once the device is up.
+export function createAutoReconnect({ store, isConnected, connect, onDrop }) {
+  let watched = null;
+  let timer = null;
+  let reconnecting = false;
+
+  // Try each candidate until one connects; resolves the device or null
+  async function reconnect(reason) {
+    if (reconnecting) return null;
+    reconnecting = true;
+
+    try {
+      const candidates = store.list().filter((device) => device.deviceType === "audio" && device.autoReconnect);
+
+      // One of them may already be back on its own (trusted devices reconnect themselves)
+      for (const device of candidates) {
+        if (await isConnected(device.mac).catch(() => false)) {
+          watched = device.mac;
+          return device;
+        }
+      }
+
+      if (candidates.length > 0) {
+        console.log(`🔁 Reconnecting Bluetooth audio (${reason}), ${candidates.length} candidate(s)`);
+      }
+
+      for (const device of candidates) {
+        try {
+          await connect(device);
+          return device;
+        } catch (error) {
+          console.log(`⚠️ Could not reconnect ${device.nickname || device.name}: ${error.message}`);
+        }
+      }
+      return null;
+    } finally {
+      reconnecting = false;
+    }
+  }
+
+  async function check() {
+    if (!watched || reconnecting) return;
+
+    let connected = true;
+    try {
+      connected = await isConnected(watched);
+    } catch {
+      // Can't tell right now; check again next round
+    }
+    if (connected) return;
+
+    console.log(`📴 Bluetooth device ${watched} dropped`);
+    const dropped = watched;
+    watched = null;
+    onDrop?.(dropped);
+    await reconnect("connection dropped");
+  }
+
+  function start() {
+    if (timer) return;
+    timer = setInterval(check, WATCH_INTERVAL);
+    setTimeout(() => reconnect("boot"), BOOT_RECONNECT_DELAY);
+  }
+
+  function stop() {
+    clearInterval(timer);
+    timer = null;
+  }
+
+  return {
+    start,
+    stop,
+    reconnect,
+    // The device to keep an eye on after it connected
+    watch: (mac) => {
+      watched = mac;
+    },
+    // Stop watching after a deliberate disconnect; no mac stops watching any device
+    unwatch: (mac) => {
+      if (!mac || watched === mac) watched = null;
+    },
+  };
+}
@@ -0,0 +1,184 @@
+import { createHash, randomBytes, randomInt, randomUUID, timingSafeEqual } from "crypto";
+import { readFileSync, writeFileSync } from "fs";
+import path from "path";
+
+const CODE_LENGTH = 6;
+const CODE_TTL = 5 * 60 * 1000; // 5 minutes
+const MAX_CODE_ATTEMPTS = 5;
+const MUTATING_METHODS = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+
+const hashToken = (token) => createHash("sha256").update(token).digest("hex");
+
+const LOOPBACK_ADDRESSES = new Set(["127.0.0.1", "::1", "::ffff:127.0.0.1"]);
+
+// Requests from the monitor itself (its kiosk browser or a local shell). A
+// local proxy such as the Vite dev server forwards the real client address in
+// X-Forwarded-For, which is only trusted when the proxy itself is local.
+export const isLoopbackRequest = (req) => {
+  if (!LOOPBACK_ADDRESSES.has(req.socket.remoteAddress || "")) return false;
+
+  const forwardedFor = req.headers["x-forwarded-for"];
+  if (!forwardedFor) return true;
+
+  return String(forwardedFor)
+    .split(",")
+    .every((address) => LOOPBACK_ADDRESSES.has(address.trim()));
+};
+
+// Pairing handshake: the monitor shows a short one-time code, a phone trades
+// it for its own bearer token. Paired clients survive restarts; tokens are
+// only stored hashed. `getHost` names this backend in the QR payload and is
+// asked each time, since the LAN address can change.
+export function createPairingStore({ filePath, getHost, port }) {
+  const storePath = path.resolve(filePath);
+  let clients = load();
+  let pendingCode = null;
+
+  function load() {
+    try {
+      return JSON.parse(readFileSync(storePath, "utf8"));
+    } catch (error) {
+      if (error.code !== "ENOENT") {
+        console.warn(`⚠️ Could not read paired clients from ${storePath}:`, error.message);
+      }
+      return [];
+    }
+  }
+
+  function save() {
+    try {
+      writeFileSync(storePath, JSON.stringify(clients, null, 2));
+    } catch (error) {
+      console.error(`❌ Could not save paired clients to ${storePath}:`, error.message);
+    }
+  }
+
+  // The current code, issuing a fresh one if none is pending or it expired
+  function getPairingCode() {
+    if (!pendingCode || Date.now() >= pendingCode.expiresAt) {
+      const code = String(randomInt(0, 10 ** CODE_LENGTH)).padStart(CODE_LENGTH, "0");
+      pendingCode = { code, expiresAt: Date.now() + CODE_TTL, attempts: 0 };
+      console.log(`🔑 Pairing code: ${code} (valid for ${CODE_TTL / 60000} minutes)`);
+    }
+
+    return {
+      code: pendingCode.code,
+      expiresAt: new Date(pendingCode.expiresAt).toISOString(),
+      qrPayload: JSON.stringify({ host: getHost(), port, code: pendingCode.code }),
+    };
+  }
+
+  // Trade a valid code for a new client token. Returns null for a wrong,
+  // expired or exhausted code; a code only ever pairs one client.
+  function pair(code, clientName) {
+    if (!pendingCode || Date.now() >= pendingCode.expiresAt) {
+      return null;
+    }
+
+    const expected = Buffer.from(pendingCode.code);
+    const received = Buffer.from(String(code ?? ""));
+    const matches = expected.length === received.length && timingSafeEqual(expected, received);
+
+    if (!matches) {
+      pendingCode.attempts += 1;
+      if (pendingCode.attempts >= MAX_CODE_ATTEMPTS) {
+        console.warn("⚠️ Too many wrong pairing attempts, code invalidated");
+        pendingCode = null;
+      }
+      return null;
+    }
+
+    pendingCode = null;
+
+    const token = randomBytes(32).toString("hex");
+    const client = {
+      id: randomUUID(),
+      name: String(clientName || "Unnamed client").slice(0, 64),
+      tokenHash: hashToken(token),
+      pairedAt: new Date().toISOString(),
+      lastSeenAt: null,
+    };
+    clients.push(client);
+    save();
+
+    console.log(`🤝 Paired client "${client.name}" (${client.id})`);
+    return { client: toPublicClient(client), token };
+  }
+
+  // The bearer token, or with `allowQueryToken` a ?token= query parameter
+  function authenticate(req, { allowQueryToken = false } = {}) {
+    const header = req.headers.authorization || "";
+    const [scheme, headerToken] = header.split(" ");
+    const token = scheme === "Bearer" && headerToken ? headerToken : allowQueryToken ? req.query?.token : null;
+    if (typeof token !== "string" || !token) return null;
+
+    const tokenHash = hashToken(token);
+    const client = clients.find((candidate) => candidate.tokenHash === tokenHash);
+    if (client) {
+      client.lastSeenAt = new Date().toISOString();
+    }
+    return client || null;
+  }
+
+  function listClients() {
+    return clients.map(toPublicClient);
+  }
+
+  function revoke(id) {
+    const before = clients.length;
+    clients = clients.filter((client) => client.id !== id);
+    if (clients.length === before) return false;
+
+    save();
+    console.log(`🚫 Revoked paired client ${id}`);
+    return true;
+  }
+
+  function admitPairedClient(client, req, res, next) {
+    if (!client) {
+      return res.status(401).json({
+        success: false,
+        error: "This client is not paired with the monitor",
+        requiresPairing: true,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    req.pairedClient = client;
+    next();
+  }
+
+  // Route middleware: only paired clients may continue
+  function requirePairedClient(req, res, next) {
+    admitPairedClient(authenticate(req), req, res, next);
+  }
+
+  // Same for event streams: EventSource cannot set headers, so the token may
+  // come as ?token= instead
+  function requirePairedStream(req, res, next) {
+    admitPairedClient(authenticate(req, { allowQueryToken: true }), req, res, next);
+  }
+
+  // App middleware: every mutating request needs a paired client, except the
+  // pairing handshake itself
+  function guardMutations(req, res, next) {
+    if (!MUTATING_METHODS.has(req.method) || req.path === "/api/pair") {
+      return next();
+    }
+    return requirePairedClient(req, res, next);
+  }
+
+  return {
+    getPairingCode,
+    pair,
+    listClients,
+    revoke,
+    requirePairedClient,
+    requirePairedStream,
+    guardMutations,
+  };
+}
+
+function toPublicClient({ tokenHash, ...client }) {
+  return client;
+}
@@ -0,0 +1,63 @@
+import { readFileSync } from "fs";
+import path from "path";
+
+// Defaults used for any setting missing from the config file
+const DEFAULT_PI_CONFIG = {
+  host: "smartmonitor.local",
+  port: 5000,
+  endpoints: {
+    spotifyMirror: "/api/pi/spotify-mirror",
+    spotifyCredentials: "/api/pi/spotify-credentials",
+    spotifyControl: "/api/pi/spotify-control",
+  },
+  timeout: 5000,
+  authToken: null,
+};
+
+// Load the Pi connection settings from pi.config.json (or PI_CONFIG_PATH).
+// PI_HOST, PI_PORT and PI_AUTH_TOKEN environment variables win over the file.
+export function loadPiConfig() {
+  const configPath = path.resolve(
+    process.env.PI_CONFIG_PATH || "pi.config.json"
+  );
+
+  let fileConfig = {};
+  try {
+    fileConfig = JSON.parse(readFileSync(configPath, "utf8"));
+    console.log(`⚙️ Loaded Pi config from ${configPath}`);
+  } catch (error) {
+    if (error.code === "ENOENT") {
+      console.warn(
+        `⚠️ No Pi config at ${configPath}, using defaults (see pi.config.example.json)`
+      );
+    } else {
+      throw new Error(`Invalid Pi config at ${configPath}: ${error.message}`);
+    }
+  }
+
+  const config = {
+    ...DEFAULT_PI_CONFIG,
+    ...fileConfig,
+    endpoints: {
+      ...DEFAULT_PI_CONFIG.endpoints,
+      ...(fileConfig.endpoints || {}),
+    },
+  };
+
+  if (process.env.PI_HOST) config.host = process.env.PI_HOST;
+  if (process.env.PI_PORT) config.port = Number(process.env.PI_PORT);
+  if (process.env.PI_AUTH_TOKEN) config.authToken = process.env.PI_AUTH_TOKEN;
+
+  if (typeof config.host !== "string" || config.host.length === 0) {
+    throw new Error("Pi config: host must be a non-empty string");
+  }
+  if (!Number.isInteger(config.port) || config.port < 1 || config.port > 65535) {
+    throw new Error(`Pi config: invalid port ${config.port}`);
+  }
+
+  if (!config.authToken) {
+    console.warn("⚠️ No Pi auth token configured, requests to the Pi are unauthenticated");
+  }
+
+  return config;
+}
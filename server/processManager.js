@@ -0,0 +1,218 @@
+import { randomBytes } from "crypto";
+import path from "path";
+import { CommandValidationError } from "./commandExecutor.js";
+
+// Process monitor: the busiest processes by CPU and memory from `ps`, and
+// kill/renice behind a two-step confirmation. The first request for an action
+// returns a short-lived token bound to that exact process; only a second
+// request carrying the token runs it. Protected processes are never touched.
+
+const DEFAULT_LIMIT = 15;
+const MAX_LIMIT = 50;
+const CONFIRM_TTL = 30000;
+// `ps` reports elapsed time in whole seconds; a reused PID starts later than that
+const START_TOLERANCE = 2000;
+
+// Services the monitor cannot do without; extend with PROCESS_DENYLIST
+export const PROTECTED_COMMANDS = [
+  "systemd",
+  "init",
+  "kthreadd",
+  "dbus-daemon",
+  "dbus-broker",
+  "sshd",
+  "bluetoothd",
+  "pulseaudio",
+  "pipewire",
+  "pipewire-pulse",
+  "wireplumber",
+  "NetworkManager",
+  "wpa_supplicant",
+  "dhcpcd",
+  "avahi-daemon",
+  "Xorg",
+  "Xwayland",
+  "labwc",
+  "wayfire",
+  "lightdm",
+  "chromium",
+  "chromium-browser",
+];
+
+const SIGNALS = ["TERM", "INT", "HUP", "KILL"];
+
+const PS_FIELDS = "pid=,ppid=,ni=,etimes=,pcpu=,pmem=,rss=,user:32=,args=";
+
+// Thrown for actions the monitor refuses or cannot carry out; `status` is the HTTP status
+export class ProcessActionError extends Error {
+  constructor(message, status) {
+    super(message);
+    this.name = "ProcessActionError";
+    this.status = status;
+  }
+}
+
+// "/usr/bin/python3 app.py" -> "python3"; kernel threads are "[kworker/0:1]"
+const commandName = (args) => {
+  const kernelThread = /^\[(.+)\]$/.exec(args);
+  if (kernelThread) return kernelThread[1];
+  return path.basename(args.split(" ")[0]).replace(/:$/, "");
+};
+
+// One `ps -eo <PS_FIELDS>` line per process, arguments last
+export function parseProcessList(stdout, now = Date.now()) {
+  return stdout
+    .split("\n")
+    .map((line) => /^\s*(\d+)\s+(\d+)\s+(-?\d+|-)\s+(\d+)\s+([\d.]+)\s+([\d.]+)\s+(\d+)\s+(\S+)\s+(.*)$/.exec(line))
+    .filter(Boolean)
+    .map(([, pid, ppid, nice, etimes, cpu, memory, rss, user, args]) => ({
+      pid: Number(pid),
+      ppid: Number(ppid),
+      user,
+      command: commandName(args.trim()),
+      args: args.trim(),
+      cpu: Number(cpu),
+      memory: Number(memory),
+      rssKb: Number(rss),
+      // Realtime processes have no nice value
+      nice: nice === "-" ? null : Number(nice),
+      uptimeSeconds: Number(etimes),
+      startedAt: now - Number(etimes) * 1000,
+    }));
+}
+
+const validatePid = (value) => {
+  const pid = Number(value);
+  if (!Number.isInteger(pid) || pid <= 0) {
+    throw new CommandValidationError(`Invalid process ID: ${JSON.stringify(value)}`);
+  }
+  return pid;
+};
+
+const validateSignal = (value = "TERM") => {
+  const signal = String(value).toUpperCase().replace(/^SIG/, "");
+  if (!SIGNALS.includes(signal)) {
+    throw new CommandValidationError(`Signal must be one of ${SIGNALS.join(", ")}`);
+  }
+  return signal;
+};
+
+const validatePriority = (value) => {
+  const priority = Number(value);
+  if (!Number.isInteger(priority) || priority < -20 || priority > 19) {
+    throw new CommandValidationError(`Nice value must be a whole number from -20 to 19: ${JSON.stringify(value)}`);
+  }
+  return priority;
+};
+
+// `selfPid` is the backend's own process; it, its parent and its children are protected
+export function createProcessManager({ executor, protectedCommands = PROTECTED_COMMANDS, selfPid = process.pid }) {
+  const protectedNames = new Set(protectedCommands);
+  const pending = new Map();
+
+  async function readProcesses() {
+    const { stdout } = await executor.run("ps", ["-eo", PS_FIELDS], { readOnly: true });
+    return parseProcessList(stdout);
+  }
+
+  // Why a process may not be killed or reniced, or null if it may
+  function protectionOf({ pid, ppid, command }) {
+    if (pid === 1 || pid === 2 || ppid === 2) return "system process";
+    if (pid === selfPid || ppid === selfPid || pid === process.ppid) return "monitor backend";
+    if (protectedNames.has(command) || command.startsWith("systemd-")) return "critical service";
+    return null;
+  }
+
+  const describe = (entry) => {
+    const { ppid, startedAt, ...rest } = entry;
+    const protectedReason = protectionOf(entry);
+    return { ...rest, protected: protectedReason !== null, protectedReason };
+  };
+
+  // The top `limit` processes by CPU together with the top `limit` by memory
+  async function list({ limit = DEFAULT_LIMIT } = {}) {
+    const count = Math.min(Math.max(Number(limit) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+    const processes = await readProcesses();
+    const top = (field) => [...processes].sort((a, b) => b[field] - a[field]).slice(0, count);
+    const selected = new Map([...top("cpu"), ...top("memory")].map((entry) => [entry.pid, entry]));
+
+    return {
+      processes: [...selected.values()].sort((a, b) => b.cpu - a.cpu).map(describe),
+      total: processes.length,
+    };
+  }
+
+  async function findProcess(pid) {
+    const entry = (await readProcesses()).find((candidate) => candidate.pid === pid);
+    if (!entry) throw new ProcessActionError(`Process ${pid} is not running`, 404);
+    return entry;
+  }
+
+  // First step: check the action is allowed and hand out a token for it
+  async function prepare(pidValue, action) {
+    const pid = validatePid(pidValue);
+    const entry = await findProcess(pid);
+    const protectedReason = protectionOf(entry);
+    if (protectedReason) {
+      throw new ProcessActionError(`${entry.command} (${pid}) is protected: ${protectedReason}`, 403);
+    }
+
+    for (const [token, request] of pending) {
+      if (Date.now() >= request.expiresAt) pending.delete(token);
+    }
+
+    const token = randomBytes(16).toString("hex");
+    const expiresAt = Date.now() + CONFIRM_TTL;
+    pending.set(token, { pid, command: entry.command, startedAt: entry.startedAt, action, expiresAt });
+
+    return { confirmToken: token, expiresAt: new Date(expiresAt).toISOString(), process: describe(entry), action };
+  }
+
+  // Second step: the token must match the action and the very same process,
+  // not a newer one that was handed the PID since
+  async function confirm(pidValue, action, token) {
+    const pid = validatePid(pidValue);
+    const request = pending.get(String(token));
+    pending.delete(String(token));
+
+    const matches =
+      request &&
+      Date.now() < request.expiresAt &&
+      request.pid === pid &&
+      JSON.stringify(request.action) === JSON.stringify(action);
+    if (!matches) {
+      throw new ProcessActionError("Confirmation token is invalid or expired; request the action again", 409);
+    }
+
+    const entry = await findProcess(pid);
+    if (entry.command !== request.command || Math.abs(entry.startedAt - request.startedAt) > START_TOLERANCE) {
+      throw new ProcessActionError(`Process ${pid} has changed since the action was requested`, 409);
+    }
+
+    if (action.type === "kill") {
+      await executor.run("sudo", ["kill", "-s", action.signal, String(pid)]);
+      console.log(`🛑 Sent SIG${action.signal} to ${entry.command} (${pid})`);
+    } else {
+      await executor.run("sudo", ["renice", "-n", String(action.priority), "-p", String(pid)]);
+      console.log(`⚖️ Reniced ${entry.command} (${pid}) to ${action.priority}`);
+    }
+    return describe(entry);
+  }
+
+  // Without `confirmToken` these prepare the action, with it they run it
+  function kill(pid, { signal, confirmToken } = {}) {
+    const action = { type: "kill", signal: validateSignal(signal) };
+    return confirmToken ? confirm(pid, action, confirmToken) : prepare(pid, action);
+  }
+
+  function renice(pid, { priority, confirmToken } = {}) {
+    const action = { type: "renice", priority: validatePriority(priority) };
+    return confirmToken ? confirm(pid, action, confirmToken) : prepare(pid, action);
+  }
+
+  return {
+    list,
+    kill,
+    renice,
+  };
+}
@@ -0,0 +1,780 @@
+// In-memory fake Pi for development without hardware (`npm run server:sim`).
+// It stands in for the system commands, the Spotify Web API client and the
+// Pi HTTP service, so every route in enhanced-index.js runs its normal code
+// path against simulated state instead of bluetoothctl, pactl, vcgencmd, ...
+
+const ANALOG_SINK = "alsa_output.platform-bcm2835_audio.analog-mono";
+const HDMI_SINK = "alsa_output.platform-fef00700.hdmi.hdmi-stereo";
+const BACKLIGHT_PATH = "/sys/class/backlight/rpi_backlight/brightness";
+const BOOTED_AGO = 3 * 24 * 60 * 60 * 1000 + 5 * 60 * 60 * 1000; // 3 days, 5 hours
+
+// Devices in range of the virtual adapter. Paired ones are known from the
+// start; the others only show up in `bluetoothctl devices` after a scan.
+// `rssi` is the typical signal strength; scans report it with some jitter.
+// `pairing` is what the device asks the agent for: a passkey confirmation or
+// a legacy PIN (`pin`); devices without it pair straight away. Devices with a
+// `battery` report it while connected and drain about 1% a minute. Audio
+// devices play `codec` out of `codecs`; ones with a `microphone` also offer
+// the HSP/HFP headset profile.
+const BLUETOOTH_DEVICES = [
+  { mac: "AA:BB:CC:00:00:01", name: "Living Room Speaker", audio: true, paired: true, deviceClass: 0x240414, icon: "audio-card", rssi: -52, battery: 24, codec: "sbc", codecs: ["sbc"] },
+  { mac: "AA:BB:CC:00:00:02", name: "Studio Headphones", audio: true, paired: false, deviceClass: 0x240404, icon: "audio-headset", rssi: -61, pairing: "confirm", battery: 80, codec: "aac", codecs: ["sbc", "aac"], microphone: true },
+  { mac: "AA:BB:CC:00:00:03", name: "Kitchen Soundbar", audio: true, paired: false, deviceClass: 0x240414, icon: "audio-card", rssi: -74, pairing: "pin", pin: "0000", codec: "sbc", codecs: ["sbc", "aac"] },
+  { mac: "AA:BB:CC:00:00:04", name: "Pixel Phone", audio: false, paired: false, deviceClass: 0x5a020c, icon: "phone", rssi: -66 },
+  { mac: "AA:BB:CC:00:00:05", name: "Fitness Band", audio: false, paired: false, deviceClass: 0x000704, icon: "input-gaming", rssi: -83 },
+];
+
+const WALLPAPERS = [
+  { id: "wp1", name: "Abstract Waves", category: "Abstract", file: "abstract_waves.jpg" },
+  { id: "wp2", name: "Nature Landscape", category: "Nature", file: "nature_landscape.jpg" },
+  { id: "wp3", name: "City Lights", category: "Urban", file: "city_lights.jpg" },
+  { id: "wp4", name: "Minimalist Dark", category: "Minimalist", file: "minimalist_dark.jpg" },
+  { id: "wp5", name: "Aurora", category: "Nature", file: "aurora.jpg" },
+];
+
+const TRACKS = [
+  { id: "sim-track-1", name: "Night Drive", artists: ["The Simulators"], album: "Offline Sessions", duration: 214000 },
+  { id: "sim-track-2", name: "Loopback", artists: ["Localhost"], album: "127.0.0.1", duration: 187000 },
+  { id: "sim-track-3", name: "Mock Turtle", artists: ["Fixture", "Stub"], album: "Test Doubles", duration: 241000 },
+  { id: "sim-track-4", name: "No Hardware Required", artists: ["The Simulators"], album: "Offline Sessions", duration: 198000 },
+];
+
+// Processes in the simulated `ps`. `cpu` is the typical CPU share (reads add
+// jitter) and `startedAt` the seconds after boot; the backend itself is listed
+// under its real PID. The photo sync and stress test are there to be killed.
+const PROCESSES = [
+  { pid: 1, ppid: 0, user: "root", args: "/sbin/init splash", cpu: 0.1, memory: 0.3, rss: 11800, startedAt: 0 },
+  { pid: 2, ppid: 0, user: "root", args: "[kthreadd]", cpu: 0, memory: 0, rss: 0, startedAt: 0 },
+  { pid: 412, ppid: 1, user: "root", args: "/usr/libexec/bluetooth/bluetoothd", cpu: 0.3, memory: 0.2, rss: 7400, startedAt: 6 },
+  { pid: 655, ppid: 1, user: "pi", args: "/usr/bin/pipewire", cpu: 1.2, memory: 0.5, rss: 19800, startedAt: 9 },
+  { pid: 901, ppid: 1, user: "root", args: "sshd: /usr/sbin/sshd -D [listener] 0 of 10-100 startups", cpu: 0, memory: 0.2, rss: 8200, startedAt: 7 },
+  { pid: 1204, ppid: 1, user: "pi", args: "/usr/lib/chromium/chromium --kiosk http://localhost:8080", cpu: 14, memory: 9.8, rss: 372000, startedAt: 15 },
+  { pid: 1288, ppid: 1204, user: "pi", args: "/usr/lib/chromium/chromium --type=renderer", cpu: 9, memory: 6.1, rss: 231000, startedAt: 16 },
+  { pid: 2317, ppid: 1, user: "pi", args: "python3 /home/pi/scripts/photo_sync.py --watch", cpu: 22, memory: 3.4, rss: 129000, startedAt: 120 },
+  { pid: 2544, ppid: 1, user: "pi", args: "/usr/bin/node /home/pi/weather-widget/index.js", cpu: 2.5, memory: 2.1, rss: 80100, startedAt: 60 },
+  { pid: 3071, ppid: 1, user: "pi", args: "stress-ng --cpu 1 --timeout 0", cpu: 48, memory: 0.4, rss: 15000, startedAt: 260000 },
+];
+
+const round = (value, digits = 0) => Math.round(value * 10 ** digits) / 10 ** digits;
+const clamp = (value, min, max) => Math.min(max, Math.max(min, value));
+
+const bluezSink = (mac, profile = "a2dp_sink") => `bluez_sink.${mac.replace(/:/g, "_")}.${profile}`;
+const bluezCard = (mac) => `bluez_card.${mac.replace(/:/g, "_")}`;
+
+// Card profiles as `pactl list cards` describes them
+const CARD_PROFILES = {
+  a2dp_sink: "High Fidelity Playback (A2DP Sink) (sinks: 1, sources: 0, priority: 40, available: yes)",
+  headset_head_unit: "Headset Head Unit (HSP/HFP) (sinks: 1, sources: 1, priority: 30, available: yes)",
+  off: "Off (sinks: 0, sources: 0, priority: 0, available: yes)",
+};
+const CODEC_NAMES = { sbc: "SBC", aac: "AAC" };
+
+const profilesOf = (device) =>
+  Object.keys(CARD_PROFILES).filter((profile) => profile !== "headset_head_unit" || device.microphone);
+
+// A simulated non-zero exit; `message` becomes the command's stderr
+const commandFailed = (message) => {
+  const error = new Error(message);
+  error.simulated = true;
+  return error;
+};
+
+export function createSimulatedPi({ port }) {
+  const startedAt = Date.now();
+
+  const bluetooth = new Map(
+    BLUETOOTH_DEVICES.map((device) => [
+      device.mac,
+      { ...device, discovered: device.paired, trusted: device.paired, connected: false, profile: "a2dp_sink" },
+    ])
+  );
+  const sinks = new Map([
+    [ANALOG_SINK, { volume: 60, muted: false }],
+    [HDMI_SINK, { volume: 80, muted: false }],
+  ]);
+  const display = { backlight: 191, powered: true };
+  const processes = new Map(PROCESSES.map((entry) => [entry.pid, { ...entry, nice: 0 }]));
+  let defaultSink = ANALOG_SINK;
+  // The player's output stream, and the loaded combine-sink module if any
+  const streams = [{ id: "42", sink: ANALOG_SINK }];
+  let combineModule = null;
+  let activeWallpaperId = WALLPAPERS[0].id;
+
+  // Synthetic load: a slow CPU wave with jitter; temperature trails the load
+  function cpuUsage() {
+    const t = (Date.now() - startedAt) / 1000;
+    return clamp(28 + 18 * Math.sin(t / 45) + 8 * Math.sin(t / 7) + (Math.random() - 0.5) * 6, 2, 98);
+  }
+
+  function temperature() {
+    const t = (Date.now() - startedAt) / 1000;
+    return clamp(47 + 7 * Math.sin((t - 20) / 45) + (Math.random() - 0.5) * 1.5, 35, 85);
+  }
+
+  // get_throttled bits: the soft limit kicks in at 60°C and throttling at 80°C,
+  // and the simulated supply sagged once during boot (under-voltage occurred)
+  let throttledSinceBoot = 0x10000;
+  function throttled() {
+    const celsius = temperature();
+    const current = (celsius >= 60 ? 0x8 : 0) | (celsius >= 80 ? 0x6 : 0);
+    throttledSinceBoot |= current << 16;
+    return current | throttledSinceBoot;
+  }
+
+  function uptime() {
+    const minutes = Math.floor((Date.now() - startedAt + BOOTED_AGO) / 60000);
+    const parts = [
+      [Math.floor(minutes / 1440), "day"],
+      [Math.floor((minutes % 1440) / 60), "hour"],
+      [minutes % 60, "minute"],
+    ]
+      .filter(([value]) => value > 0)
+      .map(([value, unit]) => `${value} ${unit}${value === 1 ? "" : "s"}`);
+    return `up ${parts.join(", ") || "0 minutes"}`;
+  }
+
+  function memory() {
+    const total = 3796;
+    const used = Math.round(1150 + cpuUsage() * 6);
+    const cache = 820;
+    return [
+      "               total        used        free      shared  buff/cache   available",
+      `Mem:           ${total}        ${used}        ${total - used - cache}          42        ${cache}        ${total - used}`,
+      "Swap:            99           0          99",
+    ].join("\n");
+  }
+
+  // --- bluetoothctl ---
+
+  function requireDevice(mac) {
+    const device = bluetooth.get(mac);
+    if (!device || !device.discovered) {
+      throw commandFailed(`Device ${mac} not available`);
+    }
+    return device;
+  }
+
+  function battery(device) {
+    const drained = Math.floor((Date.now() - device.connectedAt) / 60000);
+    return Math.max(5, device.battery - drained);
+  }
+
+  function deviceInfo(device) {
+    return [
+      `Device ${device.mac} (public)`,
+      `\tName: ${device.name}`,
+      `\tAlias: ${device.name}`,
+      `\tClass: 0x${device.deviceClass.toString(16).padStart(8, "0")}`,
+      `\tIcon: ${device.icon}`,
+      `\tPaired: ${device.paired ? "yes" : "no"}`,
+      `\tTrusted: ${device.trusted ? "yes" : "no"}`,
+      `\tConnected: ${device.connected ? "yes" : "no"}`,
+      ...(device.connected && device.battery !== undefined
+        ? [`\tBattery Percentage: 0x${battery(device).toString(16).padStart(2, "0")} (${battery(device)})`]
+        : []),
+      ...(device.audio
+        ? ["\tUUID: Audio Sink                (0000110b-0000-1000-8000-00805f9b34fb)"]
+        : ["\tUUID: Generic Access Profile    (00001800-0000-1000-8000-00805f9b34fb)"]),
+    ].join("\n");
+  }
+
+  // Devices always come back on A2DP, as BlueZ picks the best profile on connect
+  function setConnected(device, connected) {
+    const previousSink = bluezSink(device.mac, device.profile);
+    device.connected = connected;
+    device.connectedAt = Date.now();
+    device.profile = "a2dp_sink";
+
+    if (connected && device.audio) {
+      sinks.set(bluezSink(device.mac), { volume: 50, muted: false });
+    } else if (!connected) {
+      removeSink(previousSink);
+    }
+  }
+
+  // The profile's sink replaces the old one; "off" leaves the card without one
+  function setProfile(device, profile) {
+    if (!profilesOf(device).includes(profile)) throw commandFailed("Failure: No such entity");
+    removeSink(bluezSink(device.mac, device.profile));
+    device.profile = profile;
+    if (profile !== "off") sinks.set(bluezSink(device.mac, profile), { volume: 50, muted: false });
+  }
+
+  function bluetoothctl(args) {
+    const [action, mac] = args[0] === "--timeout" ? args.slice(2) : args;
+
+    switch (action) {
+      case "devices":
+        return [...bluetooth.values()]
+          .filter((device) => device.discovered)
+          .map((device) => `Device ${device.mac} ${device.name}`)
+          .join("\n");
+      case "info":
+        return deviceInfo(requireDevice(mac));
+      case "trust":
+        requireDevice(mac).trusted = true;
+        return `Changing ${mac} trust succeeded`;
+      case "pair": {
+        const device = requireDevice(mac);
+        if (device.paired) throw commandFailed("Failed to pair: org.bluez.Error.AlreadyExists");
+        device.paired = true;
+        return "Pairing successful";
+      }
+      case "connect":
+        setConnected(requireDevice(mac), true);
+        return "Connection successful";
+      case "disconnect":
+        setConnected(requireDevice(mac), false);
+        return "Successful disconnected";
+      case "remove": {
+        // Forgotten until the next scan finds it again
+        const device = requireDevice(mac);
+        setConnected(device, false);
+        Object.assign(device, { paired: false, trusted: false, discovered: false });
+        return "Device has been removed";
+      }
+      default:
+        throw commandFailed(`Invalid command in menu main: ${action}`);
+    }
+  }
+
+  // `bluetoothctl --timeout N scan on`: devices come into range one by one,
+  // then keep advertising with a jittery RSSI until the timeout or a stop
+  function scan(args, { onStdout, signal }) {
+    const seconds = args[0] === "--timeout" ? Number(args[1]) : 5;
+    const emit = (line) => onStdout?.(`${line}\n`);
+    const timers = [];
+
+    emit("Discovery started");
+    [...bluetooth.values()].forEach((device, index) => {
+      timers.push(
+        setTimeout(() => {
+          if (!device.discovered) emit(`[NEW] Device ${device.mac} ${device.name}`);
+          device.discovered = true;
+        }, 400 + index * 700)
+      );
+    });
+    timers.push(
+      setInterval(() => {
+        bluetooth.forEach((device) => {
+          if (device.discovered && Math.random() < 0.6) {
+            emit(`[CHG] Device ${device.mac} RSSI: ${device.rssi + Math.round((Math.random() - 0.5) * 8)}`);
+          }
+        });
+      }, 1000)
+    );
+
+    return new Promise((resolve) => {
+      const finish = () => {
+        timers.forEach((timer) => clearTimeout(timer));
+        signal?.removeEventListener("abort", finish);
+        emit("Discovery stopped");
+        resolve("");
+      };
+      const timeout = setTimeout(finish, seconds * 1000);
+      timers.push(timeout);
+      signal?.addEventListener("abort", finish);
+    });
+  }
+
+  // Interactive `bluetoothctl` acting as the pairing agent: reads commands
+  // from stdin and asks for confirmation or a PIN the way a real device would
+  function agentSession({ onStdout, signal, interactive }) {
+    const emit = (text) => onStdout?.(text);
+    let buffered = "";
+    let awaiting = null;
+
+    return new Promise((resolve) => {
+      const finish = () => {
+        signal?.removeEventListener("abort", finish);
+        resolve("");
+      };
+      signal?.addEventListener("abort", finish);
+
+      const settle = (device, ok, error) => {
+        awaiting = null;
+        if (ok) device.paired = true;
+        emit(ok ? "Pairing successful\n" : `Failed to pair: org.bluez.Error.${error}\n`);
+      };
+
+      const handle = (line) => {
+        if (awaiting) {
+          const { device, expected } = awaiting;
+          return settle(device, line === expected, expected === "yes" ? "AuthenticationRejected" : "AuthenticationFailed");
+        }
+
+        const [command, mac] = line.split(" ");
+        switch (command) {
+          case "agent":
+            return emit("Agent registered\n");
+          case "default-agent":
+            return emit("Default agent request successful\n");
+          case "quit":
+            return finish();
+          case "pair": {
+            const device = bluetooth.get(mac);
+            if (!device || !device.discovered) return emit(`Device ${mac} not available\n`);
+            if (device.paired) return emit("Failed to pair: org.bluez.Error.AlreadyExists\n");
+
+            emit(`Attempting to pair with ${mac}\n`);
+            if (device.pairing === "confirm") {
+              awaiting = { device, expected: "yes" };
+              emit(`[agent] Confirm passkey ${String(Math.floor(Math.random() * 1e6)).padStart(6, "0")} (yes/no): `);
+            } else if (device.pairing === "pin") {
+              awaiting = { device, expected: device.pin };
+              emit("[agent] Enter PIN code: ");
+            } else {
+              settle(device, true);
+            }
+          }
+        }
+      };
+
+      interactive?.((text) => {
+        buffered += text;
+        const lines = buffered.split("\n");
+        buffered = lines.pop();
+        lines.forEach((line) => handle(line.trim()));
+      });
+    });
+  }
+
+  // --- pactl / pacmd / amixer ---
+
+  function requireSink(name) {
+    const sink = sinks.get(name);
+    if (!sink) throw commandFailed("Failure: No such entity");
+    return sink;
+  }
+
+  // Streams on a vanished sink fall back to the default, as PulseAudio does
+  function removeSink(name) {
+    sinks.delete(name);
+    if (defaultSink === name) defaultSink = ANALOG_SINK;
+    streams.filter((stream) => stream.sink === name).forEach((stream) => (stream.sink = defaultSink));
+  }
+
+  const connectedCards = () => [...bluetooth.values()].filter((device) => device.connected && device.audio);
+
+  function requireCard(name) {
+    const device = connectedCards().find((entry) => bluezCard(entry.mac) === name);
+    if (!device) throw commandFailed("Failure: No such entity");
+    return device;
+  }
+
+  // One card per connected Bluetooth audio device, as module-bluez5-device creates them
+  function cards() {
+    return connectedCards()
+      .map((device, index) =>
+        [
+          `Card #${index + 1}`,
+          `\tName: ${bluezCard(device.mac)}`,
+          "\tDriver: module-bluez5-device.c",
+          "\tProperties:",
+          `\t\tdevice.description = "${device.name}"`,
+          `\t\tdevice.string = "${device.mac}"`,
+          ...(device.profile === "a2dp_sink" ? [`\t\tbluetooth.codec = "${device.codec}"`] : []),
+          "\tProfiles:",
+          ...profilesOf(device).map((profile) => `\t\t${profile}: ${CARD_PROFILES[profile]}`),
+          `\tActive Profile: ${device.profile}`,
+        ].join("\n")
+      )
+      .join("\n\n");
+  }
+
+  // PulseAudio's bluez message handler: `pactl send-message /card/<card>/bluez <message> [json]`
+  function cardMessage(path, message, param) {
+    const device = requireCard(/^\/card\/(.+)\/bluez$/.exec(path ?? "")?.[1]);
+    if (device.profile !== "a2dp_sink") throw commandFailed("Failure: Not supported");
+
+    switch (message) {
+      case "list-codecs":
+        return JSON.stringify(device.codecs.map((name) => ({ name, description: CODEC_NAMES[name] })));
+      case "get-codec":
+        return JSON.stringify(device.codec);
+      case "switch-codec": {
+        const codec = JSON.parse(param ?? "null");
+        if (!device.codecs.includes(codec)) throw commandFailed("Failure: Invalid argument");
+        device.codec = codec;
+        return "";
+      }
+      default:
+        throw commandFailed("Failure: No such entity");
+    }
+  }
+
+  function pulseaudio(args) {
+    const [action, name, value] = args;
+
+    switch (action) {
+      case "info":
+        return ["Server String: /run/user/1000/pulse/native", "Server Name: pulseaudio", `Default Sink: ${defaultSink}`].join("\n");
+      case "list":
+        if (args[2] === "sink-inputs") {
+          return streams
+            .map((stream) => `${stream.id}\t${[...sinks.keys()].indexOf(stream.sink)}\t7\tprotocol-native.c\ts16le 2ch 44100Hz`)
+            .join("\n");
+        }
+        if (name === "cards") return cards();
+        if (args[2] === "modules") {
+          return combineModule
+            ? `${combineModule.id}\tmodule-combine-sink\tsink_name=${combineModule.sink} slaves=${combineModule.members.join(",")}`
+            : "";
+        }
+        return [...sinks.keys()]
+          .map((sink, index) => `${index}\t${sink}\tmodule-simulated.c\ts16le 2ch 44100Hz\t${streams.some((stream) => stream.sink === sink) ? "RUNNING" : "SUSPENDED"}`)
+          .join("\n");
+      case "set-card-profile":
+        setProfile(requireCard(name), value);
+        return "";
+      case "send-message":
+        return cardMessage(name, value, args[3]);
+      case "set-default-sink":
+        requireSink(name);
+        defaultSink = name;
+        return "";
+      case "move-sink-input": {
+        const stream = streams.find((entry) => entry.id === name);
+        if (!stream) throw commandFailed("Failure: No such entity");
+        requireSink(value);
+        stream.sink = value;
+        return "";
+      }
+      case "load-module": {
+        const options = Object.fromEntries(args.slice(2).map((option) => option.split("=")));
+        const members = options.slaves?.split(",") ?? [];
+        if (name !== "module-combine-sink" || !options.sink_name) throw commandFailed("Failure: Module initialization failed");
+        members.forEach(requireSink);
+        combineModule = { id: "23", sink: options.sink_name, members };
+        sinks.set(options.sink_name, { volume: 100, muted: false });
+        return combineModule.id;
+      }
+      case "unload-module":
+        if (combineModule?.id !== name) throw commandFailed("Failure: No such entity");
+        removeSink(combineModule.sink);
+        combineModule = null;
+        return "";
+      case "get-sink-volume": {
+        const { volume } = requireSink(name);
+        const raw = Math.round((volume / 100) * 65536);
+        return `Volume: front-left: ${raw} / ${volume}% / 0.00 dB,   front-right: ${raw} / ${volume}% / 0.00 dB`;
+      }
+      case "get-sink-mute":
+        return `Mute: ${requireSink(name).muted ? "yes" : "no"}`;
+      case "set-sink-volume":
+        requireSink(name).volume = clamp(parseInt(value, 10) || 0, 0, 150);
+        return "";
+      case "set-sink-mute":
+        requireSink(name).muted = value === "1";
+        return "";
+      default:
+        throw commandFailed(`No valid command specified: ${action}`);
+    }
+  }
+
+  function amixer(args) {
+    const master = sinks.get(ANALOG_SINK);
+    const [action, , value] = args;
+
+    if (action === "sset") {
+      if (value === "mute") master.muted = true;
+      else if (value === "unmute") master.muted = false;
+      else master.volume = clamp(parseInt(value, 10) || 0, 0, 100);
+    }
+
+    return [
+      "Simple mixer control 'Master',0",
+      "  Capabilities: pvolume pswitch",
+      `  Mono: Playback ${Math.round(master.volume * 0.64)} [${master.volume}%] [${master.muted ? "off" : "on"}]`,
+    ].join("\n");
+  }
+
+  // --- ps, kill and renice ---
+
+  function ps() {
+    const upSeconds = Math.floor((Date.now() - startedAt + BOOTED_AGO) / 1000);
+    const backend = {
+      pid: process.pid,
+      ppid: process.ppid,
+      user: "pi",
+      args: `node ${process.argv.slice(1).join(" ")}`,
+      cpu: 3,
+      memory: 1.8,
+      rss: 68000,
+      nice: 0,
+      startedAt: upSeconds - Math.floor((Date.now() - startedAt) / 1000),
+    };
+
+    return [...processes.values(), backend]
+      .map((entry) => {
+        const cpu = entry.cpu > 0 ? round(clamp(entry.cpu + (Math.random() - 0.5) * entry.cpu * 0.4, 0, 100), 1) : 0;
+        return [entry.pid, entry.ppid, entry.nice, upSeconds - entry.startedAt, cpu, entry.memory, entry.rss, entry.user, entry.args].join(" ");
+      })
+      .join("\n");
+  }
+
+  function requireProcess(pid) {
+    const entry = processes.get(Number(pid));
+    if (!entry) throw commandFailed(`(${pid}) - No such process`);
+    return entry;
+  }
+
+  // --- everything else the backend runs ---
+
+  function files(path) {
+    switch (path) {
+      case "/sys/class/thermal/thermal_zone0/temp":
+        return String(Math.round(temperature() * 1000));
+      case BACKLIGHT_PATH:
+        return String(display.backlight);
+      case "/etc/os-release":
+        return 'PRETTY_NAME="Smart Monitor Simulator (Debian GNU/Linux 12)"\nNAME="Debian GNU/Linux"\nID=debian';
+      case "/proc/cpuinfo":
+        return [
+          "processor\t: 0",
+          "model name\t: ARMv8 Processor rev 1 (v8l)",
+          "Hardware\t: BCM2835",
+          "Model\t\t: Raspberry Pi 4 Model B Rev 1.4 (simulated)",
+        ].join("\n");
+      default:
+        throw commandFailed(`cat: ${path}: No such file or directory`);
+    }
+  }
+
+  function dispatch(program, args, input) {
+    switch (program) {
+      case "sudo":
+        return dispatch(args[0], args.slice(1), input);
+      case "bluetoothctl":
+        return bluetoothctl(args);
+      case "pactl":
+      case "pacmd":
+        return pulseaudio(args);
+      case "amixer":
+        return amixer(args);
+      case "hcitool": {
+        // Connection RSSI relative to the golden receive range; weaker devices read lower
+        const device = bluetooth.get(args[1]);
+        if (args[0] !== "rssi" || !device?.connected) throw commandFailed("Not connected.");
+        return `RSSI return value: ${Math.min(0, Math.round((device.rssi + 60) / 3 + (Math.random() - 0.5) * 2))}`;
+      }
+      case "tee":
+        if (args[0] !== BACKLIGHT_PATH) break;
+        display.backlight = clamp(parseInt(input, 10) || 0, 0, 255);
+        return String(display.backlight);
+      case "vcgencmd":
+        if (args[0] === "display_power") {
+          if (args[1] !== undefined) display.powered = args[1] === "1";
+          return `display_power=${display.powered ? 1 : 0}`;
+        }
+        if (args[0] === "measure_temp") return `temp=${round(temperature(), 1)}'C`;
+        if (args[0] === "get_throttled") return `throttled=0x${throttled().toString(16)}`;
+        break;
+      case "cat":
+        return files(args[0]);
+      case "ps":
+        return ps();
+      case "kill": {
+        // kill -s <signal> <pid>
+        const entry = requireProcess(args[2]);
+        processes.delete(entry.pid);
+        console.log(`🧪 Simulator: SIG${args[1]} ended ${entry.args}`);
+        return "";
+      }
+      case "renice": {
+        // renice -n <priority> -p <pid>
+        const entry = requireProcess(args[3]);
+        const previous = entry.nice;
+        entry.nice = Number(args[1]);
+        return `${entry.pid} (process ID) old priority ${previous}, new priority ${entry.nice}`;
+      }
+      case "top":
+        return [
+          `top - ${new Date().toTimeString().slice(0, 8)} ${uptime()},  1 user,  load average: 0.42, 0.38, 0.35`,
+          "Tasks: 187 total,   1 running, 186 sleeping,   0 stopped,   0 zombie",
+          `%Cpu(s): ${round(cpuUsage(), 1)} us,  2.1 sy,  0.0 ni, 70.3 id,  0.0 wa,  0.0 hi,  0.2 si,  0.0 st`,
+        ].join("\n");
+      case "free":
+        return memory();
+      case "df":
+        return "Filesystem      Size  Used Avail Use% Mounted on\n/dev/root        29G  8.4G   19G  31% /";
+      case "uptime":
+        return uptime();
+      case "uname":
+        return args[0] === "-m" ? "aarch64" : "Linux 6.6.31-simulated";
+      case "systemctl":
+        return args[0] === "is-active" ? "active" : "";
+      case "mpg123":
+        return "";
+      case "shutdown":
+      case "reboot":
+        console.log(`🧪 Simulator: ignoring ${[program, ...args].join(" ")}`);
+        return "";
+    }
+
+    throw commandFailed(`${program}: not available in the simulator`);
+  }
+
+  // Command runner for the executor (see server/commandExecutor.js)
+  async function run(program, args, { input, onStdout, signal, interactive } = {}) {
+    try {
+      if (program === "bluetoothctl" && args.includes("scan")) {
+        return { stdout: await scan(args, { onStdout, signal }), stderr: "", exitCode: 0 };
+      }
+      if (program === "bluetoothctl" && args.length === 0) {
+        return { stdout: await agentSession({ onStdout, signal, interactive }), stderr: "", exitCode: 0 };
+      }
+      return { stdout: `${dispatch(program, args, input)}\n`, stderr: "", exitCode: 0 };
+    } catch (error) {
+      if (!error.simulated) throw error;
+      return { stdout: "", stderr: `${error.message}\n`, exitCode: 1 };
+    }
+  }
+
+  // --- Spotify Web API client ---
+
+  const playback = {
+    trackIndex: 0,
+    isPlaying: false,
+    progressMs: 0,
+    updatedAt: Date.now(),
+    volume: 65,
+    shuffle: false,
+    repeat: "off",
+  };
+
+  // Advance the playhead, moving through the queue as tracks end
+  function tick() {
+    const now = Date.now();
+    if (playback.isPlaying) {
+      playback.progressMs += now - playback.updatedAt;
+      while (playback.progressMs >= TRACKS[playback.trackIndex].duration) {
+        playback.progressMs -= TRACKS[playback.trackIndex].duration;
+        if (playback.repeat !== "track") skip(1);
+      }
+    }
+    playback.updatedAt = now;
+  }
+
+  function skip(step) {
+    playback.trackIndex = playback.shuffle
+      ? Math.floor(Math.random() * TRACKS.length)
+      : (playback.trackIndex + step + TRACKS.length) % TRACKS.length;
+    playback.progressMs = 0;
+  }
+
+  const tokens = () => ({
+    body: { access_token: "simulated-access-token", refresh_token: "simulated-refresh-token", expires_in: 3600 },
+  });
+
+  // Player commands settle the playhead first, then change state
+  const control = (apply) => async (...args) => {
+    tick();
+    apply(...args);
+    return { body: {}, statusCode: 204 };
+  };
+
+  const spotifyApi = {
+    createAuthorizeURL: (scopes, state) =>
+      `http://localhost:${port}/api/spotify/callback?code=simulated&state=${encodeURIComponent(state)}`,
+    authorizationCodeGrant: async () => tokens(),
+    refreshAccessToken: async () => tokens(),
+    setAccessToken: () => {},
+    setRefreshToken: () => {},
+    resetAccessToken: () => {},
+    resetRefreshToken: () => {},
+    getMe: async () => ({
+      body: {
+        id: "simulator",
+        display_name: "Simulated Listener",
+        email: "listener@smartmonitor.local",
+        country: "US",
+        product: "premium",
+        followers: { total: 0 },
+        images: [],
+        external_urls: {},
+      },
+    }),
+    getMyCurrentPlaybackState: async () => {
+      tick();
+      const track = TRACKS[playback.trackIndex];
+      return {
+        body: {
+          is_playing: playback.isPlaying,
+          progress_ms: playback.progressMs,
+          shuffle_state: playback.shuffle,
+          repeat_state: playback.repeat,
+          device: { id: "simulated-pi", name: "Smart Monitor (simulated)", type: "Speaker", volume_percent: playback.volume },
+          item: {
+            id: track.id,
+            name: track.name,
+            duration_ms: track.duration,
+            artists: track.artists.map((name) => ({ name })),
+            album: { name: track.album, images: [] },
+            external_urls: {},
+          },
+        },
+      };
+    },
+    play: control(() => {
+      playback.isPlaying = true;
+    }),
+    pause: control(() => {
+      playback.isPlaying = false;
+    }),
+    skipToNext: control(() => skip(1)),
+    skipToPrevious: control(() => skip(-1)),
+    setVolume: control((volume) => {
+      playback.volume = volume;
+    }),
+    setShuffle: control((enabled) => {
+      playback.shuffle = !!enabled;
+    }),
+    setRepeat: control((mode) => {
+      playback.repeat = mode;
+    }),
+  };
+
+  // --- Pi HTTP service (Spotify credentials and mirroring) ---
+
+  async function sendToPi(endpoint, data) {
+    console.log(`🧪 Simulator: Pi received ${endpoint}`, data?.action ?? "");
+    return {
+      success: true,
+      data: { success: true, endpoint, receivedAt: new Date().toISOString() },
+      status: 200,
+    };
+  }
+
+  // --- Wallpaper directory ---
+
+  function listWallpapers() {
+    return WALLPAPERS.map((wallpaper) => ({
+      id: wallpaper.id,
+      name: wallpaper.name,
+      category: wallpaper.category,
+      resolution: "1920x1080",
+      preview: `/wallpapers/previews/${wallpaper.file}`,
+      fullSize: `/wallpapers/full/${wallpaper.file}`,
+      active: wallpaper.id === activeWallpaperId,
+    }));
+  }
+
+  // Returns the previous wallpaper id, or null for an unknown wallpaper
+  function setWallpaper(id) {
+    if (!WALLPAPERS.some((wallpaper) => wallpaper.id === id)) return null;
+    const previous = activeWallpaperId;
+    activeWallpaperId = id;
+    return previous;
+  }
+
+  console.log("🧪 Pi simulator enabled: shell, Spotify and Pi calls are answered in memory");
+
+  return {
+    run,
+    spotifyApi,
+    sendToPi,
+    listWallpapers,
+    setWallpaper,
+  };
+}
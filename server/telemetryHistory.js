@@ -0,0 +1,151 @@
+import { readFileSync, writeFileSync } from "fs";
+import path from "path";
+
+// Telemetry history: samples taken at a fixed interval go into a ring buffer
+// covering the last hour, and are folded into hourly and daily rollups
+// (min/avg/max) as they arrive. Everything is saved to a JSON file, so the
+// graphs survive a restart.
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const HOURLY_RETENTION = 7 * DAY;
+const DAILY_RETENTION = 90 * DAY;
+// Saved every few minutes rather than every sample, to spare the SD card
+const SAVE_INTERVAL = 5 * 60 * 1000;
+
+export const TELEMETRY_METRICS = {
+  cpu: { unit: "%", read: (info) => info.cpu?.usage },
+  temperature: { unit: "°C", read: (info) => info.temperature },
+  memory: { unit: "%", read: (info) => info.memoryUsage },
+  storage: {
+    unit: "%",
+    read: (info) => (info.storage?.total ? Math.round((info.storage.used / info.storage.total) * 100) : undefined),
+  },
+};
+
+// Each range is served from the finest tier that still covers it
+const RANGES = {
+  "1h": { span: HOUR, tier: "samples", resolution: "sample" },
+  "24h": { span: DAY, tier: "hourly", resolution: "hour" },
+  "7d": { span: 7 * DAY, tier: "hourly", resolution: "hour" },
+  "30d": { span: 30 * DAY, tier: "daily", resolution: "day" },
+};
+
+export const TELEMETRY_RANGES = Object.keys(RANGES);
+
+const round = (value) => Math.round(value * 10) / 10;
+
+// A raw sample read the way rollups are
+const sampleStats = (value) => (value === undefined ? null : { min: value, max: value, avg: value });
+
+// Fold one sample into the rollup bucket starting at `start`
+function addToRollup(rollups, start, values) {
+  let bucket = rollups.at(-1);
+  if (bucket?.t !== start) {
+    bucket = { t: start, count: 0 };
+    rollups.push(bucket);
+  }
+
+  bucket.count++;
+  for (const [metric, value] of Object.entries(values)) {
+    const stats = bucket[metric];
+    if (!stats) {
+      bucket[metric] = { min: value, max: value, avg: value };
+    } else {
+      stats.min = Math.min(stats.min, value);
+      stats.max = Math.max(stats.max, value);
+      stats.avg += (value - stats.avg) / bucket.count;
+    }
+  }
+}
+
+// `sample` resolves a system info snapshot (see getSystemInfo)
+export function createTelemetryHistory({ filePath, sample, intervalMs }) {
+  const storePath = path.resolve(filePath);
+  const capacity = Math.max(1, Math.ceil(HOUR / intervalMs));
+  const history = load();
+  let sampleTimer = null;
+  let saveTimer = null;
+
+  function load() {
+    try {
+      const { samples = [], hourly = [], daily = [] } = JSON.parse(readFileSync(storePath, "utf8"));
+      return { samples, hourly, daily };
+    } catch (error) {
+      if (error.code !== "ENOENT") {
+        console.warn(`⚠️ Could not read telemetry history from ${storePath}:`, error.message);
+      }
+      return { samples: [], hourly: [], daily: [] };
+    }
+  }
+
+  function save() {
+    try {
+      writeFileSync(storePath, JSON.stringify(history));
+    } catch (error) {
+      console.error(`❌ Could not save telemetry history to ${storePath}:`, error.message);
+    }
+  }
+
+  // Store one snapshot; metrics the snapshot lacks are left out of it
+  function record(info, at = Date.now()) {
+    const values = {};
+    for (const [metric, { read }] of Object.entries(TELEMETRY_METRICS)) {
+      const value = Number(read(info));
+      if (Number.isFinite(value)) values[metric] = value;
+    }
+
+    history.samples.push({ t: at, ...values });
+    if (history.samples.length > capacity) history.samples.splice(0, history.samples.length - capacity);
+
+    addToRollup(history.hourly, at - (at % HOUR), values);
+    addToRollup(history.daily, at - (at % DAY), values);
+    while (history.hourly.length && history.hourly[0].t < at - HOURLY_RETENTION) history.hourly.shift();
+    while (history.daily.length && history.daily[0].t < at - DAILY_RETENTION) history.daily.shift();
+  }
+
+  async function tick() {
+    try {
+      record(await sample());
+    } catch (error) {
+      console.warn("⚠️ Telemetry sample failed:", error.message);
+    }
+  }
+
+  // Points of one metric over a range, oldest first. Rollup points carry the
+  // bucket's min and max; raw samples have min = max = value.
+  function query(metric, range) {
+    const { span, tier, resolution } = RANGES[range];
+    const since = Date.now() - span;
+    const points = [];
+    for (const entry of history[tier]) {
+      if (entry.t < since) continue;
+      const stats = tier === "samples" ? sampleStats(entry[metric]) : entry[metric];
+      if (!stats) continue;
+      points.push({ t: new Date(entry.t).toISOString(), value: round(stats.avg), min: round(stats.min), max: round(stats.max) });
+    }
+
+    return { metric, range, resolution, unit: TELEMETRY_METRICS[metric].unit, intervalMs, points };
+  }
+
+  function start() {
+    if (sampleTimer) return;
+    tick();
+    sampleTimer = setInterval(tick, intervalMs);
+    saveTimer = setInterval(save, SAVE_INTERVAL);
+  }
+
+  function stop() {
+    clearInterval(sampleTimer);
+    clearInterval(saveTimer);
+    sampleTimer = saveTimer = null;
+    save();
+  }
+
+  return {
+    start,
+    stop,
+    record,
+    query,
+  };
+}
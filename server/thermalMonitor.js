@@ -0,0 +1,98 @@
+// Thermal watch for Pis in closed enclosures. The SoC temperature is checked
+// against warning and critical thresholds, and `vcgencmd get_throttled` is
+// decoded into named flags. Changes go out as system.thermal events.
+
+const CHECK_INTERVAL = 30000;
+// A temperature hovering around a threshold changes level once, not on every wobble
+const COOL_DOWN_MARGIN = 3;
+
+// Bits of `vcgencmd get_throttled`: the low half is the current state, the
+// high half (bit + 16) whether it has happened since boot
+const THROTTLE_FLAGS = {
+  underVoltage: 0,
+  frequencyCapped: 1,
+  throttled: 2,
+  softTempLimit: 3,
+};
+
+const decodeFlags = (value, offset) =>
+  Object.fromEntries(Object.entries(THROTTLE_FLAGS).map(([flag, bit]) => [flag, (value & (1 << (bit + offset))) !== 0]));
+
+// "throttled=0x50005" -> { raw, current: {...}, sinceBoot: {...}, active }
+export function parseThrottled(stdout) {
+  const match = /throttled=(0x[0-9a-f]+)/i.exec(stdout);
+  if (!match) return null;
+
+  const value = parseInt(match[1], 16);
+  const current = decodeFlags(value, 0);
+  return {
+    raw: match[1].toLowerCase(),
+    current,
+    sinceBoot: decodeFlags(value, 16),
+    active: Object.values(current).some(Boolean),
+  };
+}
+
+const levelOf = (temperature, { warning, critical }, previous) => {
+  // A level is only left once the temperature is clearly below it
+  const criticalAt = previous === "critical" ? critical - COOL_DOWN_MARGIN : critical;
+  const warningAt = previous === "normal" ? warning : warning - COOL_DOWN_MARGIN;
+  if (temperature >= criticalAt) return "critical";
+  if (temperature >= warningAt) return "warning";
+  return "normal";
+};
+
+// `readTemperature` resolves °C; `readThrottled` the raw vcgencmd output.
+// Off a Pi vcgencmd is missing and throttling is reported as null.
+export function createThermalMonitor({ readTemperature, readThrottled, publish, thresholds }) {
+  let state = { temperature: null, level: "normal", thresholds, throttling: null, checkedAt: null };
+  let timer = null;
+
+  async function check() {
+    const [temperature, throttling] = await Promise.all([
+      readTemperature().catch(() => null),
+      readThrottled().then(parseThrottled, () => null),
+    ]);
+
+    const previous = state;
+    state = {
+      temperature,
+      level: temperature === null ? previous.level : levelOf(temperature, thresholds, previous.level),
+      thresholds,
+      throttling,
+      checkedAt: new Date().toISOString(),
+    };
+
+    const levelChanged = state.level !== previous.level;
+    const throttlingChanged = state.throttling?.raw !== previous.throttling?.raw && previous.checkedAt !== null;
+    if (levelChanged) {
+      console.log(`🌡️ SoC temperature ${temperature}°C: ${state.level}`);
+    }
+    if (throttling?.active && !previous.throttling?.active) {
+      console.warn(`⚠️ Pi is throttling (${throttling.raw})`);
+    }
+    if (levelChanged || throttlingChanged) {
+      publish("system.thermal", state);
+    }
+
+    return state;
+  }
+
+  function start() {
+    if (timer) return;
+    check();
+    timer = setInterval(check, CHECK_INTERVAL);
+  }
+
+  function stop() {
+    clearInterval(timer);
+    timer = null;
+  }
+
+  return {
+    start,
+    stop,
+    check,
+    status: () => state,
+  };
+}
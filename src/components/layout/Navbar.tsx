@@ -1,54 +1,44 @@
 import React, { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Moon, Sun, Wifi, Bluetooth, Monitor, WifiOff, Loader2 } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Moon, Sun, Wifi, Bluetooth, Monitor, WifiOff, Loader2, ChevronDown, Check, Star, CloudUpload, KeyRound } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
+import { usePiBreaker } from '@/hooks/use-pi-breaker';
+import { usePiDevices } from '@/hooks/use-pi-devices';
+import { usePiCapabilities } from '@/hooks/use-pi-capabilities';
+import { usePiOutbox } from '@/hooks/use-pi-outbox';
+import { piQueries, useConnectBluetoothDevice } from '@/hooks/use-pi-queries';
 import { NetworkScanner } from '../smart-monitor/NetworkScanner';
 import { BluetoothScanner } from '../smart-monitor/BluetoothScanner';
+import { BluetoothIndicator } from '../smart-monitor/BluetoothIndicator';
+import { ThrottlingBanner } from '../smart-monitor/ThrottlingBanner';
 import { NetworkDebugger } from '../smart-monitor/NetworkDebugger';
+import { DeviceRegistryPanel } from '../smart-monitor/DeviceRegistryPanel';
+import { PairingPanel } from '../smart-monitor/PairingPanel';
 import { piClient } from '../../lib/piClient';
+import { deviceRegistry, type PiDeviceProfile } from '../../lib/deviceRegistry';
 
 interface NetworkDevice {
   id: string;
   name: string;
   type: 'raspberry-pi' | 'smart-tv' | 'computer';
   ip: string;
+  port?: number;
   status: 'online' | 'offline';
   lastSeen?: string;
 }
 
-interface Wallpaper {
-  id: string;
-  displayName: string;
-  category: string;
-  size: string;
-  url: string;
-  fileName?: string;
-  resolution?: string;
-  isActive?: boolean;
-  path?: string;
-}
-
-interface PiWallpaper {
-  id: string;
-  fileName: string;
-  displayName: string;
-  size: string;
-  resolution: string;
-  category?: string;
-  url?: string;
-  isActive?: boolean;
-  path?: string;
-}
-
-interface WallpaperResponse {
-  wallpapers: Wallpaper[];
-  totalCount: number;
-  totalSize: string;
-}
-
 interface NavbarProps {
   isDarkMode: boolean;
   onToggleTheme: () => void;
@@ -58,89 +48,74 @@ interface NavbarProps {
     lastSeen: string;
   };
   onConnectionChange?: (connected: boolean, device?: NetworkDevice) => void;
-  onWallpapersUpdate?: (wallpapers: PiWallpaper[]) => void;
 }
 
 export const Navbar: React.FC<NavbarProps> = ({ 
   isDarkMode, 
   onToggleTheme, 
   systemStatus,
-  onConnectionChange,
-  onWallpapersUpdate
+  onConnectionChange
 }) => {
   const [isConnectDialogOpen, setIsConnectDialogOpen] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
-  const [activeConnectionTab, setActiveConnectionTab] = useState('wifi');
+  const [activeConnectionTab, setActiveConnectionTab] = useState(() =>
+    deviceRegistry.getSnapshot().devices.length > 0 ? 'saved' : 'wifi'
+  );
+  const breaker = usePiBreaker();
+  const { devices, defaultDeviceId, activeDeviceId } = usePiDevices();
+  const activeDevice = devices.find(device => device.id === activeDeviceId);
+  // Only what is queued for the connected Pi; other Pis' commands wait for them
+  const { baseUrl } = usePiCapabilities();
+  const pendingCommands = usePiOutbox().filter(entry => entry.baseUrl === baseUrl);
+  const [isRetryingOutbox, setIsRetryingOutbox] = useState(false);
+  const queryClient = useQueryClient();
+  const { mutateAsync: connectBluetoothDevice } = useConnectBluetoothDevice();
 
-  // Fetch wallpaper details from Pi
-  const fetchWallpapers = async () => {
+  // A successful status check replays the outbox
+  const retryPendingCommands = async () => {
+    setIsRetryingOutbox(true);
     try {
-      console.log('🎯 Fetching wallpaper details from Pi...');
-      
-      // Use piClient to get wallpapers from the connected Pi
-      const response = await piClient.getWallpapers();
-      
-      if (response && response.data) {
-        const wallpaperData = response.data as WallpaperResponse;
-        console.log('✅ Wallpapers fetched successfully:', wallpaperData);
-        
-        if (wallpaperData.wallpapers) {
-          // Convert to PiWallpaper format for the callback, preserving isActive status from server
-          const piWallpapers: PiWallpaper[] = wallpaperData.wallpapers.map((wallpaper: Wallpaper) => ({
-            id: wallpaper.id,
-            fileName: wallpaper.fileName || `${wallpaper.id}.mp4`,
-            displayName: wallpaper.displayName,
-            size: wallpaper.size,
-            resolution: wallpaper.resolution || 'Unknown',
-            category: wallpaper.category,
-            url: wallpaper.url,
-            isActive: wallpaper.isActive || false, // Preserve active status from server
-            path: wallpaper.path
-          }));
-          
-          onWallpapersUpdate?.(piWallpapers);
-          
-          // Debug: Show which wallpaper is marked as active
-          const activeWallpaper = piWallpapers.find(w => w.isActive);
-          console.log('🎯 Active wallpaper from server:', activeWallpaper?.displayName || 'None');
-          
-          toast({
-            title: "Wallpapers Loaded 🎨",
-            description: `Found ${wallpaperData.totalCount || wallpaperData.wallpapers.length} wallpapers`,
-          });
-        }
+      const reachable = await piClient.checkPiStatus();
+      if (!reachable) {
+        toast({
+          title: "Pi Still Unreachable",
+          description: `${pendingCommands.length} command(s) will be sent once it reconnects`,
+        });
       }
-    } catch (error) {
-      console.error('❌ Error fetching wallpapers:', error);
-      toast({
-        title: "Wallpaper Error",
-        description: "Failed to load wallpaper details from Pi",
-        variant: "destructive"
-      });
+    } finally {
+      setIsRetryingOutbox(false);
     }
   };
+  const isDegraded = systemStatus.connected && breaker.state !== 'closed';
 
-  const handleNetworkDeviceSelect = async (device: NetworkDevice) => {
+  // Connect (or switch) piClient to a saved device profile
+  const connectToProfile = async (profile: PiDeviceProfile) => {
     setIsConnecting(true);
     try {
-      console.log(`Attempting to establish real connection to ${device.ip}:5000`);
+      console.log(`Attempting to establish real connection to ${profile.host}:${profile.port}`);
       
       // Use the real PI client to establish connection
-      const connected = await piClient.connect(device.ip, 5000);
+      const connected = await piClient.connectToDevice(profile);
       
       if (connected) {
         console.log('✅ Real connection established successfully');
         
-        // Test the connection by getting system status
-        const statusResult = await piClient.getSystemStatus();
+        // Test the connection by getting system status (cached for this Pi)
+        const statusResult = await queryClient
+          .fetchQuery({ ...piQueries.systemStatus(piClient.capabilities.getSnapshot().baseUrl), staleTime: 0 })
+          .catch((error: Error) => ({ success: false, error: error.message }));
         console.log('📊 System status:', statusResult);
         
         // Store connection info for real communication
         const connectedDevice = {
-          ...device,
+          id: profile.id,
+          name: profile.name,
+          type: 'raspberry-pi' as const,
+          ip: profile.host,
+          status: 'online' as const,
           connectionData: {
             connectedAt: new Date().toISOString(),
-            baseUrl: `http://${device.ip}:5000`,
+            baseUrl: `http://${profile.host}:${profile.port}`,
             client: piClient,
             lastStatusCheck: statusResult
           }
@@ -149,12 +124,9 @@ export const Navbar: React.FC<NavbarProps> = ({
         onConnectionChange?.(true, connectedDevice);
         setIsConnectDialogOpen(false);
         
-        // Automatically fetch wallpapers when Pi connects
-        await fetchWallpapers();
-        
         toast({
           title: "Real Connection Established! 🎉",
-          description: `Successfully connected to ${device.name} at ${device.ip}:5000`,
+          description: `Successfully connected to ${profile.name} at ${profile.host}:${profile.port}`,
         });
         
       } else {
@@ -162,9 +134,10 @@ export const Navbar: React.FC<NavbarProps> = ({
       }
     } catch (error) {
       console.error('Failed to establish real connection:', error);
+      onConnectionChange?.(piClient.isConnected());
       toast({
         title: "Connection Failed",
-        description: `Could not establish real connection to ${device.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        description: `Could not establish real connection to ${profile.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
         variant: "destructive"
       });
     } finally {
@@ -172,6 +145,20 @@ export const Navbar: React.FC<NavbarProps> = ({
     }
   };
 
+  // Devices found by a scan are remembered so they show up in the switcher
+  const handleNetworkDeviceSelect = async (device: NetworkDevice) => {
+    const port = device.port ?? 5000;
+    const existing = devices.find(profile => profile.host === device.ip && profile.port === port);
+    const profile = deviceRegistry.saveDevice({
+      id: existing?.id,
+      name: existing?.name ?? device.name,
+      host: device.ip,
+      port,
+      authToken: existing?.authToken
+    });
+    await connectToProfile(profile);
+  };
+
   const handleBluetoothDeviceSelect = async (device: { id: string; name?: string }) => {
     setIsConnecting(true);
     try {
@@ -200,7 +187,7 @@ export const Navbar: React.FC<NavbarProps> = ({
     }
   };
 
-  const handleBluetoothAudioConnect = async (device: { id: string; name?: string }) => {
+  const handleBluetoothAudioConnect = async (device: { id: string; name?: string }, options?: { keepOthers: boolean }) => {
     setIsConnecting(true);
     try {
       console.log(`🎵 Connecting audio device ${device.name} to Pi Bluetooth...`);
@@ -210,22 +197,18 @@ export const Navbar: React.FC<NavbarProps> = ({
         throw new Error('Pi not connected. Please connect to your Smart Monitor Pi first.');
       }
 
-      // Send Bluetooth audio connection command to Pi
-      const connectResult = await piClient.sendCommand('bluetooth_audio_connect', {
+      // Send Bluetooth audio connection command to Pi; a refused connection throws
+      const connectResult = await connectBluetoothDevice({
         deviceId: device.id,
         deviceName: device.name || 'Unknown Device',
-        action: 'connect_audio'
+        keepOthers: options?.keepOthers
       });
 
-      if (connectResult.success) {
-        toast({
-          title: "Audio Device Connected! 🎵",
-          description: `${device.name || 'Audio device'} connected to Pi for audio output`,
-        });
-        console.log('✅ Audio device connected successfully:', connectResult);
-      } else {
-        throw new Error(connectResult.error || 'Failed to connect audio device');
-      }
+      toast({
+        title: "Audio Device Connected! 🎵",
+        description: `${device.name || 'Audio device'} connected to Pi for audio output`,
+      });
+      console.log('✅ Audio device connected successfully:', connectResult);
     } catch (error) {
       console.error('Failed to connect audio device:', error);
       toast({
@@ -308,6 +291,80 @@ export const Navbar: React.FC<NavbarProps> = ({
             </DialogContent>
           </Dialog>
 
+          {/* Pending (offline) commands */}
+          {pendingCommands.length > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={retryPendingCommands}
+              disabled={isRetryingOutbox}
+              title={pendingCommands.map(entry => entry.operation).join(', ')}
+              className="h-8 px-3 border-yellow-500/30 bg-yellow-500/10 text-yellow-500 hover:bg-yellow-500/20"
+            >
+              {isRetryingOutbox ? (
+                <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+              ) : (
+                <CloudUpload className="h-3 w-3 mr-1" />
+              )}
+              {pendingCommands.length}
+              <span className="hidden sm:inline ml-1">pending</span>
+            </Button>
+          )}
+
+          {/* Device Switcher */}
+          {devices.length > 0 && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={isConnecting}
+                  className="h-8 px-3 max-w-40"
+                >
+                  {isConnecting ? (
+                    <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                  ) : (
+                    <Monitor className="h-3 w-3 mr-1" />
+                  )}
+                  <span className="hidden sm:inline truncate">
+                    {activeDevice?.name ?? 'Devices'}
+                  </span>
+                  <ChevronDown className="h-3 w-3 ml-1" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-56">
+                <DropdownMenuLabel>Switch Device</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {devices.map(device => (
+                  <DropdownMenuItem
+                    key={device.id}
+                    onSelect={() => {
+                      if (device.id !== activeDeviceId) {
+                        connectToProfile(device);
+                      }
+                    }}
+                    className="flex items-center gap-2"
+                  >
+                    {device.id === activeDeviceId ? (
+                      <Check className="h-3 w-3 text-green-500" />
+                    ) : (
+                      <span className="w-3" />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <div className="truncate">{device.name}</div>
+                      <div className="text-xs text-muted-foreground font-mono">
+                        {device.host}:{device.port}
+                      </div>
+                    </div>
+                    {device.id === defaultDeviceId && (
+                      <Star className="h-3 w-3 text-yellow-500" />
+                    )}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+
           {/* Connection Button */}
           {systemStatus.connected ? (
             <Button
@@ -340,7 +397,15 @@ export const Navbar: React.FC<NavbarProps> = ({
                 </DialogHeader>
                 
                 <Tabs value={activeConnectionTab} onValueChange={setActiveConnectionTab}>
-                  <TabsList className="grid w-full grid-cols-2">
+                  <TabsList className="grid w-full grid-cols-4">
+                    <TabsTrigger value="saved" className="flex items-center gap-2">
+                      <Star className="h-4 w-4" />
+                      Saved
+                    </TabsTrigger>
+                    <TabsTrigger value="pair" className="flex items-center gap-2">
+                      <KeyRound className="h-4 w-4" />
+                      Pair
+                    </TabsTrigger>
                     <TabsTrigger value="wifi" className="flex items-center gap-2">
                       <Wifi className="h-4 w-4" />
                       WiFi/Network
@@ -351,6 +416,20 @@ export const Navbar: React.FC<NavbarProps> = ({
                     </TabsTrigger>
                   </TabsList>
                   
+                  <TabsContent value="saved" className="mt-4">
+                    <DeviceRegistryPanel
+                      onDeviceSelect={connectToProfile}
+                      isConnecting={isConnecting}
+                    />
+                  </TabsContent>
+                  
+                  <TabsContent value="pair" className="mt-4">
+                    <PairingPanel
+                      onPaired={connectToProfile}
+                      isConnecting={isConnecting}
+                    />
+                  </TabsContent>
+                  
                   <TabsContent value="wifi" className="mt-4">
                     <NetworkScanner 
                       onDeviceSelect={handleNetworkDeviceSelect}
@@ -381,12 +460,19 @@ export const Navbar: React.FC<NavbarProps> = ({
           <div className="hidden sm:flex items-center gap-3">
             <div className="flex items-center gap-2">
               <div className={`w-2 h-2 rounded-full ${
-                systemStatus.connected 
-                  ? 'bg-green-500 animate-pulse' 
-                  : 'bg-red-500'
+                isDegraded
+                  ? 'bg-yellow-500'
+                  : systemStatus.connected 
+                    ? 'bg-green-500 animate-pulse' 
+                    : 'bg-red-500'
               }`} />
-              <span className="text-xs text-muted-foreground">
-                {systemStatus.connected ? 'Online' : 'Offline'}
+              <span
+                className="text-xs text-muted-foreground"
+                title={isDegraded ? breaker.lastError ?? undefined : undefined}
+              >
+                {isDegraded
+                  ? breaker.state === 'half-open' ? 'Reconnecting...' : 'Degraded'
+                  : systemStatus.connected ? 'Online' : 'Offline'}
               </span>
             </div>
             
@@ -398,7 +484,7 @@ export const Navbar: React.FC<NavbarProps> = ({
           {/* Connectivity Icons */}
           <div className="flex items-center gap-2">
             <Wifi className="h-4 w-4 text-primary" />
-            <Bluetooth className="h-4 w-4 text-muted-foreground" />
+            <BluetoothIndicator />
           </div>
 
           {/* Theme Toggle */}
@@ -416,6 +502,9 @@ export const Navbar: React.FC<NavbarProps> = ({
           </Button>
         </div>
       </div>
+
+      {/* Throttling Warning */}
+      <ThrottlingBanner />
     </nav>
   );
 };
\ No newline at end of file
@@ -4,7 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Grid3X3, Camera, Music, Play, Square, RotateCcw } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
-import axios from 'axios';
+import { piApi } from '@/lib/piApi';
 
 interface App {
   id: string;
@@ -73,7 +73,7 @@ export const AppsLauncher: React.FC = () => {
         app.id === appId ? { ...app, status: 'loading' } : app
       ));
 
-      await axios.post('/api/apps/start', { appId });
+      await piApi.post('/api/apps/start', { appId });
 
       setApps(prev => prev.map(app =>
         app.id === appId ? { ...app, status: 'running' } : app
@@ -103,7 +103,7 @@ export const AppsLauncher: React.FC = () => {
         app.id === appId ? { ...app, status: 'loading' } : app
       ));
 
-      await axios.post('/api/apps/stop', { appId });
+      await piApi.post('/api/apps/stop', { appId });
 
       setApps(prev => prev.map(app =>
         app.id === appId ? { ...app, status: 'stopped' } : app
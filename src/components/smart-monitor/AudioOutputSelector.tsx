@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Slider } from '@/components/ui/slider';
+import { Bluetooth, Headphones, Layers, Loader2, MonitorSpeaker, Speaker, Unlink } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import {
+  useAudioSinks,
+  useCombineAudioSinks,
+  useRemoveCombinedAudioSink,
+  useSetAudioSinkVolume,
+  useSetDefaultAudioSink,
+} from '@/hooks/use-pi-queries';
+import type { AudioSink, AudioSinkKind } from '@/lib/piSchemas';
+
+const KIND_ICONS: Record<AudioSinkKind, React.ComponentType<{ className?: string }>> = {
+  analog: Headphones,
+  hdmi: MonitorSpeaker,
+  bluetooth: Bluetooth,
+  combined: Layers,
+  other: Speaker,
+};
+
+// Picks where the Pi plays audio: one sink, or several grouped into a combined output
+export const AudioOutputSelector: React.FC = () => {
+  const { data, isLoading } = useAudioSinks();
+  const { mutateAsync: setDefaultSink, isPending: isSwitching } = useSetDefaultAudioSink();
+  const { mutateAsync: setSinkVolume } = useSetAudioSinkVolume();
+  const { mutateAsync: combineSinks, isPending: isCombining } = useCombineAudioSinks();
+  const { mutateAsync: removeCombined, isPending: isRemoving } = useRemoveCombinedAudioSink();
+  // Slider positions while dragging, keyed by sink name
+  const [drafts, setDrafts] = useState<Record<string, number>>({});
+  const [grouped, setGrouped] = useState<string[]>([]);
+
+  const sinks = data?.sinks ?? [];
+  const combined = data?.combined ?? null;
+
+  const run = async (action: () => Promise<unknown>, title: string, description: string) => {
+    try {
+      await action();
+      toast({ title, description });
+    } catch (error: unknown) {
+      toast({
+        title: "Audio Output Error",
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: "destructive"
+      });
+    }
+  };
+
+  const selectSink = (sink: AudioSink) =>
+    run(() => setDefaultSink(sink.name), "Output Changed", `Now playing on ${sink.label}`);
+
+  const commitVolume = async (sink: AudioSink, volume: number) => {
+    try {
+      await setSinkVolume({ sink: sink.name, volume });
+    } catch (error: unknown) {
+      toast({
+        title: "Volume Control Error",
+        description: error instanceof Error ? error.message : `Could not set the volume of ${sink.label}`,
+        variant: "destructive"
+      });
+    } finally {
+      setDrafts(prev => {
+        const { [sink.name]: _committed, ...rest } = prev;
+        return rest;
+      });
+    }
+  };
+
+  const toggleGrouped = (name: string, checked: boolean) => {
+    setGrouped(prev => (checked ? [...prev, name] : prev.filter(entry => entry !== name)));
+  };
+
+  const combineSelected = async () => {
+    await run(() => combineSinks(grouped), "Speakers Grouped", `Playing on ${grouped.length} outputs at once`);
+    setGrouped([]);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        Loading audio outputs...
+      </div>
+    );
+  }
+
+  if (sinks.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium">Output</label>
+        {combined ? (
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            disabled={isRemoving}
+            onClick={() => run(() => removeCombined(), "Speakers Ungrouped", "Playing on a single output again")}
+          >
+            <Unlink className="h-3 w-3 mr-1" />
+            Ungroup
+          </Button>
+        ) : grouped.length >= 2 && (
+          <Button size="sm" className="h-7 px-2 text-xs" disabled={isCombining} onClick={combineSelected}>
+            {isCombining ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Layers className="h-3 w-3 mr-1" />}
+            Play on {grouped.length} outputs
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {sinks.map(sink => {
+          const Icon = KIND_ICONS[sink.kind];
+          const volume = drafts[sink.name] ?? sink.volume;
+          return (
+            <div
+              key={sink.name}
+              className={`rounded-md border p-2 space-y-2 ${sink.isDefault ? 'border-primary/60 bg-primary/5' : 'border-border/50'}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  {!combined && sink.kind !== 'combined' && (
+                    <Checkbox
+                      checked={grouped.includes(sink.name)}
+                      onCheckedChange={(checked) => toggleGrouped(sink.name, checked === true)}
+                      title="Group with other outputs"
+                    />
+                  )}
+                  <Icon className="h-4 w-4 shrink-0" />
+                  <span className="text-sm truncate" title={sink.name}>{sink.label}</span>
+                  {combined?.members.includes(sink.name) && (
+                    <Badge variant="outline" className="text-xs">Grouped</Badge>
+                  )}
+                </div>
+                {sink.isDefault ? (
+                  <Badge className="text-xs bg-green-500/20 text-green-400 border-green-500/30">Playing</Badge>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    disabled={isSwitching}
+                    onClick={() => selectSink(sink)}
+                  >
+                    Use
+                  </Button>
+                )}
+              </div>
+              {volume !== null && (
+                <div className="flex items-center gap-3">
+                  <Slider
+                    value={[volume]}
+                    onValueChange={([value]) => setDrafts(prev => ({ ...prev, [sink.name]: value }))}
+                    onValueCommit={([value]) => commitVolume(sink, value)}
+                    max={100}
+                    min={0}
+                    step={5}
+                    className="flex-1"
+                  />
+                  <span className="text-xs text-muted-foreground w-12 text-right">
+                    {sink.muted ? 'Muted' : `${volume}%`}
+                  </span>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
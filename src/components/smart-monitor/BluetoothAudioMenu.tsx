@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Loader2, Mic, Music, PowerOff, SlidersHorizontal } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { piClient } from '@/lib/piClient';
+import type { BluetoothAudio, BluetoothAudioProfileKind } from '@/lib/piSchemas';
+
+const PROFILE_ICONS: Record<BluetoothAudioProfileKind, React.ComponentType<{ className?: string }>> = {
+  a2dp: Music,
+  headset: Mic,
+  off: PowerOff,
+  other: SlidersHorizontal,
+};
+
+interface BluetoothAudioMenuProps {
+  deviceId: string;
+  deviceName?: string;
+  // Called after a switch, with the new profile and codec
+  onChanged?: (audio: BluetoothAudio) => void;
+}
+
+// Per-device menu for a connected audio device: A2DP for music, the headset
+// profile to use its microphone, or off; and the A2DP codec where switchable
+export const BluetoothAudioMenu: React.FC<BluetoothAudioMenuProps> = ({ deviceId, deviceName, onChanged }) => {
+  const [audio, setAudio] = useState<BluetoothAudio | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  const loadAudio = async () => {
+    setIsLoading(true);
+    const result = await piClient.getBluetoothAudio(deviceId);
+    setIsLoading(false);
+    setAudio(result.success && result.data ? result.data.audio : null);
+  };
+
+  const switchTo = async (changes: { profile?: string; codec?: string }, description: string) => {
+    setIsSwitching(true);
+    const result = await piClient.setBluetoothAudio(deviceId, changes);
+    setIsSwitching(false);
+
+    if (result.success && result.data) {
+      setAudio(result.data.audio);
+      onChanged?.(result.data.audio);
+      toast({ title: "Audio Profile Changed", description });
+    } else {
+      toast({
+        title: "Profile Switch Failed",
+        description: result.error || `Could not switch ${deviceName || deviceId}`,
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <DropdownMenu onOpenChange={(open) => open && loadAudio()}>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 w-6 p-0"
+          title="Audio profile and codec"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {isSwitching ? <Loader2 className="h-3 w-3 animate-spin" /> : <SlidersHorizontal className="h-3 w-3" />}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64" onClick={(e) => e.stopPropagation()}>
+        <DropdownMenuLabel>Profile</DropdownMenuLabel>
+        {isLoading ? (
+          <div className="flex items-center px-2 py-1.5 text-xs text-muted-foreground">
+            <Loader2 className="h-3 w-3 mr-2 animate-spin" />
+            Reading profiles...
+          </div>
+        ) : !audio ? (
+          <div className="px-2 py-1.5 text-xs text-muted-foreground">No audio profiles for this device</div>
+        ) : (
+          <>
+            <DropdownMenuRadioGroup
+              value={audio.activeProfile ?? ''}
+              onValueChange={(profile) => {
+                const description = audio.profiles.find(entry => entry.name === profile)?.description ?? profile;
+                switchTo({ profile }, `${deviceName || deviceId} now uses ${description}`);
+              }}
+            >
+              {audio.profiles.map(profile => {
+                const Icon = PROFILE_ICONS[profile.kind];
+                return (
+                  <DropdownMenuRadioItem
+                    key={profile.name}
+                    value={profile.name}
+                    disabled={!profile.available || isSwitching}
+                  >
+                    <Icon className="h-3 w-3 mr-2" />
+                    <span className="text-xs">{profile.description}</span>
+                  </DropdownMenuRadioItem>
+                );
+              })}
+            </DropdownMenuRadioGroup>
+
+            {audio.codecs.length > 0 && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel>Codec</DropdownMenuLabel>
+                <DropdownMenuRadioGroup
+                  value={audio.codec ?? ''}
+                  onValueChange={(codec) => switchTo({ codec }, `${deviceName || deviceId} now streams ${codec.toUpperCase()}`)}
+                >
+                  {audio.codecs.map(codec => (
+                    <DropdownMenuRadioItem key={codec.name} value={codec.name} disabled={isSwitching}>
+                      <span className="text-xs">{codec.description}</span>
+                    </DropdownMenuRadioItem>
+                  ))}
+                </DropdownMenuRadioGroup>
+              </>
+            )}
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
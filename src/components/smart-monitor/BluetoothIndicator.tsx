@@ -0,0 +1,56 @@
+import React from 'react';
+import { Battery, BatteryLow, Bluetooth } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { usePiEvent } from '@/hooks/use-pi-event';
+import { useBluetoothDevices } from '@/hooks/use-pi-queries';
+import type { BluetoothDevice } from '@/lib/piSchemas';
+
+const DEFAULT_LOW_BATTERY = 20;
+
+// One line per device for the tooltip: battery, signal, profile and codec
+const describeBluetoothDevice = (device: BluetoothDevice) =>
+  [
+    device.name || device.id,
+    device.battery != null && `${device.battery}% battery`,
+    device.rssi != null && `signal ${device.rssi} dB`,
+    device.profile && `${device.profile}${device.codec ? ` (${device.codec.toUpperCase()})` : ''}`,
+  ]
+    .filter(Boolean)
+    .join(' • ');
+
+// Navbar Bluetooth status: lit while a device is connected, with the audio
+// device's battery. Warns once when the Pi reports a battery running low.
+export const BluetoothIndicator: React.FC = () => {
+  const { data } = useBluetoothDevices();
+  const devices = data?.connectedDevices ?? [];
+  const threshold = data?.lowBatteryThreshold ?? DEFAULT_LOW_BATTERY;
+  // The audio device is what the user cares about; fall back to any device with a battery
+  const batteryDevice =
+    devices.find(device => device.isAudioDevice && device.battery != null) ??
+    devices.find(device => device.battery != null);
+  const isLow = batteryDevice?.battery != null && batteryDevice.battery < threshold;
+
+  usePiEvent('bluetooth.battery.low', ({ name, battery }) => {
+    toast({
+      title: "Low Battery",
+      description: `${name} is at ${battery}%. Charge it soon to keep the audio going`,
+      variant: "destructive"
+    });
+  });
+
+  const title = devices.length > 0
+    ? devices.map(describeBluetoothDevice).join('\n')
+    : 'No Bluetooth device connected';
+
+  return (
+    <div className="flex items-center gap-1" title={title}>
+      <Bluetooth className={`h-4 w-4 ${devices.length > 0 ? 'text-blue-400' : 'text-muted-foreground'}`} />
+      {batteryDevice && (
+        <span className={`flex items-center text-xs ${isLow ? 'text-red-400' : 'text-muted-foreground'}`}>
+          {isLow ? <BatteryLow className="h-3 w-3 mr-0.5" /> : <Battery className="h-3 w-3 mr-0.5" />}
+          {batteryDevice.battery}%
+        </span>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { KeyRound, Loader2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { usePiEvent, usePiEventStreamOpen } from '@/hooks/use-pi-event';
+import { piClient } from '@/lib/piClient';
+import type { BluetoothPairingPrompt } from '@/lib/piSchemas';
+
+interface BluetoothPairingDialogProps {
+  // Names for the devices in the scan list, keyed by MAC address
+  deviceNames?: Record<string, string | undefined>;
+}
+
+const PROMPT_TEXT: Record<BluetoothPairingPrompt['type'], { title: string; description: string }> = {
+  'confirm-passkey': {
+    title: 'Confirm Passkey',
+    description: 'Check that the device shows the same passkey, then confirm.',
+  },
+  'enter-pin': {
+    title: 'Enter PIN',
+    description: 'Enter the PIN from the device or its manual (often 0000 or 1234).',
+  },
+  'enter-passkey': {
+    title: 'Enter Passkey',
+    description: 'Enter the 6-digit passkey shown on the device.',
+  },
+  'authorize-service': {
+    title: 'Authorize Service',
+    description: 'The device wants to use a service on the monitor.',
+  },
+  'authorize': {
+    title: 'Accept Pairing',
+    description: 'The device asks to pair with the monitor.',
+  },
+  'display-passkey': {
+    title: 'Type Passkey on Device',
+    description: 'Type this passkey on the device to finish pairing.',
+  },
+  'display-pin': {
+    title: 'Type PIN on Device',
+    description: 'Type this PIN on the device to finish pairing.',
+  },
+};
+
+const PROMPT_POLL_INTERVAL = 3000;
+
+// Answers the Pi's pairing agent: shows one prompt at a time, oldest first
+export const BluetoothPairingDialog: React.FC<BluetoothPairingDialogProps> = ({ deviceNames = {} }) => {
+  const [prompts, setPrompts] = useState<BluetoothPairingPrompt[]>([]);
+  const [value, setValue] = useState('');
+  const [isResponding, setIsResponding] = useState(false);
+
+  const prompt = prompts[0];
+  const needsValue = prompt?.type === 'enter-pin' || prompt?.type === 'enter-passkey';
+  const displayOnly = prompt?.type === 'display-passkey' || prompt?.type === 'display-pin';
+
+  const dropPrompt = (id: string) => {
+    setPrompts(prev => prev.filter(entry => entry.id !== id));
+    setValue('');
+  };
+
+  // Pick up prompts raised before this dialog was mounted or while the stream was down
+  const loadPendingPrompts = React.useCallback(async () => {
+    if (!piClient.isConnected()) return;
+    const result = await piClient.getPairingPrompts();
+    if (result.success && result.data) {
+      setPrompts(result.data.prompts);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    loadPendingPrompts();
+  }, [loadPendingPrompts]);
+  usePiEventStreamOpen(() => loadPendingPrompts());
+
+  // Without an event stream (pi-backend-bluetooth.js has none) prompts only show up by polling
+  const [streamOpen, setStreamOpen] = useState(false);
+  React.useEffect(() => piClient.subscribeEventStatus(status => setStreamOpen(status === 'open')), []);
+  React.useEffect(() => {
+    if (streamOpen) return;
+    const timer = setInterval(loadPendingPrompts, PROMPT_POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [streamOpen, loadPendingPrompts]);
+
+  usePiEvent('bluetooth.pairing.prompt', (next) => {
+    setPrompts(prev => (prev.some(entry => entry.id === next.id) ? prev : [...prev, next]));
+  });
+
+  usePiEvent('bluetooth.pairing.resolved', (resolved) => {
+    dropPrompt(resolved.id);
+    if (resolved.reason === 'timeout') {
+      toast({
+        title: "Pairing Prompt Expired",
+        description: "The request was declined because nobody answered it in time",
+        variant: "destructive"
+      });
+    }
+  });
+
+  // Display prompts end with the pairing, whichever way it went
+  usePiEvent('bluetooth.pairing.step', (step) => {
+    if (step.step === 'pair') {
+      setPrompts(prev => prev.filter(entry => !(entry.deviceId === step.deviceId && entry.type.startsWith('display'))));
+    }
+  });
+
+  const respond = async (accept: boolean) => {
+    if (!prompt) return;
+
+    if (displayOnly) {
+      dropPrompt(prompt.id);
+      return;
+    }
+
+    if (accept && needsValue && !value.trim()) {
+      toast({
+        title: "Value Required",
+        description: prompt.type === 'enter-pin' ? "Enter the device's PIN" : "Enter the device's passkey",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsResponding(true);
+    try {
+      const result = await piClient.respondToPairingPrompt(prompt.id, accept, needsValue ? value.trim() : undefined);
+      if (!result.success) {
+        throw new Error(result.error || 'The Pi did not accept the answer');
+      }
+      dropPrompt(prompt.id);
+    } catch (error: unknown) {
+      toast({
+        title: "Answer Not Sent",
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: "destructive"
+      });
+      // The prompt most likely expired; don't keep showing it
+      dropPrompt(prompt.id);
+    } finally {
+      setIsResponding(false);
+    }
+  };
+
+  if (!prompt) return null;
+
+  const text = PROMPT_TEXT[prompt.type];
+  const deviceName = deviceNames[prompt.deviceId] || prompt.deviceId;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && respond(false)}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            {text.title}
+          </DialogTitle>
+          <DialogDescription>
+            <span className="font-medium">{deviceName}</span>: {text.description}
+          </DialogDescription>
+        </DialogHeader>
+
+        {prompt.passkey && (
+          <div className="text-center text-3xl font-mono tracking-widest py-2">
+            {prompt.passkey}
+          </div>
+        )}
+
+        {prompt.service && (
+          <p className="text-xs text-muted-foreground font-mono break-all">Service {prompt.service}</p>
+        )}
+
+        {needsValue && (
+          <div className="space-y-2">
+            <Label htmlFor="bluetooth-pairing-value">
+              {prompt.type === 'enter-pin' ? 'PIN' : 'Passkey'}
+            </Label>
+            <Input
+              id="bluetooth-pairing-value"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              inputMode="numeric"
+              autoFocus
+              onKeyDown={(e) => e.key === 'Enter' && respond(true)}
+            />
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {displayOnly ? (
+            <Button onClick={() => respond(true)}>Done</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => respond(false)} disabled={isResponding}>
+                Reject
+              </Button>
+              <Button onClick={() => respond(true)} disabled={isResponding}>
+                {isResponding && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {prompt.type === 'confirm-passkey' ? 'Passkeys Match' : needsValue ? 'Pair' : 'Accept'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
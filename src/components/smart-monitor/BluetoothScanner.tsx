@@ -2,9 +2,18 @@ import React, { useState } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Loader2, Bluetooth, RefreshCw, CheckCircle, Wifi, Unplug } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Loader2, Bluetooth, RefreshCw, CheckCircle, Wifi, Unplug, Square, Signal, Battery } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
+import { usePiEvent, usePiEventStreamOpen } from '@/hooks/use-pi-event';
+import { useDisconnectBluetoothDevice } from '@/hooks/use-pi-queries';
 import { piClient } from '@/lib/piClient';
+import { isRouteMissing } from '@/lib/piRoutes';
+import type { BluetoothConnectStep, BluetoothScanDevice } from '@/lib/piSchemas';
+import { BluetoothAudioMenu } from './BluetoothAudioMenu';
+import { BluetoothPairingDialog } from './BluetoothPairingDialog';
+import { KnownBluetoothDevices } from './KnownBluetoothDevices';
 
 interface BluetoothDeviceResponse {
   id: string;
@@ -13,6 +22,10 @@ interface BluetoothDeviceResponse {
   connected: boolean;
   paired: boolean;
   isAudioDevice?: boolean;
+  battery?: number | null;
+  rssi?: number | null;
+  profile?: string | null;
+  codec?: string | null;
 }
 
 interface CustomBluetoothDevice {
@@ -21,12 +34,79 @@ interface CustomBluetoothDevice {
   mac?: string;
   deviceClass?: number;
   rssi?: number;
+  icon?: string;
+  isAudioDevice?: boolean;
+  // False for devices the Pi only remembers from an earlier scan
+  seenInScan?: boolean;
   connected: boolean;
   paired: boolean;
+  battery?: number;
+  // Link quality of a connection, relative to the golden range (0 is ideal);
+  // unlike `rssi`, which is the dBm heard while scanning
+  connectionRssi?: number;
+  profile?: string;
+  codec?: string;
 }
 
+const fromScanDevice = (device: BluetoothScanDevice): CustomBluetoothDevice => ({
+  id: device.id,
+  name: device.name,
+  mac: device.mac,
+  deviceClass: device.deviceClass ?? undefined,
+  rssi: device.rssi ?? undefined,
+  icon: device.icon ?? undefined,
+  isAudioDevice: device.isAudioDevice,
+  seenInScan: device.seenInScan,
+  connected: device.connected,
+  paired: device.paired
+});
+
+const fromConnectedDevice = (device: BluetoothDeviceResponse): CustomBluetoothDevice => ({
+  id: device.id,
+  name: device.name || 'Unknown Device',
+  mac: device.mac || device.id,
+  isAudioDevice: device.isAudioDevice,
+  connected: device.connected,
+  paired: device.paired,
+  battery: device.battery ?? undefined,
+  connectionRssi: device.rssi ?? undefined,
+  profile: device.profile ?? undefined,
+  codec: device.codec ?? undefined
+});
+
+// Add or replace devices by id, keeping what the new entry does not report
+const mergeDevices = (current: CustomBluetoothDevice[], updates: CustomBluetoothDevice[]) => {
+  const byId = new Map(current.map(device => [device.id, device]));
+  for (const update of updates) {
+    byId.set(update.id, { ...byId.get(update.id), ...update });
+  }
+  return [...byId.values()];
+};
+
+// Heard in this scan first, then by signal strength
+const bySignal = (a: CustomBluetoothDevice, b: CustomBluetoothDevice) =>
+  Number(b.connected) - Number(a.connected) ||
+  Number(b.seenInScan ?? false) - Number(a.seenInScan ?? false) ||
+  (b.rssi ?? -999) - (a.rssi ?? -999);
+
+const STEP_LABELS: Record<BluetoothConnectStep['step'], string> = {
+  trust: 'Trust',
+  pair: 'Pair',
+  connect: 'Connect',
+  sink: 'Audio output'
+};
+
+const STEP_STYLES: Record<BluetoothConnectStep['status'], string> = {
+  ok: 'bg-green-500/20 text-green-400 border-green-500/30',
+  skipped: 'bg-muted text-muted-foreground',
+  failed: 'bg-red-500/20 text-red-400 border-red-500/30'
+};
+
+// Rough signal quality for an RSSI in dBm
+const signalLabel = (rssi: number) => (rssi >= -60 ? 'Strong' : rssi >= -75 ? 'Good' : 'Weak');
+
 interface BluetoothScannerProps {
-  onDeviceSelect: (device: CustomBluetoothDevice) => void;
+  onDeviceSelect: (device: CustomBluetoothDevice, options: { keepOthers: boolean }) => void;
   isConnecting: boolean;
 }
 
@@ -36,8 +116,15 @@ export const BluetoothScanner: React.FC<BluetoothScannerProps> = ({
 }) => {
   const [devices, setDevices] = useState<CustomBluetoothDevice[]>([]);
   const [isScanning, setIsScanning] = useState(false);
+  const [isStopping, setIsStopping] = useState(false);
+  const [audioOnly, setAudioOnly] = useState(false);
+  // Keep connected speakers when adding another, e.g. to group them for whole-room playback
+  const [keepOthers, setKeepOthers] = useState(false);
   const [piConnected, setPiConnected] = useState(false);
   const [disconnectingDeviceId, setDisconnectingDeviceId] = useState<string | null>(null);
+  const { mutateAsync: disconnectDevice } = useDisconnectBluetoothDevice();
+  // Progress of the latest connect attempt per device, as reported by the Pi
+  const [connectSteps, setConnectSteps] = useState<Record<string, BluetoothConnectStep[]>>({});
 
   // Refresh connected devices status
   const refreshConnectedDevices = React.useCallback(async () => {
@@ -46,26 +133,20 @@ export const BluetoothScanner: React.FC<BluetoothScannerProps> = ({
     try {
       const connectedResult = await piClient.getConnectedBluetoothDevices();
       
-      if (connectedResult.success && connectedResult.connectedDevices?.length > 0) {
-        const connectedDevices: CustomBluetoothDevice[] = connectedResult.connectedDevices.map((device: BluetoothDeviceResponse) => ({
-          id: device.id,
-          name: device.name || 'Unknown Device',
-          mac: device.mac || device.id,
-          connected: device.connected,
-          paired: device.paired
-        }));
-        
-        setDevices(connectedDevices);
-      } else if (connectedResult.success && connectedResult.connectedDevices?.length === 0) {
-        // No devices connected, clear the list if we're not currently scanning
-        if (!isScanning) {
-          setDevices([]);
-        }
+      if (connectedResult.success) {
+        const connectedDevices: CustomBluetoothDevice[] = connectedResult.data.connectedDevices.map(fromConnectedDevice);
+        const connectedIds = new Set(connectedDevices.map(device => device.id));
+
+        // Keep scanned devices in the list; only their connection state changes
+        setDevices(prevDevices => mergeDevices(
+          prevDevices.map(device => ({ ...device, connected: connectedIds.has(device.id) })),
+          connectedDevices
+        ));
       }
     } catch (error) {
       console.error("Error refreshing connected devices:", error);
     }
-  }, [isScanning]);
+  }, []);
 
   // Check Pi connection status and get connected devices
   React.useEffect(() => {
@@ -79,21 +160,15 @@ export const BluetoothScanner: React.FC<BluetoothScannerProps> = ({
           console.log("🔄 Checking for already connected devices...");
           const connectedResult = await piClient.getConnectedBluetoothDevices();
           
-          if (connectedResult.success && connectedResult.connectedDevices?.length > 0) {
-            console.log("📱 Found connected devices:", connectedResult.connectedDevices);
+          if (connectedResult.success && connectedResult.data?.connectedDevices?.length > 0) {
+            console.log("📱 Found connected devices:", connectedResult.data.connectedDevices);
             
             // Map connected devices to our format
-            const connectedDevices: CustomBluetoothDevice[] = connectedResult.connectedDevices.map((device: BluetoothDeviceResponse) => ({
-              id: device.id,
-              name: device.name || 'Unknown Device',
-              mac: device.mac || device.id,
-              connected: device.connected,
-              paired: device.paired
-            }));
+            const connectedDevices: CustomBluetoothDevice[] = connectedResult.data.connectedDevices.map(fromConnectedDevice);
             
             setDevices(connectedDevices);
             
-            if (connectedResult.hasConnectedAudioDevice) {
+            if (connectedResult.data.hasConnectedAudioDevice) {
               toast({
                 title: "Audio Device Connected",
                 description: `Found ${connectedDevices.length} connected Bluetooth device(s)`,
@@ -109,16 +184,67 @@ export const BluetoothScanner: React.FC<BluetoothScannerProps> = ({
     checkPiAndDevices();
   }, []);
 
-  // Periodically refresh connected devices status
-  React.useEffect(() => {
-    if (!piConnected) return;
+  // Refresh connected devices when the Pi reports a Bluetooth change
+  usePiEvent('bluetooth.connected', () => refreshConnectedDevices());
+  usePiEvent('bluetooth.disconnected', () => refreshConnectedDevices());
+  usePiEventStreamOpen(() => refreshConnectedDevices());
+
+  usePiEvent('bluetooth.pairing.step', (step) => {
+    if (!step.deviceId) return;
+    setConnectSteps(prev => ({ ...prev, [step.deviceId]: [...(prev[step.deviceId] ?? []), step] }));
+  });
+
+  // Streaming scan: the Pi pushes devices as the adapter hears them
+  usePiEvent('bluetooth.scan.started', () => {
+    setIsScanning(true);
+    setDevices(prevDevices => prevDevices.filter(device => device.connected));
+  });
+  usePiEvent('bluetooth.scan.device', (device) => {
+    setDevices(prevDevices => mergeDevices(prevDevices, [fromScanDevice(device)]));
+  });
+  usePiEvent('bluetooth.scan.lost', ({ id }) => {
+    setDevices(prevDevices => prevDevices.filter(device => device.id !== id || device.connected));
+  });
+  usePiEvent('bluetooth.scan.finished', (scan) => {
+    setIsScanning(false);
+    setIsStopping(false);
+    setDevices(prevDevices => mergeDevices(prevDevices, scan.devices.map(fromScanDevice)));
+
+    if (scan.reason === 'failed') {
+      toast({
+        title: "Scan Failed",
+        description: `Could not scan for Bluetooth devices: ${scan.error || 'Unknown error'}`,
+        variant: "destructive"
+      });
+    } else {
+      toast({
+        title: "Bluetooth Scan Complete",
+        description: `Heard ${scan.devices.filter(device => device.seenInScan).length} of ${scan.devices.length} devices in this scan`,
+      });
+    }
+  });
 
-    const interval = setInterval(() => {
-      refreshConnectedDevices();
-    }, 10000); // Check every 10 seconds
+  // Backends without the streaming scan answer only when the scan is over
+  const runBlockingScan = async () => {
+    const result = await piClient.scanBluetoothDevices();
+    if (!result.success || !result.data?.devices) {
+      throw new Error(result.error || 'Failed to scan for devices');
+    }
 
-    return () => clearInterval(interval);
-  }, [piConnected, refreshConnectedDevices]);
+    const bluetoothDevices: CustomBluetoothDevice[] = result.data.devices.map((device: { id: string; name?: string }) => ({
+      id: device.id,
+      name: device.name || 'Unknown Device',
+      mac: device.id,
+      connected: false,
+      paired: false
+    }));
+    setDevices(bluetoothDevices);
+
+    toast({
+      title: "Bluetooth Scan Complete",
+      description: `Found ${bluetoothDevices.length} devices`,
+    });
+  };
 
   const scanBluetoothDevices = async () => {
     // Check if Pi is connected
@@ -132,45 +258,42 @@ export const BluetoothScanner: React.FC<BluetoothScannerProps> = ({
     }
 
     setIsScanning(true);
-    setDevices([]);
 
     try {
-      toast({
-        title: "Bluetooth Scan Started",
-        description: "Pi is searching for nearby Bluetooth devices...",
-      });
-
-      // Use Pi's Bluetooth scanning via direct API call
-      const result = await piClient.scanBluetoothDevices();
-
-      if (result.success && result.devices) {
-        const bluetoothDevices: CustomBluetoothDevice[] = result.devices.map((device: { id: string; name?: string }) => ({
-          id: device.id, // Use the ID from the response
-          name: device.name || 'Unknown Device',
-          mac: device.id, // The ID appears to be the MAC address
-          connected: false, // Not provided in scan response
-          paired: false // Not provided in scan response
-        }));
-
-        setDevices(bluetoothDevices);
-
-        toast({
-          title: "Bluetooth Scan Complete",
-          description: `Found ${bluetoothDevices.length} devices`,
-        });
+      const result = await piClient.startBluetoothScan();
+
+      if (result.success && result.data) {
+        // Devices published before this response arrived are already in the list
+        setDevices(prevDevices => mergeDevices(prevDevices, result.data.devices.map(fromScanDevice)));
+        setIsScanning(result.data.scanning);
+      } else if (isRouteMissing(result.status)) {
+        setDevices([]);
+        await runBlockingScan();
+        setIsScanning(false);
       } else {
-        throw new Error(result.error || 'Failed to scan for devices');
+        throw new Error(result.error || 'Failed to start the scan');
       }
-
     } catch (error: unknown) {
       console.error('Bluetooth scan error:', error);
+      setIsScanning(false);
       toast({
         title: "Scan Failed",
         description: `Could not scan for Bluetooth devices: ${error instanceof Error ? error.message : 'Unknown error'}`,
         variant: "destructive"
       });
-    } finally {
-      setIsScanning(false);
+    }
+  };
+
+  const stopScan = async () => {
+    setIsStopping(true);
+    const result = await piClient.stopBluetoothScan();
+    if (!result.success) {
+      setIsStopping(false);
+      toast({
+        title: "Could Not Stop Scan",
+        description: result.error || 'The Pi did not stop the scan',
+        variant: "destructive"
+      });
     }
   };
 
@@ -181,8 +304,10 @@ export const BluetoothScanner: React.FC<BluetoothScannerProps> = ({
         description: `Connecting ${device.name} to Pi for audio output`,
       });
 
+      setConnectSteps(prev => ({ ...prev, [device.id]: [] }));
+
       // Use the onDeviceSelect callback to connect via Pi
-      onDeviceSelect(device);
+      onDeviceSelect(device, { keepOthers });
 
     } catch (error: unknown) {
       console.error('Bluetooth connection failed:', error);
@@ -214,28 +339,25 @@ export const BluetoothScanner: React.FC<BluetoothScannerProps> = ({
         description: `Disconnecting ${device.name} from Pi`,
       });
 
-      const result = await piClient.disconnectSpecificBluetoothDevice(device.id);
-
-      if (result.success) {
-        // Update device state to disconnected
-        setDevices(prevDevices => 
-          prevDevices.map(d => 
-            d.id === device.id 
-              ? { ...d, connected: false }
-              : d
-          )
-        );
-
-        // Refresh connected devices to get updated status
-        await refreshConnectedDevices();
-
-        toast({
-          title: "Disconnected",
-          description: `${device.name} has been disconnected`,
-        });
-      } else {
-        throw new Error(result.error || 'Failed to disconnect device');
-      }
+      // A refused disconnect throws
+      await disconnectDevice(device.id);
+
+      // Update device state to disconnected
+      setDevices(prevDevices => 
+        prevDevices.map(d => 
+          d.id === device.id 
+            ? { ...d, connected: false }
+            : d
+        )
+      );
+
+      // Refresh connected devices to get updated status
+      await refreshConnectedDevices();
+
+      toast({
+        title: "Disconnected",
+        description: `${device.name} has been disconnected`,
+      });
 
     } catch (error: unknown) {
       console.error('Bluetooth disconnection failed:', error);
@@ -249,7 +371,14 @@ export const BluetoothScanner: React.FC<BluetoothScannerProps> = ({
     }
   };
 
-  const getDeviceIcon = (name?: string) => {
+  const getDeviceIcon = ({ icon, name }: CustomBluetoothDevice) => {
+    // BlueZ icon names (audio-headset, phone, input-keyboard, ...) come from the device class
+    if (icon?.startsWith('audio')) return '🎧';
+    if (icon === 'phone') return '📱';
+    if (icon === 'computer') return '💻';
+    if (icon === 'input-keyboard' || icon === 'input-mouse') return '⌨️';
+    if (icon === 'input-gaming') return '🎮';
+
     if (!name) return '📶';
     
     const nameLower = name.toLowerCase();
@@ -265,6 +394,10 @@ export const BluetoothScanner: React.FC<BluetoothScannerProps> = ({
     return '📶';
   };
 
+  const visibleDevices = devices
+    .filter(device => !audioOnly || device.isAudioDevice || device.connected)
+    .sort(bySignal);
+
   if (!piConnected) {
     return (
       <div className="text-center py-8 text-muted-foreground">
@@ -277,6 +410,10 @@ export const BluetoothScanner: React.FC<BluetoothScannerProps> = ({
 
   return (
     <div className="space-y-4">
+      <BluetoothPairingDialog
+        deviceNames={Object.fromEntries(devices.map(device => [device.id, device.name]))}
+      />
+
       <div className="flex items-center justify-between">
         <div>
           <h3 className="font-semibold">Bluetooth Audio Devices</h3>
@@ -284,27 +421,48 @@ export const BluetoothScanner: React.FC<BluetoothScannerProps> = ({
             Scan for Bluetooth devices via Pi
           </p>
         </div>
-        <Button
-          onClick={scanBluetoothDevices}
-          disabled={isScanning}
-          className="min-w-[120px]"
-        >
-          {isScanning ? (
-            <>
+        {isScanning ? (
+          <Button
+            variant="outline"
+            onClick={stopScan}
+            disabled={isStopping}
+            className="min-w-[120px]"
+          >
+            {isStopping ? (
               <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-              Scanning...
-            </>
-          ) : (
-            <>
-              <RefreshCw className="h-4 w-4 mr-2" />
-              Scan via Pi
-            </>
-          )}
-        </Button>
+            ) : (
+              <Square className="h-4 w-4 mr-2" />
+            )}
+            Stop Scan
+          </Button>
+        ) : (
+          <Button
+            onClick={scanBluetoothDevices}
+            className="min-w-[120px]"
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Scan via Pi
+          </Button>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Switch id="bluetooth-audio-only" checked={audioOnly} onCheckedChange={setAudioOnly} />
+          <Label htmlFor="bluetooth-audio-only" className="text-sm">Audio devices only</Label>
+          <Switch id="bluetooth-keep-others" checked={keepOthers} onCheckedChange={setKeepOthers} />
+          <Label htmlFor="bluetooth-keep-others" className="text-sm">Keep other speakers</Label>
+        </div>
+        {isScanning && (
+          <span className="flex items-center text-xs text-muted-foreground">
+            <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+            Listening for devices...
+          </span>
+        )}
       </div>
 
       <div className="space-y-2 max-h-60 overflow-y-auto">
-        {devices.map((device) => (
+        {visibleDevices.map((device) => (
           <Card
             key={device.id}
             className="cursor-pointer transition-all duration-200 hover:border-primary/50 hover:bg-muted/50"
@@ -313,15 +471,51 @@ export const BluetoothScanner: React.FC<BluetoothScannerProps> = ({
             <CardContent className="p-3">
               <div className="flex items-center justify-between">
                 <div className="flex items-center gap-3">
-                  <span className="text-lg">{getDeviceIcon(device.name)}</span>
+                  <span className={`text-lg ${device.seenInScan === false ? 'opacity-50' : ''}`}>{getDeviceIcon(device)}</span>
                   <div>
                     <h4 className="font-medium text-sm">{device.name || 'Unknown Device'}</h4>
-                    <p className="text-xs text-muted-foreground">MAC: {device.mac || device.id}</p>
+                    <p className="text-xs text-muted-foreground">
+                      MAC: {device.mac || device.id}
+                      {device.rssi !== undefined && (
+                        <span className="ml-2 inline-flex items-center gap-1" title={`${device.rssi} dBm`}>
+                          <Signal className="h-3 w-3" />
+                          {signalLabel(device.rssi)} ({device.rssi} dBm)
+                        </span>
+                      )}
+                      {device.battery !== undefined && (
+                        <span className="ml-2 inline-flex items-center gap-1">
+                          <Battery className="h-3 w-3" />
+                          {device.battery}%
+                        </span>
+                      )}
+                      {device.connectionRssi !== undefined && (
+                        <span className="ml-2" title="Link quality relative to the ideal range; 0 is best">
+                          Link {device.connectionRssi} dB
+                        </span>
+                      )}
+                      {(device.codec || device.profile) && (
+                        <span className="ml-2" title={device.profile}>{device.codec ? device.codec.toUpperCase() : device.profile}</span>
+                      )}
+                      {device.seenInScan === false && (
+                        <span className="ml-2" title="Remembered from an earlier scan; not heard in this one">Cached</span>
+                      )}
+                    </p>
                   </div>
                 </div>
                 <div className="flex items-center gap-2">
                   {device.connected ? (
                     <>
+                      {device.isAudioDevice && (
+                        <BluetoothAudioMenu
+                          deviceId={device.id}
+                          deviceName={device.name}
+                          onChanged={(audio) => setDevices(prev => prev.map(entry =>
+                            entry.id === device.id
+                              ? { ...entry, profile: audio.activeProfile ?? undefined, codec: audio.codec ?? undefined }
+                              : entry
+                          ))}
+                        />
+                      )}
                       <Badge className="text-xs bg-green-500/20 text-green-400 border-green-500/30">
                         <CheckCircle className="h-3 w-3 mr-1" />
                         Connected
@@ -357,18 +551,34 @@ export const BluetoothScanner: React.FC<BluetoothScannerProps> = ({
                   )}
                 </div>
               </div>
+              {connectSteps[device.id]?.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {connectSteps[device.id].map(step => (
+                    <Badge
+                      key={step.step}
+                      variant="outline"
+                      className={`text-xs ${STEP_STYLES[step.status]}`}
+                      title={step.detail}
+                    >
+                      {STEP_LABELS[step.step]}: {step.status === 'failed' && step.detail ? step.detail : step.status}
+                    </Badge>
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
         ))}
       </div>
 
-      {devices.length === 0 && !isScanning && (
+      {visibleDevices.length === 0 && !isScanning && (
         <div className="text-center py-8 text-muted-foreground">
           <Bluetooth className="h-8 w-8 mx-auto mb-2 opacity-50" />
-          <p className="text-sm">No devices found</p>
+          <p className="text-sm">{devices.length > 0 ? 'No audio devices found' : 'No devices found'}</p>
           <p className="text-xs">Click "Scan via Pi" to discover Bluetooth devices</p>
         </div>
       )}
+
+      <KnownBluetoothDevices />
     </div>
   );
 };
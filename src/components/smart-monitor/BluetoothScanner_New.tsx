@@ -51,11 +51,11 @@ export const BluetoothScanner: React.FC<BluetoothScannerProps> = ({
           console.log("🔄 Checking for already connected devices...");
           const connectedResult = await piClient.getConnectedBluetoothDevices();
           
-          if (connectedResult.success && connectedResult.connectedDevices?.length > 0) {
-            console.log("📱 Found connected devices:", connectedResult.connectedDevices);
+          if (connectedResult.success && connectedResult.data?.connectedDevices?.length > 0) {
+            console.log("📱 Found connected devices:", connectedResult.data.connectedDevices);
             
             // Map connected devices to our format
-            const connectedDevices: CustomBluetoothDevice[] = connectedResult.connectedDevices.map((device: BluetoothDeviceResponse) => ({
+            const connectedDevices: CustomBluetoothDevice[] = connectedResult.data.connectedDevices.map((device: BluetoothDeviceResponse) => ({
               id: device.id,
               name: device.name || 'Unknown Device',
               mac: device.mac || device.id,
@@ -65,7 +65,7 @@ export const BluetoothScanner: React.FC<BluetoothScannerProps> = ({
             
             setDevices(connectedDevices);
             
-            if (connectedResult.hasConnectedAudioDevice) {
+            if (connectedResult.data.hasConnectedAudioDevice) {
               toast({
                 title: "Audio Device Connected",
                 description: `Found ${connectedDevices.length} connected Bluetooth device(s)`,
@@ -104,8 +104,8 @@ export const BluetoothScanner: React.FC<BluetoothScannerProps> = ({
       // Use Pi's Bluetooth scanning via direct API call
       const result = await piClient.scanBluetoothDevices();
 
-      if (result.success && result.devices) {
-        const bluetoothDevices: CustomBluetoothDevice[] = result.devices.map((device: { id: string; name?: string }) => ({
+      if (result.success && result.data?.devices) {
+        const bluetoothDevices: CustomBluetoothDevice[] = result.data.devices.map((device: { id: string; name?: string }) => ({
           id: device.id, // Use the ID from the response
           name: device.name || 'Unknown Device',
           mac: device.id, // The ID appears to be the MAC address
@@ -14,7 +14,7 @@ import {
   Monitor
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import axios from 'axios';
+import { piApi } from '@/lib/piApi';
 
 export const CCTVViewer: React.FC = () => {
   const [isRecording, setIsRecording] = useState(false);
@@ -26,7 +26,7 @@ export const CCTVViewer: React.FC = () => {
   const handleStartStop = async () => {
     try {
       const action = isRecording ? 'stop' : 'start';
-      await axios.post('/api/cctv/recording', { action });
+      await piApi.post('/api/cctv/recording', { action });
       setIsRecording(!isRecording);
       toast({
         title: `Recording ${action}ed`,
@@ -43,7 +43,7 @@ export const CCTVViewer: React.FC = () => {
 
   const handleNightVision = async (enabled: boolean) => {
     try {
-      await axios.post('/api/cctv/night-vision', { enabled });
+      await piApi.post('/api/cctv/night-vision', { enabled });
       setNightVision(enabled);
       toast({
         title: enabled ? "Night Vision Enabled" : "Night Vision Disabled",
@@ -60,7 +60,7 @@ export const CCTVViewer: React.FC = () => {
 
   const handleMotionDetection = async (enabled: boolean) => {
     try {
-      await axios.post('/api/cctv/motion-detection', { enabled });
+      await piApi.post('/api/cctv/motion-detection', { enabled });
       setMotionDetection(enabled);
       toast({
         title: enabled ? "Motion Detection Enabled" : "Motion Detection Disabled",
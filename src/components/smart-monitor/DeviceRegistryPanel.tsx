@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Monitor, Plus, Star, Trash2, Loader2, Wifi } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { usePiDevices } from '@/hooks/use-pi-devices';
+import { deviceRegistry, type PiDeviceProfile } from '@/lib/deviceRegistry';
+
+interface DeviceRegistryPanelProps {
+  onDeviceSelect: (device: PiDeviceProfile) => void;
+  isConnecting?: boolean;
+}
+
+export const DeviceRegistryPanel: React.FC<DeviceRegistryPanelProps> = ({ onDeviceSelect, isConnecting }) => {
+  const { devices, defaultDeviceId, activeDeviceId } = usePiDevices();
+  const [name, setName] = useState('');
+  const [host, setHost] = useState('');
+  const [port, setPort] = useState('5000');
+  const [authToken, setAuthToken] = useState('');
+
+  const addDevice = () => {
+    const portNumber = Number(port);
+    if (!host.trim() || !Number.isInteger(portNumber) || portNumber < 1 || portNumber > 65535) {
+      toast({
+        title: "Invalid Device",
+        description: "Please enter a host and a port between 1 and 65535",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const saved = deviceRegistry.saveDevice({
+      name: name.trim() || host.trim(),
+      host: host.trim(),
+      port: portNumber,
+      authToken: authToken.trim() || undefined
+    });
+
+    setName('');
+    setHost('');
+    setPort('5000');
+    setAuthToken('');
+
+    toast({
+      title: "Device Saved",
+      description: `${saved.name} (${saved.host}:${saved.port}) added to your devices`,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2 max-h-60 overflow-y-auto">
+        {devices.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No saved devices yet. Add one below or connect through the network scan.
+          </p>
+        )}
+        {devices.map(device => (
+          <Card key={device.id} className="p-3">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2 min-w-0">
+                <Monitor className="h-4 w-4 text-primary shrink-0" />
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-sm truncate">{device.name}</span>
+                    {device.id === defaultDeviceId && (
+                      <Badge variant="secondary" className="text-xs">Default</Badge>
+                    )}
+                    {device.id === activeDeviceId && (
+                      <Badge className="bg-green-500/20 text-green-400 border-green-500/30 text-xs">Active</Badge>
+                    )}
+                  </div>
+                  <span className="text-xs text-muted-foreground font-mono">
+                    {device.host}:{device.port}{device.authToken ? ' • token' : ''}
+                  </span>
+                </div>
+              </div>
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Make default"
+                  disabled={device.id === defaultDeviceId}
+                  onClick={() => deviceRegistry.setDefaultDevice(device.id)}
+                >
+                  <Star className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Remove"
+                  onClick={() => deviceRegistry.removeDevice(device.id)}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+                <Button
+                  size="sm"
+                  disabled={isConnecting}
+                  onClick={() => onDeviceSelect(device)}
+                >
+                  {isConnecting ? <Loader2 className="h-3 w-3 animate-spin" /> : <Wifi className="h-3 w-3" />}
+                </Button>
+              </div>
+            </div>
+          </Card>
+        ))}
+      </div>
+
+      <div className="space-y-2 border-t border-border/50 pt-4">
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label htmlFor="device-name">Name</Label>
+            <Input
+              id="device-name"
+              placeholder="Living room"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="device-token">Auth Token</Label>
+            <Input
+              id="device-token"
+              type="password"
+              placeholder="Optional"
+              value={authToken}
+              onChange={(e) => setAuthToken(e.target.value)}
+            />
+          </div>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <div className="col-span-2">
+            <Label htmlFor="device-host">Host</Label>
+            <Input
+              id="device-host"
+              placeholder="smartmonitor.local"
+              value={host}
+              onChange={(e) => setHost(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="device-port">Port</Label>
+            <Input
+              id="device-port"
+              placeholder="5000"
+              value={port}
+              onChange={(e) => setPort(e.target.value)}
+            />
+          </div>
+        </div>
+        <Button variant="outline" className="w-full" onClick={addDevice}>
+          <Plus className="h-4 w-4 mr-2" />
+          Save Device
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -4,7 +4,7 @@ import { Button } from '@/components/ui/button';
 import { GameJoystick } from './GameJoystick';
 import { Gamepad2, Play, Square } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
-import axios from 'axios';
+import { piApi } from '@/lib/piApi';
 
 const GAMES = [
 	{
@@ -90,7 +90,7 @@ export const GamesSection: React.FC = () => {
 
 	const stopGame = async () => {
 		try {
-			await axios.post('/api/game/stop', { gameId: selectedGame });
+			await piApi.post('/api/game/stop', { gameId: selectedGame });
 			setSelectedGame(null);
 			setGameStatus('idle');
 			setShowFullPageController(false);
@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { ArrowDown, ArrowUp, Check, Pencil, Trash2, X } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { usePiEvent, usePiEventStreamOpen } from '@/hooks/use-pi-event';
+import { piClient } from '@/lib/piClient';
+import { isRouteMissing } from '@/lib/piRoutes';
+import type { KnownBluetoothDevice } from '@/lib/piSchemas';
+
+const TYPE_ICONS: Record<KnownBluetoothDevice['deviceType'], string> = {
+  audio: '🎧',
+  phone: '📱',
+  computer: '💻',
+  input: '⌨️',
+  other: '📶',
+};
+
+const displayName = (device: KnownBluetoothDevice) => device.nickname || device.name;
+
+// Devices the Pi remembers, in the order it tries them when reconnecting audio
+export const KnownBluetoothDevices: React.FC = () => {
+  const [devices, setDevices] = useState<KnownBluetoothDevice[]>([]);
+  const [isSupported, setIsSupported] = useState(true);
+  const [editingMac, setEditingMac] = useState<string | null>(null);
+  const [nickname, setNickname] = useState('');
+
+  const loadDevices = React.useCallback(async () => {
+    if (!piClient.isConnected()) return;
+    const result = await piClient.getKnownBluetoothDevices();
+    if (result.success && result.data) {
+      setDevices(result.data.devices);
+    } else if (isRouteMissing(result.status)) {
+      // Older backends don't remember devices
+      setIsSupported(false);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    loadDevices();
+  }, [loadDevices]);
+  usePiEventStreamOpen(() => loadDevices());
+
+  usePiEvent('bluetooth.known.changed', ({ devices: next }) => setDevices(next));
+
+  const startRename = (device: KnownBluetoothDevice) => {
+    setEditingMac(device.mac);
+    setNickname(device.nickname ?? '');
+  };
+
+  const updateDevice = async (device: KnownBluetoothDevice, changes: { nickname?: string; autoReconnect?: boolean }) => {
+    const result = await piClient.updateKnownBluetoothDevice(device.mac, changes);
+    if (!result.success) {
+      toast({
+        title: "Update Failed",
+        description: result.error || `Could not update ${displayName(device)}`,
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    // The change event also brings the saved list, but the stream may be down
+    await loadDevices();
+    return true;
+  };
+
+  const saveNickname = async (device: KnownBluetoothDevice) => {
+    if (await updateDevice(device, { nickname })) {
+      setEditingMac(null);
+    }
+  };
+
+  const move = async (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= devices.length) return;
+
+    const previous = devices;
+    const reordered = [...devices];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setDevices(reordered);
+
+    const result = await piClient.reorderKnownBluetoothDevices(reordered.map(device => device.mac));
+    if (result.success && result.data) {
+      setDevices(result.data.devices);
+    } else {
+      setDevices(previous);
+      toast({
+        title: "Reorder Failed",
+        description: result.error || "Could not save the new order",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const forgetDevice = async (device: KnownBluetoothDevice) => {
+    const result = await piClient.forgetBluetoothDevice(device.mac);
+    if (!result.success) {
+      toast({
+        title: "Forget Failed",
+        description: result.error || `Could not forget ${displayName(device)}`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setDevices(prev => prev.filter(entry => entry.mac !== device.mac));
+    toast({
+      title: "Device Forgotten",
+      description: `${displayName(device)} was unpaired and will not reconnect`,
+    });
+  };
+
+  if (!isSupported || devices.length === 0) return null;
+
+  return (
+    <div className="space-y-2 border-t border-border/50 pt-4">
+      <div>
+        <span className="text-sm font-medium">Known Devices</span>
+        <p className="text-xs text-muted-foreground">
+          Audio devices reconnect in this order after a reboot or a dropped connection
+        </p>
+      </div>
+      <div className="space-y-2 max-h-60 overflow-y-auto">
+        {devices.map((device, index) => (
+          <Card key={device.mac} className="p-2">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2 min-w-0">
+                <span className="text-lg shrink-0">{TYPE_ICONS[device.deviceType]}</span>
+                <div className="min-w-0">
+                  {editingMac === device.mac ? (
+                    <div className="flex items-center gap-1">
+                      <Input
+                        value={nickname}
+                        onChange={(e) => setNickname(e.target.value)}
+                        placeholder={device.name}
+                        maxLength={64}
+                        autoFocus
+                        className="h-7 text-sm"
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') saveNickname(device);
+                          if (e.key === 'Escape') setEditingMac(null);
+                        }}
+                      />
+                      <Button variant="ghost" size="sm" title="Save" className="h-7 px-2" onClick={() => saveNickname(device)}>
+                        <Check className="h-3 w-3" />
+                      </Button>
+                      <Button variant="ghost" size="sm" title="Cancel" className="h-7 px-2" onClick={() => setEditingMac(null)}>
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-1">
+                      <span className="text-sm truncate">{displayName(device)}</span>
+                      <Button variant="ghost" size="sm" title="Rename" className="h-6 px-1" onClick={() => startRename(device)}>
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  )}
+                  <span className="text-xs text-muted-foreground">
+                    {device.nickname ? `${device.name} • ` : ''}{device.mac}
+                    {device.lastConnectedAt ? ` • last used ${new Date(device.lastConnectedAt).toLocaleString()}` : ''}
+                  </span>
+                </div>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                {device.deviceType === 'audio' && (
+                  <Switch
+                    checked={device.autoReconnect}
+                    onCheckedChange={(checked) => updateDevice(device, { autoReconnect: checked })}
+                    title="Auto-reconnect"
+                  />
+                )}
+                <Button variant="ghost" size="sm" title="Move up" className="h-7 px-1" disabled={index === 0} onClick={() => move(index, -1)}>
+                  <ArrowUp className="h-3 w-3" />
+                </Button>
+                <Button variant="ghost" size="sm" title="Move down" className="h-7 px-1" disabled={index === devices.length - 1} onClick={() => move(index, 1)}>
+                  <ArrowDown className="h-3 w-3" />
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="ghost" size="sm" title="Forget" className="h-7 px-1">
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Forget {displayName(device)}</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        The Pi removes the pairing and stops reconnecting to this device. You'll need to pair it again to use it.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => forgetDevice(device)}>Forget</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </div>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,10 +1,12 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
 import { 
   Terminal, 
   Wifi, 
@@ -12,9 +14,24 @@ import {
   CheckCircle, 
   Loader2,
   Copy,
-  ExternalLink
+  ExternalLink,
+  Route,
+  RefreshCw,
+  Stethoscope,
+  Download,
+  MinusCircle,
+  AlertTriangle
 } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
+import { piClient } from '@/lib/piClient';
+import { deviceRegistry } from '@/lib/deviceRegistry';
+import type { ResolvedRoute } from '@/lib/piRoutes';
+import {
+  runDiagnostics,
+  type DiagnosticCheck,
+  type DiagnosticReport,
+  type DiagnosticStatus
+} from '@/lib/piDiagnostics';
 
 interface Device {
   id: string;
@@ -35,23 +52,48 @@ interface TestResult {
   error?: string;
 }
 
+const latencyChartConfig = {
+  ms: {
+    label: 'Round trip (ms)',
+    color: 'hsl(var(--primary))'
+  }
+} satisfies ChartConfig;
+
+const LATENCY_BARS = ['min', 'p50', 'p90', 'p95', 'p99', 'max'] as const;
+
+const CHECK_STATUS_STYLES: Record<DiagnosticStatus, { icon: React.ElementType; className: string }> = {
+  pass: { icon: CheckCircle, className: 'text-green-400' },
+  warn: { icon: AlertTriangle, className: 'text-yellow-400' },
+  fail: { icon: AlertCircle, className: 'text-red-400' },
+  skipped: { icon: MinusCircle, className: 'text-muted-foreground' }
+};
+
 interface NetworkDebuggerProps {
   onDeviceFound?: (device: Device) => void;
 }
 
 export const NetworkDebugger: React.FC<NetworkDebuggerProps> = ({ onDeviceFound }) => {
-  const [testIP, setTestIP] = useState('192.168.234.180'); // Pre-fill with detected IP
-  const [testPort, setTestPort] = useState('5000');
+  // Pre-fill with the default saved device
+  const [testIP, setTestIP] = useState(() => deviceRegistry.getDefaultDevice()?.host ?? '');
+  const [testPort, setTestPort] = useState(() => String(deviceRegistry.getDefaultDevice()?.port ?? 5000));
   const [testResults, setTestResults] = useState<TestResult[]>([]);
   const [isTesting, setIsTesting] = useState(false);
+  const [routes, setRoutes] = useState<ResolvedRoute[]>(() => piClient.getResolvedRoutes());
+  const [isProbing, setIsProbing] = useState(false);
+  const [pingCount, setPingCount] = useState('20');
+  const [isDiagnosing, setIsDiagnosing] = useState(false);
+  const [diagnosticChecks, setDiagnosticChecks] = useState<DiagnosticCheck[]>([]);
+  const [report, setReport] = useState<DiagnosticReport | null>(null);
+  const diagnosisRef = useRef<AbortController | null>(null);
 
   const commonPorts = ['5000', '3000', '8000', '8080', '80', '22', '443'];
-  const commonIPs = [
-    '192.168.234.180', // Detected working IP
+  const commonIPs = Array.from(new Set([
+    // Saved devices first
+    ...deviceRegistry.getSnapshot().devices.map(device => device.host),
     '192.168.1.100', '192.168.1.101', '192.168.1.102',
     '192.168.0.100', '192.168.0.101', '192.168.0.102',
     '10.0.0.100', '10.0.0.101', '10.0.0.102'
-  ];
+  ]));
 
   const testConnection = async (ip: string, port: string): Promise<TestResult> => {
     const timestamp = new Date().toLocaleTimeString();
@@ -204,6 +246,77 @@ export const NetworkDebugger: React.FC<NetworkDebuggerProps> = ({ onDeviceFound
     setIsTesting(false);
   };
 
+  const probeRoutes = async () => {
+    if (!piClient.isConnected()) {
+      toast({
+        title: "Not Connected",
+        description: "Connect to a Pi before probing its routes",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsProbing(true);
+    try {
+      setRoutes(await piClient.resolveReadRoutes());
+    } finally {
+      setIsProbing(false);
+    }
+  };
+
+  const runDiagnosis = async () => {
+    const host = testIP.trim();
+    const port = Number(testPort);
+    const pings = Number(pingCount);
+    if (!host || !Number.isInteger(port) || !Number.isInteger(pings) || pings < 1 || pings > 200) {
+      toast({
+        title: "Invalid target",
+        description: "Enter an IP address, a port and between 1 and 200 pings",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const controller = new AbortController();
+    diagnosisRef.current = controller;
+    setIsDiagnosing(true);
+    setDiagnosticChecks([]);
+    setReport(null);
+
+    try {
+      const result = await runDiagnostics({
+        host,
+        port,
+        // Saved devices carry their own pairing token; otherwise use the current connection's
+        authToken: deviceRegistry.getDevice(`${host}:${port}`)?.authToken ?? piClient.getAuthToken(),
+        pings,
+        signal: controller.signal,
+        onCheck: (check) => setDiagnosticChecks(prev => [...prev, check])
+      });
+      if (controller.signal.aborted) return;
+
+      setReport(result);
+      toast({
+        title: result.verdict === 'ok' ? "Diagnosis passed" : "Problem found",
+        description: result.summary,
+        variant: result.verdict === 'ok' ? undefined : "destructive"
+      });
+    } finally {
+      diagnosisRef.current = null;
+      setIsDiagnosing(false);
+    }
+  };
+
+  const exportReport = (diagnosis: DiagnosticReport) => {
+    const blob = new Blob([JSON.stringify(diagnosis, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `smart-monitor-diagnostics-${diagnosis.target.host}-${diagnosis.finishedAt.replace(/[:.]/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
     toast({
@@ -236,9 +349,11 @@ export const NetworkDebugger: React.FC<NetworkDebuggerProps> = ({ onDeviceFound
       </CardHeader>
       <CardContent>
         <Tabs defaultValue="single" className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="single">Single Test</TabsTrigger>
             <TabsTrigger value="batch">Batch Scan</TabsTrigger>
+            <TabsTrigger value="routes">Routes</TabsTrigger>
+            <TabsTrigger value="diagnose">Diagnose</TabsTrigger>
           </TabsList>
           
           <TabsContent value="single" className="space-y-4">
@@ -322,6 +437,172 @@ export const NetworkDebugger: React.FC<NetworkDebuggerProps> = ({ onDeviceFound
               <p>This will test common IP addresses and ports that Raspberry Pis typically use.</p>
             </div>
           </TabsContent>
+
+          <TabsContent value="routes" className="space-y-4">
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setRoutes(piClient.getResolvedRoutes())}
+                disabled={isProbing}
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Refresh
+              </Button>
+              <Button
+                onClick={probeRoutes}
+                disabled={isProbing}
+                className="flex-1"
+              >
+                {isProbing ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Probing...
+                  </>
+                ) : (
+                  <>
+                    <Route className="h-4 w-4 mr-2" />
+                    Probe Read Routes
+                  </>
+                )}
+              </Button>
+            </div>
+
+            <div className="space-y-2 max-h-72 overflow-y-auto">
+              {routes.map(route => (
+                <div key={route.operation} className="p-2 bg-muted/50 rounded text-xs">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">{route.operation}</span>
+                    {route.endpoint ? (
+                      <Badge className="bg-green-500/20 text-green-400 border-green-500/30 font-mono">
+                        {route.method} {route.endpoint}
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline" className="text-muted-foreground">
+                        Not resolved
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="mt-1 font-mono text-muted-foreground">
+                    {route.aliases.join(' → ')}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="text-xs text-muted-foreground">
+              <p>Routes resolve on first use. Probing only tries read routes; commands resolve when they are first sent.</p>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="diagnose" className="space-y-4">
+            <div className="grid grid-cols-3 gap-2">
+              <div className="col-span-2">
+                <Label htmlFor="diagnose-target">Target</Label>
+                <Input
+                  id="diagnose-target"
+                  value={`${testIP}:${testPort}`}
+                  disabled
+                />
+              </div>
+              <div>
+                <Label htmlFor="diagnose-pings">Pings</Label>
+                <Input
+                  id="diagnose-pings"
+                  type="number"
+                  min={1}
+                  max={200}
+                  value={pingCount}
+                  onChange={(e) => setPingCount(e.target.value)}
+                  disabled={isDiagnosing}
+                />
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <Button
+                onClick={runDiagnosis}
+                disabled={isDiagnosing}
+                className="flex-1"
+              >
+                {isDiagnosing ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Diagnosing...
+                  </>
+                ) : (
+                  <>
+                    <Stethoscope className="h-4 w-4 mr-2" />
+                    Run Diagnostics
+                  </>
+                )}
+              </Button>
+              {isDiagnosing && (
+                <Button variant="outline" onClick={() => diagnosisRef.current?.abort()}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+
+            {diagnosticChecks.length > 0 && (
+              <div className="space-y-2">
+                {diagnosticChecks.map(check => {
+                  const { icon: StatusIcon, className } = CHECK_STATUS_STYLES[check.status];
+                  return (
+                    <div key={check.id} className="flex items-start gap-2 p-2 bg-muted/50 rounded text-xs">
+                      <StatusIcon className={`h-4 w-4 shrink-0 ${className}`} />
+                      <div className="flex-1">
+                        <div className="font-medium">{check.label}</div>
+                        <div className="text-muted-foreground">{check.detail}</div>
+                      </div>
+                      {check.durationMs !== undefined && (
+                        <span className="font-mono text-muted-foreground">{check.durationMs}ms</span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {report && (
+              <div className="space-y-3">
+                <div className={`p-3 rounded-lg text-sm ${report.verdict === 'ok' ? 'bg-green-500/10 text-green-400' : 'bg-red-500/10 text-red-400'}`}>
+                  {report.summary}
+                </div>
+
+                {report.latency && report.latency.samples.length > 0 && (
+                  <div>
+                    <div className="flex items-center justify-between text-xs text-muted-foreground mb-1">
+                      <span>Latency percentiles</span>
+                      <span>{report.latency.sent - report.latency.lost}/{report.latency.sent} answered</span>
+                    </div>
+                    <ChartContainer config={latencyChartConfig} className="h-40 w-full">
+                      <BarChart data={LATENCY_BARS.map(stat => ({ stat, ms: report.latency[stat] }))}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="stat" tickLine={false} axisLine={false} />
+                        <YAxis tickLine={false} axisLine={false} width={40} unit="ms" />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <Bar dataKey="ms" fill="var(--color-ms)" radius={4} />
+                      </BarChart>
+                    </ChartContainer>
+                  </div>
+                )}
+
+                <div className="flex gap-2">
+                  <Button variant="outline" className="flex-1" onClick={() => exportReport(report)}>
+                    <Download className="h-4 w-4 mr-2" />
+                    Export JSON
+                  </Button>
+                  <Button variant="outline" onClick={() => copyToClipboard(JSON.stringify(report, null, 2))}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <div className="text-xs text-muted-foreground">
+              <p>Checks the target from this browser step by step and stops at the first failure. Change the target on the Single Test tab.</p>
+            </div>
+          </TabsContent>
         </Tabs>
 
         {testResults.length > 0 && (
@@ -1,22 +1,39 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Loader2, Wifi, RefreshCw, CheckCircle, AlertCircle, Plus, Search } from 'lucide-react';
+import { Loader2, Wifi, RefreshCw, CheckCircle, AlertCircle, Plus, Search, X } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
+import { deviceRegistry } from '@/lib/deviceRegistry';
+import { piClient } from '@/lib/piClient';
+import {
+  detectLocalSubnet,
+  parsePorts,
+  parseTargets,
+  probeHost,
+  sweepNetwork,
+  type SweepHostKind,
+  type SweepProgress,
+  type SweepResult
+} from '@/lib/networkSweep';
+import type { DiscoveredPeer } from '@/lib/piSchemas';
 
 interface NetworkDevice {
   id: string;
   name: string;
   type: 'raspberry-pi' | 'smart-tv' | 'computer' | 'router' | 'phone';
   ip: string;
+  port?: number;
   mac?: string;
   status: 'online' | 'offline';
   lastSeen?: string;
   manufacturer?: string;
   services?: string[];
+  version?: string;
+  // What answered the sweep; unset for peers found by LAN discovery
+  kind?: SweepHostKind;
 }
 
 interface NetworkScannerProps {
@@ -24,210 +41,145 @@ interface NetworkScannerProps {
   isConnecting: boolean;
 }
 
+// Probed on every sweep in addition to the ranges
+const COMMON_HOSTNAMES = [
+  'smartmonitor.local',
+  'raspberrypi.local',
+  'pi.local',
+  'smartpi.local',
+  'raspberry.local'
+];
+
+const KIND_LABELS: Record<SweepHostKind, string> = {
+  'smart-monitor': 'Smart Monitor',
+  'spotify-server': 'Spotify server',
+  'http': 'Unknown HTTP'
+};
+
+const resultToDevice = (result: SweepResult): NetworkDevice => ({
+  id: `${result.kind}-${result.host}:${result.port}`,
+  name: result.name,
+  type: result.kind === 'smart-monitor' ? 'raspberry-pi' : 'computer',
+  ip: result.host,
+  port: result.port,
+  status: 'online',
+  lastSeen: `Just now (${result.latencyMs}ms)`,
+  services: result.features,
+  version: result.version,
+  kind: result.kind
+});
+
+const peerToDevice = (peer: DiscoveredPeer): NetworkDevice => ({
+  id: `peer-${peer.id}`,
+  name: peer.name,
+  type: 'raspberry-pi',
+  ip: peer.host,
+  port: peer.port,
+  status: 'online',
+  lastSeen: peer.lastSeenAt ? new Date(peer.lastSeenAt).toLocaleTimeString() : 'Just now',
+  services: peer.capabilities,
+  version: peer.version
+});
+
 export const NetworkScanner: React.FC<NetworkScannerProps> = ({ 
   onDeviceSelect, 
   isConnecting 
 }) => {
   const [devices, setDevices] = useState<NetworkDevice[]>([]);
   const [isScanning, setIsScanning] = useState(false);
-  const [scanProgress, setScanProgress] = useState(0);
+  const [progress, setProgress] = useState<SweepProgress | null>(null);
+  const [ranges, setRanges] = useState('');
+  const [ports, setPorts] = useState('5000');
   const [customIP, setCustomIP] = useState('');
-  const [showCustomIP, setShowCustomIP] = useState(false);
+  const [showOptions, setShowOptions] = useState(false);
+  const sweepRef = useRef<AbortController | null>(null);
+
+  // Stop probing when the dialog closes
+  useEffect(() => () => sweepRef.current?.abort(), []);
+
+  // Monitors announced over UDP beacons, as heard by the backend
+  const findDiscoveredPeers = async (): Promise<NetworkDevice[]> => {
+    const result = await piClient.getDiscoveredPeers();
+    if (!result.success || !result.data) {
+      console.log('LAN discovery unavailable:', result.error);
+      return [];
+    }
+
+    const { self, peers } = result.data;
+    return [self, ...peers]
+      .filter(peer => peer.host)
+      .map(peerToDevice);
+  };
+
+  const addDevice = (device: NetworkDevice) => {
+    setDevices(prev => [...prev.filter(d => d.id !== device.id), device]);
+  };
 
   const scanLocalNetwork = async () => {
+    const sweep = new AbortController();
+    sweepRef.current = sweep;
     setIsScanning(true);
-    setScanProgress(0);
+    setProgress(null);
     setDevices([]);
 
     try {
-      toast({
-        title: "Network Scan Started",
-        description: "Scanning for Smart Monitor Pi boards...",
-      });
-
-      setScanProgress(10);
-      
-      // Get local IP to determine network range
-      const localIP = await getLocalIP();
-      console.log('Local IP detected:', localIP);
-      
-      const foundDevices: NetworkDevice[] = [];
-      
-      // First try common hostnames
-      const commonHostnames = [
-        'smartmonitor.local',
-        'raspberrypi.local', 
-        'pi.local',
-        'smartpi.local',
-        'raspberry.local'
-      ];
-
-      setScanProgress(20);
+      // Peers found by backend discovery come first; the HTTP sweep below is only a fallback
+      const peers = await findDiscoveredPeers();
+      if (peers.length > 0) {
+        setDevices(peers);
+        toast({
+          title: "Network Scan Complete",
+          description: `Found ${peers.length} Smart Monitor device(s) announcing on the LAN`,
+        });
+        return;
+      }
 
-      for (const hostname of commonHostnames) {
-        try {
-          console.log(`Trying hostname: ${hostname}`);
-          const response = await fetch(`http://${hostname}:5000`, {
-            method: 'GET',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            signal: AbortSignal.timeout(3000)
+      let targetRanges = ranges.trim();
+      if (!targetRanges) {
+        targetRanges = await detectLocalSubnet() ?? '';
+        if (!targetRanges) {
+          setShowOptions(true);
+          toast({
+            title: "Network Range Unknown",
+            description: "Enter a range such as 192.168.1.0/24 to sweep",
+            variant: "destructive"
           });
-
-          if (response.ok) {
-            let data: Record<string, unknown> = {};
-            try {
-              const contentType = response.headers.get('content-type');
-              
-              if (contentType && contentType.includes('application/json')) {
-                data = await response.json();
-              } else {
-                // Handle HTML or plain text responses
-                const textContent = await response.text();
-                console.log(`Found device at ${hostname} (non-JSON response):`, textContent.substring(0, 100));
-                
-                // Check if it looks like a Smart Monitor response
-                if (textContent.includes('Smart') || textContent.includes('Monitor') || textContent.includes('Pi')) {
-                  data = {
-                    name: `Smart Monitor Pi (${hostname})`,
-                    type: 'html_response',
-                    content: textContent.substring(0, 200)
-                  };
-                }
-              }
-            } catch (parseError) {
-              console.log(`Response parsing failed for ${hostname}:`, parseError);
-              data = {
-                name: `Device at ${hostname}`,
-                type: 'unknown_response'
-              };
-            }
-            
-            console.log(`Found device at ${hostname}:`, data);
-            
-            const device: NetworkDevice = {
-              id: `pi-${hostname}`,
-              name: (typeof data.name === 'string' ? data.name : null) || `Smart Monitor Pi (${hostname})`,
-              type: 'raspberry-pi',
-              ip: hostname,
-              mac: typeof data.mac === 'string' ? data.mac : undefined,
-              status: 'online',
-              lastSeen: 'Just now',
-              manufacturer: 'Raspberry Pi Foundation',
-              services: Array.isArray(data.services) ? data.services : ['Smart Monitor Web', 'HTTP', 'SSH']
-            };
-            foundDevices.push(device);
-          }
-        } catch (error) {
-          console.log(`Failed to connect to ${hostname}:`, (error as Error).message);
+          return;
         }
+        setRanges(targetRanges);
       }
 
-      setScanProgress(40);
-
-      // Scan common IP ranges if we found our local IP
-      if (localIP && foundDevices.length === 0) {
-        const networkBase = localIP.substring(0, localIP.lastIndexOf('.'));
-        console.log(`Scanning network range: ${networkBase}.1-254`);
-        
-        // Common Pi IP addresses to check first
-        const commonIPs = [
-          '192.168.234.180', // Detected working IP
-          `${networkBase}.100`,
-          `${networkBase}.101`,
-          `${networkBase}.102`,
-          `${networkBase}.103`,
-          `${networkBase}.104`,
-          `${networkBase}.105`,
-          `${networkBase}.200`,
-          `${networkBase}.201`,
-          `${networkBase}.202`,
-          `${networkBase}.50`,
-          `${networkBase}.51`,
-          `${networkBase}.52`,
-          `${networkBase}.150`,
-          `${networkBase}.151`,
-          `${networkBase}.152`,
-        ];
-
-        let scannedCount = 0;
-        const totalToScan = commonIPs.length;
-
-        for (const ip of commonIPs) {
-          try {
-            console.log(`Trying IP: ${ip}`);
-            const response = await fetch(`http://${ip}:5000`, {
-              method: 'GET',
-              headers: {
-                'Content-Type': 'application/json',
-              },
-              signal: AbortSignal.timeout(2000)
-            });
+      const hosts = [
+        ...new Set([
+          ...deviceRegistry.getSnapshot().devices.map(device => device.host),
+          ...COMMON_HOSTNAMES,
+          ...parseTargets(targetRanges)
+        ])
+      ];
 
-            if (response.ok) {
-              let data: Record<string, unknown> = {};
-              try {
-                const contentType = response.headers.get('content-type');
-                
-                if (contentType && contentType.includes('application/json')) {
-                  data = await response.json();
-                } else {
-                  // Handle HTML or plain text responses
-                  const textContent = await response.text();
-                  console.log(`Found device at ${ip} (non-JSON response):`, textContent.substring(0, 100));
-                  
-                  // Check if it looks like a Smart Monitor response
-                  if (textContent.includes('Smart') || textContent.includes('Monitor') || textContent.includes('Pi')) {
-                    data = {
-                      name: `Smart Monitor Pi (${ip})`,
-                      type: 'html_response',
-                      content: textContent.substring(0, 200)
-                    };
-                  }
-                }
-              } catch (parseError) {
-                console.log(`Response parsing failed for ${ip}:`, parseError);
-                data = {
-                  name: `Device at ${ip}`,
-                  type: 'unknown_response'
-                };
-              }
-              
-              console.log(`Found device at ${ip}:`, data);
-              
-              const device: NetworkDevice = {
-                id: `pi-${ip}`,
-                name: (typeof data.name === 'string' ? data.name : null) || `Smart Monitor Pi (${ip})`,
-                type: 'raspberry-pi',
-                ip: ip,
-                mac: typeof data.mac === 'string' ? data.mac : undefined,
-                status: 'online',
-                lastSeen: 'Just now',
-                manufacturer: 'Raspberry Pi Foundation',
-                services: Array.isArray(data.services) ? data.services : ['Smart Monitor Web', 'HTTP', 'SSH']
-              };
-              
-              if (!foundDevices.find(d => d.ip === device.ip)) {
-                foundDevices.push(device);
-              }
-            }
-          } catch (error) {
-            console.log(`Failed to connect to ${ip}:`, (error as Error).message);
-          }
-          
-          scannedCount++;
-          setScanProgress(40 + (scannedCount / totalToScan) * 50);
-        }
-      }
+      toast({
+        title: "Network Scan Started",
+        description: `Sweeping ${targetRanges} for Smart Monitor devices...`,
+      });
 
-      setScanProgress(100);
-      setDevices(foundDevices);
+      const found = await sweepNetwork({
+        hosts,
+        ports: parsePorts(ports),
+        signal: sweep.signal,
+        onProgress: setProgress,
+        onResult: (result) => addDevice(resultToDevice(result))
+      });
 
-      if (foundDevices.length > 0) {
+      const monitors = found.filter(result => result.kind === 'smart-monitor').length;
+      if (sweep.signal.aborted) {
+        toast({
+          title: "Network Scan Cancelled",
+          description: `Found ${found.length} device(s) before stopping`,
+        });
+      } else if (found.length > 0) {
         toast({
           title: "Network Scan Complete",
-          description: `Found ${foundDevices.length} Smart Monitor Pi device(s)`,
+          description: `Found ${monitors} Smart Monitor device(s) and ${found.length - monitors} other HTTP server(s)`,
         });
       } else {
         toast({
@@ -241,15 +193,20 @@ export const NetworkScanner: React.FC<NetworkScannerProps> = ({
       console.error('Network scan failed:', error);
       toast({
         title: "Scan Failed",
-        description: "Could not complete network scan",
+        description: error instanceof Error ? error.message : "Could not complete network scan",
         variant: "destructive"
       });
     } finally {
+      if (sweepRef.current === sweep) sweepRef.current = null;
       setIsScanning(false);
-      setScanProgress(0);
+      setProgress(null);
     }
   };
 
+  const cancelScan = () => {
+    sweepRef.current?.abort();
+  };
+
   const testCustomIP = async () => {
     if (!customIP.trim()) {
       toast({
@@ -262,79 +219,24 @@ export const NetworkScanner: React.FC<NetworkScannerProps> = ({
 
     setIsScanning(true);
     try {
-      console.log(`Testing custom IP: ${customIP}`);
-      
-      const response = await fetch(`http://${customIP}:5000`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        signal: AbortSignal.timeout(5000)
-      });
+      const host = customIP.trim();
+      console.log(`Testing custom IP: ${host}`);
 
-      if (response.ok) {
-        let data: Record<string, unknown> = {};
-        try {
-          const contentType = response.headers.get('content-type');
-          
-          if (contentType && contentType.includes('application/json')) {
-            data = await response.json();
-          } else {
-            // Handle HTML or plain text responses
-            const textContent = await response.text();
-            console.log(`Found device at custom IP ${customIP} (non-JSON response):`, textContent.substring(0, 100));
-            
-            // Check if it looks like a Smart Monitor response
-            if (textContent.includes('Smart') || textContent.includes('Monitor') || textContent.includes('Pi')) {
-              data = {
-                name: `Smart Monitor Pi (${customIP})`,
-                type: 'html_response',
-                content: textContent.substring(0, 200)
-              };
-            } else {
-              data = {
-                name: `Web Server (${customIP})`,
-                type: 'web_server',
-                content: textContent.substring(0, 200)
-              };
-            }
-          }
-        } catch (parseError) {
-          console.log(`Response parsing failed for ${customIP}:`, parseError);
-          data = {
-            name: `Device at ${customIP}`,
-            type: 'unknown_response'
-          };
-        }
-        
-        console.log(`Found device at custom IP ${customIP}:`, data);
-        
-        const device: NetworkDevice = {
-          id: `pi-${customIP}`,
-          name: (typeof data.name === 'string' ? data.name : null) || `Smart Monitor Pi (${customIP})`,
-          type: 'raspberry-pi',
-          ip: customIP,
-          mac: typeof data.mac === 'string' ? data.mac : undefined,
-          status: 'online',
-          lastSeen: 'Just now',
-          manufacturer: 'Raspberry Pi Foundation',
-          services: Array.isArray(data.services) ? data.services : ['Smart Monitor Web', 'HTTP', 'SSH']
-        };
-        
-        setDevices(prev => {
-          const filtered = prev.filter(d => d.ip !== device.ip);
-          return [...filtered, device];
-        });
-
-        toast({
-          title: "Device Found",
-          description: `Successfully connected to ${customIP}`,
-        });
-        setShowCustomIP(false);
-        setCustomIP('');
-      } else {
+      let result: SweepResult | null = null;
+      for (const port of parsePorts(ports)) {
+        result = await probeHost(host, port, 5000);
+        if (result) break;
+      }
+      if (!result) {
         throw new Error('Device not responding');
       }
+
+      addDevice(resultToDevice(result));
+      toast({
+        title: "Device Found",
+        description: `${KIND_LABELS[result.kind]} answered at ${result.host}:${result.port}`,
+      });
+      setCustomIP('');
     } catch (error) {
       console.error(`Failed to connect to ${customIP}:`, error);
       toast({
@@ -347,32 +249,6 @@ export const NetworkScanner: React.FC<NetworkScannerProps> = ({
     }
   };
 
-  const getLocalIP = async (): Promise<string> => {
-    return new Promise((resolve) => {
-      const pc = new RTCPeerConnection({
-        iceServers: [{ urls: 'stun:stun.l.google.com:19302' }]
-      });
-      
-      pc.createDataChannel('');
-      pc.createOffer().then(offer => pc.setLocalDescription(offer));
-      
-      pc.onicecandidate = (ice) => {
-        if (!ice || !ice.candidate || !ice.candidate.candidate) return;
-        const myIP = /([0-9]{1,3}(\.[0-9]{1,3}){3})/.exec(ice.candidate.candidate)?.[1];
-        if (myIP) {
-          pc.close();
-          resolve(myIP);
-        }
-      };
-      
-      // Fallback if WebRTC fails
-      setTimeout(() => {
-        pc.close();
-        resolve('192.168.1.100'); // Common default
-      }, 5000);
-    });
-  };
-
   const getDeviceIcon = (type: string) => {
     switch (type) {
       case 'raspberry-pi': return '🥧';
@@ -403,21 +279,21 @@ export const NetworkScanner: React.FC<NetworkScannerProps> = ({
           <Button
             variant="outline"
             size="sm"
-            onClick={() => setShowCustomIP(!showCustomIP)}
+            onClick={() => setShowOptions(!showOptions)}
             className="min-w-[80px]"
           >
             <Plus className="h-4 w-4 mr-1" />
             Manual
           </Button>
           <Button
-            onClick={scanLocalNetwork}
-            disabled={isScanning}
+            onClick={isScanning ? cancelScan : scanLocalNetwork}
+            variant={isScanning ? "destructive" : "default"}
             className="min-w-[100px]"
           >
             {isScanning ? (
               <>
-                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                Scanning...
+                <X className="h-4 w-4 mr-2" />
+                Cancel
               </>
             ) : (
               <>
@@ -429,10 +305,30 @@ export const NetworkScanner: React.FC<NetworkScannerProps> = ({
         </div>
       </div>
 
-      {showCustomIP && (
+      {showOptions && (
         <Card>
           <CardContent className="p-4">
             <div className="space-y-3">
+              <div className="grid grid-cols-3 gap-2">
+                <div className="col-span-2">
+                  <Label htmlFor="sweep-ranges">Ranges</Label>
+                  <Input
+                    id="sweep-ranges"
+                    placeholder="Auto (local /24)"
+                    value={ranges}
+                    onChange={(e) => setRanges(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="sweep-ports">Ports</Label>
+                  <Input
+                    id="sweep-ports"
+                    placeholder="5000"
+                    value={ports}
+                    onChange={(e) => setPorts(e.target.value)}
+                  />
+                </div>
+              </div>
               <Label htmlFor="custom-ip">Enter Pi IP Address</Label>
               <div className="flex gap-2">
                 <Input
@@ -447,7 +343,7 @@ export const NetworkScanner: React.FC<NetworkScannerProps> = ({
                 </Button>
               </div>
               <p className="text-xs text-muted-foreground">
-                Enter your Raspberry Pi's IP address if auto-discovery fails
+                Sweep CIDR ranges such as 192.168.1.0/24, or test a single address if auto-discovery fails
               </p>
             </div>
           </CardContent>
@@ -459,13 +355,16 @@ export const NetworkScanner: React.FC<NetworkScannerProps> = ({
           <CardContent className="p-4">
             <div className="space-y-2">
               <div className="flex items-center justify-between text-sm">
-                <span>Scanning network...</span>
-                <span>{Math.round(scanProgress)}%</span>
+                <span className="flex items-center gap-2">
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                  {progress ? `Probed ${progress.scanned} of ${progress.total}` : 'Checking LAN discovery...'}
+                </span>
+                <span>{progress ? `${progress.found} found` : ''}</span>
               </div>
               <div className="w-full bg-muted rounded-full h-2">
                 <div 
                   className="bg-primary h-2 rounded-full transition-all duration-200"
-                  style={{ width: `${scanProgress}%` }}
+                  style={{ width: `${progress ? (progress.scanned / progress.total) * 100 : 0}%` }}
                 />
               </div>
             </div>
@@ -477,18 +376,31 @@ export const NetworkScanner: React.FC<NetworkScannerProps> = ({
         {devices.map((device) => (
           <Card
             key={device.id}
-            className={`cursor-pointer transition-all duration-200 hover:border-primary/50 ${
-              device.status === 'offline' ? 'opacity-50' : 'hover:bg-muted/50'
+            className={`transition-all duration-200 ${
+              device.type !== 'raspberry-pi' || device.status === 'offline'
+                ? 'opacity-60'
+                : 'cursor-pointer hover:border-primary/50 hover:bg-muted/50'
             }`}
-            onClick={() => device.status === 'online' && onDeviceSelect(device)}
+            // Only Smart Monitor backends can be connected to
+            onClick={() => device.status === 'online' && device.type === 'raspberry-pi' && onDeviceSelect(device)}
           >
             <CardContent className="p-3">
               <div className="flex items-center justify-between">
                 <div className="flex items-center gap-3">
                   <span className="text-lg">{getDeviceIcon(device.type)}</span>
                   <div>
-                    <h4 className="font-medium text-sm">{device.name}</h4>
-                    <p className="text-xs text-muted-foreground">{device.ip}</p>
+                    <div className="flex items-center gap-2">
+                      <h4 className="font-medium text-sm">{device.name}</h4>
+                      {device.kind && (
+                        <Badge variant="outline" className="text-[10px] px-1 py-0">
+                          {KIND_LABELS[device.kind]}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {device.ip}{device.port ? `:${device.port}` : ''}
+                      {device.version && ` • v${device.version}`}
+                    </p>
                     {device.mac && (
                       <p className="text-xs text-muted-foreground">MAC: {device.mac}</p>
                     )}
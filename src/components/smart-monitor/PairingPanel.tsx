@@ -0,0 +1,273 @@
+import React, { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { KeyRound, Link2, Loader2, RefreshCw, Smartphone, Trash2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { piClient } from '@/lib/piClient';
+import { deviceRegistry, type PiDeviceProfile } from '@/lib/deviceRegistry';
+import { PairingQrPayloadSchema, type PairedClient, type PairingCode } from '@/lib/piSchemas';
+
+interface PairingPanelProps {
+  onPaired: (device: PiDeviceProfile) => void;
+  isConnecting?: boolean;
+}
+
+const CODE_LENGTH = 6;
+
+export const PairingPanel: React.FC<PairingPanelProps> = ({ onPaired, isConnecting }) => {
+  const defaultDevice = deviceRegistry.getDefaultDevice();
+  const [host, setHost] = useState(defaultDevice?.host ?? '');
+  const [port, setPort] = useState(String(defaultDevice?.port ?? 5000));
+  const [clientName, setClientName] = useState('');
+  const [code, setCode] = useState('');
+  const [qrPayload, setQrPayload] = useState('');
+  const [isPairing, setIsPairing] = useState(false);
+  const [monitorCode, setMonitorCode] = useState<PairingCode | null>(null);
+  const [pairedClients, setPairedClients] = useState<PairedClient[]>([]);
+  const [currentClientId, setCurrentClientId] = useState<string | null>(null);
+  const [isLoadingClients, setIsLoadingClients] = useState(false);
+
+  // Fill host, port and code from the payload encoded in the monitor's QR code
+  const applyQrPayload = (value: string) => {
+    setQrPayload(value);
+    if (!value.trim()) return;
+
+    try {
+      const parsed = PairingQrPayloadSchema.safeParse(JSON.parse(value));
+      if (parsed.success) {
+        setHost(parsed.data.host);
+        setPort(String(parsed.data.port));
+        setCode(parsed.data.code);
+      }
+    } catch {
+      // Keep waiting until the pasted payload is complete JSON
+    }
+  };
+
+  const showMonitorCode = async () => {
+    const result = await piClient.getPairingCode();
+    if (result.success && result.data) {
+      setMonitorCode(result.data);
+      return;
+    }
+
+    toast({
+      title: "Pairing Code Unavailable",
+      description: result.status === 403
+        ? "The pairing code is only shown on the monitor itself"
+        : result.error || "Could not load the pairing code",
+      variant: "destructive"
+    });
+  };
+
+  const pairDevice = async () => {
+    const portNumber = Number(port);
+    if (!host.trim() || !Number.isInteger(portNumber) || portNumber < 1 || portNumber > 65535) {
+      toast({
+        title: "Invalid Device",
+        description: "Please enter a host and a port between 1 and 65535",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsPairing(true);
+    try {
+      const name = clientName.trim() || navigator.userAgent.split(' ')[0];
+      const result = await piClient.pair(host.trim(), portNumber, code, name);
+
+      if (!result.success || !result.data) {
+        toast({
+          title: "Pairing Failed",
+          description: result.error || "The monitor rejected the pairing code",
+          variant: "destructive"
+        });
+        setCode('');
+        return;
+      }
+
+      const existing = deviceRegistry.getDevice(`${host.trim()}:${portNumber}`);
+      const saved = deviceRegistry.saveDevice({
+        id: existing?.id,
+        name: existing?.name ?? host.trim(),
+        host: host.trim(),
+        port: portNumber,
+        authToken: result.data.token
+      });
+
+      setCode('');
+      setQrPayload('');
+
+      toast({
+        title: "Device Paired",
+        description: `Paired as "${result.data.client.name}" with ${saved.host}:${saved.port}`,
+      });
+
+      onPaired(saved);
+    } finally {
+      setIsPairing(false);
+    }
+  };
+
+  const loadPairedClients = async () => {
+    setIsLoadingClients(true);
+    try {
+      const result = await piClient.getPairedClients();
+      if (result.success && result.data) {
+        setPairedClients(result.data.clients);
+        setCurrentClientId(result.data.currentClientId);
+      } else {
+        toast({
+          title: "Paired Clients Unavailable",
+          description: result.error || "Could not load paired clients",
+          variant: "destructive"
+        });
+      }
+    } finally {
+      setIsLoadingClients(false);
+    }
+  };
+
+  const revokeClient = async (client: PairedClient) => {
+    const result = await piClient.revokePairedClient(client.id);
+    if (!result.success) {
+      toast({
+        title: "Revoke Failed",
+        description: result.error || `Could not revoke ${client.name}`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setPairedClients(prev => prev.filter(candidate => candidate.id !== client.id));
+    toast({
+      title: "Client Revoked",
+      description: `${client.name} can no longer control the monitor`,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-3 space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium flex items-center gap-2">
+            <KeyRound className="h-4 w-4 text-primary" />
+            This Monitor
+          </span>
+          <Button variant="outline" size="sm" onClick={showMonitorCode}>
+            {monitorCode ? 'Refresh Code' : 'Show Pairing Code'}
+          </Button>
+        </div>
+        {monitorCode && (
+          <div className="space-y-1 text-center">
+            <div className="text-3xl font-mono tracking-[0.5em]">{monitorCode.code}</div>
+            <p className="text-xs text-muted-foreground">
+              Expires at {new Date(monitorCode.expiresAt).toLocaleTimeString()}
+            </p>
+            <p className="text-xs text-muted-foreground font-mono break-all">{monitorCode.qrPayload}</p>
+          </div>
+        )}
+      </Card>
+
+      <div className="space-y-2">
+        <div>
+          <Label htmlFor="pairing-qr">QR Payload</Label>
+          <Input
+            id="pairing-qr"
+            placeholder='{"host":"...","port":5000,"code":"..."}'
+            value={qrPayload}
+            onChange={(e) => applyQrPayload(e.target.value)}
+          />
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <div className="col-span-2">
+            <Label htmlFor="pairing-host">Host</Label>
+            <Input
+              id="pairing-host"
+              placeholder="smartmonitor.local"
+              value={host}
+              onChange={(e) => setHost(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="pairing-port">Port</Label>
+            <Input
+              id="pairing-port"
+              placeholder="5000"
+              value={port}
+              onChange={(e) => setPort(e.target.value)}
+            />
+          </div>
+        </div>
+        <div>
+          <Label htmlFor="pairing-name">This Device</Label>
+          <Input
+            id="pairing-name"
+            placeholder="My phone"
+            value={clientName}
+            onChange={(e) => setClientName(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>Pairing Code</Label>
+          <InputOTP maxLength={CODE_LENGTH} value={code} onChange={setCode}>
+            <InputOTPGroup>
+              {Array.from({ length: CODE_LENGTH }, (_, index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+        <Button
+          className="w-full"
+          disabled={code.length !== CODE_LENGTH || isPairing || isConnecting}
+          onClick={pairDevice}
+        >
+          {isPairing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Link2 className="h-4 w-4 mr-2" />}
+          Pair Device
+        </Button>
+      </div>
+
+      {piClient.isConnected() && (
+        <div className="space-y-2 border-t border-border/50 pt-4">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">Paired Clients</span>
+            <Button variant="ghost" size="sm" disabled={isLoadingClients} onClick={loadPairedClients}>
+              <RefreshCw className={`h-3 w-3 ${isLoadingClients ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+          <div className="space-y-2 max-h-40 overflow-y-auto">
+            {pairedClients.map(client => (
+              <Card key={client.id} className="p-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Smartphone className="h-4 w-4 text-primary shrink-0" />
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm truncate">{client.name}</span>
+                        {client.id === currentClientId && (
+                          <Badge variant="secondary" className="text-xs">This device</Badge>
+                        )}
+                      </div>
+                      <span className="text-xs text-muted-foreground">
+                        Paired {new Date(client.pairedAt).toLocaleDateString()}
+                        {client.lastSeenAt ? ` • seen ${new Date(client.lastSeenAt).toLocaleString()}` : ''}
+                      </span>
+                    </div>
+                  </div>
+                  <Button variant="ghost" size="sm" title="Revoke" onClick={() => revokeClient(client)}>
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </Card>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
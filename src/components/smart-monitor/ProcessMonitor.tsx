@@ -0,0 +1,243 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Activity, ArrowDown, ArrowUp, ArrowUpDown, Loader2, Lock, MoreHorizontal } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useProcesses } from '@/hooks/use-pi-queries';
+import { piClient } from '@/lib/piClient';
+import type { PiProcess, ProcessActionConfirmation } from '@/lib/piSchemas';
+
+type SortKey = 'pid' | 'command' | 'user' | 'cpu' | 'memory' | 'uptimeSeconds';
+
+const COLUMNS: { key: SortKey; label: string; numeric?: boolean }[] = [
+  { key: 'pid', label: 'PID', numeric: true },
+  { key: 'command', label: 'Command' },
+  { key: 'user', label: 'User' },
+  { key: 'cpu', label: 'CPU %', numeric: true },
+  { key: 'memory', label: 'Mem %', numeric: true },
+  { key: 'uptimeSeconds', label: 'Uptime', numeric: true },
+];
+
+const SIGNALS = [
+  { signal: 'TERM', label: 'End process (SIGTERM)' },
+  { signal: 'KILL', label: 'Force kill (SIGKILL)' },
+];
+
+const PRIORITIES = [
+  { priority: 19, label: 'Lowest priority (nice 19)' },
+  { priority: 10, label: 'Low priority (nice 10)' },
+  { priority: 0, label: 'Normal priority (nice 0)' },
+];
+
+// "3d 5h", "2h 14m", "45s"
+const formatUptime = (seconds: number) => {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m`;
+  return `${seconds}s`;
+};
+
+const describeAction = ({ action }: ProcessActionConfirmation) =>
+  action.type === 'kill' ? `send SIG${action.signal} to` : `set the nice value to ${action.priority} for`;
+
+// Busiest processes on the Pi, refreshed every few seconds. Kill and renice
+// ask the Pi first; it answers with a token that the confirm dialog sends back.
+export const ProcessMonitor: React.FC = () => {
+  const { data, isPending, isError, isFetching, refetch } = useProcesses();
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'cpu', descending: true });
+  const [confirmation, setConfirmation] = useState<ProcessActionConfirmation | null>(null);
+  const [busyPid, setBusyPid] = useState<number | null>(null);
+
+  const processes = [...(data?.processes ?? [])].sort((a, b) => {
+    const order = typeof a[sort.key] === 'string'
+      ? String(a[sort.key]).localeCompare(String(b[sort.key]))
+      : Number(a[sort.key]) - Number(b[sort.key]);
+    return sort.descending ? -order : order;
+  });
+
+  const sortBy = (key: SortKey) => {
+    setSort(current => current.key === key
+      ? { key, descending: !current.descending }
+      : { key, descending: COLUMNS.find(column => column.key === key)?.numeric ?? false });
+  };
+
+  const requestAction = async (process: PiProcess, request: () => ReturnType<typeof piClient.requestKillProcess>) => {
+    setBusyPid(process.pid);
+    const result = await request();
+    setBusyPid(null);
+
+    if (result.success && result.data) {
+      setConfirmation(result.data);
+    } else {
+      toast({
+        title: "Action Refused",
+        description: result.error || `Could not act on ${process.command} (${process.pid})`,
+        variant: "destructive"
+      });
+      refetch();
+    }
+  };
+
+  const confirmAction = async () => {
+    if (!confirmation) return;
+    const { process, action, confirmToken } = confirmation;
+    setConfirmation(null);
+    setBusyPid(process.pid);
+
+    const result = action.type === 'kill'
+      ? await piClient.killProcess(process.pid, action.signal, confirmToken)
+      : await piClient.reniceProcess(process.pid, action.priority, confirmToken);
+    setBusyPid(null);
+
+    if (result.success && result.data) {
+      toast({ title: "Process Updated", description: `${result.data.message} (${process.pid})` });
+    } else {
+      toast({
+        title: "Action Failed",
+        description: result.error || `Could not act on ${process.command} (${process.pid})`,
+        variant: "destructive"
+      });
+    }
+    refetch();
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Activity className="h-5 w-5 text-primary" />
+          Processes
+          {data && <Badge variant="secondary" className="text-xs">{data.total} running</Badge>}
+          {isFetching && <Loader2 className="h-3 w-3 ml-auto animate-spin text-muted-foreground" />}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isPending ? (
+          <div className="flex items-center justify-center py-6 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Loading processes...
+          </div>
+        ) : isError ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">
+            Processes are unavailable while the Pi is offline
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {COLUMNS.map(column => (
+                  <TableHead key={column.key} className={column.numeric ? 'text-right' : undefined}>
+                    <button
+                      type="button"
+                      className="inline-flex items-center gap-1 hover:text-foreground"
+                      onClick={() => sortBy(column.key)}
+                    >
+                      {column.label}
+                      {sort.key !== column.key ? (
+                        <ArrowUpDown className="h-3 w-3 opacity-50" />
+                      ) : sort.descending ? (
+                        <ArrowDown className="h-3 w-3" />
+                      ) : (
+                        <ArrowUp className="h-3 w-3" />
+                      )}
+                    </button>
+                  </TableHead>
+                ))}
+                <TableHead className="w-10" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {processes.map(process => (
+                <TableRow key={process.pid}>
+                  <TableCell className="text-right font-mono text-xs">{process.pid}</TableCell>
+                  <TableCell className="max-w-[12rem] truncate text-xs" title={process.args}>
+                    {process.command}
+                    {process.nice !== null && process.nice !== 0 && (
+                      <span className="ml-1 text-muted-foreground">(nice {process.nice})</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs">{process.user}</TableCell>
+                  <TableCell className="text-right text-xs">{process.cpu.toFixed(1)}</TableCell>
+                  <TableCell className="text-right text-xs">{process.memory.toFixed(1)}</TableCell>
+                  <TableCell className="text-right text-xs">{formatUptime(process.uptimeSeconds)}</TableCell>
+                  <TableCell className="p-2">
+                    {process.protected ? (
+                      <span className="flex justify-center" title={`Protected: ${process.protectedReason}`}>
+                        <Lock className="h-3 w-3 text-muted-foreground" />
+                      </span>
+                    ) : (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="sm" className="h-6 w-6 p-0" disabled={busyPid === process.pid}>
+                            {busyPid === process.pid
+                              ? <Loader2 className="h-3 w-3 animate-spin" />
+                              : <MoreHorizontal className="h-3 w-3" />}
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuLabel>{process.command} ({process.pid})</DropdownMenuLabel>
+                          {SIGNALS.map(({ signal, label }) => (
+                            <DropdownMenuItem
+                              key={signal}
+                              onClick={() => requestAction(process, () => piClient.requestKillProcess(process.pid, signal))}
+                            >
+                              {label}
+                            </DropdownMenuItem>
+                          ))}
+                          <DropdownMenuSeparator />
+                          {PRIORITIES.map(({ priority, label }) => (
+                            <DropdownMenuItem
+                              key={priority}
+                              disabled={process.nice === priority}
+                              onClick={() => requestAction(process, () => piClient.requestReniceProcess(process.pid, priority))}
+                            >
+                              {label}
+                            </DropdownMenuItem>
+                          ))}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <AlertDialog open={confirmation !== null} onOpenChange={(open) => !open && setConfirmation(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Confirm Process Action</AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirmation && (
+                <>
+                  Are you sure you want to {describeAction(confirmation)} {confirmation.process.command} (PID {confirmation.process.pid}, {confirmation.process.user})?
+                  <span className="mt-2 block break-all font-mono text-xs">{confirmation.process.args}</span>
+                </>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmAction}>Confirm</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
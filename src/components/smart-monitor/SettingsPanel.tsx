@@ -5,9 +5,15 @@ import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Slider } from '@/components/ui/slider';
 import { Badge } from '@/components/ui/badge';
-import { Settings, Palette, Moon, Sun, Wifi, Bluetooth, Volume2, Monitor, Smartphone } from 'lucide-react';
+import { Settings, Palette, Moon, Sun, Wifi, Bluetooth, Volume2, Monitor, Smartphone, CloudUpload } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
-import axios from 'axios';
+import { usePiEvent, usePiEventStreamOpen } from '@/hooks/use-pi-event';
+import { usePiOutboxEnabled } from '@/hooks/use-pi-outbox';
+import { usePiSystemInfo } from '@/hooks/use-pi-queries';
+import { piApi } from '@/lib/piApi';
+import { piClient } from '@/lib/piClient';
+import { PiStatusSchema, parsePiPayload } from '@/lib/piSchemas';
+import { TelemetryHistoryChart } from './TelemetryHistoryChart';
 
 interface SettingsPanelProps {
   systemInfo?: {
@@ -44,62 +50,53 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
     voiceCommands: false
   });
 
-  // System info state
-  const [systemInfo, setSystemInfo] = useState(
-    propSystemInfo || {
-      version: '2.1.4',
-      uptime: '15 days, 3 hours',
-      storage: {
-        used: 45,
-        total: 128
-      },
-      memory: {
-        used: 2.8,
-        total: 8
-      },
-      temperature: 42
-    }
-  );
+  // System info is shared with the footer through the query cache
+  const { data: fetchedSystemInfo } = usePiSystemInfo();
+  const systemInfo = fetchedSystemInfo ?? propSystemInfo ?? {
+    version: '2.1.4',
+    uptime: '15 days, 3 hours',
+    storage: {
+      used: 45,
+      total: 128
+    },
+    memory: {
+      used: 2.8,
+      total: 8
+    },
+    temperature: 42
+  };
+
+  const queueOfflineCommands = usePiOutboxEnabled();
 
   // Track Pi connection status
   const [piConnected, setPiConnected] = useState(false); // Start as disconnected until verified
 
-  // Poll Pi connection and system info every 1 minute
+  // Load the Pi connection status; after that the event stream keeps it current
+  const syncStatus = React.useCallback(async () => {
+    try {
+      const connRes = await piApi.get('/api/pi/status');
+      setPiConnected(parsePiPayload(PiStatusSchema, connRes.data, 'GET /api/pi/status').connected);
+    } catch (err) {
+      // No toast for background syncs, but keep invalid payloads visible in the console
+      console.warn('Settings status sync failed:', err instanceof Error ? err.message : err);
+      setPiConnected(false);
+    }
+  }, []);
+
   React.useEffect(() => {
-    const pollStatus = async () => {
-      try {
-        // Check Pi connection status
-        const connRes = await axios.get('/api/pi/status');
-        const isConnected = connRes.data.connected;
-        setPiConnected(isConnected);
+    syncStatus();
+  }, [syncStatus]);
 
-        // Only fetch system info if Pi is connected
-        if (isConnected) {
-          const sysRes = await axios.get('/api/system/info');
-          if (sysRes.data.success) {
-            setSystemInfo(sysRes.data);
-          }
-        }
-      } catch (err) {
-        // Handle error silently, no backend terminal printing
-        setPiConnected(false);
-      }
-    };
-    
-    // Initial poll
-    pollStatus();
-    
-    // Set up interval for every 1 minute
-    const interval = setInterval(pollStatus, 60000); // 1 min
-    
-    return () => clearInterval(interval);
-  }, []);
+  // Re-sync whatever was missed while the stream was down
+  usePiEventStreamOpen(syncStatus);
+
+  usePiEvent('pi.status', ({ connected }) => setPiConnected(connected));
 
   const updateSetting = async (key: string, value: unknown) => {
     try {
       setSettings(prev => ({ ...prev, [key]: value }));
       
-      await axios.post('/api/settings/update', { [key]: value });
+      await piApi.post('/api/settings/update', { [key]: value });
       
       toast({
         title: "Setting Updated",
@@ -127,7 +124,7 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
         };
       });
       
-      await axios.post('/api/settings/update', { [parent]: { [key]: value } });
+      await piApi.post('/api/settings/update', { [parent]: { [key]: value } });
       
       toast({
         title: "Setting Updated",
@@ -156,7 +153,7 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
 
   const restartSystem = async () => {
     try {
-      await axios.post('/api/system/restart');
+      await piApi.post('/api/system/restart');
       toast({
         title: "Restarting System",
         description: "Smart monitor will restart in a few seconds",
@@ -173,7 +170,7 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
 
   const resetSettings = async () => {
     try {
-      await axios.post('/api/settings/reset');
+      await piApi.post('/api/settings/reset');
       toast({
         title: "Settings Reset",
         description: "All settings have been reset to defaults",
@@ -284,6 +281,18 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
                 />
               </div>
             </div>
+
+            {/* Brightness, volume, screen, wallpaper and todos sent while the Pi is unreachable */}
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <CloudUpload className="h-4 w-4" />
+                <label className="text-sm font-medium">Queue Commands While Offline</label>
+              </div>
+              <Switch
+                checked={queueOfflineCommands}
+                onCheckedChange={(checked) => piClient.outbox.setEnabled(checked)}
+              />
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -398,6 +407,8 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
         </CardContent>
       </Card>
 
+      <TelemetryHistoryChart />
+
       <Card className="glass-card">
         <CardHeader>
           <CardTitle>System Actions</CardTitle>
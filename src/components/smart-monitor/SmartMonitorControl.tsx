@@ -14,8 +14,14 @@ import {
   Moon,
   Sun
 } from 'lucide-react';
+import { useQueryClient } from '@tanstack/react-query';
 import { toast } from '@/hooks/use-toast';
+import { usePiCapabilities } from '@/hooks/use-pi-capabilities';
+import { piQueries, piQueryKeys, usePiSystemInfo, useWallpapers } from '@/hooks/use-pi-queries';
 import { piClient } from '@/lib/piClient';
+import { deviceRegistry } from '@/lib/deviceRegistry';
+import { isFeatureAvailable } from '@/lib/piCapabilities';
+import type { SystemInfo } from '@/lib/piSchemas';
 import { WallpaperManager } from './WallpaperManager';
 import { SystemControls } from './SystemControls';
 import { TodoManager } from './TodoManager';
@@ -35,39 +41,30 @@ interface NetworkDevice {
   lastSeen?: string;
 }
 
-interface PiWallpaper {
-  id: string;
-  fileName: string;
-  displayName: string;
-  size: string;
-  resolution: string;
-  category?: string;
-  url?: string;
-}
-
-interface SystemInfo {
-  uptime: string;
-  temperature: number;
-  version: string;
-  memoryUsage: number;
-  memory: { used: number; total: number };
-  storage: { used: number; total: number };
-  cpu: { usage: number; model: string };
-  timestamp?: string;
-}
-
 type TabType = 'wallpaper' | 'system' | 'todo' | 'games' | 'cctv' | 'spotify' | 'settings';
 
+// `feature` names the capability the tab needs from the backend manifest
 const tabs = [
-  { id: 'wallpaper', label: 'Wallpaper', icon: Image },
-  { id: 'system', label: 'System', icon: Monitor },
-  { id: 'todo', label: 'Tasks', icon: CheckSquare },
-  { id: 'games', label: 'Games', icon: Gamepad2 },
-  { id: 'cctv', label: 'CCTV', icon: Wifi },
-  { id: 'spotify', label: 'Music', icon: Bluetooth },
-  { id: 'settings', label: 'Settings', icon: Settings },
+  { id: 'wallpaper', label: 'Wallpaper', icon: Image, feature: 'wallpapers' },
+  { id: 'system', label: 'System', icon: Monitor, feature: 'system' },
+  { id: 'todo', label: 'Tasks', icon: CheckSquare, feature: 'todo' },
+  { id: 'games', label: 'Games', icon: Gamepad2, feature: 'games' },
+  { id: 'cctv', label: 'CCTV', icon: Wifi, feature: 'cctv' },
+  { id: 'spotify', label: 'Music', icon: Bluetooth, feature: 'spotify' },
+  { id: 'settings', label: 'Settings', icon: Settings, feature: null },
 ] as const;
 
+// Shown until the first system info arrives from the Pi
+const PLACEHOLDER_SYSTEM_INFO: SystemInfo = {
+  uptime: 'Loading...',
+  temperature: 0,
+  version: 'Loading...',
+  memoryUsage: 0,
+  memory: { used: 0, total: 0 },
+  storage: { used: 0, total: 0 },
+  cpu: { usage: 0, model: 'Loading...' }
+};
+
 export const SmartMonitorControl: React.FC = () => {
   const [activeTab, setActiveTab] = useState<TabType>('wallpaper');
   const [isDarkMode, setIsDarkMode] = useState(() => {
@@ -81,18 +78,26 @@ export const SmartMonitorControl: React.FC = () => {
     uptime: '15 days'
   });
 
-  const [systemInfo, setSystemInfo] = useState({
-    uptime: 'Loading...',
-    temperature: 0,
-    version: 'Loading...',
-    memoryUsage: 0,
-    memory: { used: 0, total: 0 },
-    storage: { used: 0, total: 0 },
-    cpu: { usage: 0, model: 'Loading...' }
-  });
+  const queryClient = useQueryClient();
+  const { data: fetchedSystemInfo } = usePiSystemInfo();
+  const systemInfo = fetchedSystemInfo ?? PLACEHOLDER_SYSTEM_INFO;
+  const { data: wallpaperList } = useWallpapers();
+  const [isRefreshingSystemInfo, setIsRefreshingSystemInfo] = useState(false);
+  const { manifest } = usePiCapabilities();
 
-  const [wallpapers, setWallpapers] = useState<PiWallpaper[]>([]);
-  const [isLoadingSystemInfo, setIsLoadingSystemInfo] = useState(false);
+  const isTabAvailable = useCallback(
+    (tab: (typeof tabs)[number]) => !tab.feature || isFeatureAvailable(manifest, tab.feature),
+    [manifest]
+  );
+
+  // Leave a tab the newly connected device cannot serve
+  useEffect(() => {
+    const current = tabs.find((tab) => tab.id === activeTab);
+    if (current && !isTabAvailable(current)) {
+      const fallback = tabs.find(isTabAvailable);
+      if (fallback) setActiveTab(fallback.id);
+    }
+  }, [activeTab, isTabAvailable]);
 
   const toggleTheme = () => {
     const newTheme = isDarkMode ? 'light' : 'dark';
@@ -101,51 +106,49 @@ export const SmartMonitorControl: React.FC = () => {
     localStorage.setItem('theme', newTheme);
   };
 
-  // Fetch system information from the Pi
-  const fetchSystemInfo = useCallback(async () => {
-    if (isLoadingSystemInfo) return;
+  // Manual refresh from the footer: connect if needed, then refetch the Pi's cached data
+  const refreshSystemInfo = async () => {
+    if (isRefreshingSystemInfo) return;
     
-    setIsLoadingSystemInfo(true);
+    setIsRefreshingSystemInfo(true);
     try {
       console.log('📊 Checking Pi connection status...');
       
-      // First check if backend server is reachable and Pi is connected
-      let piConnected = false;
-      
       if (!piClient.isConnected()) {
-        console.log('🔗 Attempting to connect to backend...');
-        const connected = await piClient.connect('192.168.234.180', 5000);
+        const device = deviceRegistry.getActiveDevice() ?? deviceRegistry.getDefaultDevice();
+        if (!device) {
+          throw new Error('No saved device. Connect to your Pi from the Navbar first.');
+        }
+
+        console.log(`🔗 Attempting to connect to ${device.name}...`);
+        const connected = await piClient.connectToDevice(device);
         if (!connected) {
           throw new Error('Backend server not reachable or Pi not connected');
         }
-        piConnected = true;
       } else {
         // Already connected to backend, but check if Pi is still connected
-        piConnected = await piClient.checkPiStatus();
+        const piConnected = await piClient.checkPiStatus();
         if (!piConnected) {
           throw new Error('Pi is not connected');
         }
       }
 
+      // Read the base URL after connecting; it scopes the cache to this Pi
+      const { baseUrl } = piClient.capabilities.getSnapshot();
       console.log('📊 Fetching system info from Pi...');
-      const response = await piClient.getSystemInfo();
-      
-      if (response?.success && response.data) {
-        console.log('✅ System info received:', response.data);
-        const systemData = response.data as SystemInfo;
-        setSystemInfo(systemData);
-        
-        // Also update temperature in system status
-        setSystemStatus(prev => ({
-          ...prev,
-          temperature: systemData.temperature,
-          uptime: systemData.uptime,
-          connected: true,
-          lastSeen: 'Just now'
-        }));
-      } else {
-        throw new Error(response?.error || 'Failed to fetch system info');
-      }
+      await queryClient.fetchQuery({ ...piQueries.systemInfo(baseUrl), staleTime: 0 });
+      void queryClient.invalidateQueries({ queryKey: piQueryKeys.wallpapers(baseUrl) });
+
+      setSystemStatus(prev => ({
+        ...prev,
+        connected: true,
+        lastSeen: 'Just now'
+      }));
+
+      toast({
+        title: "System Info Updated",
+        description: "Fresh system information has been fetched from Pi",
+      });
     } catch (error) {
       console.error('❌ Error fetching system info:', error);
       
@@ -161,30 +164,16 @@ export const SmartMonitorControl: React.FC = () => {
         description: `Failed to fetch system information: ${error instanceof Error ? error.message : 'Unknown error'}`,
         variant: "destructive",
       });
-      
-      // Mark as disconnected
-      setSystemStatus(prev => ({
-        ...prev,
-        connected: false,
-        lastSeen: 'Connection failed'
-      }));
     } finally {
-      setIsLoadingSystemInfo(false);
+      setIsRefreshingSystemInfo(false);
     }
-  }, [isLoadingSystemInfo]);
+  };
 
   // Apply theme on mount
   useEffect(() => {
     document.documentElement.classList.toggle('dark', isDarkMode);
   }, [isDarkMode]);
 
-  // Removed automatic system info fetching - now only fetched manually via footer button
-  // useEffect(() => {
-  //   fetchSystemInfo();
-  //   const interval = setInterval(fetchSystemInfo, 30000);
-  //   return () => clearInterval(interval);
-  // }, [fetchSystemInfo]);
-
   const handleConnectionChange = (connected: boolean, device?: NetworkDevice) => {
     setSystemStatus(prev => ({
       ...prev,
@@ -200,15 +189,15 @@ export const SmartMonitorControl: React.FC = () => {
     }
   };
 
-  const handleWallpapersUpdate = (newWallpapers: PiWallpaper[]) => {
-    console.log('🎨 Updating wallpaper state:', newWallpapers);
-    setWallpapers(newWallpapers);
-  };
+  // The navbar shows the latest temperature and uptime once the Pi has reported them
+  const navbarStatus = fetchedSystemInfo
+    ? { ...systemStatus, temperature: fetchedSystemInfo.temperature, uptime: fetchedSystemInfo.uptime }
+    : systemStatus;
 
   const renderContent = () => {
     switch (activeTab) {
       case 'wallpaper':
-        return <WallpaperManager piWallpapers={wallpapers} />;
+        return <WallpaperManager piWallpapers={wallpaperList?.wallpapers} />;
       case 'system':
         return <SystemControls />;
       case 'todo':
@@ -232,9 +221,8 @@ export const SmartMonitorControl: React.FC = () => {
       <Navbar 
         isDarkMode={isDarkMode}
         onToggleTheme={toggleTheme}
-        systemStatus={systemStatus}
+        systemStatus={navbarStatus}
         onConnectionChange={handleConnectionChange}
-        onWallpapersUpdate={handleWallpapersUpdate}
       />
 
       {/* Main Content */}
@@ -246,12 +234,15 @@ export const SmartMonitorControl: React.FC = () => {
               {tabs.map((tab) => {
                 const IconComponent = tab.icon;
                 const isActive = activeTab === tab.id;
+                const isAvailable = isTabAvailable(tab);
                 
                 return (
                   <Button
                     key={tab.id}
                     variant={isActive ? "default" : "ghost"}
-                    className={`min-w-[80px] h-20 flex flex-col items-center justify-center gap-2 transition-all duration-300 ${
+                    disabled={!isAvailable}
+                    title={isAvailable ? undefined : 'Unavailable on this device'}
+                    className={`relative min-w-[80px] h-20 flex flex-col items-center justify-center gap-2 transition-all duration-300 ${
                       isActive 
                         ? 'bg-gradient-primary shadow-neon text-primary-foreground scale-105' 
                         : 'hover:bg-muted/50 hover:scale-102'
@@ -260,6 +251,11 @@ export const SmartMonitorControl: React.FC = () => {
                   >
                     <IconComponent className="h-6 w-6" />
                     <span className="text-xs font-medium leading-tight">{tab.label}</span>
+                    {!isAvailable && (
+                      <Badge variant="secondary" className="absolute -top-1 -right-1 px-1 py-0 text-[10px]">
+                        N/A
+                      </Badge>
+                    )}
                   </Button>
                 );
               })}
@@ -276,27 +272,8 @@ export const SmartMonitorControl: React.FC = () => {
       {/* Footer */}
       <Footer 
         systemInfo={systemInfo} 
-        onSystemInfoUpdate={(newSystemInfo) => {
-          // Ensure all required properties are present with defaults
-          const updatedSystemInfo = {
-            uptime: newSystemInfo.uptime,
-            temperature: newSystemInfo.temperature,
-            version: newSystemInfo.version,
-            memoryUsage: newSystemInfo.memoryUsage,
-            memory: newSystemInfo.memory || { used: 0, total: 0 },
-            storage: newSystemInfo.storage || { used: 0, total: 0 },
-            cpu: newSystemInfo.cpu || { usage: 0, model: 'unknown' }
-          };
-          
-          setSystemInfo(updatedSystemInfo);
-          setSystemStatus(prev => ({
-            ...prev,
-            temperature: newSystemInfo.temperature,
-            uptime: newSystemInfo.uptime,
-            connected: true,
-            lastSeen: 'Just now'
-          }));
-        }}
+        isRefreshing={isRefreshingSystemInfo}
+        onRefresh={refreshSystemInfo}
       />
     </div>
   );
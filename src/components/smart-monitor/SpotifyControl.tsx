@@ -21,12 +21,11 @@ import {
   Cast
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import axios from 'axios';
+import { usePiEvent, usePiEventStreamOpen } from '@/hooks/use-pi-event';
+import { useSpotifyNowPlaying } from '@/hooks/use-pi-queries';
+import { piApi, PiApiError } from '@/lib/piApi';
 import { User } from "lucide-react";
 
-// Set Axios base URL to ensure requests target the correct backend port
-axios.defaults.baseURL = 'http://localhost:5000';
-
 interface SpotifyTrack {
   id: string;
   name: string;
@@ -92,9 +91,9 @@ export const SpotifyControl: React.FC = () => {
 
   // Helper function to handle Spotify API errors
   const handleSpotifyError = (error: unknown, action: string) => {
-    if (axios.isAxiosError(error)) {
+    if (error instanceof PiApiError) {
       // Handle 403 Forbidden (token expired/invalid)
-      if (error.response?.status === 403) {
+      if (error.status === 403) {
         setIsConnected(false);
         setCurrentUser(null);
         setSpotifyState(prev => ({ ...prev, track: null }));
@@ -110,7 +109,7 @@ export const SpotifyControl: React.FC = () => {
       }
       
       // Handle 401 Unauthorized
-      if (error.response?.status === 401 || error.response?.data?.requireAuth) {
+      if (error.status === 401 || error.data?.requireAuth) {
         setIsConnected(false);
         setCurrentUser(null);
         // Clear mirror state when connection is lost
@@ -120,10 +119,10 @@ export const SpotifyControl: React.FC = () => {
       }
       
       // Handle specific error messages from the server
-      if (error.response?.data?.details) {
+      if (error.data?.details) {
         toast({
           title: "Error",
-          description: error.response.data.details,
+          description: String(error.data.details),
           variant: "destructive",
         });
         return;
@@ -138,69 +137,57 @@ export const SpotifyControl: React.FC = () => {
     });
   };
 
-  const fetchCurrentTrack = React.useCallback(async () => {
-    try {
-      const response = await axios.get('/api/spotify/current');
-      if (response.data.success) {
-        setSpotifyState({
-          isPlaying: response.data.isPlaying || false,
-          progress: response.data.progress || 0,
-          volume: response.data.volume || 75,
-          shuffleState: response.data.shuffleState || false,
-          repeatState: response.data.repeatState || 'off',
-          track: response.data.track || null,
-          device: response.data.device || null
+  // Now playing lives in the query cache, which spotify.nowPlaying events keep current
+  const { data: playback, error: playbackError, refetch: refetchPlayback } = useSpotifyNowPlaying();
+
+  useEffect(() => {
+    if (!isConnected || !playback?.success) return;
+    setSpotifyState({
+      isPlaying: playback.isPlaying || false,
+      progress: playback.progress || 0,
+      volume: playback.volume || 75,
+      shuffleState: playback.shuffleState || false,
+      repeatState: playback.repeatState || 'off',
+      track: playback.track || null,
+      device: playback.device || null
+    });
+  }, [isConnected, playback]);
+
+  useEffect(() => {
+    if (!isConnected || !(playbackError instanceof PiApiError)) return;
+
+    // Handle 403 Forbidden (token expired/invalid) and 401 Unauthorized (need to re-authenticate)
+    if (playbackError.status === 403 || playbackError.status === 401) {
+      console.warn('Spotify authentication required for the current track');
+      setIsConnected(false);
+      setCurrentUser(null);
+      setSpotifyState(prev => ({ ...prev, track: null }));
+      // Clear mirror state when connection is lost
+      setIsMirrorActive(false);
+      localStorage.removeItem('spotify-mirror-active');
+      if (playbackError.status === 403) {
+        toast({
+          title: "Spotify Session Expired",
+          description: "Please reconnect to Spotify to continue using the controls.",
+          variant: "destructive",
         });
       }
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
-        // Handle 403 Forbidden (token expired/invalid)
-        if (error.response?.status === 403) {
-          console.warn('Spotify token expired or invalid, requiring re-authentication');
-          setIsConnected(false);
-          setCurrentUser(null);
-          setSpotifyState(prev => ({ ...prev, track: null }));
-          // Clear mirror state when connection is lost
-          setIsMirrorActive(false);
-          localStorage.removeItem('spotify-mirror-active');
-          toast({
-            title: "Spotify Session Expired",
-            description: "Please reconnect to Spotify to continue using the controls.",
-            variant: "destructive",
-          });
-          return;
-        }
-        
-        // Handle 401 Unauthorized (need to re-authenticate)
-        if (error.response?.status === 401 || error.response?.data?.requireAuth) {
-          console.warn('Spotify authentication required');
-          setIsConnected(false);
-          setCurrentUser(null);
-          setSpotifyState(prev => ({ ...prev, track: null }));
-          // Clear mirror state when connection is lost
-          setIsMirrorActive(false);
-          localStorage.removeItem('spotify-mirror-active');
-          return;
-        }
-      }
-      
-      console.error('Error fetching current track:', error);
-      // Don't spam the user with error messages for track fetching failures
     }
-  }, [toast]);
+    // Other failures are not worth a toast for track fetching
+  }, [isConnected, playbackError, toast]);
 
   const fetchCurrentUser = React.useCallback(async () => {
     if (!isConnected) return;
     
     try {
-      const response = await axios.get('/api/spotify/user');
+      const response = await piApi.get('/api/spotify/user');
       if (response.data.success) {
         setCurrentUser(response.data.user);
       }
     } catch (error) {
-      if (axios.isAxiosError(error)) {
+      if (error instanceof PiApiError) {
         // Handle 403 Forbidden (token expired/invalid)
-        if (error.response?.status === 403) {
+        if (error.status === 403) {
           console.warn('Spotify token expired while fetching user info');
           setIsConnected(false);
           setCurrentUser(null);
@@ -211,7 +198,7 @@ export const SpotifyControl: React.FC = () => {
         }
         
         // Handle 401 Unauthorized (need to re-authenticate)
-        if (error.response?.status === 401 || error.response?.data?.requireAuth) {
+        if (error.status === 401 || error.data?.requireAuth) {
           console.warn('Spotify authentication required for user info');
           setIsConnected(false);
           setCurrentUser(null);
@@ -229,12 +216,12 @@ export const SpotifyControl: React.FC = () => {
 
   const checkSpotifyConnection = React.useCallback(async () => {
     try {
-      const response = await axios.get('/api/spotify/status');
+      const response = await piApi.get('/api/spotify/status');
       const connected = response.data.connected;
       setIsConnected(connected);
       
       if (connected) {
-        await fetchCurrentTrack();
+        await refetchPlayback();
         await fetchCurrentUser();
       } else {
         setSpotifyState(prev => ({ ...prev, track: null }));
@@ -246,7 +233,7 @@ export const SpotifyControl: React.FC = () => {
       setCurrentUser(null);
       
       // Only show error toast if it's a network/server error, not auth issues
-      if (axios.isAxiosError(error) && error.response?.status >= 500) {
+      if (error instanceof PiApiError && error.status >= 500) {
         toast({
           title: "Connection Error",
           description: "Failed to check Spotify connection status.",
@@ -254,11 +241,11 @@ export const SpotifyControl: React.FC = () => {
         });
       }
     }
-  }, [toast, fetchCurrentTrack, fetchCurrentUser]);
+  }, [toast, refetchPlayback, fetchCurrentUser]);
 
   const checkPiConnection = React.useCallback(async () => {
     try {
-      const response = await axios.get('/api/pi/status');
+      const response = await piApi.get('/api/pi/status');
       setIsPiConnected(response.data.connected || false);
     } catch (error) {
       console.warn('Pi connection check failed:', error);
@@ -275,7 +262,7 @@ export const SpotifyControl: React.FC = () => {
       // If mirror was active and connection is restored, notify Pi
       if (isMirrorActive && isConnected) {
         try {
-          await axios.post('/api/pi/spotify-mirror-control', {
+          await piApi.post('/api/pi/spotify-mirror-control', {
             enabled: true,
             action: 'restore'
           });
@@ -312,40 +299,33 @@ export const SpotifyControl: React.FC = () => {
     initializeSpotify();
   }, [toast, checkSpotifyConnection, checkPiConnection, isMirrorActive, isConnected, fetchCurrentUser]);
 
-  // Auto-refresh current track data when connected
-  useEffect(() => {
-    let interval: NodeJS.Timeout;
+  // Re-sync anything missed while the event stream was down
+  usePiEventStreamOpen(() => {
     if (isConnected) {
-      fetchCurrentTrack(); // Initial fetch
-      interval = setInterval(() => {
-        // Only continue polling if still connected
-        if (isConnected) {
-          fetchCurrentTrack();
-        }
-      }, 3000); // Update every 3 seconds
+      refetchPlayback();
     }
-    return () => {
-      if (interval) clearInterval(interval);
-    };
-  }, [isConnected, fetchCurrentTrack]);
+    checkPiConnection();
+  });
+
+  usePiEvent('pi.status', ({ connected }) => setIsPiConnected(connected));
 
-  // Periodic Pi connection check when mirror is active
+  // Advance the progress bar locally between now-playing events
   useEffect(() => {
-    let interval: NodeJS.Timeout;
-    if (isMirrorActive) {
-      interval = setInterval(() => {
-        checkPiConnection();
-      }, 10000); // Check every 10 seconds
-    }
-    return () => {
-      if (interval) clearInterval(interval);
-    };
-  }, [isMirrorActive, checkPiConnection]);
+    if (!spotifyState.isPlaying || !spotifyState.track) return;
+
+    const interval = setInterval(() => {
+      setSpotifyState(prev => ({
+        ...prev,
+        progress: prev.track ? Math.min(prev.progress + 1000, prev.track.duration) : prev.progress
+      }));
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [spotifyState.isPlaying, spotifyState.track]);
 
   // Mirror song to Pi functionality
   const sendSongToPi = React.useCallback(async (track: SpotifyTrack) => {
     try {
-      const response = await axios.post('/api/pi/spotify-mirror', {
+      const response = await piApi.post('/api/pi/spotify-mirror', {
         track: {
           id: track.id,
           name: track.name,
@@ -378,7 +358,7 @@ export const SpotifyControl: React.FC = () => {
       console.error('Failed to send song to Pi:', error);
       
       // Check if it's a server error but mirror is still enabled
-      if (axios.isAxiosError(error) && error.response?.status === 500 && error.response?.data?.mirrorEnabled) {
+      if (error instanceof PiApiError && error.status === 500 && error.data?.mirrorEnabled) {
         setLastMirroredTrackId(track.id);
         toast({
           title: "Song Queued",
@@ -404,7 +384,7 @@ export const SpotifyControl: React.FC = () => {
   const connectToSpotify = async () => {
     setIsLoading(true);
     try {
-      const response = await axios.get('/api/spotify/auth');
+      const response = await piApi.get('/api/spotify/auth');
       if (response.data.authUrl) {
         const authWindow = window.open(
           response.data.authUrl,
@@ -439,7 +419,7 @@ export const SpotifyControl: React.FC = () => {
 
   const disconnectSpotify = async () => {
     try {
-      await axios.post('/api/spotify/disconnect');
+      await piApi.post('/api/spotify/disconnect');
       setIsConnected(false);
       setCurrentUser(null);
       // Also clear mirror state when disconnecting
@@ -470,7 +450,7 @@ export const SpotifyControl: React.FC = () => {
   const handlePlayPause = async () => {
     try {
       const action = spotifyState.isPlaying ? 'pause' : 'play';
-      const response = await axios.post('/api/spotify/playback', { action });
+      const response = await piApi.post('/api/spotify/playback', { action });
       if (response.data.success) {
         setSpotifyState(prev => ({ ...prev, isPlaying: !prev.isPlaying }));
         toast({
@@ -485,14 +465,14 @@ export const SpotifyControl: React.FC = () => {
 
   const handleSkip = async (direction: 'next' | 'previous') => {
     try {
-      const response = await axios.post('/api/spotify/skip', { direction });
+      const response = await piApi.post('/api/spotify/skip', { direction });
       if (response.data.success) {
         toast({
           title: `Skipped ${direction === 'next' ? 'Forward' : 'Back'}`,
           description: response.data.message,
         });
         // Refresh track info after a short delay
-        setTimeout(fetchCurrentTrack, 1000);
+        setTimeout(() => refetchPlayback(), 1000);
       }
     } catch (error) {
       handleSpotifyError(error, 'skip track');
@@ -503,7 +483,7 @@ export const SpotifyControl: React.FC = () => {
     try {
       const volume = newVolume[0];
       setSpotifyState(prev => ({ ...prev, volume }));
-      await axios.post('/api/spotify/volume', { volume });
+      await piApi.post('/api/spotify/volume', { volume });
     } catch (error) {
       handleSpotifyError(error, 'adjust volume');
     }
@@ -512,7 +492,7 @@ export const SpotifyControl: React.FC = () => {
   const toggleShuffle = async () => {
     try {
       const newShuffle = !spotifyState.shuffleState;
-      const response = await axios.post('/api/spotify/shuffle', { enabled: newShuffle });
+      const response = await piApi.post('/api/spotify/shuffle', { enabled: newShuffle });
       if (response.data.success) {
         setSpotifyState(prev => ({ ...prev, shuffleState: newShuffle }));
         toast({
@@ -543,7 +523,7 @@ export const SpotifyControl: React.FC = () => {
           newMode = 'off';
       }
 
-      const response = await axios.post('/api/spotify/repeat', { mode: newMode });
+      const response = await piApi.post('/api/spotify/repeat', { mode: newMode });
       if (response.data.success) {
         setSpotifyState(prev => ({ ...prev, repeatState: newMode }));
         toast({
@@ -575,7 +555,7 @@ export const SpotifyControl: React.FC = () => {
       const newMirrorState = !isMirrorActive;
       
       // Send acknowledgment to Pi about mirror state
-      const response = await axios.post('/api/pi/spotify-mirror-control', {
+      const response = await piApi.post('/api/pi/spotify-mirror-control', {
         enabled: newMirrorState,
         action: newMirrorState ? 'start' : 'stop'
       });
@@ -617,8 +597,8 @@ export const SpotifyControl: React.FC = () => {
       console.error('Failed to toggle mirror:', error);
       
       // Check if it's a 500 error with mirror state info
-      if (axios.isAxiosError(error) && error.response?.status === 500 && error.response?.data?.mirrorActive !== undefined) {
-        const actualMirrorState = error.response.data.mirrorActive;
+      if (error instanceof PiApiError && error.status === 500 && error.data?.mirrorActive !== undefined) {
+        const actualMirrorState = error.data.mirrorActive === true;
         setIsMirrorActive(actualMirrorState);
         localStorage.setItem('spotify-mirror-active', JSON.stringify(actualMirrorState));
         
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
@@ -6,44 +6,38 @@ import { Switch } from '@/components/ui/switch';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { Monitor, Volume2, Power, RotateCcw, VolumeX, Sun } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
-import axios from 'axios';
+import { useSetBrightness, useSetScreen, useSetVolume, useSystemStatus } from '@/hooks/use-pi-queries';
+import { piApi } from '@/lib/piApi';
+import { AudioOutputSelector } from './AudioOutputSelector';
+import { ProcessMonitor } from './ProcessMonitor';
 
 export const SystemControls: React.FC = () => {
-  const [brightness, setBrightness] = useState([75]);
-  const [volume, setVolume] = useState([50]);
-  const [isMuted, setIsMuted] = useState(false);
-  const [screenOn, setScreenOn] = useState(true);
+  // Sliders and switch follow the cached control state; the mutations update it
+  // right away and events keep it in sync with other clients
+  const { data: status, refetch: refetchStatus } = useSystemStatus();
+  const brightness = [status?.brightness ?? 75];
+  const volume = [status?.volume ?? 50];
+  const isMuted = status?.muted ?? false;
+  const screenOn = status?.screenOn ?? true;
+  const { mutateAsync: sendBrightness } = useSetBrightness();
+  const { mutateAsync: sendVolume } = useSetVolume();
+  const { mutateAsync: sendScreen } = useSetScreen();
 
-  useEffect(() => {
-    // Load initial system state
-    loadSystemState();
-  }, []);
-
-  const loadSystemState = async () => {
-    try {
-      console.log('📊 Loading initial system state from Pi...');
-      const response = await axios.get('/api/system/status');
-      if (response.data.success) {
-        setBrightness([response.data.brightness || 75]);
-        setVolume([response.data.volume || 50]);
-        setIsMuted(response.data.muted || false);
-        setScreenOn(response.data.screenOn !== false);
-        console.log('✅ System state loaded successfully');
-      }
-    } catch (error) {
-      console.error('Failed to load system state:', error);
-      toast({
-        title: "Connection Error",
-        description: "Cannot load system state from Pi. Using defaults.",
-        variant: "destructive"
-      });
-    }
+  // Commands queued while the Pi is unreachable are applied on reconnect, so they aren't errors
+  const notifyQueued = (description: string) => {
+    toast({
+      title: "Queued",
+      description: `${description} once the Pi reconnects`,
+    });
   };
 
   const updateBrightness = async (value: number[]) => {
-    setBrightness(value);
     try {
-      await axios.post('/api/system/brightness', { level: value[0] });
+      const response = await sendBrightness(value[0]);
+      if (response.queued) {
+        notifyQueued(`Brightness will be set to ${value[0]}%`);
+        return;
+      }
       toast({
         title: "Brightness Updated",
         description: `Screen brightness set to ${value[0]}%`,
@@ -60,23 +54,18 @@ export const SystemControls: React.FC = () => {
 
   const updateVolume = async (value: number[]) => {
     const newVolume = value[0];
-    setVolume(value);
-    if (isMuted) setIsMuted(false);
-    
+
     try {
       console.log(`🔊 Setting volume to ${newVolume}%`);
-      const response = await axios.post('/api/system/volume', { 
-        level: newVolume, 
-        muted: false 
-      });
+      const response = await sendVolume({ level: newVolume, muted: false });
       
-      if (response.data.success) {
+      if (response.queued) {
+        notifyQueued(`Volume will be set to ${newVolume}%`);
+      } else {
         toast({
           title: "Volume Updated",
           description: `Volume set to ${newVolume}%`,
         });
-      } else {
-        throw new Error(response.data.error || 'Failed to set volume');
       }
     } catch (error) {
       console.error('Failed to update volume:', error);
@@ -86,41 +75,29 @@ export const SystemControls: React.FC = () => {
         variant: "destructive"
       });
       // Revert the UI state on error
-      try {
-        const statusResponse = await axios.get('/api/system/status');
-        if (statusResponse.data.success) {
-          setVolume([statusResponse.data.volume]);
-          setIsMuted(statusResponse.data.muted);
-        }
-      } catch (statusError) {
-        console.error('Failed to get current status:', statusError);
-      }
+      refetchStatus();
     }
   };
 
   const toggleMute = async () => {
     const newMuted = !isMuted;
-    setIsMuted(newMuted);
-    
+
     try {
       console.log(`🔇 ${newMuted ? 'Muting' : 'Unmuting'} audio`);
-      const response = await axios.post('/api/system/volume', { 
-        level: volume[0], 
-        muted: newMuted 
-      });
+      const response = await sendVolume({ level: volume[0], muted: newMuted });
       
-      if (response.data.success) {
+      if (response.queued) {
+        notifyQueued(newMuted ? 'Audio will be muted' : 'Audio will be restored');
+      } else {
         toast({
           title: newMuted ? "Muted" : "Unmuted",
           description: newMuted ? "Audio muted" : "Audio restored",
         });
-      } else {
-        throw new Error(response.data.error || 'Failed to toggle mute');
       }
     } catch (error) {
       console.error('Failed to toggle mute:', error);
       // Revert the UI state on error
-      setIsMuted(!newMuted);
+      refetchStatus();
       toast({
         title: "Mute Control Error",
         description: "Failed to toggle mute on Pi. Check connection.",
@@ -131,10 +108,13 @@ export const SystemControls: React.FC = () => {
 
   const toggleScreen = async () => {
     const newScreenState = !screenOn;
-    setScreenOn(newScreenState);
-    
+
     try {
-      await axios.post('/api/system/screen', { on: newScreenState });
+      const response = await sendScreen(newScreenState);
+      if (response.queued) {
+        notifyQueued(newScreenState ? 'Monitor will turn on' : 'Monitor will turn off');
+        return;
+      }
       toast({
         title: newScreenState ? "Screen On" : "Screen Off",
         description: newScreenState ? "Monitor turned on" : "Monitor turned off",
@@ -151,7 +131,7 @@ export const SystemControls: React.FC = () => {
 
   const shutdownSystem = async () => {
     try {
-      await axios.post('/api/system/shutdown');
+      await piApi.post('/api/system/shutdown');
       toast({
         title: "Shutting Down",
         description: "System shutdown initiated",
@@ -168,7 +148,7 @@ export const SystemControls: React.FC = () => {
 
   const rebootSystem = async () => {
     try {
-      await axios.post('/api/system/reboot');
+      await piApi.post('/api/system/reboot');
       toast({
         title: "Rebooting",
         description: "System reboot initiated",
@@ -261,9 +241,13 @@ export const SystemControls: React.FC = () => {
               disabled={isMuted}
             />
           </div>
+
+          <AudioOutputSelector />
         </CardContent>
       </Card>
 
+      <ProcessMonitor />
+
       <Card className="glass-card">
         <CardHeader className="pb-4">
           <CardTitle className="flex items-center gap-2 text-lg">
@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { Area, AreaChart, CartesianGrid, Line, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { History, Loader2 } from 'lucide-react';
+import { useTelemetryHistory } from '@/hooks/use-pi-queries';
+import type { TelemetryMetric, TelemetryRange } from '@/lib/piSchemas';
+
+const METRIC_LABELS: Record<TelemetryMetric, string> = {
+  cpu: 'CPU usage',
+  temperature: 'Temperature',
+  memory: 'Memory usage',
+  storage: 'Storage usage',
+};
+
+const RANGES: TelemetryRange[] = ['1h', '24h', '7d', '30d'];
+
+const historyChartConfig = {
+  value: {
+    label: 'Average',
+    color: 'hsl(var(--primary))'
+  },
+  max: {
+    label: 'Peak',
+    color: 'hsl(var(--destructive))'
+  }
+} satisfies ChartConfig;
+
+// Clock time for the last day, dates beyond it
+const formatTick = (t: string, range: TelemetryRange) => {
+  const date = new Date(t);
+  return range === '1h' || range === '24h'
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+};
+
+// CPU, temperature, memory and storage over the last hour to month, as saved
+// by the Pi; past the hour the points are hourly or daily averages with peaks
+export const TelemetryHistoryChart: React.FC = () => {
+  const [metric, setMetric] = useState<TelemetryMetric>('cpu');
+  const [range, setRange] = useState<TelemetryRange>('24h');
+  const { data: history, isPending, isError } = useTelemetryHistory(metric, range);
+
+  const points = history?.points ?? [];
+  const showPeaks = history?.resolution !== 'sample';
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5 text-primary" />
+          Telemetry History
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <Select value={metric} onValueChange={(value) => setMetric(value as TelemetryMetric)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(METRIC_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            variant="outline"
+            value={range}
+            onValueChange={(value) => value && setRange(value as TelemetryRange)}
+          >
+            {RANGES.map(value => (
+              <ToggleGroupItem key={value} value={value} className="text-xs">{value}</ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+
+        {isPending ? (
+          <div className="flex h-48 items-center justify-center text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Loading history...
+          </div>
+        ) : isError ? (
+          <div className="flex h-48 items-center justify-center text-sm text-muted-foreground">
+            History is unavailable while the Pi is offline
+          </div>
+        ) : points.length === 0 ? (
+          <div className="flex h-48 items-center justify-center text-sm text-muted-foreground">
+            No samples recorded for this range yet
+          </div>
+        ) : (
+          <ChartContainer config={historyChartConfig} className="h-48 w-full">
+            <AreaChart data={points}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="t"
+                tickLine={false}
+                axisLine={false}
+                minTickGap={32}
+                tickFormatter={(t: string) => formatTick(t, range)}
+              />
+              <YAxis tickLine={false} axisLine={false} width={40} unit={history?.unit} />
+              <ChartTooltip
+                content={<ChartTooltipContent labelFormatter={(_, payload) => payload[0] && new Date(payload[0].payload.t).toLocaleString()} />}
+              />
+              <Area
+                dataKey="value"
+                type="monotone"
+                stroke="var(--color-value)"
+                fill="var(--color-value)"
+                fillOpacity={0.2}
+                isAnimationActive={false}
+              />
+              {showPeaks && (
+                <Line
+                  dataKey="max"
+                  type="monotone"
+                  stroke="var(--color-max)"
+                  strokeDasharray="4 4"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              )}
+            </AreaChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,52 @@
+import React, { useRef } from 'react';
+import { Thermometer } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { usePiEvent } from '@/hooks/use-pi-event';
+import { useThermalState } from '@/hooks/use-pi-queries';
+import type { ThermalLevel, ThrottleFlags } from '@/lib/piSchemas';
+
+const FLAG_LABELS: Record<keyof ThrottleFlags, string> = {
+  underVoltage: 'under-voltage',
+  frequencyCapped: 'frequency capped',
+  throttled: 'throttled',
+  softTempLimit: 'soft temperature limit',
+};
+
+const LEVEL_RANK: Record<ThermalLevel, number> = { normal: 0, warning: 1, critical: 2 };
+
+const activeFlags = (flags: ThrottleFlags) =>
+  (Object.keys(FLAG_LABELS) as (keyof ThrottleFlags)[]).filter(flag => flags[flag]).map(flag => FLAG_LABELS[flag]);
+
+// Strip under the Navbar while the Pi reports throttling (or under-voltage);
+// toasts when the SoC temperature climbs past a threshold
+export const ThrottlingBanner: React.FC = () => {
+  const { data: thermal } = useThermalState();
+  const lastLevel = useRef<ThermalLevel>('normal');
+
+  usePiEvent('system.thermal', ({ level, temperature, thresholds }) => {
+    const rising = LEVEL_RANK[level] > LEVEL_RANK[lastLevel.current];
+    lastLevel.current = level;
+    if (!rising) return;
+
+    toast({
+      title: level === 'critical' ? "Pi Overheating" : "Pi Running Hot",
+      description: `SoC at ${temperature}°C (${level} above ${thresholds[level]}°C). Check the enclosure's airflow`,
+      variant: level === 'critical' ? "destructive" : "default"
+    });
+  });
+
+  if (!thermal?.throttling?.active) return null;
+
+  return (
+    <div
+      role="alert"
+      className="flex items-center justify-center gap-2 border-t border-destructive/50 bg-destructive/15 px-4 py-1.5 text-xs text-destructive"
+    >
+      <Thermometer className="h-3 w-3" />
+      <span>
+        Pi is throttling: {activeFlags(thermal.throttling.current).join(', ')}
+        {thermal.temperature !== null && ` at ${thermal.temperature}°C`}
+      </span>
+    </div>
+  );
+};
@@ -9,7 +9,8 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Calendar, CheckSquare, Plus, Edit, Trash2, Clock, Bell } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
-import axios from 'axios';
+import { piClient } from '@/lib/piClient';
+import { piApi } from '@/lib/piApi';
 
 interface TodoItem {
   id: string;
@@ -97,7 +98,10 @@ export const TodoManager: React.FC = () => {
     };
 
     try {
-      await axios.post('/api/todo/add', todo);
+      const response = await piClient.sendOrQueue('addTodo', todo);
+      if (!response.success && !response.queued) {
+        throw new Error(response.error || 'Failed to add todo');
+      }
       
       setTodos(prev => [...prev, todo]);
       setNewTodo({ title: '', description: '', priority: 'medium', dueDate: '' });
@@ -105,7 +109,9 @@ export const TodoManager: React.FC = () => {
       
       toast({
         title: "Todo Added",
-        description: "New task added successfully",
+        description: response.queued
+          ? "Task saved and will sync once the Pi reconnects"
+          : "New task added successfully",
       });
     } catch (error) {
       console.error('Failed to add todo:', error);
@@ -125,7 +131,7 @@ export const TodoManager: React.FC = () => {
       
       setTodos(updatedTodos);
       
-      await axios.post('/api/todo/toggle', { id });
+      await piApi.post('/api/todo/toggle', { id });
       
       const todo = todos.find(t => t.id === id);
       toast({
@@ -144,7 +150,7 @@ export const TodoManager: React.FC = () => {
 
   const deleteTodo = async (id: string) => {
     try {
-      await axios.delete(`/api/todo/${id}`);
+      await piApi.delete(`/api/todo/${id}`);
       
       setTodos(prev => prev.filter(todo => todo.id !== id));
       
@@ -174,7 +180,7 @@ export const TodoManager: React.FC = () => {
     };
 
     try {
-      await axios.post('/api/alarm/add', alarm);
+      await piApi.post('/api/alarm/add', alarm);
       
       setAlarms(prev => [...prev, alarm]);
       setNewAlarm({ time: '', label: '', repeat: 'daily' });
@@ -202,7 +208,7 @@ export const TodoManager: React.FC = () => {
       
       setAlarms(updatedAlarms);
       
-      await axios.post('/api/alarm/toggle', { id });
+      await piApi.post('/api/alarm/toggle', { id });
       
       const alarm = alarms.find(a => a.id === id);
       toast({
@@ -221,7 +227,7 @@ export const TodoManager: React.FC = () => {
 
   const deleteAlarm = async (id: string) => {
     try {
-      await axios.delete(`/api/alarm/${id}`);
+      await piApi.delete(`/api/alarm/${id}`);
       
       setAlarms(prev => prev.filter(alarm => alarm.id !== id));
       
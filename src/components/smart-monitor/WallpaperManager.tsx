@@ -6,8 +6,9 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Image, Upload, Clock, Moon, Sun, Palette, Play, Trash2 } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
-import { piClient } from '@/lib/piClient';
-import axios from 'axios';
+import { usePiEvent } from '@/hooks/use-pi-event';
+import { useSetWallpaper } from '@/hooks/use-pi-queries';
+import { piApi } from '@/lib/piApi';
 
 type WallpaperMode = 'morning' | 'night' | 'custom' | 'dynamic';
 
@@ -105,6 +106,7 @@ export const WallpaperManager: React.FC<WallpaperManagerProps> = ({ piWallpapers
   
   const [wallpapers, setWallpapers] = useState<Wallpaper[]>(() => convertPiWallpapers(piWallpapers));
   const [isUploading, setIsUploading] = useState(false);
+  const { mutateAsync: changeWallpaper } = useSetWallpaper();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Update wallpapers when piWallpapers prop changes
@@ -115,11 +117,19 @@ export const WallpaperManager: React.FC<WallpaperManagerProps> = ({ piWallpapers
     setWallpapers(updatedWallpapers);
   }, [piWallpapers, convertPiWallpapers]);
 
+  // Reflect wallpaper changes made from any client
+  usePiEvent('wallpaper.changed', ({ id }) => {
+    setWallpapers(prev => prev.map(w => ({
+      ...w,
+      isActive: w.id === id
+    })));
+  });
+
   const changeMode = async (mode: WallpaperMode) => {
     setCurrentMode(mode);
     
     try {
-      await axios.post('/api/wallpaper/mode', { mode });
+      await piApi.post('/api/wallpaper/mode', { mode });
       
       toast({
         title: "Wallpaper Mode Changed",
@@ -160,27 +170,27 @@ export const WallpaperManager: React.FC<WallpaperManagerProps> = ({ piWallpapers
         isActive: w.id === wallpaperId
       })));
 
-      // Check if Pi is connected
-      if (!piClient.isConnected()) {
-        throw new Error('Pi not connected. Please connect to your Smart Monitor Pi first.');
-      }
-
-      // Send request to Pi backend to change wallpaper
-      const changeResult = await piClient.setWallpaper(selectedWallpaper.id, {
+      // Send request to Pi backend to change wallpaper (queued if the Pi is unreachable);
+      // a rejected change throws and reverts below
+      const changeResult = await changeWallpaper({
+        id: selectedWallpaper.id,
         fileName: selectedWallpaper.fileName || `${selectedWallpaper.id}.mp4`,
         displayName: selectedWallpaper.name
       });
 
       console.log('📤 Wallpaper change request sent to Pi backend:', changeResult);
 
-      if (changeResult && changeResult.success) {
+      if (changeResult.queued) {
+        toast({
+          title: "Wallpaper Change Queued",
+          description: `${selectedWallpaper.name} will be displayed once the Pi reconnects`,
+        });
+      } else {
         console.log('✅ Wallpaper changed successfully on Pi:', selectedWallpaper.name);
         toast({
           title: "Wallpaper Changed 🎨",
           description: `Now displaying: ${selectedWallpaper.name}`,
         });
-      } else {
-        throw new Error(changeResult?.error || 'Failed to change wallpaper on Pi');
       }
       
     } catch (error) {
@@ -223,7 +233,7 @@ export const WallpaperManager: React.FC<WallpaperManagerProps> = ({ piWallpapers
       formData.append('file', file);
       formData.append('type', isVideo ? 'video' : 'image');
 
-      const response = await axios.post('/api/wallpaper/upload', formData, {
+      const response = await piApi.post('/api/wallpaper/upload', formData, {
         headers: {
           'Content-Type': 'multipart/form-data',
         },
@@ -261,7 +271,7 @@ export const WallpaperManager: React.FC<WallpaperManagerProps> = ({ piWallpapers
 
   const deleteWallpaper = async (wallpaperId: string) => {
     try {
-      await axios.delete(`/api/wallpaper/${wallpaperId}`);
+      await piApi.delete(`/api/wallpaper/${wallpaperId}`);
       
       setWallpapers(prev => prev.filter(w => w.id !== wallpaperId));
       
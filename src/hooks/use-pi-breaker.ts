@@ -0,0 +1,12 @@
+import * as React from "react"
+
+import { piClient } from "@/lib/piClient"
+import type { BreakerSnapshot } from "@/lib/piResilience"
+
+// Current circuit breaker state of the Pi connection
+export function usePiBreaker(): BreakerSnapshot {
+  return React.useSyncExternalStore(
+    (onChange) => piClient.breaker.subscribe(onChange),
+    () => piClient.breaker.getSnapshot()
+  )
+}
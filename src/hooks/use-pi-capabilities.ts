@@ -0,0 +1,12 @@
+import * as React from "react"
+
+import { piClient } from "@/lib/piClient"
+import type { CapabilitySnapshot } from "@/lib/piCapabilities"
+
+// Capability manifest of the connected backend
+export function usePiCapabilities(): CapabilitySnapshot {
+  return React.useSyncExternalStore(
+    (onChange) => piClient.capabilities.subscribe(onChange),
+    () => piClient.capabilities.getSnapshot()
+  )
+}
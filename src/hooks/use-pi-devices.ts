@@ -0,0 +1,11 @@
+import * as React from "react"
+
+import { deviceRegistry, type DeviceRegistrySnapshot } from "@/lib/deviceRegistry"
+
+// Saved Pi profiles plus the default and active device
+export function usePiDevices(): DeviceRegistrySnapshot {
+  return React.useSyncExternalStore(
+    (onChange) => deviceRegistry.subscribe(onChange),
+    () => deviceRegistry.getSnapshot()
+  )
+}
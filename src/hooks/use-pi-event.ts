@@ -0,0 +1,36 @@
+import * as React from "react"
+
+import { piClient } from "@/lib/piClient"
+import type { EventStreamStatus } from "@/lib/piEvents"
+import type { PiEventMap, PiEventType } from "@/lib/piSchemas"
+
+// Run `handler` for every `type` event pushed by the backend while mounted
+export function usePiEvent<K extends PiEventType>(
+  type: K,
+  handler: (data: PiEventMap[K]) => void
+) {
+  const handlerRef = React.useRef(handler)
+
+  React.useEffect(() => {
+    handlerRef.current = handler
+  }, [handler])
+
+  React.useEffect(() => {
+    return piClient.subscribe(type, (data) => handlerRef.current(data))
+  }, [type])
+}
+
+// Run `handler` whenever the event stream (re)opens, e.g. to re-sync state
+export function usePiEventStreamOpen(handler: () => void) {
+  const handlerRef = React.useRef(handler)
+
+  React.useEffect(() => {
+    handlerRef.current = handler
+  }, [handler])
+
+  React.useEffect(() => {
+    return piClient.subscribeEventStatus((status: EventStreamStatus) => {
+      if (status === "open") handlerRef.current()
+    })
+  }, [])
+}
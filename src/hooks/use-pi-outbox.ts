@@ -0,0 +1,20 @@
+import * as React from "react"
+
+import { piClient } from "@/lib/piClient"
+import type { OutboxEntry } from "@/lib/piOutbox"
+
+// Commands queued while the Pi was unreachable
+export function usePiOutbox(): readonly OutboxEntry[] {
+  return React.useSyncExternalStore(
+    (onChange) => piClient.outbox.subscribe(onChange),
+    () => piClient.outbox.getEntries()
+  )
+}
+
+// Whether commands are queued at all while the Pi is unreachable (Settings)
+export function usePiOutboxEnabled(): boolean {
+  return React.useSyncExternalStore(
+    (onChange) => piClient.outbox.subscribe(onChange),
+    () => piClient.outbox.isEnabled()
+  )
+}
@@ -0,0 +1,344 @@
+import * as React from "react"
+import { keepPreviousData, queryOptions, useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+
+import { usePiCapabilities } from "@/hooks/use-pi-capabilities"
+import { usePiEvent } from "@/hooks/use-pi-event"
+import { PiApiError } from "@/lib/piApi"
+import { piClient, type ApiResponse } from "@/lib/piClient"
+import type { SystemControlState, TelemetryMetric, TelemetryRange } from "@/lib/piSchemas"
+
+// Cache keys are scoped by the connected backend, so switching devices never
+// shows another Pi's data. Invalidate `piQueryKeys.all` to refresh everything.
+export const piQueryKeys = {
+  all: ["pi"] as const,
+  systemInfo: (baseUrl: string | null) => ["pi", baseUrl, "systemInfo"] as const,
+  systemStatus: (baseUrl: string | null) => ["pi", baseUrl, "systemStatus"] as const,
+  systemControlState: (baseUrl: string | null) => ["pi", baseUrl, "systemControlState"] as const,
+  wallpapers: (baseUrl: string | null) => ["pi", baseUrl, "wallpapers"] as const,
+  bluetoothDevices: (baseUrl: string | null) => ["pi", baseUrl, "bluetoothDevices"] as const,
+  audioSinks: (baseUrl: string | null) => ["pi", baseUrl, "audioSinks"] as const,
+  spotifyNowPlaying: (baseUrl: string | null) => ["pi", baseUrl, "spotifyNowPlaying"] as const,
+  telemetryHistory: (baseUrl: string | null, metric: TelemetryMetric, range: TelemetryRange) =>
+    ["pi", baseUrl, "telemetryHistory", metric, range] as const,
+  processes: (baseUrl: string | null) => ["pi", baseUrl, "processes"] as const,
+}
+
+// Queries throw on failure so React Query can retry and expose `error`; the
+// PiApiError keeps the HTTP status (e.g. 401 for an expired Spotify session)
+async function unwrap<T>(request: Promise<ApiResponse<T>>): Promise<T> {
+  const result = await request
+  if (!result.success || result.data === undefined) {
+    throw new PiApiError(result.error || "Request to Pi failed", result.status)
+  }
+  return result.data
+}
+
+// Mutations resolve with the response so callers can tell a queued command
+// apart from an applied one; only a rejected command throws
+async function unwrapCommand<T>(request: Promise<ApiResponse<T>>): Promise<ApiResponse<T>> {
+  const result = await request
+  if (!result.success && !result.queued) {
+    throw new Error(result.error || "Command rejected by Pi")
+  }
+  return result
+}
+
+// Query definitions shared by the hooks below and by imperative
+// `queryClient.fetchQuery` calls (e.g. a manual refresh right after connecting)
+export const piQueries = {
+  systemInfo: (baseUrl: string | null) =>
+    queryOptions({
+      queryKey: piQueryKeys.systemInfo(baseUrl),
+      queryFn: () => unwrap(piClient.getSystemInfo()),
+      enabled: baseUrl !== null,
+      staleTime: 30_000,
+    }),
+  systemStatus: (baseUrl: string | null) =>
+    queryOptions({
+      queryKey: piQueryKeys.systemStatus(baseUrl),
+      queryFn: () => unwrap(piClient.getSystemStatus()),
+      enabled: baseUrl !== null,
+      staleTime: 10_000,
+    }),
+  systemControlState: (baseUrl: string | null) =>
+    queryOptions({
+      queryKey: piQueryKeys.systemControlState(baseUrl),
+      queryFn: () => unwrap(piClient.getSystemControlState()),
+      enabled: baseUrl !== null,
+      staleTime: 30_000,
+      // Thermal changes arrive as system.thermal; this covers a missed event
+      refetchInterval: 60_000,
+    }),
+  wallpapers: (baseUrl: string | null) =>
+    queryOptions({
+      queryKey: piQueryKeys.wallpapers(baseUrl),
+      queryFn: () => unwrap(piClient.getWallpapers()),
+      enabled: baseUrl !== null,
+      staleTime: 5 * 60_000,
+    }),
+  bluetoothDevices: (baseUrl: string | null) =>
+    queryOptions({
+      queryKey: piQueryKeys.bluetoothDevices(baseUrl),
+      queryFn: () => unwrap(piClient.getConnectedBluetoothDevices()),
+      enabled: baseUrl !== null,
+      staleTime: 15_000,
+      // Battery and signal change without an event
+      refetchInterval: 60_000,
+    }),
+  audioSinks: (baseUrl: string | null) =>
+    queryOptions({
+      queryKey: piQueryKeys.audioSinks(baseUrl),
+      queryFn: () => unwrap(piClient.getAudioSinks()),
+      enabled: baseUrl !== null,
+      staleTime: 15_000,
+    }),
+  spotifyNowPlaying: (baseUrl: string | null) =>
+    queryOptions({
+      queryKey: piQueryKeys.spotifyNowPlaying(baseUrl),
+      queryFn: () => unwrap(piClient.getSpotifyPlayback()),
+      enabled: baseUrl !== null,
+      staleTime: 5_000,
+    }),
+  telemetryHistory: (baseUrl: string | null, metric: TelemetryMetric, range: TelemetryRange) =>
+    queryOptions({
+      queryKey: piQueryKeys.telemetryHistory(baseUrl, metric, range),
+      queryFn: () => unwrap(piClient.getTelemetryHistory(metric, range)),
+      enabled: baseUrl !== null,
+      staleTime: 30_000,
+      // The backend samples about once a minute
+      refetchInterval: 60_000,
+      // Keep the old graph up while another metric or range loads
+      placeholderData: keepPreviousData,
+    }),
+  processes: (baseUrl: string | null) =>
+    queryOptions({
+      queryKey: piQueryKeys.processes(baseUrl),
+      queryFn: () => unwrap(piClient.getProcesses()),
+      enabled: baseUrl !== null,
+      staleTime: 0,
+      // Live while the table is on screen
+      refetchInterval: 5_000,
+    }),
+}
+
+// Base URL of the connected backend, or null while disconnected
+function usePiBaseUrl() {
+  return usePiCapabilities().baseUrl
+}
+
+export function usePiSystemInfo() {
+  const baseUrl = usePiBaseUrl()
+  const queryClient = useQueryClient()
+
+  // Telemetry ticks replace the cached value between refetches
+  usePiEvent("system.telemetry", (info) => {
+    if (baseUrl) queryClient.setQueryData(piQueryKeys.systemInfo(baseUrl), info)
+  })
+
+  return useQuery(piQueries.systemInfo(baseUrl))
+}
+
+// Brightness, volume, mute and screen from /api/system/status. Changes made by
+// other clients arrive as events and patch the cached state in place.
+export function useSystemStatus() {
+  const baseUrl = usePiBaseUrl()
+  const queryClient = useQueryClient()
+
+  const patch = React.useCallback((changes: Partial<SystemControlState>) => {
+    if (baseUrl) queryClient.setQueryData(piQueries.systemControlState(baseUrl).queryKey, (state) => state && { ...state, ...changes })
+  }, [queryClient, baseUrl])
+
+  usePiEvent("system.volume", patch)
+  usePiEvent("system.brightness", patch)
+  usePiEvent("system.screen", patch)
+
+  return useQuery(piQueries.systemControlState(baseUrl))
+}
+
+// Temperature level and throttling flags, from /api/system/status
+export function useThermalState() {
+  const baseUrl = usePiBaseUrl()
+  const queryClient = useQueryClient()
+
+  usePiEvent("system.thermal", (thermal) => {
+    if (baseUrl) queryClient.setQueryData(piQueries.systemControlState(baseUrl).queryKey, (state) => state && { ...state, thermal })
+  })
+
+  return useQuery({ ...piQueries.systemControlState(baseUrl), select: (state) => state.thermal ?? null })
+}
+
+export function useWallpapers() {
+  const baseUrl = usePiBaseUrl()
+  const queryClient = useQueryClient()
+
+  usePiEvent("wallpaper.changed", () => {
+    queryClient.invalidateQueries({ queryKey: piQueryKeys.wallpapers(baseUrl) })
+  })
+
+  return useQuery(piQueries.wallpapers(baseUrl))
+}
+
+export function useBluetoothDevices() {
+  const baseUrl = usePiBaseUrl()
+  const queryClient = useQueryClient()
+
+  const invalidate = React.useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: piQueryKeys.bluetoothDevices(baseUrl) })
+  }, [queryClient, baseUrl])
+
+  usePiEvent("bluetooth.connected", invalidate)
+  usePiEvent("bluetooth.disconnected", invalidate)
+  usePiEvent("bluetooth.battery.low", invalidate)
+
+  return useQuery(piQueries.bluetoothDevices(baseUrl))
+}
+
+export function useAudioSinks() {
+  const baseUrl = usePiBaseUrl()
+  const queryClient = useQueryClient()
+
+  usePiEvent("audio.sinks.changed", (state) => {
+    if (baseUrl) queryClient.setQueryData(piQueryKeys.audioSinks(baseUrl), { success: true, ...state })
+  })
+  // Bluetooth speakers add and remove sinks
+  usePiEvent("bluetooth.connected", () => {
+    queryClient.invalidateQueries({ queryKey: piQueryKeys.audioSinks(baseUrl) })
+  })
+  usePiEvent("bluetooth.disconnected", () => {
+    queryClient.invalidateQueries({ queryKey: piQueryKeys.audioSinks(baseUrl) })
+  })
+
+  return useQuery(piQueries.audioSinks(baseUrl))
+}
+
+export function useSpotifyNowPlaying() {
+  const baseUrl = usePiBaseUrl()
+  const queryClient = useQueryClient()
+
+  usePiEvent("spotify.nowPlaying", (playback) => {
+    if (baseUrl) queryClient.setQueryData(piQueryKeys.spotifyNowPlaying(baseUrl), playback)
+  })
+
+  return useQuery(piQueries.spotifyNowPlaying(baseUrl))
+}
+
+export function useTelemetryHistory(metric: TelemetryMetric, range: TelemetryRange) {
+  return useQuery(piQueries.telemetryHistory(usePiBaseUrl(), metric, range))
+}
+
+export function useProcesses() {
+  return useQuery(piQueries.processes(usePiBaseUrl()))
+}
+
+// Controls; mutations that change cached data invalidate it once the Pi answers
+
+// Display and volume controls. The cached control state shows the new value
+// right away and is refetched once the Pi answers, which also undoes a refused change.
+function useSystemControlMutation<T>(
+  mutationFn: (variables: T) => Promise<ApiResponse<unknown>>,
+  optimistic: (variables: T) => Partial<SystemControlState>
+) {
+  const baseUrl = usePiBaseUrl()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (variables: T) => unwrapCommand(mutationFn(variables)),
+    onMutate: (variables: T) => {
+      if (baseUrl) queryClient.setQueryData(piQueries.systemControlState(baseUrl).queryKey, (state) => state && { ...state, ...optimistic(variables) })
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: piQueryKeys.systemControlState(baseUrl) })
+      queryClient.invalidateQueries({ queryKey: piQueryKeys.systemStatus(baseUrl) })
+    },
+  })
+}
+
+export function useSetBrightness() {
+  return useSystemControlMutation(
+    (level: number) => piClient.sendOrQueue("setBrightness", { level }, "brightness"),
+    (level) => ({ brightness: level })
+  )
+}
+
+export function useSetVolume() {
+  return useSystemControlMutation(
+    ({ level, muted }: { level: number; muted: boolean }) => piClient.sendOrQueue("setVolume", { level, muted }, "volume"),
+    ({ level, muted }) => ({ volume: level, muted })
+  )
+}
+
+export function useSetScreen() {
+  return useSystemControlMutation(
+    (on: boolean) => piClient.sendOrQueue("setScreen", { on }, "screen"),
+    (on) => ({ screenOn: on })
+  )
+}
+
+export function useSetWallpaper() {
+  const baseUrl = usePiBaseUrl()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, fileName, displayName }: { id: string; fileName: string; displayName: string }) =>
+      unwrapCommand(piClient.setWallpaper(id, { fileName, displayName })),
+    onSuccess: () =>
+      queryClient.invalidateQueries({ queryKey: piQueryKeys.wallpapers(baseUrl) }),
+  })
+}
+
+export function useConnectBluetoothDevice() {
+  const baseUrl = usePiBaseUrl()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ deviceId, deviceName, keepOthers }: { deviceId: string; deviceName: string; keepOthers?: boolean }) =>
+      unwrapCommand(piClient.connectBluetoothAudio(deviceId, deviceName, keepOthers)),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: piQueryKeys.bluetoothDevices(baseUrl) })
+      queryClient.invalidateQueries({ queryKey: piQueryKeys.systemStatus(baseUrl) })
+    },
+  })
+}
+
+export function useDisconnectBluetoothDevice() {
+  const baseUrl = usePiBaseUrl()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (deviceId: string) =>
+      unwrapCommand(piClient.disconnectSpecificBluetoothDevice(deviceId)),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: piQueryKeys.bluetoothDevices(baseUrl) })
+      queryClient.invalidateQueries({ queryKey: piQueryKeys.systemStatus(baseUrl) })
+    },
+  })
+}
+
+// Output routing; each change invalidates the sink list once the Pi answers
+function useAudioSinkMutation<T>(mutationFn: (variables: T) => Promise<ApiResponse<unknown>>) {
+  const baseUrl = usePiBaseUrl()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (variables: T) => unwrapCommand(mutationFn(variables)),
+    onSettled: () =>
+      queryClient.invalidateQueries({ queryKey: piQueryKeys.audioSinks(baseUrl) }),
+  })
+}
+
+export function useSetDefaultAudioSink() {
+  return useAudioSinkMutation((sink: string) => piClient.setDefaultAudioSink(sink))
+}
+
+export function useSetAudioSinkVolume() {
+  return useAudioSinkMutation(({ sink, volume, muted }: { sink: string; volume?: number; muted?: boolean }) =>
+    piClient.setAudioSinkVolume(sink, { volume, muted }))
+}
+
+export function useCombineAudioSinks() {
+  return useAudioSinkMutation((sinks: string[]) => piClient.combineAudioSinks(sinks))
+}
+
+export function useRemoveCombinedAudioSink() {
+  return useAudioSinkMutation<void>(() => piClient.removeCombinedAudioSink())
+}
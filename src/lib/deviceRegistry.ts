@@ -0,0 +1,146 @@
+// Registry of known Smart Monitor Pis, persisted in localStorage
+import { z } from 'zod';
+
+export interface PiDeviceProfile {
+  id: string;
+  name: string;
+  host: string;
+  port: number;
+  authToken?: string;
+}
+
+export interface DeviceRegistrySnapshot {
+  devices: PiDeviceProfile[];
+  defaultDeviceId: string | null;
+  activeDeviceId: string | null;
+}
+
+const STORAGE_KEY = 'smart-monitor.devices';
+
+const StoredRegistrySchema = z.object({
+  devices: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      host: z.string().min(1),
+      port: z.number().int().min(1).max(65535),
+      authToken: z.string().optional(),
+    })
+  ),
+  defaultDeviceId: z.string().nullable(),
+});
+
+const EMPTY_REGISTRY: DeviceRegistrySnapshot = { devices: [], defaultDeviceId: null, activeDeviceId: null };
+
+type RegistryListener = (snapshot: DeviceRegistrySnapshot) => void;
+
+const profileId = (host: string, port: number) => `${host}:${port}`;
+
+export class PiDeviceRegistry {
+  private snapshot: DeviceRegistrySnapshot;
+  private listeners = new Set<RegistryListener>();
+
+  constructor() {
+    this.snapshot = this.load();
+  }
+
+  getSnapshot(): DeviceRegistrySnapshot {
+    return this.snapshot;
+  }
+
+  // Returns an unsubscribe function
+  subscribe(listener: RegistryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getDevice(id: string): PiDeviceProfile | undefined {
+    return this.snapshot.devices.find((device) => device.id === id);
+  }
+
+  getDefaultDevice(): PiDeviceProfile | undefined {
+    const { defaultDeviceId, devices } = this.snapshot;
+    return (defaultDeviceId && this.getDevice(defaultDeviceId)) || devices[0];
+  }
+
+  getActiveDevice(): PiDeviceProfile | undefined {
+    const { activeDeviceId } = this.snapshot;
+    return activeDeviceId ? this.getDevice(activeDeviceId) : undefined;
+  }
+
+  // Add a device, or update the existing profile for the same host and port
+  saveDevice(profile: Omit<PiDeviceProfile, 'id'> & { id?: string }): PiDeviceProfile {
+    const saved: PiDeviceProfile = { ...profile, id: profile.id ?? profileId(profile.host, profile.port) };
+    const exists = this.snapshot.devices.some((device) => device.id === saved.id);
+    const devices = exists
+      ? this.snapshot.devices.map((device) => (device.id === saved.id ? { ...device, ...saved } : device))
+      : [...this.snapshot.devices, saved];
+
+    this.update({
+      ...this.snapshot,
+      devices,
+      // The first device saved becomes the default
+      defaultDeviceId: this.snapshot.defaultDeviceId ?? saved.id
+    });
+    return saved;
+  }
+
+  removeDevice(id: string): void {
+    const devices = this.snapshot.devices.filter((device) => device.id !== id);
+    this.update({
+      devices,
+      defaultDeviceId: this.snapshot.defaultDeviceId === id ? devices[0]?.id ?? null : this.snapshot.defaultDeviceId,
+      activeDeviceId: this.snapshot.activeDeviceId === id ? null : this.snapshot.activeDeviceId
+    });
+  }
+
+  setDefaultDevice(id: string): void {
+    if (!this.getDevice(id)) return;
+    this.update({ ...this.snapshot, defaultDeviceId: id });
+  }
+
+  // The active device is only tracked for this session, not persisted
+  setActiveDevice(id: string | null): void {
+    if (id !== null && !this.getDevice(id)) return;
+    this.update({ ...this.snapshot, activeDeviceId: id });
+  }
+
+  private load(): DeviceRegistrySnapshot {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (!stored) return EMPTY_REGISTRY;
+
+      const parsed = StoredRegistrySchema.safeParse(JSON.parse(stored));
+      if (!parsed.success) {
+        console.warn('⚠️ Ignoring invalid device registry in localStorage');
+        return EMPTY_REGISTRY;
+      }
+      return {
+        devices: parsed.data.devices as PiDeviceProfile[],
+        defaultDeviceId: parsed.data.defaultDeviceId,
+        activeDeviceId: null
+      };
+    } catch (error) {
+      console.warn('⚠️ Failed to load device registry:', error);
+      return EMPTY_REGISTRY;
+    }
+  }
+
+  private update(snapshot: DeviceRegistrySnapshot): void {
+    this.snapshot = snapshot;
+    try {
+      localStorage.setItem(
+        STORAGE_KEY,
+        JSON.stringify({ devices: snapshot.devices, defaultDeviceId: snapshot.defaultDeviceId })
+      );
+    } catch (error) {
+      console.warn('⚠️ Failed to persist device registry:', error);
+    }
+    this.listeners.forEach((listener) => listener(snapshot));
+  }
+}
+
+// Create singleton instance
+export const deviceRegistry = new PiDeviceRegistry();
@@ -0,0 +1,227 @@
+// Subnet sweep used by the NetworkScanner when LAN discovery finds nothing
+import { ApiDiscoverySchema } from './piSchemas';
+
+export type SweepHostKind = 'smart-monitor' | 'spotify-server' | 'http';
+
+export interface SweepResult {
+  host: string;
+  port: number;
+  kind: SweepHostKind;
+  name: string;
+  version?: string;
+  // Feature names from the capability manifest (Smart Monitor backends only)
+  features?: string[];
+  latencyMs: number;
+}
+
+export interface SweepProgress {
+  scanned: number;
+  total: number;
+  found: number;
+}
+
+export interface SweepOptions {
+  hosts: string[];
+  ports: number[];
+  concurrency?: number;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: SweepProgress) => void;
+  onResult?: (result: SweepResult) => void;
+}
+
+// Thrown for target or port lists the sweep cannot use
+export class SweepInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SweepInputError';
+  }
+}
+
+const DEFAULT_CONCURRENCY = 24;
+const DEFAULT_TIMEOUT = 1500;
+// A /20 on one port; anything larger takes minutes from a browser
+const MAX_SWEEP_TARGETS = 4096;
+
+const IPV4 = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+const HOSTNAME = /^[A-Za-z0-9]([A-Za-z0-9-]*[A-Za-z0-9])?(\.[A-Za-z0-9]([A-Za-z0-9-]*[A-Za-z0-9])?)*$/;
+
+const ipToNumber = (ip: string): number | null => {
+  const match = IPV4.exec(ip);
+  if (!match) return null;
+  const octets = match.slice(1).map(Number);
+  if (octets.some((octet) => octet > 255)) return null;
+  return octets.reduce((value, octet) => value * 256 + octet, 0);
+};
+
+const numberToIp = (value: number): string =>
+  [24, 16, 8, 0].map((shift) => Math.floor(value / 2 ** shift) % 256).join('.');
+
+// Expand "192.168.1.0/24, 10.0.0.5, pi.local" into hosts. Network and
+// broadcast addresses of a CIDR range are skipped.
+export function parseTargets(input: string): string[] {
+  const hosts = new Set<string>();
+
+  for (const token of input.split(/[\s,]+/).filter(Boolean)) {
+    const [address, prefixText] = token.split('/');
+
+    if (prefixText === undefined) {
+      if (ipToNumber(address) === null && !HOSTNAME.test(address)) {
+        throw new SweepInputError(`Not an IP address or hostname: ${token}`);
+      }
+      hosts.add(address);
+      continue;
+    }
+
+    const base = ipToNumber(address);
+    const prefix = Number(prefixText);
+    if (base === null || !Number.isInteger(prefix) || prefix < 16 || prefix > 32) {
+      throw new SweepInputError(`Not a CIDR range between /16 and /32: ${token}`);
+    }
+
+    const size = 2 ** (32 - prefix);
+    const network = base - (base % size);
+    const [first, last] = size > 2 ? [network + 1, network + size - 2] : [network, network + size - 1];
+    for (let value = first; value <= last; value++) {
+      hosts.add(numberToIp(value));
+    }
+  }
+
+  return [...hosts];
+}
+
+export function parsePorts(input: string): number[] {
+  const ports = input.split(/[\s,]+/).filter(Boolean).map(Number);
+  if (ports.length === 0 || ports.some((port) => !Number.isInteger(port) || port < 1 || port > 65535)) {
+    throw new SweepInputError(`Ports must be numbers between 1 and 65535: ${input}`);
+  }
+  return [...new Set(ports)];
+}
+
+// Tell what answered from its /api response. Any HTTP answer counts as a
+// host; only a network error or timeout means nothing is there.
+const identify = (host: string, port: number, body: unknown, latencyMs: number): SweepResult => {
+  const parsed = ApiDiscoverySchema.safeParse(body);
+  if (parsed.success) {
+    const api = parsed.data;
+    if (api.features || /smart\s*monitor/i.test(api.message)) {
+      return {
+        host,
+        port,
+        kind: 'smart-monitor',
+        name: `Smart Monitor (${host})`,
+        version: api.version,
+        features: api.features?.map((feature) => feature.name),
+        latencyMs
+      };
+    }
+    if (/spotify/i.test(api.message) || api.endpoints.includes('/api/spotify/auth')) {
+      return { host, port, kind: 'spotify-server', name: `Spotify server (${host})`, version: api.version, latencyMs };
+    }
+  }
+  return { host, port, kind: 'http', name: `HTTP server (${host})`, latencyMs };
+};
+
+// Probe one host:port; resolves null when nothing answered in time
+export async function probeHost(
+  host: string,
+  port: number,
+  timeoutMs: number = DEFAULT_TIMEOUT,
+  signal?: AbortSignal
+): Promise<SweepResult | null> {
+  if (signal?.aborted) return null;
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const cancel = () => controller.abort();
+  signal?.addEventListener('abort', cancel);
+
+  const startedAt = performance.now();
+  try {
+    const response = await fetch(`http://${host}:${port}/api`, { signal: controller.signal });
+    const latencyMs = Math.round(performance.now() - startedAt);
+    const body = response.headers.get('content-type')?.includes('application/json')
+      ? await response.json().catch(() => null)
+      : null;
+    return identify(host, port, body, latencyMs);
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', cancel);
+  }
+}
+
+// Probe every host on every port with at most `concurrency` requests in
+// flight. Results and progress are reported as they arrive; aborting the
+// signal stops the sweep and resolves with what was found so far.
+export async function sweepNetwork({
+  hosts,
+  ports,
+  concurrency = DEFAULT_CONCURRENCY,
+  timeoutMs = DEFAULT_TIMEOUT,
+  signal,
+  onProgress,
+  onResult
+}: SweepOptions): Promise<SweepResult[]> {
+  const targets = hosts.flatMap((host) => ports.map((port) => ({ host, port })));
+  if (targets.length > MAX_SWEEP_TARGETS) {
+    throw new SweepInputError(`Sweep of ${targets.length} targets is too large (max ${MAX_SWEEP_TARGETS})`);
+  }
+
+  const results: SweepResult[] = [];
+  let next = 0;
+  let scanned = 0;
+
+  const worker = async () => {
+    while (next < targets.length && !signal?.aborted) {
+      const { host, port } = targets[next++];
+      const result = await probeHost(host, port, timeoutMs, signal);
+      if (signal?.aborted) return;
+
+      scanned++;
+      if (result) {
+        results.push(result);
+        onResult?.(result);
+      }
+      onProgress?.({ scanned, total: targets.length, found: results.length });
+    }
+  };
+
+  console.log(`🔎 Sweeping ${targets.length} target(s) with ${concurrency} concurrent probes`);
+  await Promise.all(Array.from({ length: Math.min(concurrency, targets.length) }, worker));
+  return results;
+}
+
+// The local /24 as seen through WebRTC, or null when the browser hides it
+export function detectLocalSubnet(timeoutMs: number = 5000): Promise<string | null> {
+  return new Promise((resolve) => {
+    if (typeof RTCPeerConnection === 'undefined') {
+      resolve(null);
+      return;
+    }
+
+    // Host candidates only: a STUN server would report the public address
+    const pc = new RTCPeerConnection({ iceServers: [] });
+    let done = false;
+    const finish = (subnet: string | null) => {
+      if (done) return;
+      done = true;
+      clearTimeout(timer);
+      pc.close();
+      resolve(subnet);
+    };
+    const timer = setTimeout(() => finish(null), timeoutMs);
+
+    pc.onicecandidate = (ice) => {
+      const ip = ice.candidate && /([0-9]{1,3}(\.[0-9]{1,3}){3})/.exec(ice.candidate.candidate)?.[1];
+      if (ip) {
+        finish(`${ip.substring(0, ip.lastIndexOf('.'))}.0/24`);
+      }
+    };
+    pc.createDataChannel('');
+    pc.createOffer()
+      .then((offer) => pc.setLocalDescription(offer))
+      .catch(() => finish(null));
+  });
+}
@@ -0,0 +1,68 @@
+// Shared HTTP client for components that call backend routes directly
+import axios, { type AxiosError } from 'axios';
+import { piClient, type ApiResponse } from './piClient';
+
+// Every failed piApi request rejects with this error. It carries the same
+// envelope piClient returns, plus the body the backend sent with the failure.
+export class PiApiError extends Error implements ApiResponse<Record<string, unknown>> {
+  readonly success = false;
+  readonly error: string;
+  readonly status?: number;
+  readonly data?: Record<string, unknown>;
+  readonly timestamp = new Date().toISOString();
+
+  constructor(message: string, status?: number, data?: Record<string, unknown>) {
+    super(message);
+    this.name = 'PiApiError';
+    this.error = message;
+    this.status = status;
+    this.data = data;
+  }
+}
+
+const toPiApiError = (error: AxiosError): PiApiError => {
+  const body = error.response?.data;
+  const data = body && typeof body === 'object' ? (body as Record<string, unknown>) : undefined;
+  const backendMessage = typeof data?.error === 'string' ? data.error : undefined;
+
+  if (error.response) {
+    return new PiApiError(
+      backendMessage || `HTTP ${error.response.status}: ${error.response.statusText}`,
+      error.response.status,
+      data
+    );
+  }
+  return new PiApiError(
+    error.code === 'ECONNABORTED'
+      ? 'Request timed out'
+      : 'Cannot reach the backend server. Please check if it is running.'
+  );
+};
+
+// Requests go to the connected Pi, or to the same origin (the Vite proxy) until one is connected
+export const piApi = axios.create();
+
+piApi.interceptors.request.use((config) => {
+  config.baseURL = piClient.getConnectionInfo()?.baseUrl ?? '';
+
+  const token = piClient.getAuthToken();
+  if (token && !config.headers.Authorization) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+
+  console.log(`🌐 ${config.method?.toUpperCase()} ${config.baseURL}${config.url}`);
+  return config;
+});
+
+piApi.interceptors.response.use(
+  (response) => response,
+  (error) => {
+    if (!axios.isAxiosError(error)) {
+      return Promise.reject(error);
+    }
+
+    const normalized = toPiApiError(error);
+    console.warn(`⚠️ ${error.config?.method?.toUpperCase()} ${error.config?.url} failed:`, normalized.error);
+    return Promise.reject(normalized);
+  }
+);
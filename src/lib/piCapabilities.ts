@@ -0,0 +1,98 @@
+// Capability manifests reported by each backend (GET /api), cached in localStorage
+import { z } from 'zod';
+import { PiCapabilitySchema, type PiCapability } from './piSchemas';
+
+export interface CapabilityManifest {
+  version: string;
+  features: PiCapability[];
+  fetchedAt: string;
+}
+
+export interface CapabilitySnapshot {
+  // Backend the manifest belongs to; null while disconnected
+  baseUrl: string | null;
+  // null when the backend is unknown or does not publish a manifest
+  manifest: CapabilityManifest | null;
+}
+
+const STORAGE_KEY = 'smart-monitor.capabilities';
+
+const StoredManifestsSchema = z.record(
+  z.object({
+    version: z.string(),
+    features: z.array(PiCapabilitySchema),
+    fetchedAt: z.string(),
+  })
+);
+
+// Without a manifest nothing is known to be missing, so every feature counts as available
+export const isFeatureAvailable = (manifest: CapabilityManifest | null, feature: string): boolean =>
+  !manifest || manifest.features.some((capability) => capability.name === feature);
+
+type CapabilityListener = (snapshot: CapabilitySnapshot) => void;
+
+export class PiCapabilityCache {
+  private manifests: Record<string, CapabilityManifest>;
+  private snapshot: CapabilitySnapshot = { baseUrl: null, manifest: null };
+  private listeners = new Set<CapabilityListener>();
+
+  constructor() {
+    this.manifests = this.load();
+  }
+
+  getSnapshot(): CapabilitySnapshot {
+    return this.snapshot;
+  }
+
+  // Returns an unsubscribe function
+  subscribe(listener: CapabilityListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Switch to a backend, starting from the manifest cached on an earlier visit
+  setBaseUrl(baseUrl: string | null): void {
+    if (baseUrl === this.snapshot.baseUrl) return;
+    this.update({ baseUrl, manifest: baseUrl ? this.manifests[baseUrl] ?? null : null });
+  }
+
+  store(baseUrl: string, manifest: CapabilityManifest): void {
+    this.manifests = { ...this.manifests, [baseUrl]: manifest };
+    this.persist();
+    if (baseUrl === this.snapshot.baseUrl) {
+      this.update({ baseUrl, manifest });
+    }
+  }
+
+  private load(): Record<string, CapabilityManifest> {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (!stored) return {};
+
+      const parsed = StoredManifestsSchema.safeParse(JSON.parse(stored));
+      if (!parsed.success) {
+        console.warn('⚠️ Ignoring invalid capability cache in localStorage');
+        return {};
+      }
+      return parsed.data as Record<string, CapabilityManifest>;
+    } catch (error) {
+      console.warn('⚠️ Failed to load capability cache:', error);
+      return {};
+    }
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.manifests));
+    } catch (error) {
+      console.warn('⚠️ Failed to persist capability cache:', error);
+    }
+  }
+
+  private update(snapshot: CapabilitySnapshot): void {
+    this.snapshot = snapshot;
+    this.listeners.forEach((listener) => listener(snapshot));
+  }
+}
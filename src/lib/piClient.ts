@@ -1,36 +1,111 @@
 // API Client for communicating with Smart Monitor Pi
+import { z } from 'zod';
+import {
+  ApiDiscoverySchema,
+  AudioSinkListSchema,
+  BluetoothAudioResultSchema,
+  BluetoothConnectedSchema,
+  BluetoothPairingPromptListSchema,
+  BluetoothScanSchema,
+  BluetoothScanStatusSchema,
+  BluetoothStatusSchema,
+  CommandResultSchema,
+  KnownBluetoothDeviceListSchema,
+  DiscoveryPeersSchema,
+  PairedClientListSchema,
+  PairingCodeSchema,
+  PairingResultSchema,
+  PiStatusSchema,
+  SpotifyPlaybackSchema,
+  SpotifyStatusSchema,
+  ProcessActionConfirmationSchema,
+  ProcessActionResultSchema,
+  ProcessListSchema,
+  SystemControlStateSchema,
+  SystemInfoSchema,
+  SystemStatusSchema,
+  TelemetryHistorySchema,
+  WallpaperListSchema,
+  formatValidationIssues,
+  parsePiPayload,
+  type CommandResult,
+  type DiscoveryPeers,
+  type PairingCode,
+  type PairingResult,
+  type PiEventMap,
+  type PiEventType,
+  type TelemetryMetric,
+  type TelemetryRange,
+} from './piSchemas';
+import {
+  PI_ROUTES,
+  isRouteMissing,
+  retryPolicyFor,
+  type HttpMethod,
+  type PiOperation,
+  type ResolvedRoute,
+} from './piRoutes';
+import { deviceRegistry, type PiDeviceProfile } from './deviceRegistry';
+import { PiCapabilityCache, type CapabilityManifest } from './piCapabilities';
+import { PiEventStream, type EventStreamStatus } from './piEvents';
+import { PiOutbox, type QueueableOperation } from './piOutbox';
+import { NO_RETRY, PiCircuitBreaker, backoffDelay, isTransientFailure, type RetryPolicy } from './piResilience';
+
 interface PiConnection {
   ip: string;
   port: number;
   baseUrl: string;
+  authToken?: string;
   isConnected: boolean;
   lastResponse?: Date;
 }
 
-interface ApiResponse<T = unknown> {
+export interface ApiResponse<T = unknown> {
   success: boolean;
   data?: T;
   error?: string;
+  status?: number;
+  // Set when the command was stored in the outbox instead of reaching the Pi
+  queued?: boolean;
   timestamp: string;
 }
 
-interface ApiDiscoveryResponse {
-  success: boolean;
-  message: string;
-  version: string;
-  endpoints: string[];
-  timestamp: string;
-}
+// Placeholder routes (/api/cpu, /api/memory, ...) only point at /api/system/info
+const EndpointInfoSchema = CommandResultSchema;
+
+// Pairing prompts may each wait 30s for an answer on top of the connect itself
+const BLUETOOTH_CONNECT_TIMEOUT = 120000;
 
 export class SmartMonitorPiClient {
   private connection: PiConnection | null = null;
+  // Alias each operation resolved to on the connected backend
+  private resolvedRoutes = new Map<PiOperation, string>();
+  // Tracks repeated failures; the UI subscribes to it to show a degraded connection
+  readonly breaker = new PiCircuitBreaker({
+    failureThreshold: 3,
+    probeIntervalMs: 5000,
+    probe: () => this.probeConnection()
+  });
+  private events = new PiEventStream(() => this.getAuthToken());
+  // Features the connected backend reports in its /api manifest
+  readonly capabilities = new PiCapabilityCache();
+  // Commands waiting for the Pi to become reachable again
+  readonly outbox = new PiOutbox();
+  private isFlushingOutbox = false;
 
   constructor() {
     this.connection = null;
+
+    // Replay queued commands as soon as a degraded connection recovers
+    this.breaker.subscribe(({ state }) => {
+      if (state === 'closed') {
+        void this.flushOutbox();
+      }
+    });
   }
 
   // Establish connection to Pi
-  async connect(ip: string, port: number = 5000): Promise<boolean> {
+  async connect(ip: string, port: number = 5000, authToken?: string): Promise<boolean> {
     try {
       const baseUrl = `http://${ip}:${port}`;
       console.log(`Connecting to Smart Monitor Pi at ${baseUrl}...`);
@@ -38,6 +113,7 @@ export class SmartMonitorPiClient {
       // Test basic connectivity to the backend server
       const response = await fetch(baseUrl, {
         method: 'GET',
+        headers: this.authHeaders(authToken),
         signal: AbortSignal.timeout(10000)
       });
 
@@ -45,26 +121,33 @@ export class SmartMonitorPiClient {
         // Backend server is running, but now check if it's actually connected to a Pi
         const piStatusResponse = await fetch(`${baseUrl}/api/pi/status`, {
           method: 'GET',
+          headers: this.authHeaders(authToken),
           signal: AbortSignal.timeout(5000)
         });
 
         if (piStatusResponse.ok) {
-          const piStatus = await piStatusResponse.json();
+          const piStatus = parsePiPayload(PiStatusSchema, await piStatusResponse.json(), 'GET /api/pi/status');
           
           if (piStatus.success && piStatus.connected) {
             // Pi is actually connected
+            this.resolvedRoutes.clear();
+            this.breaker.reset();
             this.connection = {
               ip,
               port,
               baseUrl,
+              authToken,
               isConnected: true,
               lastResponse: new Date()
             };
+            this.events.setBaseUrl(baseUrl);
+            this.capabilities.setBaseUrl(baseUrl);
 
             console.log('✅ Connected to Smart Monitor Pi successfully');
             
-            // Discover available endpoints
-            await this.discoverEndpoints();
+            // Refresh the cached capability manifest
+            await this.discoverCapabilities(baseUrl);
+            void this.flushOutbox();
             
             return true;
           } else {
@@ -85,9 +168,21 @@ export class SmartMonitorPiClient {
     }
   }
 
+  // Connect to a saved device profile and make it the active device
+  async connectToDevice(device: PiDeviceProfile): Promise<boolean> {
+    const connected = await this.connect(device.host, device.port, device.authToken);
+    deviceRegistry.setActiveDevice(connected ? device.id : null);
+    return connected;
+  }
+
   // Disconnect from Pi
   disconnect(): void {
     this.connection = null;
+    this.resolvedRoutes.clear();
+    this.breaker.reset();
+    this.events.setBaseUrl('');
+    this.capabilities.setBaseUrl(null);
+    deviceRegistry.setActiveDevice(null);
     console.log('🔌 Disconnected from Smart Monitor Pi');
   }
 
@@ -105,17 +200,22 @@ export class SmartMonitorPiClient {
     try {
       const response = await fetch(`${this.connection.baseUrl}/api/pi/status`, {
         method: 'GET',
+        headers: this.authHeaders(this.connection.authToken),
         signal: AbortSignal.timeout(5000)
       });
 
       if (response.ok) {
-        const piStatus = await response.json();
+        const piStatus = parsePiPayload(PiStatusSchema, await response.json(), 'GET /api/pi/status');
         const isConnected = piStatus.success && piStatus.connected;
         
         // Update our connection status based on Pi status
         if (this.connection) {
           this.connection.isConnected = isConnected;
         }
+
+        if (isConnected) {
+          void this.flushOutbox();
+        }
         
         return isConnected;
       }
@@ -129,17 +229,167 @@ export class SmartMonitorPiClient {
     }
   }
 
+  // Background health probe used by the circuit breaker
+  private async probeConnection(): Promise<boolean> {
+    if (!this.connection) {
+      return false;
+    }
+
+    try {
+      const response = await fetch(`${this.connection.baseUrl}/api/pi/status`, {
+        method: 'GET',
+        headers: this.authHeaders(this.connection.authToken),
+        signal: AbortSignal.timeout(5000)
+      });
+      if (!response.ok) {
+        return false;
+      }
+      const piStatus = parsePiPayload(PiStatusSchema, await response.json(), 'GET /api/pi/status');
+      return piStatus.success && piStatus.connected;
+    } catch {
+      return false;
+    }
+  }
+
+  // Push updates from the backend event stream; returns an unsubscribe function.
+  // Until a Pi is connected the stream comes from the same origin (Vite proxy).
+  subscribe<K extends PiEventType>(type: K, listener: (data: PiEventMap[K]) => void): () => void {
+    return this.events.subscribe(type, listener);
+  }
+
+  subscribeEventStatus(listener: (status: EventStreamStatus) => void): () => void {
+    return this.events.subscribeStatus(listener);
+  }
+
+  // Token sent with every request: the connected device's, else the default device's
+  getAuthToken(): string | undefined {
+    return this.connection?.authToken ?? deviceRegistry.getDefaultDevice()?.authToken;
+  }
+
+  // Read the current one-time code; the backend only hands it to the monitor's own browser
+  async getPairingCode(): Promise<ApiResponse<PairingCode>> {
+    try {
+      const response = await fetch('/api/pair/code', { signal: AbortSignal.timeout(5000) });
+      if (!response.ok) {
+        return {
+          success: false,
+          error: `HTTP ${response.status}: ${response.statusText}`,
+          status: response.status,
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      return {
+        success: true,
+        data: parsePiPayload(PairingCodeSchema, await response.json(), 'GET /api/pair/code'),
+        status: response.status,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      };
+    }
+  }
+
+  // Monitors the backend has heard on the LAN. Asks the connected backend, or
+  // the one serving this page before any Pi is connected.
+  async getDiscoveredPeers(): Promise<ApiResponse<DiscoveryPeers>> {
+    const endpoint = `${this.connection?.baseUrl ?? ''}/api/discovery/peers`;
+    try {
+      const response = await fetch(endpoint, {
+        headers: this.authHeaders(this.getAuthToken()),
+        signal: AbortSignal.timeout(5000)
+      });
+      if (!response.ok) {
+        return {
+          success: false,
+          error: `HTTP ${response.status}: ${response.statusText}`,
+          status: response.status,
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      return {
+        success: true,
+        data: parsePiPayload(DiscoveryPeersSchema, await response.json(), 'GET /api/discovery/peers'),
+        status: response.status,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      };
+    }
+  }
+
+  // Trade the one-time code shown on the monitor for this client's bearer token
+  async pair(host: string, port: number, code: string, clientName: string): Promise<ApiResponse<PairingResult>> {
+    const endpoint = `http://${host}:${port}/api/pair`;
+    try {
+      console.log(`🤝 Pairing with ${host}:${port}...`);
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code, clientName }),
+        signal: AbortSignal.timeout(10000)
+      });
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: response.status === 403 ? 'Invalid or expired pairing code' : `HTTP ${response.status}: ${response.statusText}`,
+          status: response.status,
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      return {
+        success: true,
+        data: parsePiPayload(PairingResultSchema, await response.json(), 'POST /api/pair'),
+        status: response.status,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      console.error('❌ Pairing failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      };
+    }
+  }
+
+  async getPairedClients() {
+    return await this.requestRoute('pairedClients', PairedClientListSchema);
+  }
+
+  async revokePairedClient(clientId: string) {
+    return await this.makeRequest(`/api/pair/clients/${encodeURIComponent(clientId)}`, CommandResultSchema, 'DELETE');
+  }
+
+  private authHeaders(authToken?: string): Record<string, string> {
+    return authToken ? { Authorization: `Bearer ${authToken}` } : {};
+  }
+
   // Get connection info
   getConnectionInfo(): PiConnection | null {
     return this.connection;
   }
 
-  // Make API request
-  private async makeRequest<T>(
-    endpoint: string, 
-    method: 'GET' | 'POST' | 'PUT' | 'DELETE' = 'GET',
-    body?: unknown
-  ): Promise<ApiResponse<T>> {
+  // Make API request, retrying transient failures according to `retry`
+  private async makeRequest<S extends z.ZodTypeAny>(
+    endpoint: string,
+    schema: S,
+    method: HttpMethod = 'GET',
+    body?: unknown,
+    timeoutMs: number = 10000,
+    retry: RetryPolicy = NO_RETRY
+  ): Promise<ApiResponse<z.infer<S>>> {
     if (!this.connection?.isConnected) {
       return {
         success: false,
@@ -148,6 +398,45 @@ export class SmartMonitorPiClient {
       };
     }
 
+    // Fail fast while degraded; the breaker probes in the background
+    if (this.breaker.isOpen()) {
+      return {
+        success: false,
+        error: 'Pi connection degraded, waiting for it to recover',
+        timestamp: new Date().toISOString()
+      };
+    }
+
+    let result: ApiResponse<z.infer<S>>;
+    for (let attempt = 0; ; attempt++) {
+      result = await this.sendRequest(endpoint, schema, method, body, timeoutMs);
+
+      if (!isTransientFailure(result.status)) {
+        this.breaker.recordSuccess();
+        return result;
+      }
+
+      if (attempt + 1 >= retry.attempts || !this.connection?.isConnected) {
+        break;
+      }
+
+      const delay = backoffDelay(attempt, retry);
+      console.warn(`🔁 Retrying ${method} ${endpoint} in ${delay}ms (attempt ${attempt + 2}/${retry.attempts})`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+
+    this.breaker.recordFailure(result.error ?? `${method} ${endpoint} failed`);
+    return result;
+  }
+
+  // Single request attempt; validates the response body against `schema`
+  private async sendRequest<S extends z.ZodTypeAny>(
+    endpoint: string,
+    schema: S,
+    method: HttpMethod,
+    body: unknown,
+    timeoutMs: number
+  ): Promise<ApiResponse<z.infer<S>>> {
     try {
       const url = `${this.connection.baseUrl}${endpoint}`;
       console.log(`🔄 API Request: ${method} ${url}`);
@@ -156,38 +445,53 @@ export class SmartMonitorPiClient {
         method,
         headers: {
           'Content-Type': 'application/json',
+          ...this.authHeaders(this.connection.authToken),
         },
         body: body ? JSON.stringify(body) : undefined,
-        signal: AbortSignal.timeout(10000)
+        signal: AbortSignal.timeout(timeoutMs)
       });
 
       this.connection.lastResponse = new Date();
 
       if (response.ok) {
         const contentType = response.headers.get('content-type');
-        let data: T;
+        let payload: unknown;
 
         if (contentType && contentType.includes('application/json')) {
-          data = await response.json();
+          payload = await response.json();
         } else {
           // Handle non-JSON responses
           const textContent = await response.text();
-          data = {
+          payload = {
             type: 'html_response',
             content: textContent,
             contentType
-          } as T;
+          };
+        }
+
+        const parsed = schema.safeParse(payload);
+        if (!parsed.success) {
+          const error = `Invalid response from ${method} ${endpoint}: ${formatValidationIssues(parsed.error)}`;
+          console.error(`❌ ${error}`, payload);
+          return {
+            success: false,
+            error,
+            status: response.status,
+            timestamp: new Date().toISOString()
+          };
         }
 
         return {
           success: true,
-          data,
+          data: parsed.data,
+          status: response.status,
           timestamp: new Date().toISOString()
         };
       } else {
         return {
           success: false,
           error: `HTTP ${response.status}: ${response.statusText}`,
+          status: response.status,
           timestamp: new Date().toISOString()
         };
       }
@@ -201,147 +505,321 @@ export class SmartMonitorPiClient {
     }
   }
 
-  // Discover available endpoints from the API
-  private async discoverEndpoints(): Promise<string[]> {
-    console.log('🔍 Discovering available API endpoints...');
-    
-    try {
-      // First, try to get the endpoint list from the API discovery endpoint
-      const apiResponse = await this.makeRequest('/api');
-      
-      // The /api endpoint returns data directly, not wrapped in data property
-      if (apiResponse.success && apiResponse.data) {
-        const discoveryData = apiResponse.data as ApiDiscoveryResponse;
-        if (discoveryData.endpoints) {
-          console.log(`📡 Found ${discoveryData.endpoints.length} endpoints from API discovery`);
-          
-          // Verify each endpoint actually works
-          const verifiedEndpoints: string[] = [];
-          for (const endpoint of discoveryData.endpoints) {
-            try {
-              const result = await this.makeRequest(endpoint);
-              if (result.success) {
-                verifiedEndpoints.push(endpoint);
-                console.log(`✅ Verified endpoint: ${endpoint}`);
-              }
-            } catch (error) {
-              console.log(`❌ Endpoint not working: ${endpoint}`);
-            }
-          }
-          
-          return verifiedEndpoints;
-        }
+  // Run a logical operation, resolving which endpoint alias serves it on first use
+  private async requestRoute<S extends z.ZodTypeAny>(
+    operation: PiOperation,
+    schema: S,
+    body?: unknown,
+    timeoutMs?: number
+  ): Promise<ApiResponse<z.infer<S>>> {
+    const { method, aliases } = PI_ROUTES[operation];
+    const retry = retryPolicyFor(operation);
+    const resolved = this.resolvedRoutes.get(operation);
+
+    // GET routes take their parameters as a query string
+    const query = method === 'GET' && body ? `?${new URLSearchParams(body as Record<string, string>)}` : '';
+    const payload = method === 'GET' ? undefined : body;
+
+    if (resolved) {
+      const result = await this.makeRequest(`${resolved}${query}`, schema, method, payload, timeoutMs, retry);
+      if (!isRouteMissing(result.status)) {
+        return result;
       }
-    } catch (error) {
-      console.log('⚠️ API discovery failed, falling back to manual discovery');
+      // The backend stopped serving this alias; resolve again from the top
+      console.warn(`⚠️ ${method} ${resolved} no longer available for ${operation}, re-resolving...`);
+      this.resolvedRoutes.delete(operation);
     }
 
-    // Fallback: Only check essential endpoints if API discovery fails
-    const essentialEndpoints = [
-      '/api/status',
-      '/api/system/info',
-      '/api/bluetooth/status'
-    ];
+    let result: ApiResponse<z.infer<S>> | null = null;
+    for (const endpoint of aliases) {
+      result = await this.makeRequest(`${endpoint}${query}`, schema, method, payload, timeoutMs, retry);
 
-    const availableEndpoints: string[] = [];
-    
-    for (const endpoint of essentialEndpoints) {
-      try {
-        const result = await this.makeRequest(endpoint);
-        if (result.success) {
-          availableEndpoints.push(endpoint);
-          console.log(`✅ Available endpoint: ${endpoint}`);
-        }
-      } catch (error) {
-        console.log(`❌ Endpoint not available: ${endpoint}`);
+      if (isRouteMissing(result.status)) {
+        console.log(`↪️ ${method} ${endpoint} not served, trying next alias for ${operation}`);
+        continue;
+      }
+
+      // Any HTTP answer other than 404/405 means the route exists, even if it failed
+      if (result.status !== undefined) {
+        this.resolvedRoutes.set(operation, endpoint);
+        console.log(`🧭 Resolved ${operation} → ${method} ${endpoint}`);
       }
+      return result;
     }
 
-    console.log(`📡 Found ${availableEndpoints.length} available endpoints`);
-    return availableEndpoints;
+    return {
+      success: false,
+      error: `No endpoint available for ${operation} (tried ${aliases.join(', ')})`,
+      status: result?.status,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  // Route map for diagnostics: every operation with the alias it resolved to (if any)
+  getResolvedRoutes(): ResolvedRoute[] {
+    return (Object.keys(PI_ROUTES) as PiOperation[]).map((operation) => ({
+      operation,
+      method: PI_ROUTES[operation].method,
+      aliases: PI_ROUTES[operation].aliases,
+      endpoint: this.resolvedRoutes.get(operation) ?? null
+    }));
+  }
+
+  // Resolve every read-only operation up front; commands are only resolved on real use
+  async resolveReadRoutes(): Promise<ResolvedRoute[]> {
+    const readOperations = (Object.keys(PI_ROUTES) as PiOperation[]).filter(
+      (operation) => PI_ROUTES[operation].method === 'GET' && !this.resolvedRoutes.has(operation)
+    );
+
+    for (const operation of readOperations) {
+      await this.requestRoute(operation, z.unknown());
+    }
+
+    return this.getResolvedRoutes();
+  }
+
+  // Fetch the capability manifest from /api and cache it for this backend.
+  // Older backends only list endpoints; the cached manifest is kept for them.
+  private async discoverCapabilities(baseUrl: string): Promise<CapabilityManifest | null> {
+    console.log('🔍 Discovering backend capabilities...');
+
+    const apiResponse = await this.makeRequest('/api', ApiDiscoverySchema);
+    if (!apiResponse.success || !apiResponse.data) {
+      console.log('⚠️ Capability discovery failed, keeping cached manifest');
+      return this.capabilities.getSnapshot().manifest;
+    }
+
+    const { version, features } = apiResponse.data;
+    if (!features) {
+      console.log(`📡 Backend ${version} has no capability manifest (${apiResponse.data.endpoints.length} endpoints listed)`);
+      return this.capabilities.getSnapshot().manifest;
+    }
+
+    const manifest: CapabilityManifest = {
+      version,
+      features,
+      fetchedAt: new Date().toISOString()
+    };
+    this.capabilities.store(baseUrl, manifest);
+    console.log(`📡 Backend ${version} supports: ${features.map((feature) => feature.name).join(', ')}`);
+    return manifest;
   }
 
   // Specific API methods for Smart Monitor Pi
+  // Audio outputs (analog, HDMI, Bluetooth speakers, combined) with their volume
+  async getAudioSinks() {
+    return await this.requestRoute('audioSinks', AudioSinkListSchema);
+  }
+
+  // Make a sink the default output; playing streams move with it unless moveStreams is false
+  async setDefaultAudioSink(sink: string, moveStreams = true) {
+    return await this.requestRoute('setDefaultAudioSink', CommandResultSchema, { sink, moveStreams });
+  }
+
+  async setAudioSinkVolume(sink: string, changes: { volume?: number; muted?: boolean }) {
+    return await this.requestRoute('setAudioSinkVolume', CommandResultSchema, { sink, ...changes });
+  }
+
+  // Play on several sinks at once through one combined sink, which becomes the default
+  async combineAudioSinks(sinks: string[]) {
+    return await this.requestRoute('combineAudioSinks', CommandResultSchema, { sinks });
+  }
+
+  async removeCombinedAudioSink() {
+    return await this.requestRoute('removeCombinedAudioSink', CommandResultSchema);
+  }
+
   async getSystemStatus() {
-    return await this.makeRequest('/api/status') || 
-           await this.makeRequest('/status') ||
-           await this.makeRequest('/');
+    return await this.requestRoute('systemStatus', SystemStatusSchema);
   }
 
   async getSystemInfo() {
-    return await this.makeRequest('/api/system') ||
-           await this.makeRequest('/system') ||
-           await this.makeRequest('/info');
+    return await this.requestRoute('systemInfo', SystemInfoSchema);
+  }
+
+  // Volume, brightness and screen as the Pi has them, plus temperature level and throttling
+  async getSystemControlState() {
+    return await this.requestRoute('systemControlState', SystemControlStateSchema);
+  }
+
+  // The busiest processes: the top `limit` by CPU together with the top `limit` by memory
+  async getProcesses(limit?: number) {
+    return await this.requestRoute('processes', ProcessListSchema, limit ? { limit: String(limit) } : undefined);
+  }
+
+  // Kill and renice take two calls: without a token the Pi answers with one,
+  // and the same call with that token runs the action
+  async requestKillProcess(pid: number, signal: string) {
+    return await this.makeRequest(`/api/system/processes/${pid}/kill`, ProcessActionConfirmationSchema, 'POST', { signal });
+  }
+
+  async killProcess(pid: number, signal: string, confirmToken: string) {
+    return await this.makeRequest(`/api/system/processes/${pid}/kill`, ProcessActionResultSchema, 'POST', { signal, confirmToken });
+  }
+
+  async requestReniceProcess(pid: number, priority: number) {
+    return await this.makeRequest(`/api/system/processes/${pid}/renice`, ProcessActionConfirmationSchema, 'POST', { priority });
+  }
+
+  async reniceProcess(pid: number, priority: number, confirmToken: string) {
+    return await this.makeRequest(`/api/system/processes/${pid}/renice`, ProcessActionResultSchema, 'POST', { priority, confirmToken });
+  }
+
+  // CPU, temperature, memory or storage over the last hour, day, week or month
+  async getTelemetryHistory(metric: TelemetryMetric, range: TelemetryRange) {
+    return await this.requestRoute('telemetryHistory', TelemetryHistorySchema, { metric, range });
   }
 
   async getTemperature() {
-    return await this.makeRequest('/api/temperature') ||
-           await this.makeRequest('/temperature');
+    return await this.requestRoute('temperature', EndpointInfoSchema);
   }
 
   async getCpuInfo() {
-    return await this.makeRequest('/api/cpu');
+    return await this.requestRoute('cpu', EndpointInfoSchema);
   }
 
   async getMemoryInfo() {
-    return await this.makeRequest('/api/memory');
+    return await this.requestRoute('memory', EndpointInfoSchema);
   }
 
   async getWallpapers() {
-    return await this.makeRequest('/api/wallpapers') ||
-           await this.makeRequest('/wallpapers');
+    return await this.requestRoute('wallpapers', WallpaperListSchema);
   }
 
   async setWallpaper(wallpaperId: string, wallpaperData: { fileName: string; displayName: string }) {
     console.log('📤 Sending wallpaper change request to Pi:', { wallpaperId, ...wallpaperData });
     
-    // Try wallpaper-specific endpoints first
-    return await this.makeRequest('/api/wallpapers/set', 'POST', { 
-      wallpaperId, 
-      fileName: wallpaperData.fileName,
-      displayName: wallpaperData.displayName,
-      action: 'set_active'
-    }) ||
-    await this.makeRequest('/wallpapers/set', 'POST', { 
-      wallpaperId, 
-      fileName: wallpaperData.fileName,
-      displayName: wallpaperData.displayName,
-      action: 'set_active'
-    }) ||
-    // Fallback to general command endpoint
-    await this.sendCommand('set_wallpaper', {
+    const payload = {
       wallpaperId,
       fileName: wallpaperData.fileName,
       displayName: wallpaperData.displayName,
       action: 'set_active'
-    });
+    };
+
+    // Try wallpaper-specific endpoints first (queued while the Pi is unreachable)
+    const result = await this.sendOrQueue('setWallpaper', payload, 'wallpaper');
+    if (!isRouteMissing(result.status)) {
+      return result;
+    }
+
+    // Fallback to general command endpoint
+    return await this.sendCommand('set_wallpaper', payload);
+  }
+
+  // Send a non-destructive command. With the outbox turned on, a command the Pi
+  // can't be reached for is queued for that Pi instead of failing; commands with
+  // the same coalesceKey replace each other while queued.
+  async sendOrQueue(operation: QueueableOperation, body: unknown, coalesceKey: string | null = null) {
+    const target = this.connection?.baseUrl;
+    if (!this.outbox.isEnabled() || !target) {
+      return await this.requestRoute(operation, CommandResultSchema, body);
+    }
+
+    if (this.connection?.isConnected && !this.breaker.isOpen()) {
+      const result = await this.requestRoute(operation, CommandResultSchema, body);
+      // Any HTTP answer is final; only an unreachable Pi queues the command
+      if (result.status !== undefined) {
+        return result;
+      }
+    }
+
+    this.outbox.enqueue(target, operation, body, coalesceKey);
+    return {
+      success: false,
+      queued: true,
+      error: 'Pi unreachable, command queued until it reconnects',
+      timestamp: new Date().toISOString()
+    } satisfies ApiResponse<CommandResult>;
+  }
+
+  // Replay the commands queued for the connected Pi in order; stops at the first
+  // one it still can't receive. Commands for other Pis wait for those.
+  async flushOutbox(): Promise<void> {
+    const baseUrl = this.connection?.baseUrl;
+    if (this.isFlushingOutbox || !this.connection?.isConnected || this.outbox.getEntriesFor(baseUrl).length === 0) {
+      return;
+    }
+
+    this.isFlushingOutbox = true;
+    try {
+      const entries = this.outbox.getEntriesFor(baseUrl);
+      console.log(`📤 Replaying ${entries.length} queued command(s)...`);
+      for (const entry of entries) {
+        // Switched to another Pi mid-replay; the rest waits for this one
+        if (this.connection?.baseUrl !== baseUrl) break;
+
+        const result = await this.requestRoute(entry.operation, CommandResultSchema, entry.body);
+        if (result.status === undefined) {
+          console.warn(`⚠️ Pi still unreachable, keeping ${entry.operation} queued`);
+          break;
+        }
+
+        this.outbox.remove(entry.id);
+        if (!result.success) {
+          console.warn(`⚠️ Queued ${entry.operation} rejected by Pi:`, result.error);
+        }
+      }
+    } finally {
+      this.isFlushingOutbox = false;
+    }
   }
 
   // Send control commands
   async sendCommand(command: string, params?: unknown) {
-    // For Bluetooth commands, try Bluetooth endpoints first
-    if (command.includes('bluetooth')) {
-      return await this.makeRequest('/api/bluetooth', 'POST', { command, params }) ||
-             await this.makeRequest('/bluetooth', 'POST', { command, params }) ||
-             await this.makeRequest('/api/controls', 'POST', { command, params }) ||
-             await this.makeRequest('/controls', 'POST', { command, params });
-    }
-    
-    // For other commands, try controls endpoints first
-    return await this.makeRequest('/api/controls', 'POST', { command, params }) ||
-           await this.makeRequest('/controls', 'POST', { command, params }) ||
-           await this.makeRequest('/api/bluetooth', 'POST', { command, params }) ||
-           await this.makeRequest('/bluetooth', 'POST', { command, params });
+    // Bluetooth commands prefer the Bluetooth endpoints, everything else the controls endpoints
+    const operation: PiOperation = command.includes('bluetooth') ? 'bluetoothCommand' : 'controlCommand';
+    return await this.requestRoute(operation, CommandResultSchema, { command, params });
   }
 
-  // Bluetooth Audio specific methods
-  async connectBluetoothAudio(deviceId: string, deviceName: string) {
+  // Bluetooth Audio specific methods. Connecting may wait on pairing prompts
+  // answered by the user, so it gets far longer than the default timeout.
+  // With keepOthers, speakers already connected stay connected so they can be grouped
+  async connectBluetoothAudio(deviceId: string, deviceName: string, keepOthers = false) {
     console.log(`🎵 Sending Bluetooth audio connect command for ${deviceName}...`);
-    return await this.sendCommand('bluetooth_audio_connect', {
-      deviceId,
-      deviceName,
-      action: 'connect_audio'
-    });
+    return await this.requestRoute('bluetoothCommand', CommandResultSchema, {
+      command: 'bluetooth_audio_connect',
+      params: { deviceId, deviceName, action: 'connect_audio', keepOthers }
+    }, BLUETOOTH_CONNECT_TIMEOUT);
+  }
+
+  // Pairing prompts (passkey, PIN, authorization) still waiting for an answer
+  async getPairingPrompts() {
+    return await this.requestRoute('bluetoothPairingPrompts', BluetoothPairingPromptListSchema);
+  }
+
+  // Answer a pairing prompt; `value` carries the PIN or passkey for enter-* prompts
+  async respondToPairingPrompt(promptId: string, accept: boolean, value?: string) {
+    return await this.requestRoute('bluetoothPairingRespond', CommandResultSchema, { promptId, accept, value });
+  }
+
+  // Devices remembered for auto-reconnect, highest priority first
+  async getKnownBluetoothDevices() {
+    return await this.requestRoute('bluetoothKnown', KnownBluetoothDeviceListSchema);
+  }
+
+  // Change the auto-reconnect order; `macs` lists the devices highest priority first
+  async reorderKnownBluetoothDevices(macs: string[]) {
+    return await this.requestRoute('bluetoothKnownReorder', KnownBluetoothDeviceListSchema, { order: macs });
+  }
+
+  // Rename a known device (an empty nickname clears it) or toggle its auto-reconnect
+  async updateKnownBluetoothDevice(mac: string, changes: { nickname?: string; autoReconnect?: boolean }) {
+    return await this.makeRequest(`/bluetooth/known/${encodeURIComponent(mac)}`, CommandResultSchema, 'PUT', changes);
+  }
+
+  // Forget a device: removes it from the list and unpairs it on the Pi
+  async forgetBluetoothDevice(mac: string) {
+    return await this.makeRequest(`/bluetooth/known/${encodeURIComponent(mac)}`, CommandResultSchema, 'DELETE');
+  }
+
+  // Card profiles and codecs of a connected audio device
+  async getBluetoothAudio(mac: string) {
+    return await this.makeRequest(`/bluetooth/audio/${encodeURIComponent(mac)}`, BluetoothAudioResultSchema);
+  }
+
+  // Switch a device to another card profile (e.g. the headset profile for its microphone) or codec
+  async setBluetoothAudio(mac: string, changes: { profile?: string; codec?: string }) {
+    return await this.makeRequest(`/bluetooth/audio/${encodeURIComponent(mac)}`, BluetoothAudioResultSchema, 'PUT', changes);
   }
 
   async disconnectBluetoothAudio() {
@@ -353,151 +831,61 @@ export class SmartMonitorPiClient {
 
   async disconnectSpecificBluetoothDevice(deviceId: string) {
     console.log(`🔇 Sending specific Bluetooth disconnect command for ${deviceId}...`);
-    
-    if (!this.connection?.isConnected) {
-      return {
-        success: false,
-        error: 'Not connected to Pi'
-      };
-    }
-
-    try {
-      const url = `${this.connection.baseUrl}/bluetooth/disconnect`;
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ deviceId }),
-        signal: AbortSignal.timeout(10000)
-      });
-
-      this.connection.lastResponse = new Date();
-
-      if (response.ok) {
-        const data = await response.json();
-        console.log('📱 Disconnect response:', data);
-        return data;
-      } else {
-        return {
-          success: false,
-          error: `HTTP ${response.status}: ${response.statusText}`
-        };
-      }
-    } catch (error) {
-      console.error('❌ Failed to disconnect device:', error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      };
-    }
+    const result = await this.requestRoute('bluetoothDisconnect', CommandResultSchema, { deviceId });
+    console.log('📱 Disconnect response:', result);
+    return result;
   }
 
   // Scan for Bluetooth devices
   async scanBluetoothDevices() {
-    if (!this.connection?.isConnected) {
-      return {
-        success: false,
-        error: 'Not connected to Pi',
-        devices: []
-      };
-    }
-
-    try {
-      const url = `${this.connection.baseUrl}/bluetooth/scan`;
-      console.log(`🔄 Scanning for Bluetooth devices: GET ${url}`);
-
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        signal: AbortSignal.timeout(15000) // Longer timeout for scanning
-      });
+    console.log('🔄 Scanning for Bluetooth devices...');
+    // Longer timeout for scanning
+    const result = await this.requestRoute('bluetoothScan', BluetoothScanSchema, undefined, 15000);
+    console.log('📱 Bluetooth scan response:', result);
+    return result;
+  }
 
-      this.connection.lastResponse = new Date();
+  // Start a streaming scan (or join the running one). Resolves right away with
+  // the devices known so far; the rest arrive as bluetooth.scan.* events.
+  async startBluetoothScan(seconds?: number) {
+    console.log('🔄 Starting streaming Bluetooth scan...');
+    return await this.requestRoute('bluetoothScanStart', BluetoothScanStatusSchema, { seconds });
+  }
 
-      if (response.ok) {
-        const data = await response.json();
-        console.log('📱 Bluetooth scan response:', data);
-        return data; // Return the response directly as it contains {success, devices}
-      } else {
-        return {
-          success: false,
-          error: `HTTP ${response.status}: ${response.statusText}`,
-          devices: []
-        };
-      }
-    } catch (error) {
-      console.error('❌ Bluetooth scan failed:', error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        devices: []
-      };
-    }
+  async stopBluetoothScan() {
+    return await this.requestRoute('bluetoothScanStop', BluetoothScanStatusSchema, {});
   }
 
   async getBluetoothStatus() {
-    return await this.makeRequest('/api/bluetooth/status') ||
-           await this.makeRequest('/bluetooth/status') ||
-           await this.makeRequest('/api/bluetooth') ||
-           await this.makeRequest('/bluetooth');
+    return await this.requestRoute('bluetoothStatus', BluetoothStatusSchema);
   }
 
   // Get currently connected Bluetooth devices
   async getConnectedBluetoothDevices() {
-    if (!this.connection?.isConnected) {
-      return {
-        success: false,
-        error: 'Not connected to Pi',
-        connectedDevices: []
-      };
-    }
-
-    try {
-      const url = `${this.connection.baseUrl}/bluetooth/connected`;
-      console.log(`🔄 Getting connected Bluetooth devices: GET ${url}`);
-
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        signal: AbortSignal.timeout(10000)
-      });
+    console.log('🔄 Getting connected Bluetooth devices...');
+    const result = await this.requestRoute('bluetoothConnected', BluetoothConnectedSchema);
+    console.log('📱 Connected devices response:', result);
+    return result;
+  }
 
-      this.connection.lastResponse = new Date();
+  // Spotify session and playback as seen by the Pi backend
+  async getSpotifyStatus() {
+    return await this.requestRoute('spotifyStatus', SpotifyStatusSchema);
+  }
 
-      if (response.ok) {
-        const data = await response.json();
-        console.log('📱 Connected devices response:', data);
-        return data;
-      } else {
-        return {
-          success: false,
-          error: `HTTP ${response.status}: ${response.statusText}`,
-          connectedDevices: []
-        };
-      }
-    } catch (error) {
-      console.error('❌ Failed to get connected devices:', error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        connectedDevices: []
-      };
-    }
+  async getSpotifyPlayback() {
+    return await this.requestRoute('spotifyPlayback', SpotifyPlaybackSchema);
   }
 
   // Test connectivity
   async testConnection(): Promise<boolean> {
     if (!this.connection) return false;
     
-    const result = await this.makeRequest('/');
+    const result = await this.makeRequest('/', z.unknown());
     return result.success;
   }
 }
 
 // Create singleton instance
 export const piClient = new SmartMonitorPiClient();
+
@@ -0,0 +1,274 @@
+// Connection diagnostics: explains why a browser cannot talk to a Pi backend
+import { ApiDiscoverySchema, PiStatusSchema } from './piSchemas';
+
+export type DiagnosticCheckId = 'mixed-content' | 'reachability' | 'cors' | 'backend' | 'pi-status' | 'auth';
+export type DiagnosticStatus = 'pass' | 'warn' | 'fail' | 'skipped';
+
+// The first failing check decides the verdict
+export type DiagnosticVerdict =
+  | 'ok'
+  | 'mixed-content'
+  | 'host-unreachable'
+  | 'port-closed'
+  | 'cors'
+  | 'not-smart-monitor'
+  | 'pi-disconnected'
+  | 'auth-failed';
+
+export interface DiagnosticCheck {
+  id: DiagnosticCheckId;
+  label: string;
+  status: DiagnosticStatus;
+  detail: string;
+  durationMs?: number;
+}
+
+export interface LatencyStats {
+  // Round-trip times of the pings that answered, in send order
+  samples: number[];
+  sent: number;
+  lost: number;
+  min: number | null;
+  p50: number | null;
+  p90: number | null;
+  p95: number | null;
+  p99: number | null;
+  max: number | null;
+}
+
+export interface DiagnosticReport {
+  target: { host: string; port: number; url: string };
+  startedAt: string;
+  finishedAt: string;
+  environment: { pageOrigin: string; userAgent: string };
+  verdict: DiagnosticVerdict;
+  summary: string;
+  checks: DiagnosticCheck[];
+  latency: LatencyStats | null;
+}
+
+export interface DiagnosticOptions {
+  host: string;
+  port: number;
+  authToken?: string;
+  pings?: number;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  // Called as each check finishes so the UI can show progress
+  onCheck?: (check: DiagnosticCheck) => void;
+}
+
+const CHECK_LABELS: Record<DiagnosticCheckId, string> = {
+  'mixed-content': 'Mixed content',
+  'reachability': 'Host and port',
+  'cors': 'CORS',
+  'backend': 'Smart Monitor backend',
+  'pi-status': 'Pi connection',
+  'auth': 'Pairing token'
+};
+
+const VERDICT_SUMMARIES: Record<DiagnosticVerdict, string> = {
+  'ok': 'Everything checks out; this device can control the Pi.',
+  'mixed-content': 'This page is served over HTTPS, so the browser blocks plain HTTP requests to the Pi.',
+  'host-unreachable': 'The host did not answer. Check the address and that both devices are on the same network.',
+  'port-closed': 'The host refused the connection. The backend is not running or listens on another port.',
+  'cors': 'The backend answered but the browser rejected the response (CORS). Check the backend\'s cors() setup.',
+  'not-smart-monitor': 'Something answered on this port, but it is not a Smart Monitor backend.',
+  'pi-disconnected': 'The backend is up but reports that it is not connected to the Pi.',
+  'auth-failed': 'The backend rejected this device\'s pairing token. Pair the device again.'
+};
+
+const DEFAULT_PINGS = 20;
+const DEFAULT_TIMEOUT = 4000;
+// A refused connection fails well before this; a silent host runs into the timeout
+const FAST_FAILURE_MS = 1500;
+
+const IPV4 = /^\d{1,3}(\.\d{1,3}){3}$/;
+
+const percentile = (sorted: number[], p: number): number | null => {
+  if (sorted.length === 0) return null;
+  const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+  return sorted[Math.max(0, index)];
+};
+
+function latencyStats(samples: number[], sent: number): LatencyStats {
+  const sorted = [...samples].sort((a, b) => a - b);
+  return {
+    samples,
+    sent,
+    lost: sent - samples.length,
+    min: sorted[0] ?? null,
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p95: percentile(sorted, 95),
+    p99: percentile(sorted, 99),
+    max: sorted[sorted.length - 1] ?? null
+  };
+}
+
+interface TimedFetch {
+  response?: Response;
+  error?: unknown;
+  timedOut?: boolean;
+  durationMs: number;
+}
+
+// fetch with its own timeout that also follows the run's abort signal
+async function timedFetch(url: string, init: RequestInit, timeoutMs: number, signal?: AbortSignal): Promise<TimedFetch> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const cancel = () => controller.abort();
+  signal?.addEventListener('abort', cancel);
+
+  const startedAt = performance.now();
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    return { response, durationMs: Math.round(performance.now() - startedAt) };
+  } catch (error) {
+    return { error, durationMs: Math.round(performance.now() - startedAt), timedOut: controller.signal.aborted };
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', cancel);
+  }
+}
+
+// Run every check in order; later checks are skipped once one fails, since
+// they cannot tell anything new. Latency is measured whenever the port answers.
+export async function runDiagnostics({
+  host,
+  port,
+  authToken,
+  pings = DEFAULT_PINGS,
+  timeoutMs = DEFAULT_TIMEOUT,
+  signal,
+  onCheck
+}: DiagnosticOptions): Promise<DiagnosticReport> {
+  const baseUrl = `http://${host}:${port}`;
+  const startedAt = new Date().toISOString();
+  const checks: DiagnosticCheck[] = [];
+  let verdict: DiagnosticVerdict = 'ok';
+  let latency: LatencyStats | null = null;
+
+  const record = (id: DiagnosticCheckId, status: DiagnosticStatus, detail: string, durationMs?: number) => {
+    const check: DiagnosticCheck = { id, label: CHECK_LABELS[id], status, detail, durationMs };
+    checks.push(check);
+    onCheck?.(check);
+  };
+
+  const fail = (id: DiagnosticCheckId, failure: DiagnosticVerdict, detail: string, durationMs?: number) => {
+    record(id, 'fail', detail, durationMs);
+    if (verdict === 'ok') verdict = failure;
+  };
+
+  const skipRemaining = () => {
+    for (const id of Object.keys(CHECK_LABELS) as DiagnosticCheckId[]) {
+      if (!checks.some((check) => check.id === id)) {
+        record(id, 'skipped', 'Not checked after an earlier failure');
+      }
+    }
+  };
+
+  const finish = (): DiagnosticReport => ({
+    target: { host, port, url: baseUrl },
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    environment: {
+      pageOrigin: window.location.origin,
+      userAgent: navigator.userAgent
+    },
+    verdict,
+    summary: VERDICT_SUMMARIES[verdict],
+    checks,
+    latency
+  });
+
+  console.log(`🩺 Diagnosing ${baseUrl}...`);
+
+  // 1. An HTTPS page may not fetch plain HTTP; the request would never leave the browser
+  if (window.location.protocol === 'https:') {
+    fail('mixed-content', 'mixed-content', `${window.location.origin} is HTTPS but the Pi is only reachable over HTTP`);
+    skipRemaining();
+    return finish();
+  }
+  record('mixed-content', 'pass', 'Page and Pi both use HTTP');
+
+  // 2. no-cors requests succeed for any HTTP answer, so a failure here is the network itself
+  const probe = await timedFetch(`${baseUrl}/`, { mode: 'no-cors' }, timeoutMs, signal);
+  if (probe.error) {
+    if (probe.timedOut || probe.durationMs >= FAST_FAILURE_MS) {
+      fail('reachability', 'host-unreachable', `No answer from ${host} after ${probe.durationMs}ms`, probe.durationMs);
+    } else if (IPV4.test(host)) {
+      fail('reachability', 'port-closed', `${host} refused the connection on port ${port}`, probe.durationMs);
+    } else {
+      fail('reachability', 'host-unreachable', `${host} did not resolve, or refused port ${port}`, probe.durationMs);
+    }
+    skipRemaining();
+    return finish();
+  }
+  record('reachability', 'pass', `${host}:${port} answered`, probe.durationMs);
+
+  latency = await measureLatency(`${baseUrl}/`, pings, timeoutMs, signal);
+
+  // 3. Same request in cors mode: a failure now means the browser refused to hand us the response
+  const api = await timedFetch(`${baseUrl}/api`, {}, timeoutMs, signal);
+  if (api.error) {
+    fail('cors', 'cors', `The browser blocked the response to ${window.location.origin}`, api.durationMs);
+    skipRemaining();
+    return finish();
+  }
+  record('cors', 'pass', `Responses are allowed for ${window.location.origin}`, api.durationMs);
+
+  // 4. Is it actually our backend?
+  const discovery = ApiDiscoverySchema.safeParse(await api.response.json().catch(() => null));
+  if (!discovery.success || !(discovery.data.features || /smart\s*monitor/i.test(discovery.data.message))) {
+    fail('backend', 'not-smart-monitor', `GET /api returned HTTP ${api.response.status} without a Smart Monitor manifest`);
+    skipRemaining();
+    return finish();
+  }
+  record('backend', 'pass', `${discovery.data.message} ${discovery.data.version}`);
+
+  // 5. Backend up, but is the Pi behind it?
+  const status = await timedFetch(`${baseUrl}/api/pi/status`, {}, timeoutMs, signal);
+  const piStatus = status.response?.ok
+    ? PiStatusSchema.safeParse(await status.response.json().catch(() => null))
+    : null;
+  if (!piStatus?.success) {
+    fail('pi-status', 'pi-disconnected', 'GET /api/pi/status did not return a valid status', status.durationMs);
+  } else if (!piStatus.data.connected) {
+    fail('pi-status', 'pi-disconnected', piStatus.data.error || 'Backend reports the Pi as disconnected', status.durationMs);
+  } else {
+    record('pi-status', 'pass', 'Backend reports the Pi as connected', status.durationMs);
+  }
+
+  // 6. Paired clients are listed only for a valid token
+  if (!authToken) {
+    record('auth', 'warn', 'This device is not paired; controls will be rejected');
+  } else {
+    const clients = await timedFetch(
+      `${baseUrl}/api/pair/clients`,
+      { headers: { Authorization: `Bearer ${authToken}` } },
+      timeoutMs,
+      signal
+    );
+    if (clients.response?.status === 401 || clients.response?.status === 403) {
+      fail('auth', 'auth-failed', `Token rejected with HTTP ${clients.response.status}`, clients.durationMs);
+    } else if (clients.response?.ok) {
+      record('auth', 'pass', 'Pairing token accepted', clients.durationMs);
+    } else {
+      record('auth', 'warn', `Could not verify the token (${clients.response ? `HTTP ${clients.response.status}` : 'no answer'})`, clients.durationMs);
+    }
+  }
+
+  return finish();
+}
+
+// Sequential pings so they don't queue behind each other
+async function measureLatency(url: string, pings: number, timeoutMs: number, signal?: AbortSignal): Promise<LatencyStats> {
+  const samples: number[] = [];
+  let sent = 0;
+  for (; sent < pings && !signal?.aborted; sent++) {
+    const ping = await timedFetch(url, { mode: 'no-cors', cache: 'no-store' }, timeoutMs, signal);
+    if (!ping.error) samples.push(ping.durationMs);
+  }
+  return latencyStats(samples, sent);
+}
@@ -0,0 +1,136 @@
+// Live event stream from the Smart Monitor backend (GET /api/events)
+import {
+  PiEventEnvelopeSchema,
+  PiEventSchemas,
+  formatValidationIssues,
+  type PiEventMap,
+  type PiEventType,
+} from './piSchemas';
+
+export type EventStreamStatus = 'idle' | 'connecting' | 'open' | 'error';
+
+type EventListener<K extends PiEventType> = (data: PiEventMap[K]) => void;
+type StatusListener = (status: EventStreamStatus) => void;
+
+// One EventSource shared by every subscriber. It is only open while something
+// is subscribed, and follows the backend piClient is connected to.
+export class PiEventStream {
+  private source: EventSource | null = null;
+  private baseUrl = '';
+  private sourceUrl = '';
+  private status: EventStreamStatus = 'idle';
+  private listeners = new Map<PiEventType, Set<EventListener<PiEventType>>>();
+  private statusListeners = new Set<StatusListener>();
+
+  // `getAuthToken` supplies the paired client's token; the backend only streams to paired clients
+  constructor(private readonly getAuthToken: () => string | undefined = () => undefined) {}
+
+  // Retarget the stream; an empty base URL means the same origin (Vite proxy).
+  // A changed token (e.g. after pairing again) reopens it as well.
+  setBaseUrl(baseUrl: string): void {
+    this.baseUrl = baseUrl;
+    if (this.source && this.streamUrl() !== this.sourceUrl) {
+      this.close();
+      this.open();
+    }
+  }
+
+  getStatus(): EventStreamStatus {
+    return this.status;
+  }
+
+  // Returns an unsubscribe function
+  subscribe<K extends PiEventType>(type: K, listener: EventListener<K>): () => void {
+    const listeners = this.listeners.get(type) ?? new Set();
+    listeners.add(listener as EventListener<PiEventType>);
+    this.listeners.set(type, listeners);
+    this.open();
+
+    return () => {
+      listeners.delete(listener as EventListener<PiEventType>);
+      if (listeners.size === 0 && this.listeners.get(type) === listeners) {
+        this.listeners.delete(type);
+      }
+      if (this.listeners.size === 0) {
+        this.close();
+      }
+    };
+  }
+
+  // Stream status changes; 'open' is a good moment to re-sync state missed while disconnected
+  subscribeStatus(listener: StatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  private open(): void {
+    if (this.source || typeof EventSource === 'undefined') return;
+
+    this.sourceUrl = this.streamUrl();
+    const source = new EventSource(this.sourceUrl);
+    this.source = source;
+    this.setStatus('connecting');
+
+    source.onopen = () => {
+      console.log('📡 Event stream connected');
+      this.setStatus('open');
+    };
+
+    // EventSource reconnects on its own; only report the interruption
+    source.onerror = () => {
+      this.setStatus(source.readyState === EventSource.CLOSED ? 'error' : 'connecting');
+    };
+
+    source.onmessage = (message) => this.dispatch(message.data);
+  }
+
+  // EventSource cannot send an Authorization header, so the token goes in the query
+  private streamUrl(): string {
+    const token = this.getAuthToken();
+    return `${this.baseUrl}/api/events${token ? `?token=${encodeURIComponent(token)}` : ''}`;
+  }
+
+  private close(): void {
+    if (!this.source) return;
+    this.source.close();
+    this.source = null;
+    this.setStatus('idle');
+  }
+
+  private dispatch(raw: string): void {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(raw);
+    } catch {
+      console.warn('⚠️ Ignoring non-JSON event:', raw);
+      return;
+    }
+
+    const envelope = PiEventEnvelopeSchema.safeParse(payload);
+    if (!envelope.success) {
+      console.warn(`⚠️ Invalid event envelope: ${formatValidationIssues(envelope.error)}`);
+      return;
+    }
+
+    const type = envelope.data.type as PiEventType;
+    const listeners = this.listeners.get(type);
+    // Unknown or unsubscribed event types are skipped
+    if (!listeners || !(type in PiEventSchemas)) return;
+
+    const data = PiEventSchemas[type].safeParse(envelope.data.data);
+    if (!data.success) {
+      console.warn(`⚠️ Invalid ${type} event: ${formatValidationIssues(data.error)}`);
+      return;
+    }
+
+    listeners.forEach((listener) => listener(data.data));
+  }
+
+  private setStatus(status: EventStreamStatus): void {
+    if (status === this.status) return;
+    this.status = status;
+    this.statusListeners.forEach((listener) => listener(status));
+  }
+}
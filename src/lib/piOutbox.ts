@@ -0,0 +1,155 @@
+// Persistent outbox for commands sent while the Pi is unreachable. Queuing is
+// opt-in (Settings); with it off those commands fail like any other.
+import { z } from 'zod';
+import type { PiOperation } from './piRoutes';
+
+// Only commands that are safe to apply late belong here. Shutdown, reboot and
+// anything else destructive must fail immediately instead.
+export const QUEUEABLE_OPERATIONS = [
+  'setBrightness',
+  'setVolume',
+  'setScreen',
+  'setWallpaper',
+  'addTodo',
+] as const satisfies readonly PiOperation[];
+
+export type QueueableOperation = (typeof QUEUEABLE_OPERATIONS)[number];
+
+export interface OutboxEntry {
+  id: string;
+  // Backend the command was sent to; it is only replayed when that Pi is back
+  baseUrl: string;
+  operation: QueueableOperation;
+  body: unknown;
+  // Entries sharing a key replace each other (last brightness wins)
+  coalesceKey: string | null;
+  queuedAt: string;
+}
+
+const STORAGE_KEY = 'smart-monitor.outbox';
+const ENABLED_STORAGE_KEY = 'smart-monitor.outbox.enabled';
+
+const StoredOutboxSchema = z.array(
+  z.object({
+    id: z.string(),
+    baseUrl: z.string(),
+    operation: z.enum(QUEUEABLE_OPERATIONS),
+    body: z.unknown(),
+    coalesceKey: z.string().nullable(),
+    queuedAt: z.string(),
+  })
+);
+
+type OutboxListener = (entries: readonly OutboxEntry[]) => void;
+
+export class PiOutbox {
+  private entries: readonly OutboxEntry[];
+  private enabled: boolean;
+  private listeners = new Set<OutboxListener>();
+
+  constructor() {
+    this.entries = this.load();
+    this.enabled = this.loadEnabled();
+  }
+
+  getEntries(): readonly OutboxEntry[] {
+    return this.entries;
+  }
+
+  // Commands waiting for one particular backend
+  getEntriesFor(baseUrl: string): readonly OutboxEntry[] {
+    return this.entries.filter((entry) => entry.baseUrl === baseUrl);
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  // Turning queuing off also drops whatever is still waiting
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    try {
+      localStorage.setItem(ENABLED_STORAGE_KEY, String(enabled));
+    } catch (error) {
+      console.warn('⚠️ Failed to persist command outbox setting:', error);
+    }
+
+    if (!enabled && this.entries.length > 0) {
+      this.update([]);
+    } else {
+      this.listeners.forEach((listener) => listener(this.entries));
+    }
+  }
+
+  // Returns an unsubscribe function
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Queue a command for `baseUrl`; a coalesced entry moves to the end so replay
+  // order follows the latest intent
+  enqueue(baseUrl: string, operation: QueueableOperation, body: unknown, coalesceKey: string | null = null): OutboxEntry {
+    const entry: OutboxEntry = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      baseUrl,
+      operation,
+      body,
+      coalesceKey,
+      queuedAt: new Date().toISOString()
+    };
+
+    const remaining = coalesceKey
+      ? this.entries.filter((queued) => queued.baseUrl !== baseUrl || queued.coalesceKey !== coalesceKey)
+      : this.entries;
+
+    this.update([...remaining, entry]);
+    console.log(`📥 Queued ${operation} for ${baseUrl} (${this.entries.length} pending)`);
+    return entry;
+  }
+
+  remove(id: string): void {
+    this.update(this.entries.filter((entry) => entry.id !== id));
+  }
+
+  clear(): void {
+    this.update([]);
+  }
+
+  private load(): readonly OutboxEntry[] {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (!stored) return [];
+
+      const parsed = StoredOutboxSchema.safeParse(JSON.parse(stored));
+      if (!parsed.success) {
+        console.warn('⚠️ Ignoring invalid command outbox in localStorage');
+        return [];
+      }
+      return parsed.data as OutboxEntry[];
+    } catch (error) {
+      console.warn('⚠️ Failed to load command outbox:', error);
+      return [];
+    }
+  }
+
+  private loadEnabled(): boolean {
+    try {
+      return localStorage.getItem(ENABLED_STORAGE_KEY) === 'true';
+    } catch {
+      return false;
+    }
+  }
+
+  private update(entries: readonly OutboxEntry[]): void {
+    this.entries = entries;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+    } catch (error) {
+      console.warn('⚠️ Failed to persist command outbox:', error);
+    }
+    this.listeners.forEach((listener) => listener(entries));
+  }
+}
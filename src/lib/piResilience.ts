@@ -0,0 +1,157 @@
+// Retry and circuit breaker policy for requests to the Smart Monitor Pi
+
+export interface RetryPolicy {
+  // Total attempts including the first one
+  attempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// Idempotent reads can safely be repeated while the Pi is busy
+export const IDEMPOTENT_RETRY: RetryPolicy = { attempts: 3, baseDelayMs: 300, maxDelayMs: 3000 };
+
+// Commands (shutdown, reboot, connect, ...) must never run twice
+export const NO_RETRY: RetryPolicy = { attempts: 1, baseDelayMs: 0, maxDelayMs: 0 };
+
+// Exponential backoff with full jitter, so clients don't retry in lockstep
+export const backoffDelay = (attempt: number, policy: RetryPolicy): number => {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+};
+
+// Timeouts and network errors (no status) and 5xx answers are worth retrying;
+// any other HTTP answer is final.
+export const isTransientFailure = (status?: number): boolean =>
+  status === undefined || status >= 500;
+
+export type BreakerState = 'closed' | 'open' | 'half-open';
+
+export interface BreakerSnapshot {
+  state: BreakerState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  lastError: string | null;
+}
+
+type BreakerListener = (snapshot: BreakerSnapshot) => void;
+
+interface BreakerOptions {
+  // Consecutive failed requests before the connection is marked degraded
+  failureThreshold: number;
+  probeIntervalMs: number;
+  probe: () => Promise<boolean>;
+}
+
+// Marks the connection degraded after repeated failures and probes it in the
+// background until it answers again. While open, requests fail fast instead
+// of piling up timeouts.
+export class PiCircuitBreaker {
+  private snapshot: BreakerSnapshot = {
+    state: 'closed',
+    consecutiveFailures: 0,
+    openedAt: null,
+    lastError: null
+  };
+  private listeners = new Set<BreakerListener>();
+  private probeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private options: BreakerOptions) {}
+
+  getSnapshot(): BreakerSnapshot {
+    return this.snapshot;
+  }
+
+  isOpen(): boolean {
+    return this.snapshot.state !== 'closed';
+  }
+
+  // Returns an unsubscribe function
+  subscribe(listener: BreakerListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  recordSuccess(): void {
+    if (this.snapshot.state === 'closed' && this.snapshot.consecutiveFailures === 0) {
+      return;
+    }
+    this.close();
+  }
+
+  recordFailure(error: string): void {
+    const consecutiveFailures = this.snapshot.consecutiveFailures + 1;
+
+    if (this.snapshot.state === 'closed' && consecutiveFailures >= this.options.failureThreshold) {
+      console.warn(`⚠️ Pi connection degraded after ${consecutiveFailures} failed requests: ${error}`);
+      this.update({
+        state: 'open',
+        consecutiveFailures,
+        openedAt: new Date().toISOString(),
+        lastError: error
+      });
+      this.scheduleProbe();
+      return;
+    }
+
+    this.update({ ...this.snapshot, consecutiveFailures, lastError: error });
+  }
+
+  // Forget all history, e.g. when connecting to a different Pi
+  reset(): void {
+    this.clearProbe();
+    this.update({ state: 'closed', consecutiveFailures: 0, openedAt: null, lastError: null });
+  }
+
+  private close(): void {
+    this.clearProbe();
+    if (this.snapshot.state !== 'closed') {
+      console.log('✅ Pi connection recovered');
+    }
+    this.update({ state: 'closed', consecutiveFailures: 0, openedAt: null, lastError: null });
+  }
+
+  private scheduleProbe(): void {
+    this.clearProbe();
+    this.probeTimer = setTimeout(() => {
+      this.probeTimer = null;
+      void this.runProbe();
+    }, this.options.probeIntervalMs);
+  }
+
+  private async runProbe(): Promise<void> {
+    this.update({ ...this.snapshot, state: 'half-open' });
+
+    let healthy = false;
+    try {
+      healthy = await this.options.probe();
+    } catch {
+      healthy = false;
+    }
+
+    // A reset while probing wins over the probe result
+    if (this.snapshot.state !== 'half-open') {
+      return;
+    }
+
+    if (healthy) {
+      this.close();
+    } else {
+      this.update({ ...this.snapshot, state: 'open' });
+      this.scheduleProbe();
+    }
+  }
+
+  private clearProbe(): void {
+    if (this.probeTimer) {
+      clearTimeout(this.probeTimer);
+      this.probeTimer = null;
+    }
+  }
+
+  private update(snapshot: BreakerSnapshot): void {
+    this.snapshot = snapshot;
+    this.listeners.forEach((listener) => listener(snapshot));
+  }
+}
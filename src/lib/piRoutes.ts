@@ -0,0 +1,70 @@
+// Logical Pi operations and the endpoint aliases each one may be served from.
+// Different backend builds expose the same feature under different paths, so
+// aliases are tried in order and the first one the backend answers is kept.
+import { IDEMPOTENT_RETRY, NO_RETRY, type RetryPolicy } from './piResilience';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+export interface RouteDefinition {
+  method: HttpMethod;
+  aliases: readonly string[];
+  // Overrides the method-based default (GETs retry, everything else doesn't)
+  retry?: RetryPolicy;
+}
+
+export const PI_ROUTES = {
+  systemStatus: { method: 'GET', aliases: ['/api/status', '/status', '/'] },
+  systemInfo: { method: 'GET', aliases: ['/api/system/info', '/api/system', '/system', '/info'] },
+  systemControlState: { method: 'GET', aliases: ['/api/system/status'] },
+  processes: { method: 'GET', aliases: ['/api/system/processes'] },
+  telemetryHistory: { method: 'GET', aliases: ['/api/system/history'] },
+  temperature: { method: 'GET', aliases: ['/api/temperature', '/temperature'] },
+  cpu: { method: 'GET', aliases: ['/api/cpu'] },
+  memory: { method: 'GET', aliases: ['/api/memory'] },
+  wallpapers: { method: 'GET', aliases: ['/api/wallpapers', '/wallpapers'] },
+  setWallpaper: { method: 'POST', aliases: ['/api/wallpapers/set', '/wallpapers/set'] },
+  bluetoothCommand: { method: 'POST', aliases: ['/api/bluetooth', '/bluetooth', '/api/controls', '/controls'] },
+  controlCommand: { method: 'POST', aliases: ['/api/controls', '/controls', '/api/bluetooth', '/bluetooth'] },
+  bluetoothStatus: { method: 'GET', aliases: ['/api/bluetooth/status', '/bluetooth/status', '/api/bluetooth', '/bluetooth'] },
+  // A scan already waits up to 15s on the Pi; repeating it only stacks scans
+  bluetoothScan: { method: 'GET', aliases: ['/bluetooth/scan'], retry: NO_RETRY },
+  bluetoothScanStart: { method: 'POST', aliases: ['/bluetooth/scan/start'] },
+  bluetoothScanStop: { method: 'POST', aliases: ['/bluetooth/scan/stop'] },
+  bluetoothPairingPrompts: { method: 'GET', aliases: ['/bluetooth/pairing/prompts'] },
+  bluetoothPairingRespond: { method: 'POST', aliases: ['/bluetooth/pairing/respond'] },
+  bluetoothKnown: { method: 'GET', aliases: ['/bluetooth/known'] },
+  bluetoothKnownReorder: { method: 'PUT', aliases: ['/bluetooth/known'] },
+  bluetoothConnected: { method: 'GET', aliases: ['/bluetooth/connected'] },
+  bluetoothDisconnect: { method: 'POST', aliases: ['/bluetooth/disconnect'] },
+  audioSinks: { method: 'GET', aliases: ['/api/audio/sinks'] },
+  setDefaultAudioSink: { method: 'POST', aliases: ['/api/audio/sinks/default'] },
+  setAudioSinkVolume: { method: 'POST', aliases: ['/api/audio/sinks/volume'] },
+  combineAudioSinks: { method: 'POST', aliases: ['/api/audio/combined'] },
+  removeCombinedAudioSink: { method: 'DELETE', aliases: ['/api/audio/combined'] },
+  setBrightness: { method: 'POST', aliases: ['/api/system/brightness'] },
+  setVolume: { method: 'POST', aliases: ['/api/system/volume'] },
+  setScreen: { method: 'POST', aliases: ['/api/system/screen'] },
+  addTodo: { method: 'POST', aliases: ['/api/todo/add'] },
+  pairedClients: { method: 'GET', aliases: ['/api/pair/clients'] },
+  spotifyStatus: { method: 'GET', aliases: ['/api/spotify/status'] },
+  spotifyPlayback: { method: 'GET', aliases: ['/api/spotify/current'] },
+} as const satisfies Record<string, RouteDefinition>;
+
+export type PiOperation = keyof typeof PI_ROUTES;
+
+export const retryPolicyFor = (operation: PiOperation): RetryPolicy => {
+  const route: RouteDefinition = PI_ROUTES[operation];
+  return route.retry ?? (route.method === 'GET' ? IDEMPOTENT_RETRY : NO_RETRY);
+};
+
+export interface ResolvedRoute {
+  operation: PiOperation;
+  method: HttpMethod;
+  aliases: readonly string[];
+  endpoint: string | null;
+}
+
+// Only "no such route" answers mean the next alias should be tried. A 5xx or
+// a timeout means the route exists but failed, so falling through would hide
+// the real error (and could run a command twice).
+export const isRouteMissing = (status?: number): boolean => status === 404 || status === 405;
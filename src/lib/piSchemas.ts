@@ -0,0 +1,1045 @@
+// Response schemas for the Smart Monitor Pi backend
+import { z } from 'zod';
+
+// The app is compiled without strictNullChecks, where z.infer marks every
+// property optional. Payload types are therefore declared explicitly and each
+// schema is typed against them.
+
+export interface SystemInfo {
+  uptime: string;
+  temperature: number;
+  version: string;
+  memoryUsage: number;
+  memory: { used: number; total: number };
+  storage: { used: number; total: number };
+  cpu: { usage: number; model: string };
+  wallpapers?: { totalCount: number; totalSize: string; available: boolean };
+  timestamp?: string;
+  lastUpdated?: string;
+}
+
+export type TelemetryMetric = 'cpu' | 'temperature' | 'memory' | 'storage';
+export type TelemetryRange = '1h' | '24h' | '7d' | '30d';
+
+// One point of a telemetry series; rollups (hour, day) carry the bucket's min and max
+export interface TelemetryPoint {
+  t: string;
+  value: number;
+  min: number;
+  max: number;
+}
+
+export interface TelemetryHistory {
+  success: boolean;
+  metric: TelemetryMetric;
+  range: TelemetryRange;
+  resolution: 'sample' | 'hour' | 'day';
+  unit: string;
+  intervalMs: number;
+  points: TelemetryPoint[];
+}
+
+// `vcgencmd get_throttled`, decoded
+export interface ThrottleFlags {
+  underVoltage: boolean;
+  frequencyCapped: boolean;
+  throttled: boolean;
+  softTempLimit: boolean;
+}
+
+export interface ThrottlingState {
+  raw: string;
+  current: ThrottleFlags;
+  // Flags that have been set at any point since boot
+  sinceBoot: ThrottleFlags;
+  // Any current flag is set
+  active: boolean;
+}
+
+export type ThermalLevel = 'normal' | 'warning' | 'critical';
+
+export interface ThermalState {
+  temperature: number | null;
+  level: ThermalLevel;
+  thresholds: { warning: number; critical: number };
+  // Null where vcgencmd is unavailable (not a Pi)
+  throttling: ThrottlingState | null;
+  checkedAt: string | null;
+}
+
+export interface PiProcess {
+  pid: number;
+  user: string;
+  // Executable name; `args` is the full command line
+  command: string;
+  args: string;
+  cpu: number;
+  memory: number;
+  rssKb: number;
+  nice: number | null;
+  uptimeSeconds: number;
+  // Protected processes (the backend, critical services) cannot be killed or reniced
+  protected: boolean;
+  protectedReason: string | null;
+}
+
+export interface ProcessList {
+  success: boolean;
+  processes: PiProcess[];
+  total: number;
+}
+
+export type ProcessAction = { type: 'kill'; signal: string } | { type: 'renice'; priority: number };
+
+// First step of a kill or renice: repeat the request with `confirmToken` to run it
+export interface ProcessActionConfirmation {
+  success: boolean;
+  confirmationRequired: true;
+  confirmToken: string;
+  expiresAt: string;
+  process: PiProcess;
+  action: ProcessAction;
+}
+
+export interface ProcessActionResult {
+  success: boolean;
+  message: string;
+  process: PiProcess;
+}
+
+// Current control settings (GET /api/system/status)
+export interface SystemControlState {
+  success: boolean;
+  volume: number;
+  muted: boolean;
+  brightness: number;
+  screenOn: boolean;
+  audioSink: string | null;
+  isBluetoothAudio: boolean;
+  thermal?: ThermalState;
+}
+
+export interface PiStatus {
+  success: boolean;
+  connected: boolean;
+  error?: string;
+  timestamp?: string;
+}
+
+export interface BluetoothDevice {
+  id: string;
+  name?: string;
+  mac?: string;
+  connected: boolean;
+  paired: boolean;
+  isAudioDevice?: boolean;
+  // Connected devices only; null when the device or adapter does not report it
+  battery?: number | null;
+  // Connection RSSI in dB relative to the adapter's golden range (0 is ideal)
+  rssi?: number | null;
+  // Active card profile (a2dp_sink, headset_head_unit, ...) and codec of audio devices
+  profile?: string | null;
+  codec?: string | null;
+}
+
+export interface BluetoothScanResult {
+  success: boolean;
+  devices: BluetoothDevice[];
+}
+
+// A device as seen by the streaming scan. `seenInScan` is false for devices
+// bluetoothctl only remembers from earlier scans.
+export interface BluetoothScanDevice {
+  id: string;
+  mac: string;
+  name: string;
+  rssi: number | null;
+  deviceClass: number | null;
+  icon: string | null;
+  isAudioDevice: boolean;
+  paired: boolean;
+  connected: boolean;
+  seenInScan: boolean;
+  lastSeenAt: string | null;
+}
+
+export interface BluetoothScanStatus {
+  success?: boolean;
+  scanning: boolean;
+  startedAt: string | null;
+  endsAt: string | null;
+  devices: BluetoothScanDevice[];
+  reason?: 'timeout' | 'stopped' | 'failed';
+  error?: string;
+}
+
+export interface BluetoothConnectedResult {
+  success: boolean;
+  connectedDevices: BluetoothDevice[];
+  currentAudioSink: string;
+  isBluetoothAudio: boolean;
+  hasConnectedAudioDevice: boolean;
+  // Battery percentage below which the Pi sends bluetooth.battery.low
+  lowBatteryThreshold?: number;
+  timestamp?: string;
+}
+
+export interface BluetoothBatteryLowEvent {
+  deviceId: string;
+  name: string;
+  battery: number;
+  threshold: number;
+}
+
+export interface BluetoothStatus {
+  success: boolean;
+  data: {
+    serviceActive: boolean;
+    connectedDevices: BluetoothDevice[];
+    audioDevices?: BluetoothDevice[];
+    currentAudioSink: string;
+    isBluetoothAudio?: boolean;
+    hasConnectedAudioDevice?: boolean;
+    error?: string;
+    timestamp?: string;
+  };
+}
+
+export interface SystemStatus {
+  success: boolean;
+  status: string;
+  name: string;
+  services: string[];
+  bluetooth: {
+    serviceActive: boolean;
+    connectedDevices: BluetoothDevice[];
+    currentAudioSink: string;
+    hasConnectedAudioDevice: boolean;
+    error?: string;
+  };
+  timestamp?: string;
+}
+
+export interface PiWallpaper {
+  id: string;
+  displayName: string;
+  fileName: string;
+  size: string;
+  resolution: string;
+  category?: string;
+  url?: string;
+  path?: string;
+  isActive: boolean;
+}
+
+export interface WallpaperList {
+  success: boolean;
+  wallpapers: PiWallpaper[];
+  totalCount: number;
+  totalSize?: string;
+  timestamp?: string;
+}
+
+export interface SpotifyStatus {
+  success: boolean;
+  connected: boolean;
+  hasRefreshToken: boolean;
+  tokenExpired: boolean;
+  expiresAt: number | null;
+}
+
+export interface SpotifyTrack {
+  id: string;
+  name: string;
+  artists: string[];
+  album: string;
+  duration: number;
+  image: string | null;
+  external_urls: { spotify: string };
+}
+
+export interface SpotifyPlayback {
+  success: boolean;
+  isPlaying: boolean;
+  progress?: number;
+  volume?: number | null;
+  shuffleState?: boolean;
+  repeatState?: 'off' | 'track' | 'context';
+  track: SpotifyTrack | null;
+  device?: { id: string | null; name: string; type: string; volume: number | null } | null;
+}
+
+// One feature of the backend and the routes that implement it
+export interface PiCapability {
+  name: string;
+  version: string;
+  routes: string[];
+}
+
+export interface ApiDiscovery {
+  success: boolean;
+  message: string;
+  version: string;
+  endpoints: string[];
+  // Missing on backends that predate the capability manifest
+  features?: PiCapability[];
+  timestamp?: string;
+}
+
+export interface PairedClient {
+  id: string;
+  name: string;
+  pairedAt: string;
+  lastSeenAt: string | null;
+}
+
+export interface PairingResult {
+  success: boolean;
+  token: string;
+  client: PairedClient;
+}
+
+export interface PairedClientList {
+  success: boolean;
+  clients: PairedClient[];
+  currentClientId: string;
+}
+
+export interface PairingCode {
+  success: boolean;
+  code: string;
+  expiresAt: string;
+  qrPayload: string;
+}
+
+// Scanned from the QR code on the monitor
+export interface PairingQrPayload {
+  host: string;
+  port: number;
+  code: string;
+}
+
+// A monitor announcing itself on the LAN (GET /api/discovery/peers)
+export interface DiscoveredPeer {
+  id: string;
+  name: string;
+  host: string | null;
+  port: number;
+  version: string;
+  capabilities: string[];
+  lastSeenAt?: string;
+}
+
+export interface DiscoveryPeers {
+  success: boolean;
+  enabled: boolean;
+  self: DiscoveredPeer;
+  peers: DiscoveredPeer[];
+}
+
+export type BluetoothConnectStepName = 'trust' | 'pair' | 'connect' | 'sink';
+
+// One step of connecting a device, published as it finishes
+export interface BluetoothConnectStep {
+  deviceId?: string;
+  step: BluetoothConnectStepName;
+  status: 'ok' | 'skipped' | 'failed';
+  detail?: string;
+}
+
+export interface BluetoothConnectedEvent {
+  connected: boolean;
+  deviceId: string;
+  deviceName?: string;
+  // null when no sink appeared for the device or the output stayed on a combined sink
+  audioSink?: string | null;
+  audioSetSuccess?: boolean;
+  wasReconnected?: boolean;
+  steps?: BluetoothConnectStep[];
+}
+
+// What a device asks the pairing agent for. The display-* types only show a
+// code to type on the device and cannot be answered.
+export type BluetoothPairingPromptType =
+  | 'confirm-passkey'
+  | 'enter-pin'
+  | 'enter-passkey'
+  | 'authorize-service'
+  | 'authorize'
+  | 'display-passkey'
+  | 'display-pin';
+
+export interface BluetoothPairingPrompt {
+  id: string;
+  deviceId: string;
+  type: BluetoothPairingPromptType;
+  passkey?: string;
+  service?: string;
+  expiresAt: string;
+}
+
+export interface BluetoothPairingResolved {
+  id: string;
+  deviceId: string;
+  accepted: boolean;
+  reason: 'answered' | 'timeout' | 'cancelled';
+}
+
+export interface BluetoothPairingPromptList {
+  success: boolean;
+  prompts: BluetoothPairingPrompt[];
+}
+
+export type AudioSinkKind = 'analog' | 'hdmi' | 'bluetooth' | 'combined' | 'other';
+
+// A PulseAudio / PipeWire output; volume is null when pactl could not read it
+export interface AudioSink {
+  name: string;
+  label: string;
+  kind: AudioSinkKind;
+  mac: string | null;
+  state: string;
+  isDefault: boolean;
+  volume: number | null;
+  muted: boolean;
+}
+
+export interface AudioSinkState {
+  sinks: AudioSink[];
+  defaultSink: string | null;
+  // The multi-speaker sink and the sinks it plays on, if one is set up
+  combined: { name: string; members: string[] } | null;
+}
+
+export interface AudioSinkList extends AudioSinkState {
+  success: boolean;
+}
+
+// A device remembered by the backend; priority 1 is tried first on auto-reconnect
+export interface KnownBluetoothDevice {
+  mac: string;
+  name: string;
+  nickname: string | null;
+  deviceType: 'audio' | 'phone' | 'computer' | 'input' | 'other';
+  priority: number;
+  autoReconnect: boolean;
+  addedAt: string;
+  lastConnectedAt: string | null;
+}
+
+export interface KnownBluetoothDeviceList {
+  success: boolean;
+  devices: KnownBluetoothDevice[];
+}
+
+export type BluetoothAudioProfileKind = 'a2dp' | 'headset' | 'off' | 'other';
+
+// A card profile: A2DP for music, HSP/HFP headset for the microphone, or off
+export interface BluetoothAudioProfile {
+  name: string;
+  description: string;
+  kind: BluetoothAudioProfileKind;
+  available: boolean;
+}
+
+// Profiles and codecs of a connected audio device. `codecs` is empty unless
+// the device is on A2DP and the sound server can switch codecs.
+export interface BluetoothAudio {
+  mac: string;
+  card: string;
+  activeProfile: string | null;
+  profiles: BluetoothAudioProfile[];
+  codec: string | null;
+  codecs: { name: string; description: string }[];
+}
+
+export interface BluetoothAudioResult {
+  success: boolean;
+  audio: BluetoothAudio;
+}
+
+export interface WallpaperChangedEvent {
+  id: string;
+  name?: string;
+  setAt: string;
+  previousWallpaper?: string;
+}
+
+// Payload of every event pushed on GET /api/events, keyed by event type
+export interface PiEventMap {
+  'system.telemetry': SystemInfo;
+  'pi.status': { connected: boolean };
+  'bluetooth.connected': BluetoothConnectedEvent;
+  'bluetooth.disconnected': { deviceIds: string[] };
+  'bluetooth.scan.started': { startedAt: string; endsAt: string };
+  'bluetooth.scan.device': BluetoothScanDevice;
+  'bluetooth.scan.lost': { id: string };
+  'bluetooth.scan.finished': BluetoothScanStatus;
+  'bluetooth.pairing.prompt': BluetoothPairingPrompt;
+  'bluetooth.pairing.resolved': BluetoothPairingResolved;
+  'bluetooth.pairing.step': BluetoothConnectStep;
+  'bluetooth.known.changed': { devices: KnownBluetoothDevice[] };
+  'bluetooth.battery.low': BluetoothBatteryLowEvent;
+  'audio.sinks.changed': AudioSinkState;
+  'system.volume': { volume: number; muted: boolean };
+  'system.brightness': { brightness: number };
+  'system.screen': { screenOn: boolean };
+  'system.thermal': ThermalState;
+  'spotify.nowPlaying': SpotifyPlayback;
+  'wallpaper.changed': WallpaperChangedEvent;
+}
+
+export type PiEventType = keyof PiEventMap;
+
+export interface PiEventEnvelope {
+  id: number;
+  type: string;
+  data: unknown;
+  timestamp: string;
+}
+
+export interface CommandResult {
+  success: boolean;
+  message?: string;
+  error?: string;
+  data?: unknown;
+  [key: string]: unknown;
+}
+
+type Schema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+// Bind a schema to its declared payload type
+const schemaFor = <T>(schema: z.ZodTypeAny): Schema<T> => schema as Schema<T>;
+
+// System information (GET /api/system/info)
+export const SystemInfoSchema = schemaFor<SystemInfo>(z.object({
+  uptime: z.string(),
+  temperature: z.number(),
+  version: z.string(),
+  memoryUsage: z.number(),
+  memory: z.object({ used: z.number(), total: z.number() }),
+  storage: z.object({ used: z.number(), total: z.number() }),
+  cpu: z.object({ usage: z.number(), model: z.string() }),
+  wallpapers: z
+    .object({
+      totalCount: z.number(),
+      totalSize: z.string(),
+      available: z.boolean(),
+    })
+    .optional(),
+  timestamp: z.string().optional(),
+  lastUpdated: z.string().optional(),
+}));
+
+// Sampled telemetry (GET /api/system/history?metric=&range=)
+export const TelemetryHistorySchema = schemaFor<TelemetryHistory>(z.object({
+  success: z.boolean(),
+  metric: z.enum(['cpu', 'temperature', 'memory', 'storage']),
+  range: z.enum(['1h', '24h', '7d', '30d']),
+  resolution: z.enum(['sample', 'hour', 'day']),
+  unit: z.string(),
+  intervalMs: z.number(),
+  points: z.array(z.object({
+    t: z.string(),
+    value: z.number(),
+    min: z.number(),
+    max: z.number(),
+  })),
+}));
+
+const throttleFlagsSchema = z.object({
+  underVoltage: z.boolean(),
+  frequencyCapped: z.boolean(),
+  throttled: z.boolean(),
+  softTempLimit: z.boolean(),
+});
+
+export const ThermalStateSchema = schemaFor<ThermalState>(z.object({
+  temperature: z.number().nullable(),
+  level: z.enum(['normal', 'warning', 'critical']),
+  thresholds: z.object({ warning: z.number(), critical: z.number() }),
+  throttling: z
+    .object({
+      raw: z.string(),
+      current: throttleFlagsSchema,
+      sinceBoot: throttleFlagsSchema,
+      active: z.boolean(),
+    })
+    .nullable(),
+  checkedAt: z.string().nullable(),
+}));
+
+// Control settings and thermal state (GET /api/system/status)
+export const SystemControlStateSchema = schemaFor<SystemControlState>(z.object({
+  success: z.boolean(),
+  volume: z.number(),
+  muted: z.boolean(),
+  brightness: z.number(),
+  screenOn: z.boolean(),
+  audioSink: z.string().nullable(),
+  isBluetoothAudio: z.boolean(),
+  thermal: ThermalStateSchema.optional(),
+}));
+
+const piProcessSchema = z.object({
+  pid: z.number(),
+  user: z.string(),
+  command: z.string(),
+  args: z.string(),
+  cpu: z.number(),
+  memory: z.number(),
+  rssKb: z.number(),
+  nice: z.number().nullable(),
+  uptimeSeconds: z.number(),
+  protected: z.boolean(),
+  protectedReason: z.string().nullable(),
+});
+
+// Top processes by CPU and memory (GET /api/system/processes)
+export const ProcessListSchema = schemaFor<ProcessList>(z.object({
+  success: z.boolean(),
+  processes: z.array(piProcessSchema),
+  total: z.number(),
+}));
+
+// POST /api/system/processes/:pid/kill and /renice without a confirmToken
+export const ProcessActionConfirmationSchema = schemaFor<ProcessActionConfirmation>(z.object({
+  success: z.boolean(),
+  confirmationRequired: z.literal(true),
+  confirmToken: z.string(),
+  expiresAt: z.string(),
+  process: piProcessSchema,
+  action: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('kill'), signal: z.string() }),
+    z.object({ type: z.literal('renice'), priority: z.number() }),
+  ]),
+}));
+
+// ... and with it
+export const ProcessActionResultSchema = schemaFor<ProcessActionResult>(z.object({
+  success: z.boolean(),
+  message: z.string(),
+  process: piProcessSchema,
+}));
+
+// Backend connection to the Pi hardware (GET /api/pi/status)
+export const PiStatusSchema = schemaFor<PiStatus>(z.object({
+  success: z.boolean(),
+  connected: z.boolean(),
+  error: z.string().optional(),
+  timestamp: z.string().optional(),
+}));
+
+// Bluetooth devices as reported by bluetoothctl
+export const BluetoothDeviceSchema = schemaFor<BluetoothDevice>(z.object({
+  id: z.string(),
+  name: z.string().optional(),
+  mac: z.string().optional(),
+  connected: z.boolean().default(false),
+  paired: z.boolean().default(false),
+  isAudioDevice: z.boolean().optional(),
+  battery: z.number().nullable().optional(),
+  rssi: z.number().nullable().optional(),
+  profile: z.string().nullable().optional(),
+  codec: z.string().nullable().optional(),
+}));
+
+// Bluetooth scan (GET /bluetooth/scan)
+export const BluetoothScanSchema = schemaFor<BluetoothScanResult>(z.object({
+  success: z.boolean(),
+  devices: z.array(BluetoothDeviceSchema),
+}));
+
+export const BluetoothScanDeviceSchema = schemaFor<BluetoothScanDevice>(z.object({
+  id: z.string(),
+  mac: z.string(),
+  name: z.string(),
+  rssi: z.number().nullable(),
+  deviceClass: z.number().nullable(),
+  icon: z.string().nullable(),
+  isAudioDevice: z.boolean(),
+  paired: z.boolean(),
+  connected: z.boolean(),
+  seenInScan: z.boolean(),
+  lastSeenAt: z.string().nullable(),
+}));
+
+// Streaming scan state (POST /bluetooth/scan/start and /bluetooth/scan/stop)
+export const BluetoothScanStatusSchema = schemaFor<BluetoothScanStatus>(z.object({
+  success: z.boolean().optional(),
+  scanning: z.boolean(),
+  startedAt: z.string().nullable(),
+  endsAt: z.string().nullable(),
+  devices: z.array(BluetoothScanDeviceSchema),
+  reason: z.enum(['timeout', 'stopped', 'failed']).optional(),
+  error: z.string().optional(),
+}));
+
+const BluetoothConnectStepSchema = schemaFor<BluetoothConnectStep>(z.object({
+  deviceId: z.string().optional(),
+  step: z.enum(['trust', 'pair', 'connect', 'sink']),
+  status: z.enum(['ok', 'skipped', 'failed']),
+  detail: z.string().optional(),
+}));
+
+export const BluetoothPairingPromptSchema = schemaFor<BluetoothPairingPrompt>(z.object({
+  id: z.string(),
+  deviceId: z.string(),
+  type: z.enum([
+    'confirm-passkey',
+    'enter-pin',
+    'enter-passkey',
+    'authorize-service',
+    'authorize',
+    'display-passkey',
+    'display-pin',
+  ]),
+  passkey: z.string().optional(),
+  service: z.string().optional(),
+  expiresAt: z.string(),
+}));
+
+// Prompts still waiting for an answer (GET /bluetooth/pairing/prompts)
+export const BluetoothPairingPromptListSchema = schemaFor<BluetoothPairingPromptList>(z.object({
+  success: z.boolean(),
+  prompts: z.array(BluetoothPairingPromptSchema),
+}));
+
+const audioSinkStateShape = {
+  sinks: z.array(z.object({
+    name: z.string(),
+    label: z.string(),
+    kind: z.enum(['analog', 'hdmi', 'bluetooth', 'combined', 'other']),
+    mac: z.string().nullable(),
+    state: z.string(),
+    isDefault: z.boolean(),
+    volume: z.number().nullable(),
+    muted: z.boolean(),
+  })),
+  defaultSink: z.string().nullable(),
+  combined: z.object({ name: z.string(), members: z.array(z.string()) }).nullable(),
+};
+
+// Outputs with their volume (GET /api/audio/sinks)
+export const AudioSinkListSchema = schemaFor<AudioSinkList>(z.object({
+  success: z.boolean(),
+  ...audioSinkStateShape,
+}));
+
+export const KnownBluetoothDeviceSchema = schemaFor<KnownBluetoothDevice>(z.object({
+  mac: z.string(),
+  name: z.string(),
+  nickname: z.string().nullable(),
+  deviceType: z.enum(['audio', 'phone', 'computer', 'input', 'other']),
+  priority: z.number(),
+  autoReconnect: z.boolean(),
+  addedAt: z.string(),
+  lastConnectedAt: z.string().nullable(),
+}));
+
+// Remembered devices in priority order (GET /bluetooth/known)
+export const KnownBluetoothDeviceListSchema = schemaFor<KnownBluetoothDeviceList>(z.object({
+  success: z.boolean(),
+  devices: z.array(KnownBluetoothDeviceSchema),
+}));
+
+// Profiles and codecs of a device (GET/PUT /bluetooth/audio/:mac)
+export const BluetoothAudioResultSchema = schemaFor<BluetoothAudioResult>(z.object({
+  success: z.boolean(),
+  audio: z.object({
+    mac: z.string(),
+    card: z.string(),
+    activeProfile: z.string().nullable(),
+    profiles: z.array(z.object({
+      name: z.string(),
+      description: z.string(),
+      kind: z.enum(['a2dp', 'headset', 'off', 'other']),
+      available: z.boolean(),
+    })),
+    codec: z.string().nullable(),
+    codecs: z.array(z.object({ name: z.string(), description: z.string() })),
+  }),
+}));
+
+// Connected Bluetooth devices (GET /bluetooth/connected)
+export const BluetoothConnectedSchema = schemaFor<BluetoothConnectedResult>(z.object({
+  success: z.boolean(),
+  connectedDevices: z.array(BluetoothDeviceSchema),
+  currentAudioSink: z.string(),
+  isBluetoothAudio: z.boolean(),
+  hasConnectedAudioDevice: z.boolean(),
+  lowBatteryThreshold: z.number().optional(),
+  timestamp: z.string().optional(),
+}));
+
+// Bluetooth service status (GET /api/bluetooth/status)
+export const BluetoothStatusSchema = schemaFor<BluetoothStatus>(z.object({
+  success: z.boolean(),
+  data: z.object({
+    serviceActive: z.boolean(),
+    connectedDevices: z.array(BluetoothDeviceSchema),
+    audioDevices: z.array(BluetoothDeviceSchema).optional(),
+    currentAudioSink: z.string(),
+    isBluetoothAudio: z.boolean().optional(),
+    hasConnectedAudioDevice: z.boolean().optional(),
+    error: z.string().optional(),
+    timestamp: z.string().optional(),
+  }),
+}));
+
+// Overall backend status (GET /api/status)
+export const SystemStatusSchema = schemaFor<SystemStatus>(z.object({
+  success: z.boolean(),
+  status: z.string(),
+  name: z.string(),
+  services: z.array(z.string()),
+  bluetooth: z.object({
+    serviceActive: z.boolean(),
+    connectedDevices: z.array(BluetoothDeviceSchema),
+    currentAudioSink: z.string(),
+    hasConnectedAudioDevice: z.boolean(),
+    error: z.string().optional(),
+  }),
+  timestamp: z.string().optional(),
+}));
+
+// Wallpapers (GET /api/wallpapers). The backend has used both `name`/`active`
+// and `displayName`/`isActive`, so both are accepted and normalized here.
+export const WallpaperSchema = schemaFor<PiWallpaper>(z
+  .object({
+    id: z.string(),
+    displayName: z.string().optional(),
+    name: z.string().optional(),
+    fileName: z.string().optional(),
+    size: z.string().optional(),
+    resolution: z.string().optional(),
+    category: z.string().optional(),
+    url: z.string().optional(),
+    preview: z.string().optional(),
+    path: z.string().optional(),
+    isActive: z.boolean().optional(),
+    active: z.boolean().optional(),
+  })
+  .refine((wallpaper) => wallpaper.displayName !== undefined || wallpaper.name !== undefined, {
+    message: 'Wallpaper must have a displayName or name',
+  })
+  .transform((wallpaper) => ({
+    id: wallpaper.id,
+    displayName: wallpaper.displayName ?? wallpaper.name,
+    fileName: wallpaper.fileName ?? `${wallpaper.id}.mp4`,
+    size: wallpaper.size ?? 'Unknown',
+    resolution: wallpaper.resolution ?? 'Unknown',
+    category: wallpaper.category,
+    url: wallpaper.url ?? wallpaper.preview,
+    path: wallpaper.path,
+    isActive: wallpaper.isActive ?? wallpaper.active ?? false,
+  })));
+
+export const WallpaperListSchema = schemaFor<WallpaperList>(z.object({
+  success: z.boolean(),
+  wallpapers: z.array(WallpaperSchema),
+  totalCount: z.number(),
+  totalSize: z.string().optional(),
+  timestamp: z.string().optional(),
+}));
+
+// Spotify connection (GET /api/spotify/status)
+export const SpotifyStatusSchema = schemaFor<SpotifyStatus>(z.object({
+  success: z.boolean(),
+  connected: z.boolean(),
+  hasRefreshToken: z.boolean(),
+  tokenExpired: z.boolean(),
+  expiresAt: z.number().nullable(),
+}));
+
+export const SpotifyTrackSchema = schemaFor<SpotifyTrack>(z.object({
+  id: z.string(),
+  name: z.string(),
+  artists: z.array(z.string()),
+  album: z.string(),
+  duration: z.number(),
+  image: z.string().nullable(),
+  external_urls: z.object({ spotify: z.string() }),
+}));
+
+// Spotify playback (GET /api/spotify/current)
+export const SpotifyPlaybackSchema = schemaFor<SpotifyPlayback>(z.object({
+  success: z.boolean(),
+  isPlaying: z.boolean(),
+  progress: z.number().optional(),
+  volume: z.number().nullable().optional(),
+  shuffleState: z.boolean().optional(),
+  repeatState: z.enum(['off', 'track', 'context']).optional(),
+  track: SpotifyTrackSchema.nullable(),
+  device: z
+    .object({
+      id: z.string().nullable(),
+      name: z.string(),
+      type: z.string(),
+      volume: z.number().nullable(),
+    })
+    .nullable()
+    .optional(),
+}));
+
+export const PiCapabilitySchema = schemaFor<PiCapability>(z.object({
+  name: z.string().min(1),
+  version: z.string(),
+  routes: z.array(z.string()),
+}));
+
+// Endpoint discovery and capability manifest (GET /api)
+export const ApiDiscoverySchema = schemaFor<ApiDiscovery>(z.object({
+  success: z.boolean(),
+  message: z.string(),
+  version: z.string(),
+  endpoints: z.array(z.string()),
+  features: z.array(PiCapabilitySchema).optional(),
+  timestamp: z.string().optional(),
+}));
+
+const PairedClientSchema = schemaFor<PairedClient>(z.object({
+  id: z.string(),
+  name: z.string(),
+  pairedAt: z.string(),
+  lastSeenAt: z.string().nullable(),
+}));
+
+// One-time code shown on the monitor (GET /api/pair/code, loopback only)
+export const PairingCodeSchema = schemaFor<PairingCode>(z.object({
+  success: z.boolean(),
+  code: z.string().regex(/^\d{6}$/),
+  expiresAt: z.string(),
+  qrPayload: z.string(),
+}));
+
+// Pairing handshake (POST /api/pair)
+export const PairingResultSchema = schemaFor<PairingResult>(z.object({
+  success: z.boolean(),
+  token: z.string().min(1),
+  client: PairedClientSchema,
+}));
+
+// Paired clients (GET /api/pair/clients)
+export const PairedClientListSchema = schemaFor<PairedClientList>(z.object({
+  success: z.boolean(),
+  clients: z.array(PairedClientSchema),
+  currentClientId: z.string(),
+}));
+
+export const PairingQrPayloadSchema = schemaFor<PairingQrPayload>(z.object({
+  host: z.string().min(1),
+  port: z.coerce.number().int().min(1).max(65535),
+  code: z.string().regex(/^\d{6}$/),
+}));
+
+const DiscoveredPeerSchema = schemaFor<DiscoveredPeer>(z.object({
+  id: z.string(),
+  name: z.string(),
+  host: z.string().nullable(),
+  port: z.number().int(),
+  version: z.string(),
+  capabilities: z.array(z.string()),
+  lastSeenAt: z.string().optional(),
+}));
+
+// LAN discovery (GET /api/discovery/peers)
+export const DiscoveryPeersSchema = schemaFor<DiscoveryPeers>(z.object({
+  success: z.boolean(),
+  enabled: z.boolean(),
+  self: DiscoveredPeerSchema,
+  peers: z.array(DiscoveredPeerSchema),
+}));
+
+// Event stream envelope (GET /api/events); `data` is validated per event type
+export const PiEventEnvelopeSchema = schemaFor<PiEventEnvelope>(z.object({
+  id: z.number(),
+  type: z.string(),
+  data: z.unknown(),
+  timestamp: z.string(),
+}));
+
+export const PiEventSchemas: { [K in PiEventType]: Schema<PiEventMap[K]> } = {
+  'system.telemetry': SystemInfoSchema,
+  'pi.status': schemaFor<PiEventMap['pi.status']>(z.object({ connected: z.boolean() })),
+  'bluetooth.connected': schemaFor<BluetoothConnectedEvent>(z.object({
+    connected: z.boolean(),
+    deviceId: z.string(),
+    deviceName: z.string().optional(),
+    audioSink: z.string().nullable().optional(),
+    audioSetSuccess: z.boolean().optional(),
+    wasReconnected: z.boolean().optional(),
+    steps: z.array(BluetoothConnectStepSchema).optional(),
+  })),
+  'bluetooth.disconnected': schemaFor<PiEventMap['bluetooth.disconnected']>(z.object({
+    deviceIds: z.array(z.string()),
+  })),
+  'bluetooth.scan.started': schemaFor<PiEventMap['bluetooth.scan.started']>(z.object({
+    startedAt: z.string(),
+    endsAt: z.string(),
+  })),
+  'bluetooth.scan.device': BluetoothScanDeviceSchema,
+  'bluetooth.scan.lost': schemaFor<PiEventMap['bluetooth.scan.lost']>(z.object({ id: z.string() })),
+  'bluetooth.scan.finished': BluetoothScanStatusSchema,
+  'bluetooth.pairing.prompt': BluetoothPairingPromptSchema,
+  'bluetooth.pairing.resolved': schemaFor<BluetoothPairingResolved>(z.object({
+    id: z.string(),
+    deviceId: z.string(),
+    accepted: z.boolean(),
+    reason: z.enum(['answered', 'timeout', 'cancelled']),
+  })),
+  'bluetooth.pairing.step': BluetoothConnectStepSchema,
+  'bluetooth.known.changed': schemaFor<PiEventMap['bluetooth.known.changed']>(z.object({
+    devices: z.array(KnownBluetoothDeviceSchema),
+  })),
+  'bluetooth.battery.low': schemaFor<BluetoothBatteryLowEvent>(z.object({
+    deviceId: z.string(),
+    name: z.string(),
+    battery: z.number(),
+    threshold: z.number(),
+  })),
+  'audio.sinks.changed': schemaFor<AudioSinkState>(z.object(audioSinkStateShape)),
+  'system.volume': schemaFor<PiEventMap['system.volume']>(z.object({
+    volume: z.number(),
+    muted: z.boolean(),
+  })),
+  'system.brightness': schemaFor<PiEventMap['system.brightness']>(z.object({ brightness: z.number() })),
+  'system.screen': schemaFor<PiEventMap['system.screen']>(z.object({ screenOn: z.boolean() })),
+  'system.thermal': ThermalStateSchema,
+  'spotify.nowPlaying': SpotifyPlaybackSchema,
+  'wallpaper.changed': schemaFor<WallpaperChangedEvent>(z.object({
+    id: z.string(),
+    name: z.string().optional(),
+    setAt: z.string(),
+    previousWallpaper: z.string().optional(),
+  })),
+};
+
+// Generic acknowledgement returned by command and control routes
+export const CommandResultSchema = schemaFor<CommandResult>(z
+  .object({
+    success: z.boolean(),
+    message: z.string().optional(),
+    error: z.string().optional(),
+    data: z.unknown().optional(),
+  })
+  .passthrough());
+
+// Describe every issue in a failed parse as "path: message" for error reporting
+export const formatValidationIssues = (error: z.ZodError): string =>
+  error.issues
+    .map((issue) => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('; ');
+
+// Validate a payload fetched outside piClient (e.g. through the Vite proxy)
+export const parsePiPayload = <S extends z.ZodTypeAny>(
+  schema: S,
+  payload: unknown,
+  source: string
+): z.infer<S> => {
+  const result = schema.safeParse(payload);
+  if (!result.success) {
+    throw new Error(`Invalid response from ${source}: ${formatValidationIssues(result.error)}`);
+  }
+  return result.data;
+};
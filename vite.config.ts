@@ -13,6 +13,8 @@ export default defineConfig(({ mode }) => ({
         target: process.env.VITE_API_URL || 'http://localhost:5000',
         changeOrigin: true,
         secure: false,
+        // Lets the backend tell the monitor's own browser from remote clients
+        xfwd: true,
         logLevel: 'debug',
       },
     },